@@ -6,8 +6,11 @@ import helmet from "helmet";
 import hpp from "hpp";
 import corsOptions from "./config/cors.config";
 import { Env } from "./config/env.config";
+import { authenticate, protectFromCsrf } from "./middlewares/auth.middleware";
 import { handleError } from "./middlewares/error.middleware";
+import authRoutes from "./routes/authRoutes";
 import mapRoutes from "./routes/mapRoutes";
+import shareRoutes from "./routes/shareRoutes";
 
 // Express application
 const app: Application = express();
@@ -39,8 +42,15 @@ app.get("/", (req: Request, res: Response) => {
   res.send("Hello, World!");
 });
 
+// Attach the signed-in user (if any) to every request
+app.use(authenticate);
+// Cookie-authenticated requests changing data must come from the frontend
+app.use(protectFromCsrf);
+
 //API Routes
+app.use(`${Env.BASE_PATH}/auth`, authRoutes);
 app.use(`${Env.BASE_PATH}/map`, mapRoutes);
+app.use(`${Env.BASE_PATH}/share`, shareRoutes);
 
 app.use(handleError);
 
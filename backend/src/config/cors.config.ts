@@ -39,7 +39,7 @@ const corsOptions: CorsOptions = {
           .split(",")
           .map((o: string) => o.trim()),
   methods: ["GET", "POST", "PUT", "DELETE", "PATCH"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
   credentials: true,
   maxAge: 86400, // 24 hours
   exposedHeaders: ["Authorization"],
@@ -1,10 +1,10 @@
-import getEnv from "../utils/get-env";
+import getEnv, { getIntegerEnv } from "../utils/get-env";
 import logger from "../utils/logger";
 
 const envConfig = () => {
   const config = {
     NODE_ENV: getEnv("NODE_ENV", "development"),
-    PORT: parseInt(getEnv("PORT", "8000")),
+    PORT: getIntegerEnv("PORT", 8000),
     LOG_LEVEL: getEnv("LOG_LEVEL", "info"),
 
     ALLOWED_ORIGINS: getEnv("ALLOWED_ORIGINS", "http://localhost:5173").split(
@@ -16,9 +16,52 @@ const envConfig = () => {
     // MongoDB Configuration
     MONGODB_URI: getEnv("MONGODB_URI", ""),
 
+    // Authentication: signed JWTs are sent in an httpOnly cookie
+    // (or as a Bearer token). The secret is required in production.
+    JWT_SECRET: getEnv(
+      "JWT_SECRET",
+      process.env.NODE_ENV === "production"
+        ? undefined
+        : "dev-only-insecure-jwt-secret"
+    ),
+    JWT_EXPIRES_IN: getEnv("JWT_EXPIRES_IN", "7d"),
+    AUTH_COOKIE_NAME: getEnv("AUTH_COOKIE_NAME", "token"),
+
+    // LLM provider selection: gemini | openai | fixture
+    LLM_PROVIDER: getEnv("LLM_PROVIDER", "gemini"),
+    // Re-prompts allowed when the model output fails validation
+    LLM_MAX_REPAIR_ATTEMPTS: getIntegerEnv("LLM_MAX_REPAIR_ATTEMPTS", 2),
+
     // Gemini API Configuration
     GEMINI_API_KEY: getEnv("GEMINI_API_KEY", ""),
     GEMINI_MODEL: getEnv("GEMINI_MODEL", "gemini-pro"),
+
+    // OpenAI-compatible API Configuration (OpenAI, llama.cpp, Ollama, ...)
+    OPENAI_BASE_URL: getEnv("OPENAI_BASE_URL", "http://localhost:8080/v1"),
+    OPENAI_API_KEY: getEnv("OPENAI_API_KEY", ""),
+    OPENAI_MODEL: getEnv("OPENAI_MODEL", "gpt-4o-mini"),
+    OPENAI_TIMEOUT_MS: getIntegerEnv("OPENAI_TIMEOUT_MS", 120000, 1),
+
+    // Generated maps reused for identical requests: how long they are kept
+    // (0 disables the cache) and how many are kept at most
+    GENERATION_CACHE_TTL_MINUTES: getIntegerEnv(
+      "GENERATION_CACHE_TTL_MINUTES",
+      60
+    ),
+    GENERATION_CACHE_MAX_ENTRIES: getIntegerEnv(
+      "GENERATION_CACHE_MAX_ENTRIES",
+      200,
+      1
+    ),
+
+    // Resource link checking: how often the background job runs (0 disables
+    // it), how old a map's last check may get, and the per-request timeout
+    LINK_CHECK_INTERVAL_MINUTES: getIntegerEnv(
+      "LINK_CHECK_INTERVAL_MINUTES",
+      0
+    ),
+    LINK_CHECK_MAX_AGE_HOURS: getIntegerEnv("LINK_CHECK_MAX_AGE_HOURS", 168),
+    LINK_CHECK_TIMEOUT_MS: getIntegerEnv("LINK_CHECK_TIMEOUT_MS", 10000, 1),
   };
 
   // Update logger level after Env is initialized
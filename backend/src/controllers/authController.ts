@@ -0,0 +1,147 @@
+/**
+ * Controller for account registration and sign-in
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { Env } from "../config/env.config";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  getUserById,
+  registerUser,
+  verifyUserCredentials,
+} from "../services/authService";
+import { User } from "../types";
+import logger from "../utils/logger";
+import { signAccessToken } from "../utils/token.util";
+import { validateRequestData } from "../utils/validation.util";
+
+const EmailSchema = z.string().trim().toLowerCase().max(254).pipe(z.email());
+
+// Validation schema for registration
+const RegisterSchema = z.object({
+  email: EmailSchema,
+  password: z.string().min(8).max(128),
+  name: z.string().trim().min(1).max(80).optional(),
+});
+
+// Validation schema for sign-in (password rules are only enforced on registration)
+const LoginSchema = z.object({
+  email: EmailSchema,
+  password: z.string().min(1).max(128),
+});
+
+// The auth cookie is sent cross-site in production (separately hosted frontend);
+// cross-site request forgery is prevented by protectFromCsrf instead
+const isProduction = Env.NODE_ENV === "production";
+const authCookieOptions = {
+  httpOnly: true,
+  secure: isProduction,
+  sameSite: isProduction ? "none" : "lax",
+  path: "/",
+};
+
+/**
+ * Issues an access token for the user, sets it as the auth cookie and
+ * sends the user together with the token (for Bearer clients)
+ */
+function sendSession(res: Response, user: User, statusCode: number): void {
+  const { token, expiresAt } = signAccessToken({
+    id: user._id,
+    email: user.email,
+  });
+
+  res.cookie(Env.AUTH_COOKIE_NAME, token, {
+    ...authCookieOptions,
+    expires: expiresAt,
+  });
+
+  res.status(statusCode).json({
+    success: true,
+    data: { user, token, expiresAt },
+  });
+}
+
+/**
+ * POST /api/auth/register
+ * Creates an account and signs it in
+ */
+export async function register(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const request = validateRequestData(RegisterSchema, req.body, "register");
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const user = await registerUser(request);
+
+    sendSession(res, user, 201);
+  } catch (error) {
+    logger.error("Error registering user:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/auth/login
+ * Signs in with email and password
+ */
+export async function login(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const credentials = validateRequestData(LoginSchema, req.body, "login");
+    if (credentials instanceof AppError) {
+      return next(credentials);
+    }
+
+    const user = await verifyUserCredentials(credentials);
+
+    logger.info(`User ${user._id} signed in`);
+
+    sendSession(res, user, 200);
+  } catch (error) {
+    logger.error("Error signing in:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/auth/logout
+ * Clears the auth cookie
+ */
+export async function logout(req: Request, res: Response): Promise<void> {
+  res.clearCookie(Env.AUTH_COOKIE_NAME, authCookieOptions);
+
+  res.status(200).json({
+    success: true,
+    data: null,
+  });
+}
+
+/**
+ * GET /api/auth/me
+ * Returns the signed-in user, or null for anonymous requests
+ */
+export async function getCurrentUser(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const user = req.user ? await getUserById(req.user.id) : null;
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    logger.error("Error retrieving current user:", error);
+    next(error);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Controller for flashcards generated from a map and their Anki export
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  exportFlashcardDeck,
+  generateFlashcardDeck,
+  getFlashcardDeck,
+} from "../services/flashcardService";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+import { FlashcardExportFormatSchema } from "../validations/learningMap.schema";
+
+// Validation schema for export query parameters
+const ExportFlashcardsQuerySchema = z.object({
+  format: FlashcardExportFormatSchema.default("csv"),
+});
+
+/**
+ * GET /api/map/:id/flashcards
+ * Retrieves the stored flashcards of a map (null when none were generated)
+ */
+export async function getFlashcards(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const deck = await getFlashcardDeck(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: deck,
+    });
+  } catch (error) {
+    logger.error("Error retrieving flashcards:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/flashcards
+ * Generates flashcards for every subtopic, replacing the stored ones
+ */
+export async function generateFlashcards(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    logger.info(`Generating flashcards for learning map ${id}`);
+
+    const deck = await generateFlashcardDeck(id);
+
+    res.status(200).json({
+      success: true,
+      data: deck,
+    });
+  } catch (error) {
+    logger.error("Error generating flashcards:", error);
+    next(error);
+  }
+}
+
+/**
+ * GET /api/map/:id/flashcards/export?format=csv|tsv|apkg
+ * Downloads the stored flashcards as an Anki deck
+ */
+export async function exportFlashcards(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const query = validateRequestData(
+      ExportFlashcardsQuerySchema,
+      req.query,
+      "flashcard export"
+    );
+    if (query instanceof AppError) {
+      return next(query);
+    }
+
+    logger.debug(
+      `Exporting flashcards of learning map ${id} as ${query.format}`
+    );
+
+    const file = await exportFlashcardDeck(id, query.format);
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${file.filename}"`
+    );
+    res.status(200).send(file.content);
+  } catch (error) {
+    logger.error("Error exporting flashcards:", error);
+    next(error);
+  }
+}
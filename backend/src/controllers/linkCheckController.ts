@@ -0,0 +1,33 @@
+/**
+ * Controller for checking the resource links of learning maps
+ */
+import { type Request, type Response } from "express";
+import { checkLearningMapLinks } from "../services/linkCheckService";
+import logger from "../utils/logger";
+
+/**
+ * POST /api/map/:id/links/check
+ * Checks whether every resource link of a map still resolves and returns the
+ * map with the result stored on each resource
+ */
+export async function checkMapLinks(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    logger.info(`Checking resource links of learning map ${id}`);
+
+    const learningMap = await checkLearningMapLinks(id);
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error checking learning map links:", error);
+    next(error);
+  }
+}
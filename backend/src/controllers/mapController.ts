@@ -3,20 +3,92 @@
  */
 import { type Request, type Response } from "express";
 import { z } from "zod";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
 import { AppError } from "../middlewares/error.middleware";
-import { createLearningMap, getLearningMapById } from "../services/mapService";
-import { GenerateMapRequest, LearningLevel } from "../types";
+import {
+  createLearningMap,
+  createLearningMapStream,
+  expandLearningMapNode,
+  findLearningMapNodeResources,
+  getLearningMapById,
+  listLearningMaps,
+  regenerateLearningMapBranch,
+  replaceLearningMapResource,
+} from "../services/mapService";
+import { GenerateMapRequest } from "../types";
 import logger from "../utils/logger";
+import { openEventStream } from "../utils/sse.util";
+import { validateRequestData } from "../utils/validation.util";
+import {
+  LearningLevelSchema,
+  MapTagSchema,
+} from "../validations/learningMap.schema";
 
 // Validation schema for generate map request
 const GenerateMapSchema = z.object({
   topic: z.string().min(1).max(200),
-  level: z.enum(["Beginner", "Intermediate", "Advanced"]),
+  level: LearningLevelSchema,
+  // Query strings (GET stream) pass tags comma-separated
+  tags: z
+    .preprocess(
+      (value) => (typeof value === "string" ? value.split(",") : value),
+      z.array(MapTagSchema).max(10)
+    )
+    .transform((tags) => [...new Set(tags)])
+    .optional(),
+  // Skip the generation cache; query strings pass "true"
+  fresh: z
+    .preprocess(
+      (value) => (typeof value === "string" ? value === "true" : value),
+      z.boolean()
+    )
+    .optional(),
+});
+
+// Dates without a time, as sent by date inputs (e.g. 2025-01-31)
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validation schema for list maps query parameters
+const ListMapsQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  level: LearningLevelSchema.optional(),
+  tag: MapTagSchema.optional(),
+  from: z.coerce.date().optional(),
+  // A date without a time includes the whole day (UTC), up to its last millisecond
+  to: z
+    .preprocess(
+      (value) =>
+        typeof value === "string" && DATE_ONLY_PATTERN.test(value)
+          ? new Date(Date.parse(value) + 24 * 60 * 60 * 1000 - 1)
+          : value,
+      z.coerce.date()
+    )
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  cursor: z.string().min(1).optional(),
+  // "true" lists the maps of the signed-in user instead of anonymous maps
+  mine: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+// Validation schema for regenerate branch request
+const RegenerateBranchSchema = z.object({
+  hint: z.string().trim().max(500).optional(),
 });
 
+/**
+ * Validates generate map input, returning the parsed data or a validation error
+ */
+function parseGenerateMapRequest(data: unknown): GenerateMapRequest | AppError {
+  return validateRequestData(GenerateMapSchema, data, "map generation");
+}
+
 /**
  * POST /api/map/generate
  * Generates a new learning map for the given topic and level
+ * Signed-in users own the generated map; otherwise it is saved anonymously
  */
 export async function generateMap(
   req: Request,
@@ -25,37 +97,32 @@ export async function generateMap(
 ): Promise<void> {
   try {
     // Validate request body
-    const validationResult = GenerateMapSchema.safeParse(req.body);
-
-    if (!validationResult.success) {
-      const errorDetails = validationResult.error.issues.map((issue) => ({
-        path: issue.path.join("."),
-        message: issue.message,
-      }));
-
-      logger.warn("Invalid request data for map generation", {
-        errors: errorDetails,
-      });
-      return next(
-        AppError.validationError("Invalid request data", {
-          errors: errorDetails,
-        })
-      );
+    const request = parseGenerateMapRequest(req.body);
+    if (request instanceof AppError) {
+      return next(request);
     }
 
-    const { topic, level } = validationResult.data as GenerateMapRequest;
+    const { topic, level, tags, fresh } = request;
 
     logger.info(`Generating learning map for topic: ${topic}, level: ${level}`);
 
     // Generate learning map
-    const learningMap = await createLearningMap(topic, level, true);
+    const { learningMap, cached } = await createLearningMap(
+      topic,
+      level,
+      { tags, ownerId: req.user?.id },
+      true,
+      { fresh }
+    );
 
     logger.info(`Successfully generated learning map for topic: ${topic}`);
 
-    // Return the generated map
+    // Return the generated map; cached tells whether an identical request's
+    // generation was reused
     res.status(200).json({
       success: true,
       data: learningMap,
+      cached,
     });
   } catch (error) {
     logger.error("Error generating learning map:", error);
@@ -63,6 +130,105 @@ export async function generateMap(
   }
 }
 
+/**
+ * GET/POST /api/map/generate/stream
+ * Generates a new learning map and streams branches and subtopics as Server-Sent Events
+ * Events: "branch", "subtopic", "done" (with the saved map ID and whether
+ * the generation was reused from the cache) and "error"
+ */
+export async function generateMapStream(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  // GET requests (EventSource) pass parameters in the query string
+  const request = parseGenerateMapRequest(
+    req.method === "GET" ? req.query : req.body
+  );
+  if (request instanceof AppError) {
+    return next(request);
+  }
+
+  const { topic, level, tags = [], fresh } = request;
+  const stream = openEventStream(res);
+
+  try {
+    logger.info(`Streaming learning map for topic: ${topic}, level: ${level}`);
+
+    const { learningMap, cached } = await createLearningMapStream(
+      topic,
+      level,
+      { tags, ownerId: req.user?.id },
+      (event) => stream.send(event.type, event),
+      { fresh, signal: stream.signal }
+    );
+
+    logger.info(`Successfully streamed learning map for topic: ${topic}`);
+
+    stream.send("done", { id: learningMap._id, map: learningMap, cached });
+  } catch (error) {
+    if (stream.isClosed()) {
+      logger.info(
+        `Client disconnected; stopped streaming learning map for topic: ${topic}`
+      );
+      return;
+    }
+
+    // Headers are already sent, so errors are reported as a stream event
+    logger.error("Error streaming learning map:", error);
+    stream.send("error", {
+      message:
+        error instanceof AppError
+          ? error.message
+          : "Failed to generate learning map",
+      statusCode: error instanceof AppError ? error.statusCode : 500,
+    });
+  } finally {
+    stream.close();
+  }
+}
+
+/**
+ * GET /api/map
+ * Lists saved learning maps with search, filters and cursor pagination
+ * Anonymous maps are listed by default; mine=true lists the signed-in user's maps
+ */
+export async function listMaps(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const query = validateRequestData(
+      ListMapsQuerySchema,
+      req.query,
+      "map listing"
+    );
+    if (query instanceof AppError) {
+      return next(query);
+    }
+
+    if (query.mine && !req.user) {
+      return next(
+        AppError.fromErrorCode(
+          ErrorCodeEnum.UNAUTHORIZED,
+          "Sign in to list your maps"
+        )
+      );
+    }
+
+    const page = await listLearningMaps(query, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    logger.error("Error listing learning maps:", error);
+    next(error);
+  }
+}
+
 /**
  * GET /api/map/:id
  * Retrieves a saved learning map by ID
@@ -100,3 +266,153 @@ export async function getMapById(
     next(error);
   }
 }
+
+/**
+ * POST /api/map/:id/nodes/:path/expand
+ * Generates child subtopics for one subtopic and returns the updated map
+ */
+export async function expandMapNode(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+
+    logger.info(`Expanding node ${path} of learning map ${id}`);
+
+    const learningMap = await expandLearningMapNode(id, path, req.user?.id);
+
+    logger.info(`Successfully expanded node ${path} of learning map ${id}`);
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error expanding learning map node:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/nodes/:path/find-resources
+ * Adds resources suggested by the model to one subtopic and returns the updated map
+ */
+export async function findMapNodeResources(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+
+    logger.info(`Finding resources for node ${path} of learning map ${id}`);
+
+    const learningMap = await findLearningMapNodeResources(
+      id,
+      path,
+      req.user?.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error finding resources for learning map node:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/nodes/:path/resources/:resourceIndex/replace
+ * Replaces one resource of a subtopic (usually a broken link) with one
+ * suggested by the model and returns the updated map
+ */
+export async function replaceMapResource(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path, resourceIndex } = req.params;
+
+    if (!/^\d+$/.test(resourceIndex)) {
+      return next(
+        AppError.emptyOrInvalidData(`Invalid resource index: ${resourceIndex}`)
+      );
+    }
+
+    logger.info(
+      `Replacing resource ${resourceIndex} of node ${path} of learning map ${id}`
+    );
+
+    const learningMap = await replaceLearningMapResource(
+      id,
+      path,
+      parseInt(resourceIndex, 10),
+      req.user?.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error replacing learning map resource:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/branches/:branchIndex/regenerate
+ * Regenerates one branch (optionally guided by a hint) and returns the updated map
+ */
+export async function regenerateMapBranch(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, branchIndex } = req.params;
+
+    if (!/^\d+$/.test(branchIndex)) {
+      return next(
+        AppError.emptyOrInvalidData(`Invalid branch index: ${branchIndex}`)
+      );
+    }
+
+    const request = validateRequestData(
+      RegenerateBranchSchema,
+      req.body ?? {},
+      "branch regeneration"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const { hint } = request;
+
+    logger.info(`Regenerating branch ${branchIndex} of learning map ${id}`);
+
+    const learningMap = await regenerateLearningMapBranch(
+      id,
+      parseInt(branchIndex, 10),
+      hint || undefined,
+      req.user?.id
+    );
+
+    logger.info(
+      `Successfully regenerated branch ${branchIndex} of learning map ${id}`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error regenerating learning map branch:", error);
+    next(error);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Controller for manual edits to branches, subtopics and resources of a saved map
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  addLearningMapNode,
+  addNodeResource,
+  deleteLearningMapNode,
+  deleteNodeResource,
+  updateLearningMapNode,
+  updateNodeResource,
+} from "../services/mapEditService";
+import { LearningMap } from "../types";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+import { LearningResourceSchema } from "../validations/learningMap.schema";
+
+// Title and description limits for user-edited nodes
+const NodeTitleSchema = z.string().trim().min(1).max(200);
+const NodeDescriptionSchema = z.string().trim().min(1).max(2000);
+
+// Validation schema for updating a branch or subtopic
+const UpdateNodeSchema = z
+  .object({
+    title: NodeTitleSchema.optional(),
+    description: NodeDescriptionSchema.optional(),
+    position: z.number().int().min(0).optional(),
+  })
+  .refine((changes) => Object.values(changes).some((v) => v !== undefined), {
+    message: "Provide at least one of title, description or position",
+  });
+
+// Validation schema for adding a branch or subtopic
+const CreateNodeSchema = z.object({
+  title: NodeTitleSchema,
+  description: NodeDescriptionSchema,
+  resources: z.array(LearningResourceSchema).max(10).default([]),
+  index: z.number().int().min(0).optional(),
+});
+
+// Validation schema for updating a resource
+const UpdateResourceSchema = LearningResourceSchema.partial().refine(
+  (changes) => Object.values(changes).some((v) => v !== undefined),
+  { message: "Provide at least one of type, title or url" }
+);
+
+// Validation schema for resource route parameters
+const ResourceParamsSchema = z.object({
+  id: z.string().min(1),
+  path: z.string().min(1),
+  resourceIndex: z.coerce.number().int().min(0),
+});
+
+/**
+ * Sends the edited map in the standard response shape
+ */
+function sendEditedMap(res: Response, learningMap: LearningMap): void {
+  res.status(200).json({
+    success: true,
+    data: learningMap,
+  });
+}
+
+/**
+ * PATCH /api/map/:id/nodes/:path
+ * Renames, re-describes and/or moves a branch or subtopic
+ */
+export async function updateMapNode(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+    const changes = validateRequestData(
+      UpdateNodeSchema,
+      req.body,
+      "node update"
+    );
+    if (changes instanceof AppError) {
+      return next(changes);
+    }
+
+    logger.info(`Updating node ${path} of learning map ${id}`);
+
+    sendEditedMap(
+      res,
+      await updateLearningMapNode(id, path, changes, req.user?.id)
+    );
+  } catch (error) {
+    logger.error("Error updating learning map node:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/branches
+ * Adds a branch to a map
+ */
+export async function addMapBranch(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const request = validateRequestData(
+      CreateNodeSchema,
+      req.body,
+      "branch creation"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const { index, ...node } = request;
+
+    logger.info(`Adding branch "${node.title}" to learning map ${id}`);
+
+    sendEditedMap(
+      res,
+      await addLearningMapNode(id, undefined, node, index, req.user?.id)
+    );
+  } catch (error) {
+    logger.error("Error adding learning map branch:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/nodes/:path/children
+ * Adds a subtopic under a branch or subtopic
+ */
+export async function addMapSubtopic(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+    const request = validateRequestData(
+      CreateNodeSchema,
+      req.body,
+      "subtopic creation"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const { index, ...node } = request;
+
+    logger.info(
+      `Adding subtopic "${node.title}" under node ${path} of map ${id}`
+    );
+
+    sendEditedMap(
+      res,
+      await addLearningMapNode(id, path, node, index, req.user?.id)
+    );
+  } catch (error) {
+    logger.error("Error adding learning map subtopic:", error);
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/map/:id/nodes/:path
+ * Deletes a branch or subtopic together with its children
+ */
+export async function deleteMapNode(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+
+    logger.info(`Deleting node ${path} of learning map ${id}`);
+
+    sendEditedMap(res, await deleteLearningMapNode(id, path, req.user?.id));
+  } catch (error) {
+    logger.error("Error deleting learning map node:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/nodes/:path/resources
+ * Adds a resource to a subtopic
+ */
+export async function addMapResource(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+    const resource = validateRequestData(
+      LearningResourceSchema,
+      req.body,
+      "resource creation"
+    );
+    if (resource instanceof AppError) {
+      return next(resource);
+    }
+
+    logger.info(`Adding resource to node ${path} of learning map ${id}`);
+
+    sendEditedMap(res, await addNodeResource(id, path, resource, req.user?.id));
+  } catch (error) {
+    logger.error("Error adding learning map resource:", error);
+    next(error);
+  }
+}
+
+/**
+ * PATCH /api/map/:id/nodes/:path/resources/:resourceIndex
+ * Updates the type, title and/or URL of a resource
+ */
+export async function updateMapResource(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const params = validateRequestData(
+      ResourceParamsSchema,
+      req.params,
+      "resource update"
+    );
+    if (params instanceof AppError) {
+      return next(params);
+    }
+    const changes = validateRequestData(
+      UpdateResourceSchema,
+      req.body,
+      "resource update"
+    );
+    if (changes instanceof AppError) {
+      return next(changes);
+    }
+
+    const { id, path, resourceIndex } = params;
+
+    logger.info(
+      `Updating resource ${resourceIndex} of node ${path} of map ${id}`
+    );
+
+    sendEditedMap(
+      res,
+      await updateNodeResource(id, path, resourceIndex, changes, req.user?.id)
+    );
+  } catch (error) {
+    logger.error("Error updating learning map resource:", error);
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/map/:id/nodes/:path/resources/:resourceIndex
+ * Removes a resource from a subtopic
+ */
+export async function deleteMapResource(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const params = validateRequestData(
+      ResourceParamsSchema,
+      req.params,
+      "resource deletion"
+    );
+    if (params instanceof AppError) {
+      return next(params);
+    }
+
+    const { id, path, resourceIndex } = params;
+
+    logger.info(
+      `Deleting resource ${resourceIndex} of node ${path} of map ${id}`
+    );
+
+    sendEditedMap(
+      res,
+      await deleteNodeResource(id, path, resourceIndex, req.user?.id)
+    );
+  } catch (error) {
+    logger.error("Error deleting learning map resource:", error);
+    next(error);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Controller for exporting learning maps to files and importing them back
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  exportLearningMap,
+  importLearningMap,
+} from "../services/mapFileService";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+import {
+  MapExportFormatSchema,
+  MapFileFormatSchema,
+  MermaidVariantSchema,
+} from "../validations/learningMap.schema";
+
+// Validation schema for export query parameters
+const ExportMapQuerySchema = z.object({
+  format: MapExportFormatSchema.default("json"),
+  // PDF only: "true" adds progress checkboxes (ticked for signed-in users)
+  checkboxes: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  // Mermaid only: diagram type
+  variant: MermaidVariantSchema.optional(),
+});
+
+// Validation schema for import request
+const ImportMapSchema = z.object({
+  format: MapFileFormatSchema,
+  content: z.string().min(1).max(100_000),
+});
+
+/**
+ * GET /api/map/:id/export?format=json|md|opml|mm|xmind|pdf|mermaid|dot
+ * Downloads a map as a file (PDF: printable study guide; Mermaid and DOT:
+ * diagram of the hierarchy)
+ */
+export async function exportMap(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const query = validateRequestData(
+      ExportMapQuerySchema,
+      req.query,
+      "map export"
+    );
+    if (query instanceof AppError) {
+      return next(query);
+    }
+
+    logger.debug(`Exporting learning map ${id} as ${query.format}`);
+
+    const file = await exportLearningMap(id, query.format, {
+      checkboxes: query.checkboxes,
+      userId: req.user?.id,
+      mermaidVariant: query.variant,
+    });
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${file.filename}"`
+    );
+    res.status(200).send(file.content);
+  } catch (error) {
+    logger.error("Error exporting learning map:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/import
+ * Imports an exported file as a new map (owned by the signed-in user, or anonymous)
+ */
+export async function importMap(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const request = validateRequestData(
+      ImportMapSchema,
+      req.body,
+      "map import"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const learningMap = await importLearningMap(
+      request.format,
+      request.content,
+      req.user?.id
+    );
+
+    logger.info(`Imported learning map ${learningMap._id}`);
+
+    res.status(201).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error importing learning map:", error);
+    next(error);
+  }
+}
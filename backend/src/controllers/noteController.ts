@@ -0,0 +1,69 @@
+/**
+ * Controller for personal notes on map nodes
+ * Routes require a signed-in user (see requireAuth)
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import { getMapNotes, updateNodeNote } from "../services/noteService";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+
+// Validation schema for setting the note on one node (markdown)
+const UpdateNodeNoteSchema = z.object({
+  content: z.string().max(10000),
+});
+
+/**
+ * GET /api/map/:id/notes
+ * Retrieves the signed-in user's notes on a map
+ */
+export async function getNotes(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const notes = await getMapNotes(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: notes,
+    });
+  } catch (error) {
+    logger.error("Error retrieving notes:", error);
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/map/:id/notes/:path
+ * Sets (or, when blank, removes) the signed-in user's note on one node
+ */
+export async function updateNote(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+    const request = validateRequestData(
+      UpdateNodeNoteSchema,
+      req.body,
+      "note update"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const notes = await updateNodeNote(req.user!.id, id, path, request.content);
+
+    res.status(200).json({
+      success: true,
+      data: notes,
+    });
+  } catch (error) {
+    logger.error("Error updating note:", error);
+    next(error);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Controller for per-user learning progress on map nodes
+ * Routes require a signed-in user (see requireAuth)
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import { getMapProgress, updateMapProgress } from "../services/progressService";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+import { ProgressStatusSchema } from "../validations/learningMap.schema";
+
+const NodePathSchema = z.string().regex(/^\d+(\.\d+)*$/, "Invalid node path");
+
+// Validation schema for setting the status of one node
+const UpdateNodeProgressSchema = z.object({
+  status: ProgressStatusSchema,
+});
+
+// Validation schema for setting the status of several nodes at once
+const UpdateProgressSchema = z.object({
+  updates: z
+    .array(z.object({ path: NodePathSchema, status: ProgressStatusSchema }))
+    .min(1)
+    .max(500),
+});
+
+/**
+ * GET /api/map/:id/progress
+ * Retrieves the signed-in user's progress on a map
+ */
+export async function getProgress(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const progress = await getMapProgress(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: progress,
+    });
+  } catch (error) {
+    logger.error("Error retrieving learning progress:", error);
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/map/:id/progress/:path
+ * Sets the signed-in user's status on one node
+ */
+export async function updateNodeProgress(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id, path } = req.params;
+    const request = validateRequestData(
+      UpdateNodeProgressSchema,
+      req.body,
+      "progress update"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const progress = await updateMapProgress(req.user!.id, id, [
+      { path, status: request.status },
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: progress,
+    });
+  } catch (error) {
+    logger.error("Error updating learning progress:", error);
+    next(error);
+  }
+}
+
+/**
+ * PATCH /api/map/:id/progress
+ * Sets the signed-in user's status on several nodes
+ */
+export async function updateProgress(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const request = validateRequestData(
+      UpdateProgressSchema,
+      req.body,
+      "progress update"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const progress = await updateMapProgress(
+      req.user!.id,
+      req.params.id,
+      request.updates
+    );
+
+    res.status(200).json({
+      success: true,
+      data: progress,
+    });
+  } catch (error) {
+    logger.error("Error updating learning progress:", error);
+    next(error);
+  }
+}
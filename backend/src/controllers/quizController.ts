@@ -0,0 +1,161 @@
+/**
+ * Controller for branch quizzes and the signed-in user's attempts at them
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  generateBranchQuiz,
+  getBranchQuiz,
+  getQuizPerformance,
+  submitQuizAttempt,
+} from "../services/quizService";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+import {
+  LEARNING_MAP_LIMITS,
+  QuizAnswerSchema,
+} from "../validations/learningMap.schema";
+
+// Validation schema for an attempt: one answer per question, in order
+const SubmitQuizAttemptSchema = z.object({
+  answers: z
+    .array(QuizAnswerSchema)
+    .min(1)
+    .max(LEARNING_MAP_LIMITS.quizQuestions.max),
+});
+
+/**
+ * Parses the :branchIndex route parameter
+ * Returns the index, or an AppError when it is not a non-negative integer
+ */
+function parseBranchIndex(branchIndex: string): number | AppError {
+  return /^\d+$/.test(branchIndex)
+    ? parseInt(branchIndex, 10)
+    : AppError.emptyOrInvalidData(`Invalid branch index: ${branchIndex}`);
+}
+
+/**
+ * GET /api/map/:id/branches/:branchIndex/quiz
+ * Retrieves the stored quiz of a branch (null when none was generated)
+ */
+export async function getQuiz(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const branchIndex = parseBranchIndex(req.params.branchIndex);
+    if (branchIndex instanceof AppError) {
+      return next(branchIndex);
+    }
+
+    const quiz = await getBranchQuiz(req.params.id, branchIndex);
+
+    res.status(200).json({
+      success: true,
+      data: quiz,
+    });
+  } catch (error) {
+    logger.error("Error retrieving quiz:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/branches/:branchIndex/quiz
+ * Generates a quiz on a branch, replacing the stored one
+ */
+export async function generateQuiz(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const branchIndex = parseBranchIndex(req.params.branchIndex);
+    if (branchIndex instanceof AppError) {
+      return next(branchIndex);
+    }
+
+    logger.info(
+      `Generating quiz for branch ${branchIndex} of learning map ${id}`
+    );
+
+    const quiz = await generateBranchQuiz(id, branchIndex);
+
+    res.status(200).json({
+      success: true,
+      data: quiz,
+    });
+  } catch (error) {
+    logger.error("Error generating quiz:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/branches/:branchIndex/quiz/attempts
+ * Scores the signed-in user's answers and updates their progress on the
+ * subtopics the quiz covers
+ */
+export async function submitQuiz(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const branchIndex = parseBranchIndex(req.params.branchIndex);
+    if (branchIndex instanceof AppError) {
+      return next(branchIndex);
+    }
+
+    const request = validateRequestData(
+      SubmitQuizAttemptSchema,
+      req.body,
+      "quiz attempt"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const attempt = await submitQuizAttempt(
+      req.user!.id,
+      id,
+      branchIndex,
+      request.answers
+    );
+
+    res.status(200).json({
+      success: true,
+      data: attempt,
+    });
+  } catch (error) {
+    logger.error("Error submitting quiz attempt:", error);
+    next(error);
+  }
+}
+
+/**
+ * GET /api/map/:id/quiz-results
+ * Summarizes the signed-in user's latest quiz results per subtopic, including
+ * the weak areas to review
+ */
+export async function getQuizResults(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const performance = await getQuizPerformance(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: performance,
+    });
+  } catch (error) {
+    logger.error("Error retrieving quiz results:", error);
+    next(error);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Controller for learning map revision history requests
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import { restoreLearningMapRevision } from "../services/mapService";
+import {
+  diffMapRevisions,
+  getMapRevision,
+  listMapRevisions,
+} from "../services/revisionService";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+
+// Revision numbers start at 1 for the generated map
+const RevisionNumberSchema = z.coerce.number().int().min(1);
+
+// Validation schema for revision route parameters
+const RevisionParamsSchema = z.object({
+  id: z.string().min(1),
+  revision: RevisionNumberSchema,
+});
+
+// Validation schema for diff query parameters
+const RevisionDiffQuerySchema = z.object({
+  from: RevisionNumberSchema,
+  to: RevisionNumberSchema,
+});
+
+/**
+ * GET /api/map/:id/revisions
+ * Lists the revisions of a map, newest first
+ */
+export async function getMapRevisions(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    logger.debug(`Listing revisions of learning map ${id}`);
+
+    const revisions = await listMapRevisions(id);
+
+    res.status(200).json({
+      success: true,
+      data: revisions,
+    });
+  } catch (error) {
+    logger.error("Error listing learning map revisions:", error);
+    next(error);
+  }
+}
+
+/**
+ * GET /api/map/:id/revisions/:revision
+ * Retrieves one revision including the full map snapshot
+ */
+export async function getMapRevisionByNumber(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const params = validateRequestData(
+      RevisionParamsSchema,
+      req.params,
+      "revision lookup"
+    );
+    if (params instanceof AppError) {
+      return next(params);
+    }
+
+    logger.debug(`Retrieving revision ${params.revision} of map ${params.id}`);
+
+    const revision = await getMapRevision(params.id, params.revision);
+
+    res.status(200).json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    logger.error("Error retrieving learning map revision:", error);
+    next(error);
+  }
+}
+
+/**
+ * GET /api/map/:id/revisions/diff?from=1&to=2
+ * Compares two revisions at branch, subtopic and resource granularity
+ */
+export async function getMapRevisionDiff(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const query = validateRequestData(
+      RevisionDiffQuerySchema,
+      req.query,
+      "revision diff"
+    );
+    if (query instanceof AppError) {
+      return next(query);
+    }
+
+    logger.debug(
+      `Comparing revisions ${query.from} and ${query.to} of map ${id}`
+    );
+
+    const diff = await diffMapRevisions(id, query.from, query.to);
+
+    res.status(200).json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    logger.error("Error comparing learning map revisions:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/revisions/:revision/restore
+ * Restores an earlier revision and returns the updated map
+ */
+export async function restoreMapRevision(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const params = validateRequestData(
+      RevisionParamsSchema,
+      req.params,
+      "revision restore"
+    );
+    if (params instanceof AppError) {
+      return next(params);
+    }
+
+    logger.info(`Restoring revision ${params.revision} of map ${params.id}`);
+
+    const learningMap = await restoreLearningMapRevision(
+      params.id,
+      params.revision,
+      req.user?.id
+    );
+
+    logger.info(
+      `Successfully restored revision ${params.revision} of map ${params.id}`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error restoring learning map revision:", error);
+    next(error);
+  }
+}
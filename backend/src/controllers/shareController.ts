@@ -0,0 +1,125 @@
+/**
+ * Controller for share links and visibility settings of learning maps
+ */
+import { type Request, type Response } from "express";
+import { z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  getSharedLearningMap,
+  revokeLearningMapShareSlug,
+  rotateLearningMapShareSlug,
+  updateLearningMapVisibility,
+} from "../services/shareService";
+import logger from "../utils/logger";
+import { validateRequestData } from "../utils/validation.util";
+import { MapVisibilitySchema } from "../validations/learningMap.schema";
+
+// Validation schema for updating sharing settings
+const UpdateSharingSchema = z.object({
+  visibility: MapVisibilitySchema,
+});
+
+/**
+ * GET /api/share/:slug
+ * Retrieves a read-only learning map through its share link
+ */
+export async function getSharedMap(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { slug } = req.params;
+
+    logger.debug(`Retrieving shared learning map ${slug}`);
+
+    const learningMap = await getSharedLearningMap(slug);
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error retrieving shared learning map:", error);
+    next(error);
+  }
+}
+
+/**
+ * PATCH /api/map/:id/sharing
+ * Sets the visibility of a map (owner only)
+ */
+export async function updateMapSharing(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const request = validateRequestData(
+      UpdateSharingSchema,
+      req.body,
+      "sharing update"
+    );
+    if (request instanceof AppError) {
+      return next(request);
+    }
+
+    const learningMap = await updateLearningMapVisibility(
+      id,
+      request.visibility
+    );
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error updating learning map sharing:", error);
+    next(error);
+  }
+}
+
+/**
+ * POST /api/map/:id/sharing/slug
+ * Issues a new share slug, invalidating the previous link (owner only)
+ */
+export async function rotateMapShareSlug(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const learningMap = await rotateLearningMapShareSlug(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error rotating learning map share slug:", error);
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/map/:id/sharing/slug
+ * Revokes the share link (owner only)
+ */
+export async function revokeMapShareSlug(
+  req: Request,
+  res: Response,
+  next: any
+): Promise<void> {
+  try {
+    const learningMap = await revokeLearningMapShareSlug(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: learningMap,
+    });
+  } catch (error) {
+    logger.error("Error revoking learning map share slug:", error);
+    next(error);
+  }
+}
@@ -3,15 +3,23 @@ export const ErrorCodeEnum = {
   VALIDATION_ERROR: "VALIDATION_ERROR",
   INVALID_INPUT: "INVALID_INPUT",
 
+  // Authentication and Authorization Errors
+  UNAUTHORIZED: "UNAUTHORIZED",
+  INVALID_CREDENTIALS: "INVALID_CREDENTIALS",
+  FORBIDDEN: "FORBIDDEN",
+  EMAIL_ALREADY_REGISTERED: "EMAIL_ALREADY_REGISTERED",
+
   // Rate Limiting Errors
   TOO_MANY_REQUESTS: "TOO_MANY_REQUESTS",
 
   // Database Errors
   DATABASE_QUERY_ERROR: "DATABASE_QUERY_ERROR",
+  MAP_REVISION_CONFLICT: "MAP_REVISION_CONFLICT",
 
   // External Service Errors (for Gemini API)
   EXTERNAL_SERVICE_ERROR: "EXTERNAL_SERVICE_ERROR",
   EXTERNAL_SERVICE_TIMEOUT: "EXTERNAL_SERVICE_TIMEOUT",
+  MODEL_RESPONSE_INVALID: "MODEL_RESPONSE_INVALID",
 
   // System Errors
   INTERNAL_SERVER_ERROR: "INTERNAL_SERVER_ERROR",
@@ -0,0 +1,49 @@
+import {
+  BranchStudyContext,
+  ExpandNodeContext,
+  GeneratedFlashcard,
+  LearningLevel,
+  LearningMap,
+  LearningMapStreamListener,
+  LearningResource,
+  MainBranch,
+  QuizQuestion,
+  RegenerateBranchContext,
+  ReplaceResourceContext,
+  SubTopic,
+} from "../types";
+
+// Names of the LLM providers that can be selected through LLM_PROVIDER
+export type LearningMapProviderName = "gemini" | "openai" | "fixture";
+
+// Interface defining the contract every LLM provider must fulfil
+export interface LearningMapProvider {
+  readonly name: LearningMapProviderName;
+  readonly model: string;
+  generateLearningMap(
+    topic: string,
+    level: LearningLevel
+  ): Promise<LearningMap>;
+  // Generates a learning map while reporting branches and subtopics as they are parsed
+  // Aborting the signal stops the model call and rejects with the abort reason
+  streamLearningMap(
+    topic: string,
+    level: LearningLevel,
+    onEvent: LearningMapStreamListener,
+    signal?: AbortSignal
+  ): Promise<LearningMap>;
+  // Generates child subtopics for a single subtopic of an existing map
+  expandSubtopic(context: ExpandNodeContext): Promise<SubTopic[]>;
+  // Suggests resources for a subtopic in addition to the ones it lists
+  findResources(context: ExpandNodeContext): Promise<LearningResource[]>;
+  // Suggests a working resource in place of a subtopic's broken one
+  replaceResource(context: ReplaceResourceContext): Promise<LearningResource>;
+  // Generates a replacement for one branch while keeping the others fixed
+  regenerateBranch(context: RegenerateBranchContext): Promise<MainBranch>;
+  // Generates question/answer flashcards for the subtopics of one branch
+  generateFlashcards(
+    context: BranchStudyContext
+  ): Promise<GeneratedFlashcard[]>;
+  // Generates multiple-choice and short-answer questions on one branch
+  generateQuiz(context: BranchStudyContext): Promise<QuizQuestion[]>;
+}
@@ -0,0 +1,19 @@
+import { type NextFunction, type Request, type Response } from "express";
+import { assertLearningMapAccess } from "../services/mapService";
+import { MapAccess } from "../types";
+
+// Create a middleware that checks the signed-in user may read or modify the
+// map addressed by the :id route parameter
+// Maps owned by another user are reported as not found
+// Parameters: access - "read" for views, "write" for changes
+// Returns Express middleware
+export const authorizeMapAccess =
+  (access: MapAccess) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await assertLearningMapAccess(req.params.id, req.user?.id, access);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
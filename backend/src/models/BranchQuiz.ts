@@ -0,0 +1,89 @@
+/**
+ * MongoDB schema for the quizzes generated for the branches of a map
+ * One quiz per branch; regenerating replaces the stored questions
+ * Quizzes are stored by the branch's subdocument _id, so they stay with the
+ * branch when branches are moved
+ */
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { BranchQuiz } from "../types";
+
+export interface BranchQuizDocument
+  extends
+    Document,
+    Omit<BranchQuiz, "mapId" | "branchIndex" | "outdated" | "createdAt"> {
+  mapId: Types.ObjectId;
+  branchId: Types.ObjectId;
+  createdAt: Date;
+}
+
+const QuizQuestionSchema = new Schema({
+  type: {
+    type: String,
+    enum: ["multiple-choice", "short-answer"],
+    required: true,
+  },
+  // Dot-separated node path of the subtopic, see utils/nodePath.util.ts
+  path: {
+    type: String,
+    required: true,
+  },
+  question: {
+    type: String,
+    required: true,
+  },
+  // Multiple-choice questions only
+  options: {
+    type: [String],
+    default: undefined,
+  },
+  correctIndex: {
+    type: Number,
+  },
+  // Short-answer questions only
+  answer: {
+    type: String,
+  },
+  explanation: {
+    type: String,
+    required: true,
+  },
+});
+
+const BranchQuizSchema = new Schema<BranchQuizDocument>({
+  mapId: {
+    type: Schema.Types.ObjectId,
+    ref: "LearningMap",
+    required: true,
+  },
+  branchId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  branchTitle: {
+    type: String,
+    required: true,
+  },
+  revision: {
+    type: Number,
+    required: true,
+  },
+  questions: {
+    type: [QuizQuestionSchema],
+    default: [],
+  },
+  generatedBy: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+BranchQuizSchema.index({ mapId: 1, branchId: 1 }, { unique: true });
+
+export const BranchQuizModel = mongoose.model<BranchQuizDocument>(
+  "BranchQuiz",
+  BranchQuizSchema
+);
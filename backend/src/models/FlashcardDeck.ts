@@ -0,0 +1,62 @@
+/**
+ * MongoDB schema for the flashcards generated for a map
+ * One deck per map; regenerating replaces the stored cards
+ */
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { FlashcardDeck } from "../types";
+
+export interface FlashcardDeckDocument
+  extends Document, Omit<FlashcardDeck, "mapId" | "createdAt"> {
+  mapId: Types.ObjectId;
+  createdAt: Date;
+}
+
+const FlashcardSchema = new Schema({
+  // Dot-separated node path of the subtopic, see utils/nodePath.util.ts
+  path: {
+    type: String,
+    required: true,
+  },
+  branch: {
+    type: String,
+    required: true,
+  },
+  question: {
+    type: String,
+    required: true,
+  },
+  answer: {
+    type: String,
+    required: true,
+  },
+});
+
+const FlashcardDeckSchema = new Schema<FlashcardDeckDocument>({
+  mapId: {
+    type: Schema.Types.ObjectId,
+    ref: "LearningMap",
+    required: true,
+    unique: true,
+  },
+  revision: {
+    type: Number,
+    required: true,
+  },
+  cards: {
+    type: [FlashcardSchema],
+    default: [],
+  },
+  generatedBy: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export const FlashcardDeckModel = mongoose.model<FlashcardDeckDocument>(
+  "FlashcardDeck",
+  FlashcardDeckSchema
+);
@@ -1,19 +1,27 @@
 /**
  * MongoDB schema for storing generated learning maps
  */
-import mongoose, { Document, Schema } from "mongoose";
-import { LearningLevel, LearningMap } from "../types";
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { LearningMap } from "../types";
+import {
+  LearningLevelSchema,
+  MapVisibilitySchema,
+  ResourceTypeSchema,
+} from "../validations/learningMap.schema";
 
 export interface LearningMapDocument
-  extends Document,
-    Omit<LearningMap, "createdAt"> {
+  extends
+    Document,
+    Omit<LearningMap, "_id" | "ownerId" | "createdAt" | "updatedAt"> {
+  ownerId: Types.ObjectId | null;
   createdAt: Date;
+  updatedAt?: Date;
 }
 
 const LearningResourceSchema = new Schema({
   type: {
     type: String,
-    enum: ["article", "video", "book"],
+    enum: ResourceTypeSchema.options,
     required: true,
   },
   title: {
@@ -24,6 +32,26 @@ const LearningResourceSchema = new Schema({
     type: String,
     required: true,
   },
+  // Result of the latest link check, see services/linkCheckService.ts
+  linkCheck: {
+    type: new Schema(
+      {
+        status: {
+          type: String,
+          enum: ["ok", "broken"],
+          required: true,
+        },
+        httpStatus: Number,
+        reason: String,
+        checkedAt: {
+          type: Date,
+          required: true,
+        },
+      },
+      { _id: false }
+    ),
+    required: false,
+  },
 });
 
 const SubTopicSchema = new Schema({
@@ -60,6 +88,18 @@ const MainBranchSchema = new Schema({
   },
 });
 
+// Link between two subtopics by node path, see utils/prerequisite.util.ts
+const PrerequisiteSchema = new Schema({
+  from: {
+    type: String,
+    required: true,
+  },
+  to: {
+    type: String,
+    required: true,
+  },
+});
+
 const LearningMapSchema = new Schema<LearningMapDocument>({
   topic: {
     type: String,
@@ -68,20 +108,82 @@ const LearningMapSchema = new Schema<LearningMapDocument>({
   },
   level: {
     type: String,
-    enum: ["Beginner", "Intermediate", "Advanced"],
+    enum: LearningLevelSchema.options,
     required: true,
   },
   branches: {
     type: [MainBranchSchema],
     required: true,
   },
+  prerequisites: {
+    type: [PrerequisiteSchema],
+    default: [],
+  },
+  tags: {
+    type: [String],
+    default: [],
+    index: true,
+  },
+  // null for maps generated anonymously
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    default: null,
+    index: true,
+  },
+  visibility: {
+    type: String,
+    enum: MapVisibilitySchema.options,
+    default: "private",
+  },
+  shareSlug: {
+    type: String,
+  },
+  revision: {
+    type: Number,
+    default: 0,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
     index: true,
   },
+  updatedAt: {
+    type: Date,
+  },
+  // Last time the link checker visited the map's resources
+  linksCheckedAt: {
+    type: Date,
+    index: true,
+  },
 });
 
+// Full-text search across the topic, branch titles and subtopic descriptions
+LearningMapSchema.index(
+  {
+    topic: "text",
+    "branches.title": "text",
+    "branches.subtopics.description": "text",
+  },
+  {
+    name: "learning_map_text_search",
+    weights: {
+      topic: 10,
+      "branches.title": 5,
+      "branches.subtopics.description": 1,
+    },
+  }
+);
+
+// Share links resolve by slug; maps without a link have no shareSlug field
+LearningMapSchema.index(
+  { shareSlug: 1 },
+  { unique: true, partialFilterExpression: { shareSlug: { $type: "string" } } }
+);
+
+// Supports newest-first cursor pagination of anonymous maps and of a user's maps
+LearningMapSchema.index({ ownerId: 1, createdAt: -1, _id: -1 });
+
 export const LearningMapModel = mongoose.model<LearningMapDocument>(
   "LearningMap",
   LearningMapSchema
@@ -0,0 +1,72 @@
+/**
+ * MongoDB schema for the revision history of learning maps
+ * Every change to a map stores a full snapshot so any revision can be restored
+ */
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { MapRevision } from "../types";
+
+export interface MapRevisionDocument
+  extends
+    Document,
+    Omit<MapRevision, "_id" | "mapId" | "userId" | "createdAt"> {
+  mapId: Types.ObjectId;
+  userId?: Types.ObjectId;
+  createdAt: Date;
+}
+
+const MapRevisionSchema = new Schema<MapRevisionDocument>({
+  mapId: {
+    type: Schema.Types.ObjectId,
+    ref: "LearningMap",
+    required: true,
+  },
+  revision: {
+    type: Number,
+    required: true,
+  },
+  action: {
+    type: String,
+    enum: [
+      "created",
+      "imported",
+      "node-expanded",
+      "branch-regenerated",
+      "resources-found",
+      "resource-replaced",
+      "edited",
+      "restored",
+    ],
+    required: true,
+  },
+  summary: {
+    type: String,
+    required: true,
+  },
+  source: {
+    type: String,
+    enum: ["model", "user"],
+    required: true,
+  },
+  details: {
+    type: Schema.Types.Mixed,
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  snapshot: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+MapRevisionSchema.index({ mapId: 1, revision: -1 }, { unique: true });
+
+export const MapRevisionModel = mongoose.model<MapRevisionDocument>(
+  "MapRevision",
+  MapRevisionSchema
+);
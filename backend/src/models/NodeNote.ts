@@ -0,0 +1,46 @@
+/**
+ * MongoDB schema for personal notes of a user on the nodes of a map
+ * Notes are markdown and private to the user who wrote them
+ */
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface NodeNoteDocument extends Document {
+  userId: Types.ObjectId;
+  mapId: Types.ObjectId;
+  // Dot-separated node path, see utils/nodePath.util.ts
+  path: string;
+  content: string;
+  updatedAt: Date;
+}
+
+const NodeNoteSchema = new Schema<NodeNoteDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  mapId: {
+    type: Schema.Types.ObjectId,
+    ref: "LearningMap",
+    required: true,
+  },
+  path: {
+    type: String,
+    required: true,
+  },
+  content: {
+    type: String,
+    required: true,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+NodeNoteSchema.index({ userId: 1, mapId: 1, path: 1 }, { unique: true });
+
+export const NodeNoteModel = mongoose.model<NodeNoteDocument>(
+  "NodeNote",
+  NodeNoteSchema
+);
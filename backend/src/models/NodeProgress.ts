@@ -0,0 +1,49 @@
+/**
+ * MongoDB schema for per-user learning progress on the nodes of a map
+ * Only started nodes are stored; missing entries mean "not-started"
+ */
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { ProgressStatus } from "../types";
+import { ProgressStatusSchema } from "../validations/learningMap.schema";
+
+export interface NodeProgressDocument extends Document {
+  userId: Types.ObjectId;
+  mapId: Types.ObjectId;
+  // Dot-separated node path, see utils/nodePath.util.ts
+  path: string;
+  status: ProgressStatus;
+  updatedAt: Date;
+}
+
+const NodeProgressSchema = new Schema<NodeProgressDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  mapId: {
+    type: Schema.Types.ObjectId,
+    ref: "LearningMap",
+    required: true,
+  },
+  path: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ProgressStatusSchema.options,
+    required: true,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+NodeProgressSchema.index({ userId: 1, mapId: 1, path: 1 }, { unique: true });
+
+export const NodeProgressModel = mongoose.model<NodeProgressDocument>(
+  "NodeProgress",
+  NodeProgressSchema
+);
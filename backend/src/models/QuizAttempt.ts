@@ -0,0 +1,67 @@
+/**
+ * MongoDB schema for scored attempts at branch quizzes
+ * Attempts are kept as history; the latest one per branch drives weak areas
+ */
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { QuizAttempt } from "../types";
+
+export interface QuizAttemptDocument
+  extends Document, Omit<QuizAttempt, "mapId" | "branchIndex" | "createdAt"> {
+  userId: Types.ObjectId;
+  mapId: Types.ObjectId;
+  // Subdocument _id of the branch, see models/BranchQuiz.ts
+  branchId: Types.ObjectId;
+  createdAt: Date;
+}
+
+const QuizQuestionResultSchema = new Schema({
+  // Dot-separated node path of the subtopic, see utils/nodePath.util.ts
+  path: {
+    type: String,
+    required: true,
+  },
+  correct: {
+    type: Boolean,
+    required: true,
+  },
+});
+
+const QuizAttemptSchema = new Schema<QuizAttemptDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  mapId: {
+    type: Schema.Types.ObjectId,
+    ref: "LearningMap",
+    required: true,
+  },
+  branchId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  score: {
+    type: Number,
+    required: true,
+  },
+  total: {
+    type: Number,
+    required: true,
+  },
+  results: {
+    type: [QuizQuestionResultSchema],
+    default: [],
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+QuizAttemptSchema.index({ userId: 1, mapId: 1, createdAt: -1 });
+
+export const QuizAttemptModel = mongoose.model<QuizAttemptDocument>(
+  "QuizAttempt",
+  QuizAttemptSchema
+);
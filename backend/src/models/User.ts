@@ -0,0 +1,34 @@
+/**
+ * MongoDB schema for registered user accounts
+ */
+import mongoose, { Document, Schema } from "mongoose";
+import { User } from "../types";
+
+export interface UserDocument extends Document, Omit<User, "_id"> {
+  // Salted scrypt hash, see utils/password.util.ts
+  passwordHash: string;
+}
+
+const UserSchema = new Schema<UserDocument>({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+  },
+  name: {
+    type: String,
+    trim: true,
+  },
+  passwordHash: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export const UserModel = mongoose.model<UserDocument>("User", UserSchema);
@@ -0,0 +1,38 @@
+/**
+ * API routes for account endpoints
+ */
+import { Router } from "express";
+import {
+  getCurrentUser,
+  login,
+  logout,
+  register,
+} from "../controllers/authController";
+
+const router = Router();
+
+/**
+ * POST /api/auth/register
+ * Create an account (email, password, optional name) and sign in
+ */
+router.post("/register", register);
+
+/**
+ * POST /api/auth/login
+ * Sign in with email and password; sets the auth cookie
+ */
+router.post("/login", login);
+
+/**
+ * POST /api/auth/logout
+ * Sign out by clearing the auth cookie
+ */
+router.post("/logout", logout);
+
+/**
+ * GET /api/auth/me
+ * Get the signed-in user (null when not signed in)
+ */
+router.get("/me", getCurrentUser);
+
+export default router;
@@ -2,20 +2,280 @@
  * API routes for learning map endpoints
  */
 import { Router } from "express";
-import { generateMap, getMapById } from "../controllers/mapController";
+import {
+  generateMap,
+  expandMapNode,
+  findMapNodeResources,
+  generateMapStream,
+  getMapById,
+  listMaps,
+  regenerateMapBranch,
+  replaceMapResource,
+} from "../controllers/mapController";
+import {
+  exportFlashcards,
+  generateFlashcards,
+  getFlashcards,
+} from "../controllers/flashcardController";
+import { checkMapLinks } from "../controllers/linkCheckController";
+import { exportMap, importMap } from "../controllers/mapFileController";
+import {
+  addMapBranch,
+  addMapResource,
+  addMapSubtopic,
+  deleteMapNode,
+  deleteMapResource,
+  updateMapNode,
+  updateMapResource,
+} from "../controllers/mapEditController";
+import { getNotes, updateNote } from "../controllers/noteController";
+import {
+  getProgress,
+  updateNodeProgress,
+  updateProgress,
+} from "../controllers/progressController";
+import {
+  generateQuiz,
+  getQuiz,
+  getQuizResults,
+  submitQuiz,
+} from "../controllers/quizController";
+import {
+  getMapRevisionByNumber,
+  getMapRevisionDiff,
+  getMapRevisions,
+  restoreMapRevision,
+} from "../controllers/revisionController";
+import {
+  revokeMapShareSlug,
+  rotateMapShareSlug,
+  updateMapSharing,
+} from "../controllers/shareController";
+import { requireAuth, requireCsrfHeader } from "../middlewares/auth.middleware";
+import { authorizeMapAccess } from "../middlewares/mapAccess.middleware";
 
 const router = Router();
 
+// Routes under /:id check that the signed-in user may view or change the map
+const canRead = authorizeMapAccess("read");
+const canWrite = authorizeMapAccess("write");
+const isOwner = authorizeMapAccess("owner");
+
 /**
  * POST /api/map/generate
- * Generate a new learning map
+ * Generate a new learning map (owned by the signed-in user, or anonymous)
  */
 router.post("/generate", generateMap);
 
+/**
+ * GET/POST /api/map/generate/stream
+ * Generate a new learning map, streamed as Server-Sent Events
+ * The GET variant saves a map as well, so it also requires the CSRF header
+ * when signed in with the auth cookie
+ */
+router.get("/generate/stream", requireCsrfHeader, generateMapStream);
+router.post("/generate/stream", generateMapStream);
+
+/**
+ * POST /api/map/import
+ * Import an exported map file (format: json, md, opml, mm or xmind) as a new map
+ */
+router.post("/import", importMap);
+
+/**
+ * GET /api/map
+ * List saved learning maps (query: q, level, tag, from, to, limit, cursor, mine)
+ */
+router.get("/", listMaps);
+
 /**
  * GET /api/map/:id
  * Get a saved learning map by ID
  */
-router.get("/:id", getMapById);
+router.get("/:id", canRead, getMapById);
+
+/**
+ * GET /api/map/:id/export?format=json|md|opml|mm|xmind|pdf|mermaid|dot
+ * Download a map as a file (pdf: study guide, checkboxes=true adds progress checkboxes;
+ * mermaid: variant=mindmap|flowchart)
+ */
+router.get("/:id/export", canRead, exportMap);
+
+/**
+ * POST /api/map/:id/nodes/:path/expand
+ * Expand a subtopic (addressed by a dot-separated node path) into child subtopics
+ */
+router.post("/:id/nodes/:path/expand", canWrite, expandMapNode);
+
+/**
+ * POST /api/map/:id/nodes/:path/find-resources
+ * Add resources suggested by the model to a subtopic
+ */
+router.post("/:id/nodes/:path/find-resources", canWrite, findMapNodeResources);
+
+/**
+ * POST /api/map/:id/branches/:branchIndex/regenerate
+ * Regenerate a single branch, keeping the other branches fixed
+ */
+router.post(
+  "/:id/branches/:branchIndex/regenerate",
+  canWrite,
+  regenerateMapBranch
+);
+
+/**
+ * POST /api/map/:id/branches
+ * Add a branch to a map
+ */
+router.post("/:id/branches", canWrite, addMapBranch);
+
+/**
+ * PATCH/DELETE /api/map/:id/nodes/:path
+ * Edit (title, description, position) or delete a branch or subtopic
+ */
+router.patch("/:id/nodes/:path", canWrite, updateMapNode);
+router.delete("/:id/nodes/:path", canWrite, deleteMapNode);
+
+/**
+ * POST /api/map/:id/nodes/:path/children
+ * Add a subtopic under a branch or subtopic
+ */
+router.post("/:id/nodes/:path/children", canWrite, addMapSubtopic);
+
+/**
+ * POST /api/map/:id/nodes/:path/resources
+ * Add a resource to a subtopic
+ */
+router.post("/:id/nodes/:path/resources", canWrite, addMapResource);
+
+/**
+ * PATCH/DELETE /api/map/:id/nodes/:path/resources/:resourceIndex
+ * Edit or remove a resource of a subtopic
+ */
+router.patch(
+  "/:id/nodes/:path/resources/:resourceIndex",
+  canWrite,
+  updateMapResource
+);
+router.delete(
+  "/:id/nodes/:path/resources/:resourceIndex",
+  canWrite,
+  deleteMapResource
+);
+
+/**
+ * POST /api/map/:id/nodes/:path/resources/:resourceIndex/replace
+ * Replace a resource (usually a broken link) with one suggested by the model
+ */
+router.post(
+  "/:id/nodes/:path/resources/:resourceIndex/replace",
+  canWrite,
+  replaceMapResource
+);
+
+/**
+ * POST /api/map/:id/links/check
+ * Check whether the map's resource links still resolve
+ */
+router.post("/:id/links/check", canWrite, checkMapLinks);
+
+/**
+ * GET /api/map/:id/revisions
+ * List the revision history of a map
+ */
+router.get("/:id/revisions", canRead, getMapRevisions);
+
+/**
+ * GET /api/map/:id/revisions/diff?from=&to=
+ * Compare two revisions (declared before /:revision so "diff" is not read as a number)
+ */
+router.get("/:id/revisions/diff", canRead, getMapRevisionDiff);
+
+/**
+ * GET /api/map/:id/revisions/:revision
+ * Get a single revision with its full snapshot
+ */
+router.get("/:id/revisions/:revision", canRead, getMapRevisionByNumber);
+
+/**
+ * POST /api/map/:id/revisions/:revision/restore
+ * Restore the map to an earlier revision
+ */
+router.post("/:id/revisions/:revision/restore", canWrite, restoreMapRevision);
+
+/**
+ * GET/PATCH /api/map/:id/progress
+ * Get or bulk-update the signed-in user's progress on a map
+ */
+router.get("/:id/progress", requireAuth, canRead, getProgress);
+router.patch("/:id/progress", requireAuth, canRead, updateProgress);
+
+/**
+ * PUT /api/map/:id/progress/:path
+ * Set the signed-in user's status on one node
+ */
+router.put("/:id/progress/:path", requireAuth, canRead, updateNodeProgress);
+
+/**
+ * GET /api/map/:id/notes
+ * Get the signed-in user's notes on the nodes of a map
+ */
+router.get("/:id/notes", requireAuth, canRead, getNotes);
+
+/**
+ * PUT /api/map/:id/notes/:path
+ * Set the signed-in user's markdown note on one node (blank content removes it)
+ */
+router.put("/:id/notes/:path", requireAuth, canRead, updateNote);
+
+/**
+ * GET/POST /api/map/:id/flashcards
+ * Get the stored flashcards of a map, or generate them (replacing stored ones)
+ */
+router.get("/:id/flashcards", canRead, getFlashcards);
+router.post("/:id/flashcards", canWrite, generateFlashcards);
+
+/**
+ * GET /api/map/:id/flashcards/export?format=csv|tsv|apkg
+ * Download the stored flashcards as an Anki deck
+ */
+router.get("/:id/flashcards/export", canRead, exportFlashcards);
+
+/**
+ * GET/POST /api/map/:id/branches/:branchIndex/quiz
+ * Get the stored quiz of a branch, or generate it (replacing the stored one)
+ */
+router.get("/:id/branches/:branchIndex/quiz", canRead, getQuiz);
+router.post("/:id/branches/:branchIndex/quiz", canWrite, generateQuiz);
+
+/**
+ * POST /api/map/:id/branches/:branchIndex/quiz/attempts
+ * Score the signed-in user's answers and update their progress
+ */
+router.post(
+  "/:id/branches/:branchIndex/quiz/attempts",
+  requireAuth,
+  canRead,
+  submitQuiz
+);
+
+/**
+ * GET /api/map/:id/quiz-results
+ * Get the signed-in user's latest quiz results per subtopic and weak areas
+ */
+router.get("/:id/quiz-results", requireAuth, canRead, getQuizResults);
+
+/**
+ * PATCH /api/map/:id/sharing
+ * Set the visibility of a map: private, unlisted or public (owner only)
+ */
+router.patch("/:id/sharing", isOwner, updateMapSharing);
+
+/**
+ * POST/DELETE /api/map/:id/sharing/slug
+ * Rotate or revoke the share link of a map (owner only)
+ */
+router.post("/:id/sharing/slug", isOwner, rotateMapShareSlug);
+router.delete("/:id/sharing/slug", isOwner, revokeMapShareSlug);
 
 export default router;
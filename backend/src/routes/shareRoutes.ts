@@ -0,0 +1,15 @@
+/**
+ * API routes for read-only share links
+ */
+import { Router } from "express";
+import { getSharedMap } from "../controllers/shareController";
+
+const router = Router();
+
+/**
+ * GET /api/share/:slug
+ * Get a read-only learning map through its share link
+ */
+router.get("/:slug", getSharedMap);
+
+export default router;
@@ -1,6 +1,7 @@
 import http from "http";
 import app from "./app";
 import { Env } from "./config/env.config";
+import { startLinkCheckJob } from "./services/linkCheckService";
 import { MongoDbConnection } from "./utils/connectDB";
 import logger from "./utils/logger";
 
@@ -25,6 +26,9 @@ async function startServer() {
         httpServer.on("error", reject);
       });
 
+      //Periodically check the resource links of saved maps
+      const stopLinkCheckJob = startLinkCheckJob();
+
       //Handle graceful shutdown on termination signals
       const shutdownSignals = ["SIGINT", "SIGTERM"];
 
@@ -32,6 +36,8 @@ async function startServer() {
         try {
           logger.info(`Received ${signal}. Shutting down gracefully...`);
 
+          stopLinkCheckJob();
+
           // Stop accepting new requests
           httpServer.close(() => {
             logger.info("HTTP server closed");
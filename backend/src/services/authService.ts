@@ -0,0 +1,87 @@
+/**
+ * Service layer for user accounts
+ * Handles registration, credential checks and profile lookups
+ */
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { UserDocument, UserModel } from "../models/User";
+import { AuthCredentials, RegisterUserRequest, User } from "../types";
+import logger from "../utils/logger";
+import { hashPassword, verifyPassword } from "../utils/password.util";
+
+/**
+ * Strips credentials from a user document
+ */
+function toUser(document: UserDocument): User {
+  const { _id, email, name, createdAt } = document.toObject();
+  return { _id: String(_id), email, name, createdAt };
+}
+
+/**
+ * Creates an account with a hashed password
+ * Throws EMAIL_ALREADY_REGISTERED when the email is taken
+ */
+export async function registerUser(
+  request: RegisterUserRequest
+): Promise<User> {
+  const { email, password, name } = request;
+  const passwordHash = await hashPassword(password);
+
+  try {
+    const document = await UserModel.create({ email, name, passwordHash });
+    logger.info(`Registered user ${document._id}`);
+    return toUser(document);
+  } catch (error) {
+    // Duplicate key on the unique email index
+    if (
+      error &&
+      typeof error === "object" &&
+      "code" in error &&
+      error.code === 11000
+    ) {
+      throw AppError.fromErrorCode(ErrorCodeEnum.EMAIL_ALREADY_REGISTERED);
+    }
+
+    logger.error("Error registering user:", error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to create account"
+    );
+  }
+}
+
+/**
+ * Checks an email and password, returning the matching user
+ * Unknown emails and wrong passwords produce the same error
+ */
+export async function verifyUserCredentials(
+  credentials: AuthCredentials
+): Promise<User> {
+  const document = await UserModel.findOne({ email: credentials.email });
+
+  if (
+    !document ||
+    !(await verifyPassword(credentials.password, document.passwordHash))
+  ) {
+    logger.warn(`Failed sign-in attempt for ${credentials.email}`);
+    throw AppError.fromErrorCode(ErrorCodeEnum.INVALID_CREDENTIALS);
+  }
+
+  return toUser(document);
+}
+
+/**
+ * Retrieves a user by ID, or null when the account no longer exists
+ */
+export async function getUserById(id: string): Promise<User | null> {
+  try {
+    const document = await UserModel.findById(id);
+    return document ? toUser(document) : null;
+  } catch (error) {
+    logger.error(`Error retrieving user ${id}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve user"
+    );
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Service layer for flashcards generated from the subtopics of a map
+ * Cards are stored against the map, so exporting them again does not call
+ * the model; regenerating replaces the stored deck
+ */
+import { Types } from "mongoose";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { LearningMapProvider } from "../interfaces/learningMapProvider.interface";
+import { AppError } from "../middlewares/error.middleware";
+import { FlashcardDeckModel } from "../models/FlashcardDeck";
+import {
+  ExportedLearningMap,
+  Flashcard,
+  FlashcardDeck,
+  FlashcardExportFormat,
+  LearningMap,
+} from "../types";
+import { flashcardsToAnkiText, flashcardsToApkg } from "../utils/anki.util";
+import logger from "../utils/logger";
+import { listBranchSubtopics } from "../utils/nodePath.util";
+import { toFilename } from "./mapFileService";
+import { findLearningMapDocument } from "./mapService";
+import { getLearningMapProvider } from "./providers";
+
+const FLASHCARD_EXPORTS: Record<
+  FlashcardExportFormat,
+  {
+    contentType: string;
+    serialize(topic: string, cards: Flashcard[]): string | Promise<Buffer>;
+  }
+> = {
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    serialize: (topic, cards) => flashcardsToAnkiText(topic, cards, ","),
+  },
+  tsv: {
+    contentType: "text/tab-separated-values; charset=utf-8",
+    serialize: (topic, cards) => flashcardsToAnkiText(topic, cards, "\t"),
+  },
+  apkg: {
+    contentType: "application/octet-stream",
+    serialize: flashcardsToApkg,
+  },
+};
+
+/**
+ * Converts a stored deck to the API shape
+ * Parameters: mapRevision - Current revision of the map, to flag outdated decks
+ */
+function toFlashcardDeck(
+  deck: Record<string, any>,
+  mapRevision: number
+): FlashcardDeck {
+  return {
+    mapId: String(deck.mapId),
+    revision: deck.revision,
+    outdated: deck.revision !== mapRevision,
+    cards: deck.cards.map(
+      ({ path, branch, question, answer }: Flashcard): Flashcard => ({
+        path,
+        branch,
+        question,
+        answer,
+      })
+    ),
+    generatedBy: deck.generatedBy,
+    createdAt: deck.createdAt,
+  };
+}
+
+/**
+ * Retrieves the stored flashcards of a map, or null when none were generated
+ */
+export async function getFlashcardDeck(
+  mapId: string
+): Promise<FlashcardDeck | null> {
+  const { revision } = await findLearningMapDocument(mapId);
+
+  try {
+    const deck = await FlashcardDeckModel.findOne({
+      mapId: new Types.ObjectId(mapId),
+    }).lean();
+
+    return deck ? toFlashcardDeck(deck, revision ?? 1) : null;
+  } catch (error) {
+    logger.error(`Error retrieving flashcards of map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve flashcards"
+    );
+  }
+}
+
+/**
+ * Generates flashcards for every subtopic of a map, one model call per
+ * branch, and stores them in place of any previous deck
+ */
+export async function generateFlashcardDeck(
+  mapId: string,
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<FlashcardDeck> {
+  const learningMap: LearningMap = (
+    await findLearningMapDocument(mapId)
+  ).toObject();
+  const cards: Flashcard[] = [];
+
+  // Branches are generated one after another to stay within rate limits
+  for (const [branchIndex, branch] of learningMap.branches.entries()) {
+    const subtopics = listBranchSubtopics(branch, branchIndex);
+    if (subtopics.length === 0) continue;
+
+    const generated = await provider.generateFlashcards({
+      topic: learningMap.topic,
+      level: learningMap.level,
+      branch,
+      subtopics,
+    });
+    cards.push(...generated.map((card) => ({ ...card, branch: branch.title })));
+  }
+
+  if (cards.length === 0) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "The map has no subtopics to generate flashcards for"
+    );
+  }
+
+  logger.info(`Generated ${cards.length} flashcards for map ${mapId}`);
+
+  try {
+    const deck = await FlashcardDeckModel.findOneAndUpdate(
+      { mapId: new Types.ObjectId(mapId) },
+      {
+        revision: learningMap.revision ?? 1,
+        cards,
+        generatedBy: `${provider.name}/${provider.model}`,
+        createdAt: new Date(),
+      },
+      { upsert: true, new: true }
+    ).lean();
+
+    return toFlashcardDeck(
+      deck as Record<string, any>,
+      learningMap.revision ?? 1
+    );
+  } catch (error) {
+    logger.error(`Error saving flashcards of map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to save flashcards"
+    );
+  }
+}
+
+/**
+ * Serializes the stored flashcards of a map as an Anki deck (CSV, TSV or .apkg)
+ * Outdated decks are refused so cards of removed or moved subtopics are not
+ * exported; they have to be regenerated first
+ */
+export async function exportFlashcardDeck(
+  mapId: string,
+  format: FlashcardExportFormat
+): Promise<ExportedLearningMap> {
+  const learningMap: LearningMap = (
+    await findLearningMapDocument(mapId)
+  ).toObject();
+  const deck = await getFlashcardDeck(mapId);
+
+  if (!deck) {
+    throw AppError.notFoundError("Flashcards for this map");
+  }
+  if (deck.outdated) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.MAP_REVISION_CONFLICT,
+      "The map has changed since these flashcards were generated; regenerate them before exporting"
+    );
+  }
+
+  const handler = FLASHCARD_EXPORTS[format];
+
+  return {
+    content: await handler.serialize(learningMap.topic, deck.cards),
+    contentType: handler.contentType,
+    filename: toFilename(learningMap.topic, format, "flashcards"),
+  };
+}
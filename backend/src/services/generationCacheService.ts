@@ -0,0 +1,144 @@
+/**
+ * Generation cache for learning maps
+ * Identical generation requests (same topic ignoring case and whitespace,
+ * level, prompt version and model) reuse a recent model response instead of
+ * calling the model again, and concurrent identical requests share a single
+ * model call. Only the generated content is cached; every request still
+ * saves its own map.
+ */
+import { Env } from "../config/env.config";
+import { LearningMapProvider } from "../interfaces/learningMapProvider.interface";
+import {
+  GenerateMapOptions,
+  GeneratedLearningMap,
+  LearningLevel,
+  LearningMap,
+  LearningMapStreamListener,
+} from "../types";
+import logger from "../utils/logger";
+import { LruCache } from "../utils/lruCache.util";
+import { LEARNING_MAP_PROMPT_VERSION } from "./providers/prompts";
+
+// Recently generated maps by cache key; not used when the TTL is 0
+const generatedMaps = new LruCache<LearningMap>(
+  Env.GENERATION_CACHE_MAX_ENTRIES,
+  Env.GENERATION_CACHE_TTL_MINUTES * 60 * 1000
+);
+
+// Model calls in flight by cache key, shared by concurrent identical requests
+const pendingGenerations = new Map<string, Promise<LearningMap>>();
+
+/**
+ * Normalizes a topic for the cache key: Unicode-normalized, trimmed,
+ * lowercased and with runs of whitespace collapsed
+ */
+export function normalizeTopic(topic: string): string {
+  return topic.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Builds the cache key of a generation request
+ */
+export function createGenerationCacheKey(
+  topic: string,
+  level: LearningLevel,
+  provider: LearningMapProvider
+): string {
+  return JSON.stringify([
+    LEARNING_MAP_PROMPT_VERSION,
+    provider.name,
+    provider.model,
+    level,
+    normalizeTopic(topic),
+  ]);
+}
+
+/**
+ * Whether an error comes from an aborted request rather than a failed model call
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+/**
+ * Copies a shared map for one request, keeping the topic as that request wrote it
+ */
+function copyForRequest(learningMap: LearningMap, topic: string): LearningMap {
+  return { ...structuredClone(learningMap), topic };
+}
+
+/**
+ * Reports a reused map to a stream listener as if it had just been generated
+ */
+function replayStreamEvents(
+  learningMap: LearningMap,
+  onEvent: LearningMapStreamListener
+): void {
+  learningMap.branches.forEach(({ subtopics, ...branch }, branchIndex) => {
+    onEvent({ type: "branch", branchIndex, branch });
+    subtopics.forEach((subtopic, subtopicIndex) =>
+      onEvent({ type: "subtopic", branchIndex, subtopicIndex, subtopic })
+    );
+  });
+}
+
+/**
+ * Generates a learning map, reusing a cached or in-flight generation of an
+ * identical request unless options.fresh is set
+ * With onEvent the map is streamed from the model; reused maps are replayed
+ * to the listener once available. Fresh generations replace the cached map.
+ * options.signal only aborts this request's own model call; requests sharing
+ * it generate the map themselves when it was aborted.
+ */
+export async function generateLearningMapWithCache(
+  topic: string,
+  level: LearningLevel,
+  provider: LearningMapProvider,
+  { fresh = false, signal }: GenerateMapOptions = {},
+  onEvent?: LearningMapStreamListener
+): Promise<GeneratedLearningMap> {
+  const key = createGenerationCacheKey(topic, level, provider);
+  const isCacheEnabled = Env.GENERATION_CACHE_TTL_MINUTES > 0;
+
+  if (!fresh) {
+    const cached = isCacheEnabled ? generatedMaps.get(key) : undefined;
+    const pending = pendingGenerations.get(key);
+    // Only await when something is pending: awaiting would otherwise let a
+    // concurrent identical request start its own model call first
+    // A generation aborted by the client that started it is not shared
+    const reused =
+      cached ??
+      (pending &&
+        (await pending.catch((error) => {
+          if (isAbortError(error)) return undefined;
+          throw error;
+        })));
+
+    if (reused) {
+      logger.info(
+        `Reusing ${cached ? "cached" : "in-flight"} learning map for topic: ${topic}, level: ${level}`
+      );
+      if (onEvent) replayStreamEvents(reused, onEvent);
+      return { learningMap: copyForRequest(reused, topic), cached: true };
+    }
+  }
+
+  signal?.throwIfAborted();
+  const generation = onEvent
+    ? provider.streamLearningMap(topic, level, onEvent, signal)
+    : provider.generateLearningMap(topic, level);
+  pendingGenerations.set(key, generation);
+
+  try {
+    const learningMap = await generation;
+    if (isCacheEnabled) {
+      generatedMaps.set(key, structuredClone(learningMap));
+    }
+    return { learningMap, cached: false };
+  } finally {
+    // A fresh request may have replaced this generation in the meantime
+    if (pendingGenerations.get(key) === generation) {
+      pendingGenerations.delete(key);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Service layer for checking whether the resource links of learning maps still resolve
+ * Results are stored on each resource; they describe the links rather than
+ * change the map's content, so no revision is recorded
+ */
+import { Env } from "../config/env.config";
+import { LearningMapModel } from "../models/LearningMap";
+import { LearningMap } from "../types";
+import { checkLinks, LinkCheckOptions } from "../utils/linkChecker.util";
+import logger from "../utils/logger";
+import { listBranchSubtopics } from "../utils/nodePath.util";
+import {
+  expectLearningMapRevision,
+  findLearningMapDocument,
+  saveLearningMapDocument,
+} from "./mapService";
+
+// Maps checked per run of the background job
+const LINK_CHECK_BATCH_SIZE = 10;
+
+/**
+ * Lists every resource URL of a map, in map order
+ */
+function listResourceUrls(
+  learningMap: Pick<LearningMap, "branches">
+): string[] {
+  return learningMap.branches.flatMap((branch, branchIndex) =>
+    listBranchSubtopics(branch, branchIndex).flatMap(({ subtopic }) =>
+      subtopic.resources.map(({ url }) => url)
+    )
+  );
+}
+
+/**
+ * Checks every resource link of a map and stores the result on each resource
+ * The map is reloaded after the (slow) checks so edits made meanwhile are
+ * kept; resources added meanwhile stay unchecked until the next run
+ */
+export async function checkLearningMapLinks(
+  id: string,
+  options: LinkCheckOptions = {}
+): Promise<LearningMap> {
+  const urls = listResourceUrls((await findLearningMapDocument(id)).toObject());
+
+  logger.debug(`Checking ${urls.length} resource links of map ${id}`);
+  const results = await checkLinks(urls, {
+    timeoutMs: Env.LINK_CHECK_TIMEOUT_MS,
+    ...options,
+  });
+
+  const document = await findLearningMapDocument(id);
+  const learningMap: LearningMap = document.toObject();
+  const broken: string[] = [];
+
+  learningMap.branches.forEach((branch, branchIndex) =>
+    listBranchSubtopics(branch, branchIndex).forEach(({ subtopic }) =>
+      subtopic.resources.forEach((resource) => {
+        const linkCheck = results.get(resource.url);
+        if (!linkCheck) return;
+
+        resource.linkCheck = linkCheck;
+        if (linkCheck.status === "broken") broken.push(resource.url);
+      })
+    )
+  );
+
+  document.set("branches", learningMap.branches);
+  document.set("linksCheckedAt", new Date());
+  // Do not overwrite a change saved since the map was reloaded
+  expectLearningMapRevision(document, learningMap.revision || 0);
+
+  logger.info(
+    `Checked ${results.size} links of map ${id}: ${broken.length} broken`
+  );
+  return saveLearningMapDocument(document);
+}
+
+/**
+ * Checks the links of the maps whose last check is the oldest, up to
+ * LINK_CHECK_BATCH_SIZE maps per run
+ * A failing map is logged and skipped so it does not stop the others
+ */
+export async function checkStaleLearningMapLinks(
+  options: LinkCheckOptions = {}
+): Promise<number> {
+  const cutoff = new Date(
+    Date.now() - Env.LINK_CHECK_MAX_AGE_HOURS * 60 * 60 * 1000
+  );
+  const maps = await LearningMapModel.find({
+    $or: [
+      { linksCheckedAt: { $exists: false } },
+      { linksCheckedAt: { $lt: cutoff } },
+    ],
+  })
+    .sort({ linksCheckedAt: 1, createdAt: 1 })
+    .limit(LINK_CHECK_BATCH_SIZE)
+    .select("_id")
+    .lean();
+
+  for (const { _id } of maps) {
+    try {
+      await checkLearningMapLinks(String(_id), options);
+    } catch (error) {
+      logger.error(`Error checking links of map ${_id}:`, error);
+    }
+  }
+
+  return maps.length;
+}
+
+/**
+ * Starts the background job checking stale map links every
+ * LINK_CHECK_INTERVAL_MINUTES; does nothing when the interval is 0
+ * Returns a function that stops the job
+ */
+export function startLinkCheckJob(): () => void {
+  const intervalMinutes = Env.LINK_CHECK_INTERVAL_MINUTES;
+  if (!intervalMinutes || intervalMinutes <= 0) {
+    logger.info("Link check job disabled (LINK_CHECK_INTERVAL_MINUTES=0)");
+    return () => {};
+  }
+
+  // A run can outlast the interval when many links time out; skip overlapping runs
+  let isRunning = false;
+  const run = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      const count = await checkStaleLearningMapLinks();
+      logger.debug(`Link check job checked ${count} maps`);
+    } catch (error) {
+      logger.error("Error running link check job:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  // Do not keep the process alive just for the job
+  timer.unref();
+  logger.info(`Link check job running every ${intervalMinutes} minutes`);
+
+  return () => clearInterval(timer);
+}
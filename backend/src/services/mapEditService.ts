@@ -0,0 +1,264 @@
+/**
+ * Service layer for manual edits to saved learning maps
+ * Every edit is saved as a user revision of the map
+ */
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  LearningMap,
+  LearningResource,
+  MainBranch,
+  MapNodeUpdate,
+  NewMapNode,
+  SubTopic,
+} from "../types";
+import logger from "../utils/logger";
+import {
+  parseNodePath,
+  ResolvedNode,
+  resolveNodePath,
+  resolveNodeSiblings,
+  trackNodePaths,
+} from "../utils/nodePath.util";
+import { trackPrerequisites } from "../utils/prerequisite.util";
+import { findLearningMapDocument, saveLearningMapChange } from "./mapService";
+
+// Applies an edit to the plain map object and returns a summary of the change
+type MapEdit = (learningMap: LearningMap) => string;
+
+/**
+ * Loads a map, applies an edit to its branches and saves it as a new revision
+ * Prerequisite links, progress, notes and quiz results follow the nodes they
+ * belong to, and those of deleted nodes are removed
+ */
+async function applyMapEdit(
+  id: string,
+  userId: string | undefined,
+  details: Record<string, unknown>,
+  edit: MapEdit
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+  const learningMap: LearningMap = document.toObject();
+
+  const getPrerequisites = trackPrerequisites(learningMap);
+  const getNodePaths = trackNodePaths(learningMap);
+  const summary = edit(learningMap);
+  logger.debug(`Editing map ${id}: ${summary}`);
+
+  document.set("branches", learningMap.branches);
+  document.set("prerequisites", getPrerequisites());
+
+  return saveLearningMapChange(
+    document,
+    { action: "edited", summary, source: "user", details, userId },
+    getNodePaths()
+  );
+}
+
+/**
+ * Resolves a path that must point at a subtopic (branches hold no resources)
+ */
+export function resolveSubtopic(
+  learningMap: LearningMap,
+  path: string
+): ResolvedNode & { subtopic: SubTopic } {
+  const indices = parseNodePath(path);
+  if (indices.length < 2) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "Resources belong to subtopics; the node path must include a subtopic index"
+    );
+  }
+  return resolveNodePath(learningMap, indices) as ResolvedNode & {
+    subtopic: SubTopic;
+  };
+}
+
+/**
+ * Resolves a resource of a subtopic, throwing a not found error when it does not exist
+ */
+function resolveResource(
+  subtopic: SubTopic,
+  resourceIndex: number
+): LearningResource {
+  const resource = subtopic.resources[resourceIndex];
+  if (!resource) {
+    throw AppError.notFoundError(`Resource ${resourceIndex}`);
+  }
+  return resource;
+}
+
+/**
+ * Updates the title and/or description of a branch or subtopic, and optionally
+ * moves it to another position among its siblings
+ */
+export async function updateLearningMapNode(
+  id: string,
+  path: string,
+  changes: MapNodeUpdate,
+  userId?: string
+): Promise<LearningMap> {
+  return applyMapEdit(id, userId, { path, changes }, (learningMap) => {
+    const indices = parseNodePath(path);
+    const { siblings, index } = resolveNodeSiblings(learningMap, indices);
+    const node = siblings[index];
+    const previousTitle = node.title;
+
+    if (changes.title !== undefined) node.title = changes.title;
+    if (changes.description !== undefined) {
+      node.description = changes.description;
+    }
+
+    if (changes.position !== undefined && changes.position !== index) {
+      if (changes.position >= siblings.length) {
+        throw AppError.fromErrorCode(
+          ErrorCodeEnum.INVALID_INPUT,
+          `Position ${changes.position} is out of range (0-${siblings.length - 1})`
+        );
+      }
+      siblings.splice(index, 1);
+      siblings.splice(changes.position, 0, node);
+      return `Moved "${node.title}" to position ${changes.position + 1}`;
+    }
+
+    return previousTitle === node.title
+      ? `Edited "${node.title}"`
+      : `Renamed "${previousTitle}" to "${node.title}"`;
+  });
+}
+
+/**
+ * Adds a branch (when parentPath is undefined) or a child subtopic
+ * The node is inserted at index, or appended when no index is given
+ */
+export async function addLearningMapNode(
+  id: string,
+  parentPath: string | undefined,
+  node: NewMapNode,
+  index?: number,
+  userId?: string
+): Promise<LearningMap> {
+  return applyMapEdit(id, userId, { parentPath, index }, (learningMap) => {
+    let siblings: (MainBranch | SubTopic)[];
+    let newNode: MainBranch | SubTopic;
+
+    if (parentPath === undefined) {
+      siblings = learningMap.branches;
+      newNode = {
+        title: node.title,
+        description: node.description,
+        subtopics: [],
+      };
+    } else {
+      const { branch, subtopic } = resolveNodePath(
+        learningMap,
+        parseNodePath(parentPath)
+      );
+      const parent = subtopic || branch;
+      parent.subtopics = parent.subtopics || [];
+      siblings = parent.subtopics;
+      newNode = { ...node, subtopics: [] };
+    }
+
+    if (index !== undefined && index > siblings.length) {
+      throw AppError.fromErrorCode(
+        ErrorCodeEnum.INVALID_INPUT,
+        `Index ${index} is out of range (0-${siblings.length})`
+      );
+    }
+    siblings.splice(index ?? siblings.length, 0, newNode);
+
+    return parentPath === undefined
+      ? `Added branch "${node.title}"`
+      : `Added subtopic "${node.title}"`;
+  });
+}
+
+/**
+ * Deletes a branch or subtopic together with its descendants
+ * A map must keep at least one branch
+ */
+export async function deleteLearningMapNode(
+  id: string,
+  path: string,
+  userId?: string
+): Promise<LearningMap> {
+  return applyMapEdit(id, userId, { path }, (learningMap) => {
+    const indices = parseNodePath(path);
+    const { siblings, index } = resolveNodeSiblings(learningMap, indices);
+
+    if (indices.length === 1 && siblings.length === 1) {
+      throw AppError.fromErrorCode(
+        ErrorCodeEnum.INVALID_INPUT,
+        "A learning map must keep at least one branch"
+      );
+    }
+
+    const [removed] = siblings.splice(index, 1);
+    return `Deleted ${indices.length === 1 ? "branch" : "subtopic"} "${
+      removed.title
+    }"`;
+  });
+}
+
+/**
+ * Adds a resource to a subtopic
+ */
+export async function addNodeResource(
+  id: string,
+  path: string,
+  resource: LearningResource,
+  userId?: string
+): Promise<LearningMap> {
+  return applyMapEdit(id, userId, { path }, (learningMap) => {
+    const { subtopic } = resolveSubtopic(learningMap, path);
+    subtopic.resources.push(resource);
+    return `Added resource "${resource.title}" to "${subtopic.title}"`;
+  });
+}
+
+/**
+ * Updates the type, title and/or URL of a subtopic's resource
+ */
+export async function updateNodeResource(
+  id: string,
+  path: string,
+  resourceIndex: number,
+  changes: Partial<LearningResource>,
+  userId?: string
+): Promise<LearningMap> {
+  return applyMapEdit(
+    id,
+    userId,
+    { path, resourceIndex, changes },
+    (learningMap) => {
+      const { subtopic } = resolveSubtopic(learningMap, path);
+      const resource = resolveResource(subtopic, resourceIndex);
+
+      // The last link check no longer applies to a different URL
+      if (changes.url && changes.url !== resource.url) {
+        delete resource.linkCheck;
+      }
+      Object.assign(resource, changes);
+      return `Edited resource "${resource.title}" of "${subtopic.title}"`;
+    }
+  );
+}
+
+/**
+ * Removes a resource from a subtopic
+ */
+export async function deleteNodeResource(
+  id: string,
+  path: string,
+  resourceIndex: number,
+  userId?: string
+): Promise<LearningMap> {
+  return applyMapEdit(id, userId, { path, resourceIndex }, (learningMap) => {
+    const { subtopic } = resolveSubtopic(learningMap, path);
+    const resource = resolveResource(subtopic, resourceIndex);
+
+    subtopic.resources.splice(resourceIndex, 1);
+    return `Removed resource "${resource.title}" from "${subtopic.title}"`;
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * Service layer for exporting learning maps to files and importing them back
+ * Each file format pairs a serializer with a parser so exports round-trip;
+ * the PDF study guide and the Mermaid and DOT diagrams are export-only
+ */
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  ExportedLearningMap,
+  LearningMap,
+  MapExportFormat,
+  MapExportFileOptions,
+  MapFileFormat,
+  MermaidVariant,
+} from "../types";
+import { learningMapToDot } from "../utils/dot.util";
+import logger from "../utils/logger";
+import {
+  learningMapToMarkdown,
+  parseLearningMapMarkdown,
+} from "../utils/markdown.util";
+import {
+  learningMapToFreeMind,
+  parseLearningMapFreeMind,
+} from "../utils/freeMind.util";
+import { learningMapToMermaid } from "../utils/mermaid.util";
+import { learningMapToOpml, parseLearningMapOpml } from "../utils/opml.util";
+import { renderStudyGuidePdf } from "../utils/studyGuidePdf.util";
+import { learningMapToXMind, parseLearningMapXMind } from "../utils/xmind.util";
+import { validateRequestData } from "../utils/validation.util";
+import { ImportedLearningMapSchema } from "../validations/learningMap.schema";
+import { getLearningMapById, saveImportedLearningMap } from "./mapService";
+import { getMapProgress } from "./progressService";
+
+interface MapExporter {
+  contentType: string;
+  extension: string;
+  serialize(
+    learningMap: LearningMap,
+    options: MapExportFileOptions
+  ): string | Promise<Buffer>;
+}
+
+interface MapFileFormatHandler extends MapExporter {
+  // Human-readable name used in revision summaries
+  name: string;
+  // Returns unvalidated map content
+  parse(content: string): unknown;
+}
+
+// Export options; checkboxes are ticked from the progress of the user, if any
+export interface MapExportOptions {
+  checkboxes?: boolean;
+  userId?: string;
+  mermaidVariant?: MermaidVariant;
+}
+
+const MAP_FILE_FORMATS: Record<MapFileFormat, MapFileFormatHandler> = {
+  json: {
+    name: "JSON",
+    contentType: "application/json; charset=utf-8",
+    extension: "json",
+    serialize: ({ topic, level, tags = [], branches, prerequisites = [] }) =>
+      JSON.stringify({ topic, level, tags, branches, prerequisites }, null, 2),
+    parse: (content) => {
+      try {
+        return JSON.parse(content);
+      } catch {
+        throw AppError.fromErrorCode(
+          ErrorCodeEnum.INVALID_INPUT,
+          "Invalid JSON learning map: the file is not valid JSON"
+        );
+      }
+    },
+  },
+  md: {
+    name: "Markdown",
+    contentType: "text/markdown; charset=utf-8",
+    extension: "md",
+    serialize: learningMapToMarkdown,
+    parse: parseLearningMapMarkdown,
+  },
+  opml: {
+    name: "OPML",
+    contentType: "text/x-opml; charset=utf-8",
+    extension: "opml",
+    serialize: learningMapToOpml,
+    parse: parseLearningMapOpml,
+  },
+  mm: {
+    name: "FreeMind",
+    contentType: "application/x-freemind; charset=utf-8",
+    extension: "mm",
+    serialize: learningMapToFreeMind,
+    parse: parseLearningMapFreeMind,
+  },
+  xmind: {
+    name: "XMind",
+    contentType: "application/json; charset=utf-8",
+    extension: "xmind.json",
+    serialize: learningMapToXMind,
+    parse: parseLearningMapXMind,
+  },
+};
+
+const MAP_EXPORTERS: Record<MapExportFormat, MapExporter> = {
+  ...MAP_FILE_FORMATS,
+  pdf: {
+    contentType: "application/pdf",
+    extension: "pdf",
+    serialize: renderStudyGuidePdf,
+  },
+  mermaid: {
+    contentType: "text/plain; charset=utf-8",
+    extension: "mmd",
+    serialize: (learningMap, { mermaidVariant }) =>
+      learningMapToMermaid(learningMap, mermaidVariant),
+  },
+  dot: {
+    contentType: "text/vnd.graphviz; charset=utf-8",
+    extension: "dot",
+    serialize: learningMapToDot,
+  },
+};
+
+/**
+ * Builds a download file name from the map topic, e.g. React-learning-map.md
+ */
+export function toFilename(
+  topic: string,
+  extension: string,
+  suffix = "learning-map"
+): string {
+  const name = topic
+    .trim()
+    .replace(/[^\w-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  return `${name || "learning-map"}-${suffix}.${extension}`;
+}
+
+/**
+ * Serializes a saved map's content (topic, level, tags and the branch tree)
+ */
+export async function exportLearningMap(
+  id: string,
+  format: MapExportFormat,
+  {
+    checkboxes = false,
+    userId,
+    mermaidVariant = "mindmap",
+  }: MapExportOptions = {}
+): Promise<ExportedLearningMap> {
+  const learningMap = await getLearningMapById(id);
+
+  if (!learningMap) {
+    logger.warn(`Learning map not found with ID: ${id}`);
+    throw AppError.notFoundError("Learning map");
+  }
+
+  const handler = MAP_EXPORTERS[format];
+  const progress =
+    checkboxes && userId ? (await getMapProgress(userId, id)).nodes : undefined;
+
+  return {
+    content: await handler.serialize(learningMap, {
+      checkboxes,
+      progress,
+      mermaidVariant,
+    }),
+    contentType: handler.contentType,
+    filename: toFilename(learningMap.topic, handler.extension),
+  };
+}
+
+/**
+ * Parses and validates an exported file and saves it as a new map
+ * Imported maps belong to the importing user, or are anonymous
+ */
+export async function importLearningMap(
+  format: MapFileFormat,
+  content: string,
+  ownerId?: string
+): Promise<LearningMap> {
+  const handler = MAP_FILE_FORMATS[format];
+
+  const learningMap = validateRequestData(
+    ImportedLearningMapSchema,
+    handler.parse(content),
+    `${handler.name} map import`
+  );
+  if (learningMap instanceof AppError) {
+    throw learningMap;
+  }
+
+  logger.info(
+    `Importing ${handler.name} learning map "${learningMap.topic}" with ${learningMap.branches.length} branches`
+  );
+
+  return saveImportedLearningMap(learningMap, handler.name, ownerId);
+}
@@ -2,60 +2,585 @@
  * Service layer for learning map operations
  * Handles business logic and database interactions
  */
+import { FilterQuery, Types } from "mongoose";
 import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { LearningMapProvider } from "../interfaces/learningMapProvider.interface";
 import { AppError } from "../middlewares/error.middleware";
-import { LearningMapModel } from "../models/LearningMap";
-import { LearningLevel, LearningMap } from "../types";
+import { LearningMapDocument, LearningMapModel } from "../models/LearningMap";
+import {
+  GenerateMapOptions,
+  GeneratedLearningMap,
+  ImportedLearningMap,
+  LearningLevel,
+  LearningMap,
+  LearningMapListQuery,
+  LearningMapPage,
+  LearningMapStreamListener,
+  LearningMapSummary,
+  MapAccess,
+  MapChange,
+  NewMapMetadata,
+  SubTopic,
+} from "../types";
+import { decodeCursor, encodeCursor } from "../utils/cursor.util";
 import logger from "../utils/logger";
-import { generateLearningMap } from "./geminiService";
+import {
+  matchNodePaths,
+  parseNodePath,
+  resolveNodePath,
+  trackNodePaths,
+} from "../utils/nodePath.util";
+import { trackPrerequisites } from "../utils/prerequisite.util";
+import { generateLearningMapWithCache } from "./generationCacheService";
+import { resolveSubtopic } from "./mapEditService";
+import { remapNodeNotes } from "./noteService";
+import { remapNodeProgress } from "./progressService";
+import { getLearningMapProvider } from "./providers";
+import { remapQuizAttempts } from "./quizService";
+import {
+  discardMapRevision,
+  getMapRevision,
+  recordMapRevision,
+} from "./revisionService";
 
 /**
- * Generates a new learning map using Gemini API and optionally saves it to database
+ * Generates a new learning map using the configured LLM provider and optionally saves it to database
+ * Identical recent or concurrent requests reuse the same generation unless options.fresh is set
  */
 export async function createLearningMap(
   topic: string,
   level: LearningLevel,
-  saveToDb: boolean = true
-): Promise<LearningMap> {
+  metadata: NewMapMetadata = {},
+  saveToDb: boolean = true,
+  options: GenerateMapOptions = {},
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<GeneratedLearningMap> {
   logger.debug(
-    `Creating learning map for topic: ${topic}, level: ${level}, saveToDb: ${saveToDb}`
+    `Creating learning map for topic: ${topic}, level: ${level}, saveToDb: ${saveToDb}, fresh: ${!!options.fresh}, provider: ${provider.name}`
   );
 
-  // Generate map using Gemini
-  const learningMap = await generateLearningMap(topic, level);
+  // Generate map using the provider
+  const { learningMap, cached } = await generateLearningMapWithCache(
+    topic,
+    level,
+    provider,
+    options
+  );
 
   // Save to database if requested
-  if (saveToDb) {
-    try {
-      const savedMap = new LearningMapModel(learningMap);
-      await savedMap.save();
-      logger.info(`Learning map saved to database with ID: ${savedMap._id}`);
-    } catch (error) {
-      logger.error("Error saving learning map to database:", error);
-
-      // If it's a validation error, throw it as AppError
-      if (
-        error &&
-        typeof error === "object" &&
-        "name" in error &&
-        error.name === "ValidationError"
-      ) {
-        throw AppError.fromErrorCode(
-          ErrorCodeEnum.VALIDATION_ERROR,
-          "Failed to save learning map: validation error",
-          { databaseError: error }
-        );
-      }
-
-      // For other database errors, throw as database query error
+  return {
+    learningMap: saveToDb
+      ? await saveLearningMap(learningMap, metadata)
+      : learningMap,
+    cached,
+  };
+}
+
+/**
+ * Generates a new learning map while streaming branches and subtopics to the listener
+ * The completed map is always saved so the client can reference it by ID
+ * Maps reused from an identical request are replayed to the listener
+ */
+export async function createLearningMapStream(
+  topic: string,
+  level: LearningLevel,
+  metadata: NewMapMetadata,
+  onEvent: LearningMapStreamListener,
+  options: GenerateMapOptions = {},
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<GeneratedLearningMap> {
+  logger.debug(
+    `Streaming learning map for topic: ${topic}, level: ${level}, fresh: ${!!options.fresh}, provider: ${provider.name}`
+  );
+
+  const { learningMap, cached } = await generateLearningMapWithCache(
+    topic,
+    level,
+    provider,
+    options,
+    onEvent
+  );
+
+  // Nobody is left to receive the map once the client disconnected
+  options.signal?.throwIfAborted();
+  return { learningMap: await saveLearningMap(learningMap, metadata), cached };
+}
+
+/**
+ * Saves a map imported from a file as a new map of the importing user
+ */
+export async function saveImportedLearningMap(
+  learningMap: ImportedLearningMap,
+  formatName: string,
+  ownerId?: string
+): Promise<LearningMap> {
+  const { tags, ...content } = learningMap;
+
+  return saveLearningMap(
+    content,
+    { tags, ownerId },
+    {
+      action: "imported",
+      summary: `Imported learning map "${learningMap.topic}" from ${formatName}`,
+      source: "user",
+    }
+  );
+}
+
+/**
+ * Saves a generated (or imported) learning map and returns the stored document
+ * Maps created without an owner are stored as anonymous (ownerId null) and
+ * public; owned maps start out private
+ */
+async function saveLearningMap(
+  learningMap: LearningMap,
+  { tags = [], ownerId }: NewMapMetadata,
+  change: MapChange = {
+    action: "created",
+    summary: `Generated learning map for "${learningMap.topic}"`,
+    source: "model",
+  }
+): Promise<LearningMap> {
+  const document = new LearningMapModel({
+    ...learningMap,
+    tags,
+    ownerId: ownerId ?? null,
+    visibility: ownerId ? "private" : "public",
+  });
+
+  return saveLearningMapChange(document, { ...change, userId: ownerId });
+}
+
+/**
+ * Saves a change to a learning map and records it as a new revision
+ * The revision is recorded first so concurrent changes of the same revision
+ * cannot both succeed, and the map is only saved when its revision is still
+ * the one it was loaded with. Either way the losing change fails with
+ * MAP_REVISION_CONFLICT and its recorded revision is discarded.
+ * Changes that move or remove nodes pass the new path of every remaining
+ * node by its old path, so data kept by node path follows the nodes.
+ */
+export async function saveLearningMapChange(
+  document: LearningMapDocument,
+  change: MapChange,
+  nodePaths?: Map<string, string>
+): Promise<LearningMap> {
+  const loadedRevision = document.revision || 0;
+  const revision = loadedRevision + 1;
+  document.set("revision", revision);
+  document.set("updatedAt", new Date());
+
+  await recordMapRevision(document.toObject(), change);
+
+  expectLearningMapRevision(document, loadedRevision);
+  let learningMap: LearningMap;
+  try {
+    learningMap = await saveLearningMapDocument(document);
+  } catch (error) {
+    await discardMapRevision(document._id, revision);
+    throw error;
+  }
+
+  if (nodePaths) {
+    await moveNodeData(String(document._id), nodePaths);
+  }
+  return learningMap;
+}
+
+/**
+ * Moves the per-user data kept by node path (progress, notes and quiz
+ * results) along with the nodes of a saved change
+ * Failures are only logged: the change itself is saved, and failing the
+ * request would make clients repeat it
+ */
+async function moveNodeData(
+  id: string,
+  nodePaths: Map<string, string>
+): Promise<void> {
+  await Promise.all([
+    remapNodeProgress(id, nodePaths).catch(() => undefined),
+    remapNodeNotes(id, nodePaths).catch(() => undefined),
+    remapQuizAttempts(id, nodePaths).catch(() => undefined),
+  ]);
+}
+
+/**
+ * Makes the next save of a document only succeed while the stored map is
+ * still at the given revision; it fails with MAP_REVISION_CONFLICT otherwise
+ * Maps saved before revisions were tracked have no revision stored
+ */
+export function expectLearningMapRevision(
+  document: LearningMapDocument,
+  revision: number
+): void {
+  document.$where = revision ? { revision } : { revision: { $in: [0, null] } };
+}
+
+/**
+ * Persists a new or modified learning map document, mapping database errors to AppErrors
+ */
+export async function saveLearningMapDocument(
+  document: LearningMapDocument
+): Promise<LearningMap> {
+  try {
+    await document.save();
+    logger.info(`Learning map saved to database with ID: ${document._id}`);
+    return document.toObject();
+  } catch (error) {
+    logger.error("Error saving learning map to database:", error);
+
+    // Conditional and versioned saves match no document once the map
+    // changed or was deleted
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      (error.name === "DocumentNotFoundError" || error.name === "VersionError")
+    ) {
+      throw AppError.fromErrorCode(ErrorCodeEnum.MAP_REVISION_CONFLICT);
+    }
+
+    // If it's a validation error, throw it as AppError
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "ValidationError"
+    ) {
       throw AppError.fromErrorCode(
-        ErrorCodeEnum.DATABASE_QUERY_ERROR,
-        "Failed to save learning map to database"
+        ErrorCodeEnum.VALIDATION_ERROR,
+        "Failed to save learning map: validation error",
+        { databaseError: error }
       );
     }
+
+    // For other database errors, throw as database query error
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to save learning map to database"
+    );
   }
+}
 
-  return learningMap;
+/**
+ * Loads a learning map document for modification
+ * Throws a not found error when the map does not exist
+ */
+export async function findLearningMapDocument(
+  id: string
+): Promise<LearningMapDocument> {
+  let document: LearningMapDocument | null;
+
+  try {
+    document = await LearningMapModel.findById(id);
+  } catch (error) {
+    logger.error(`Error retrieving learning map from database: ${id}`, error);
+
+    // Handle invalid ObjectId format
+    if (
+      error &&
+      typeof error === "object" &&
+      "name" in error &&
+      error.name === "CastError"
+    ) {
+      throw AppError.fromErrorCode(
+        ErrorCodeEnum.INVALID_INPUT,
+        `Invalid learning map ID format: ${id}`
+      );
+    }
+
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve learning map from database"
+    );
+  }
+
+  if (!document) {
+    logger.warn(`Learning map not found with ID: ${id}`);
+    throw AppError.notFoundError("Learning map");
+  }
+
+  return document;
+}
+
+/**
+ * Checks that a user may read, modify or manage a map
+ * Anonymous maps can be read by everyone but changed by no one, as they have
+ * no owner to answer for edits and model calls. Owned maps can be read by
+ * their owner, or by anyone when public, and only be modified by their owner.
+ * Unlisted maps are read through their share link instead.
+ * Maps the user may not read are reported as not found so their existence is not revealed.
+ */
+export async function assertLearningMapAccess(
+  id: string,
+  userId: string | undefined,
+  access: MapAccess
+): Promise<void> {
+  const { ownerId, visibility } = await findLearningMapDocument(id);
+  const isOwner = !!ownerId && String(ownerId) === userId;
+  const canRead = !ownerId || isOwner || visibility === "public";
+
+  if (!canRead) {
+    logger.warn(`User ${userId ?? "anonymous"} denied access to map ${id}`);
+    throw AppError.notFoundError("Learning map");
+  }
+
+  if (access === "owner" && !isOwner) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.FORBIDDEN,
+      ownerId
+        ? "Only the owner can manage this learning map"
+        : "Anonymous maps have no owner and are always public"
+    );
+  }
+
+  if (access === "write" && !isOwner) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.FORBIDDEN,
+      ownerId
+        ? "Only the owner can modify this learning map"
+        : "Anonymous maps are read-only; sign in to generate a map you can change"
+    );
+  }
+}
+
+/**
+ * Expands a subtopic into child subtopics using the configured LLM provider
+ * New children are appended to any existing ones and the updated map is saved
+ */
+export async function expandLearningMapNode(
+  id: string,
+  path: string,
+  userId?: string,
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<LearningMap> {
+  const indices = parseNodePath(path);
+  if (indices.length < 2) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "Only subtopics can be expanded; the node path must include a subtopic index"
+    );
+  }
+
+  const document = await findLearningMapDocument(id);
+  const learningMap: LearningMap = document.toObject();
+  const { subtopic, ancestorTitles, siblingTitles } = resolveNodePath(
+    learningMap,
+    indices
+  );
+  // Guaranteed by the path length check above
+  const node = subtopic as SubTopic;
+
+  logger.debug(`Expanding node ${path} ("${node.title}") of map ${id}`);
+
+  const children = await provider.expandSubtopic({
+    topic: learningMap.topic,
+    level: learningMap.level,
+    ancestorTitles,
+    node,
+    siblingTitles,
+  });
+
+  node.subtopics = [...(node.subtopics || []), ...children];
+  document.set("branches", learningMap.branches);
+
+  return saveLearningMapChange(document, {
+    action: "node-expanded",
+    summary: `Expanded "${node.title}" with ${children.length} subtopics`,
+    source: "model",
+    details: { path },
+    userId,
+  });
+}
+
+/**
+ * Asks the configured LLM provider for more resources on a subtopic
+ * Suggestions whose URL the subtopic already lists are dropped; when none are
+ * left the map is returned unchanged
+ */
+export async function findLearningMapNodeResources(
+  id: string,
+  path: string,
+  userId?: string,
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+  const learningMap: LearningMap = document.toObject();
+  const {
+    subtopic: node,
+    ancestorTitles,
+    siblingTitles,
+  } = resolveSubtopic(learningMap, path);
+
+  logger.debug(
+    `Finding resources for node ${path} ("${node.title}") of map ${id}`
+  );
+
+  const suggestions = await provider.findResources({
+    topic: learningMap.topic,
+    level: learningMap.level,
+    ancestorTitles,
+    node,
+    siblingTitles,
+  });
+
+  const knownUrls = new Set(node.resources.map(({ url }) => url));
+  const resources = suggestions.filter(({ url }) => {
+    if (knownUrls.has(url)) return false;
+    knownUrls.add(url);
+    return true;
+  });
+
+  if (resources.length === 0) {
+    logger.info(`No new resources found for node ${path} of map ${id}`);
+    return learningMap;
+  }
+
+  node.resources = [...node.resources, ...resources];
+  document.set("branches", learningMap.branches);
+
+  return saveLearningMapChange(document, {
+    action: "resources-found",
+    summary: `Added ${resources.length} suggested resources to "${node.title}"`,
+    source: "model",
+    details: { path },
+    userId,
+  });
+}
+
+/**
+ * Asks the configured LLM provider to replace a subtopic's resource, usually
+ * one the link checker reported as broken
+ * The replacement takes the resource's place and has not been checked yet
+ */
+export async function replaceLearningMapResource(
+  id: string,
+  path: string,
+  resourceIndex: number,
+  userId?: string,
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+  const learningMap: LearningMap = document.toObject();
+  const {
+    subtopic: node,
+    ancestorTitles,
+    siblingTitles,
+  } = resolveSubtopic(learningMap, path);
+  const resource = node.resources[resourceIndex];
+  if (!resource) {
+    throw AppError.notFoundError(`Resource ${resourceIndex}`);
+  }
+
+  logger.debug(
+    `Replacing resource ${resourceIndex} ("${resource.url}") of node ${path} of map ${id}`
+  );
+
+  const replacement = await provider.replaceResource({
+    topic: learningMap.topic,
+    level: learningMap.level,
+    ancestorTitles,
+    node,
+    siblingTitles,
+    resource,
+  });
+
+  node.resources[resourceIndex] = replacement;
+  document.set("branches", learningMap.branches);
+
+  return saveLearningMapChange(document, {
+    action: "resource-replaced",
+    summary: `Replaced resource "${resource.title}" of "${node.title}" with "${replacement.title}"`,
+    source: "model",
+    details: { path, resourceIndex, previousUrl: resource.url },
+    userId,
+  });
+}
+
+/**
+ * Regenerates a single branch while keeping the other branches fixed
+ * The previous branch content remains available in the map's revisions
+ */
+export async function regenerateLearningMapBranch(
+  id: string,
+  branchIndex: number,
+  hint?: string,
+  userId?: string,
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+  const learningMap: LearningMap = document.toObject();
+  const branch = learningMap.branches[branchIndex];
+
+  if (!branch) {
+    throw AppError.notFoundError(`Branch ${branchIndex}`);
+  }
+
+  logger.debug(
+    `Regenerating branch ${branchIndex} ("${branch.title}") of map ${id}`
+  );
+
+  const regeneratedBranch = await provider.regenerateBranch({
+    topic: learningMap.topic,
+    level: learningMap.level,
+    branch,
+    otherBranches: learningMap.branches.filter(
+      (_, index) => index !== branchIndex
+    ),
+    hint,
+  });
+
+  // Links and progress within the replaced branch no longer apply
+  const getPrerequisites = trackPrerequisites(learningMap);
+  const getNodePaths = trackNodePaths(learningMap);
+  learningMap.branches[branchIndex] = regeneratedBranch;
+  document.set("branches", learningMap.branches);
+  document.set("prerequisites", getPrerequisites());
+
+  return saveLearningMapChange(
+    document,
+    {
+      action: "branch-regenerated",
+      summary: `Regenerated branch "${branch.title}" as "${regeneratedBranch.title}"`,
+      source: "model",
+      details: { branchIndex, hint },
+      userId,
+    },
+    getNodePaths()
+  );
+}
+
+/**
+ * Restores the content of an earlier revision
+ * The restore is recorded as a new revision, so it can be undone in turn
+ */
+export async function restoreLearningMapRevision(
+  id: string,
+  revision: number,
+  userId?: string
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+  const { snapshot } = await getMapRevision(id, revision);
+
+  logger.debug(`Restoring revision ${revision} of map ${id}`);
+
+  // The restored nodes are new objects, so they are matched by title instead
+  const nodePaths = matchNodePaths(document.toObject(), snapshot);
+  document.set("branches", snapshot.branches);
+  // Revisions recorded before prerequisites were introduced have none
+  document.set("prerequisites", snapshot.prerequisites ?? []);
+
+  return saveLearningMapChange(
+    document,
+    {
+      action: "restored",
+      summary: `Restored revision ${revision}`,
+      source: "user",
+      details: { restoredFrom: revision },
+      userId,
+    },
+    nodePaths
+  );
 }
 
 /**
@@ -96,22 +621,85 @@ export async function getLearningMapById(
 }
 
 /**
- * Retrieves all learning maps from database (for analytics)
+ * Lists saved learning maps, newest first, with optional full-text search and filters
+ * Pages are linked by an opaque cursor so results stay stable while maps are added
  */
-export async function getAllLearningMaps(
-  limit: number = 50,
-  skip: number = 0
-): Promise<LearningMap[]> {
+export async function listLearningMaps(
+  query: LearningMapListQuery,
+  userId?: string
+): Promise<LearningMapPage> {
+  const { q, level, tag, from, to, limit, cursor, mine } = query;
+  const filter: FilterQuery<LearningMapDocument> = {};
+  // "My maps" lists the user's own maps; otherwise anonymous and public maps
+  const conditions: FilterQuery<LearningMapDocument>[] = [
+    mine && userId
+      ? { ownerId: new Types.ObjectId(userId) }
+      : { $or: [{ ownerId: null }, { visibility: "public" }] },
+  ];
+
+  if (q) filter.$text = { $search: q };
+  if (level) filter.level = level;
+  if (tag) filter.tags = tag;
+  if (from || to) {
+    filter.createdAt = {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to }),
+    };
+  }
+  if (cursor) {
+    const position = decodeCursor(cursor);
+    conditions.push({
+      $or: [
+        { createdAt: { $lt: position.createdAt } },
+        {
+          createdAt: position.createdAt,
+          _id: { $lt: new Types.ObjectId(position.id) },
+        },
+      ],
+    });
+  }
+  filter.$and = conditions;
+
   try {
-    const maps = await LearningMapModel.find()
-      .sort({ createdAt: -1 })
-      .limit(limit)
-      .skip(skip)
-      .lean();
+    // Fetch one extra map to find out whether another page exists
+    const maps = (await LearningMapModel.find(filter)
+      .select(
+        "topic level tags ownerId visibility branches.title createdAt updatedAt"
+      )
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean()) as unknown as LearningMapDocument[];
+
+    const items: LearningMapSummary[] = maps.slice(0, limit).map((map) => ({
+      _id: String(map._id),
+      topic: map.topic,
+      level: map.level,
+      tags: map.tags || [],
+      ownerId: map.ownerId ? String(map.ownerId) : null,
+      // Maps saved before visibility existed are anonymous, hence public
+      visibility: map.visibility || "public",
+      branchTitles: map.branches.map((branch) => branch.title),
+      createdAt: map.createdAt,
+      updatedAt: map.updatedAt,
+    }));
+    const last = items[items.length - 1];
+
+    logger.debug(`Listed ${items.length} learning maps`, {
+      q,
+      level,
+      tag,
+      mine,
+    });
 
-    return maps as LearningMap[];
+    return {
+      items,
+      nextCursor:
+        maps.length > limit && last
+          ? encodeCursor({ createdAt: last.createdAt, id: last._id })
+          : null,
+    };
   } catch (error) {
-    logger.error("Error retrieving all learning maps from database:", error);
+    logger.error("Error listing learning maps from database:", error);
     throw AppError.fromErrorCode(
       ErrorCodeEnum.DATABASE_QUERY_ERROR,
       "Failed to retrieve learning maps from database"
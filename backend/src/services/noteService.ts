@@ -0,0 +1,115 @@
+/**
+ * Service layer for personal notes of users on map nodes
+ */
+import { Types } from "mongoose";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { NodeNoteDocument, NodeNoteModel } from "../models/NodeNote";
+import { LearningMap, MapNotes } from "../types";
+import logger from "../utils/logger";
+import { parseNodePath, resolveNodePath } from "../utils/nodePath.util";
+import { remapNodeRows } from "../utils/nodeRows.util";
+import { findLearningMapDocument } from "./mapService";
+
+/**
+ * Retrieves a user's notes on a map
+ */
+export async function getMapNotes(
+  userId: string,
+  mapId: string
+): Promise<MapNotes> {
+  try {
+    const entries = (await NodeNoteModel.find({
+      userId: new Types.ObjectId(userId),
+      mapId: new Types.ObjectId(mapId),
+    })
+      .select("path content updatedAt")
+      .lean()) as unknown as Pick<
+      NodeNoteDocument,
+      "path" | "content" | "updatedAt"
+    >[];
+
+    return {
+      mapId,
+      notes: Object.fromEntries(
+        entries.map(({ path, content, updatedAt }) => [
+          path,
+          { path, content, updatedAt },
+        ])
+      ),
+    };
+  } catch (error) {
+    logger.error(`Error retrieving notes on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve notes"
+    );
+  }
+}
+
+/**
+ * Sets a user's note on one node and returns all their notes on the map
+ * The path must exist in the current map; blank content removes the note
+ */
+export async function updateNodeNote(
+  userId: string,
+  mapId: string,
+  path: string,
+  content: string
+): Promise<MapNotes> {
+  const learningMap: LearningMap = (
+    await findLearningMapDocument(mapId)
+  ).toObject();
+
+  // Throws for malformed or unknown paths before anything is written
+  resolveNodePath(learningMap, parseNodePath(path));
+
+  const filter = {
+    userId: new Types.ObjectId(userId),
+    mapId: new Types.ObjectId(mapId),
+    path,
+  };
+
+  try {
+    if (content.trim()) {
+      await NodeNoteModel.updateOne(
+        filter,
+        { $set: { content, updatedAt: new Date() } },
+        { upsert: true }
+      );
+    } else {
+      await NodeNoteModel.deleteOne(filter);
+    }
+    logger.debug(`Updated note on node ${path} of map ${mapId}`);
+  } catch (error) {
+    logger.error(`Error updating note on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to update note"
+    );
+  }
+
+  return getMapNotes(userId, mapId);
+}
+
+/**
+ * Moves the notes of every user on a map along with its nodes after an edit,
+ * regeneration or restore; notes on removed nodes are deleted
+ */
+export async function remapNodeNotes(
+  mapId: string,
+  paths: Map<string, string>
+): Promise<void> {
+  try {
+    const count = await remapNodeRows(NodeNoteModel, mapId, paths);
+    if (count > 0) {
+      logger.debug(`Moved or removed notes on ${count} nodes of map ${mapId}`);
+    }
+  } catch (error) {
+    logger.error(`Error moving notes on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to update notes of the edited map"
+    );
+  }
+}
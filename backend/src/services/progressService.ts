@@ -0,0 +1,118 @@
+/**
+ * Service layer for per-user learning progress on map nodes
+ */
+import { Types } from "mongoose";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  NodeProgressDocument,
+  NodeProgressModel,
+} from "../models/NodeProgress";
+import { LearningMap, MapProgress, NodeProgressUpdate } from "../types";
+import logger from "../utils/logger";
+import { parseNodePath, resolveNodePath } from "../utils/nodePath.util";
+import { remapNodeRows } from "../utils/nodeRows.util";
+import { findLearningMapDocument } from "./mapService";
+
+/**
+ * Retrieves a user's progress on a map
+ */
+export async function getMapProgress(
+  userId: string,
+  mapId: string
+): Promise<MapProgress> {
+  try {
+    const entries = (await NodeProgressModel.find({
+      userId: new Types.ObjectId(userId),
+      mapId: new Types.ObjectId(mapId),
+    })
+      .select("path status")
+      .lean()) as unknown as Pick<NodeProgressDocument, "path" | "status">[];
+
+    return {
+      mapId,
+      nodes: Object.fromEntries(
+        entries.map((entry) => [entry.path, entry.status])
+      ),
+    };
+  } catch (error) {
+    logger.error(`Error retrieving progress on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve learning progress"
+    );
+  }
+}
+
+/**
+ * Sets the progress status of one or more nodes and returns the full progress
+ * Every path must exist in the current map; "not-started" removes the entry
+ */
+export async function updateMapProgress(
+  userId: string,
+  mapId: string,
+  updates: NodeProgressUpdate[]
+): Promise<MapProgress> {
+  const learningMap: LearningMap = (
+    await findLearningMapDocument(mapId)
+  ).toObject();
+
+  // Throws for malformed or unknown paths before anything is written
+  updates.forEach(({ path }) =>
+    resolveNodePath(learningMap, parseNodePath(path))
+  );
+
+  const owner = {
+    userId: new Types.ObjectId(userId),
+    mapId: new Types.ObjectId(mapId),
+  };
+
+  try {
+    await NodeProgressModel.bulkWrite(
+      updates.map(({ path, status }) =>
+        status === "not-started"
+          ? { deleteOne: { filter: { ...owner, path } } }
+          : {
+              updateOne: {
+                filter: { ...owner, path },
+                update: { $set: { status, updatedAt: new Date() } },
+                upsert: true,
+              },
+            }
+      )
+    );
+    logger.debug(`Updated progress of ${updates.length} nodes on map ${mapId}`);
+  } catch (error) {
+    logger.error(`Error updating progress on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to update learning progress"
+    );
+  }
+
+  return getMapProgress(userId, mapId);
+}
+
+/**
+ * Moves the progress of every user on a map along with its nodes after an
+ * edit, regeneration or restore; progress on removed nodes is deleted
+ */
+export async function remapNodeProgress(
+  mapId: string,
+  paths: Map<string, string>
+): Promise<void> {
+  try {
+    const count = await remapNodeRows(NodeProgressModel, mapId, paths);
+    if (count > 0) {
+      logger.debug(
+        `Moved or removed progress on ${count} nodes of map ${mapId}`
+      );
+    }
+  } catch (error) {
+    logger.error(`Error moving progress on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to update learning progress of the edited map"
+    );
+  }
+}
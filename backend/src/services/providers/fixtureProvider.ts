@@ -0,0 +1,225 @@
+/**
+ * Deterministic learning map provider for local development and tests
+ * Builds the same map for the same topic and level without calling any model
+ */
+import { LearningMapProvider } from "../../interfaces/learningMapProvider.interface";
+import {
+  BranchStudyContext,
+  ExpandNodeContext,
+  GeneratedFlashcard,
+  LearningLevel,
+  LearningMap,
+  LearningMapStreamListener,
+  LearningResource,
+  MainBranch,
+  QuizQuestion,
+  RegenerateBranchContext,
+  ReplaceResourceContext,
+  SubTopic,
+} from "../../types";
+import { LEARNING_MAP_LIMITS } from "../../validations/learningMap.schema";
+
+const BRANCH_TEMPLATES = [
+  { title: "Foundations", focus: "the core ideas and vocabulary" },
+  { title: "Core Techniques", focus: "the essential methods and tools" },
+  { title: "Practical Applications", focus: "hands-on projects and use cases" },
+];
+
+const SUBTOPIC_TEMPLATES = ["Overview", "Key Concepts", "Common Pitfalls"];
+
+// Converts a title into a URL-friendly slug
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function buildResources(topic: string, title: string): LearningResource[] {
+  const slug = `${slugify(topic)}/${slugify(title)}`;
+  return [
+    {
+      type: "article",
+      title: `${title} explained`,
+      url: `https://example.com/articles/${slug}`,
+    },
+    {
+      type: "video",
+      title: `${title} walkthrough`,
+      url: `https://example.com/videos/${slug}`,
+    },
+  ];
+}
+
+function buildSubtopic(
+  topic: string,
+  branchTitle: string,
+  subtopicTemplate: string,
+  level: LearningLevel
+): SubTopic {
+  const title = `${branchTitle}: ${subtopicTemplate}`;
+  return {
+    title,
+    description: `${subtopicTemplate} of ${branchTitle.toLowerCase()} in ${topic} for ${level.toLowerCase()} learners.`,
+    resources: buildResources(topic, title),
+  };
+}
+
+export class FixtureProvider implements LearningMapProvider {
+  readonly name = "fixture" as const;
+  readonly model = "fixture";
+
+  async generateLearningMap(
+    topic: string,
+    level: LearningLevel
+  ): Promise<LearningMap> {
+    const branches: MainBranch[] = BRANCH_TEMPLATES.map((branch) => {
+      const branchTitle = `${topic} ${branch.title}`;
+      return {
+        title: branchTitle,
+        description: `Covers ${branch.focus} of ${topic}.`,
+        subtopics: SUBTOPIC_TEMPLATES.map((subtopic) =>
+          buildSubtopic(topic, branchTitle, subtopic, level)
+        ),
+      };
+    });
+
+    // The last subtopic of each branch leads into the first of the next one
+    const prerequisites = branches.slice(1).map((_, index) => ({
+      from: `${index}.${SUBTOPIC_TEMPLATES.length - 1}`,
+      to: `${index + 1}.0`,
+    }));
+
+    return { topic, level, branches, prerequisites };
+  }
+
+  async streamLearningMap(
+    topic: string,
+    level: LearningLevel,
+    onEvent: LearningMapStreamListener,
+    signal?: AbortSignal
+  ): Promise<LearningMap> {
+    const learningMap = await this.generateLearningMap(topic, level);
+    signal?.throwIfAborted();
+
+    learningMap.branches.forEach((branch, branchIndex) => {
+      onEvent({
+        type: "branch",
+        branchIndex,
+        branch: { title: branch.title, description: branch.description },
+      });
+      branch.subtopics.forEach((subtopic, subtopicIndex) => {
+        onEvent({ type: "subtopic", branchIndex, subtopicIndex, subtopic });
+      });
+    });
+
+    return learningMap;
+  }
+
+  async expandSubtopic({
+    topic,
+    level,
+    node,
+  }: ExpandNodeContext): Promise<SubTopic[]> {
+    return SUBTOPIC_TEMPLATES.map((subtopic) =>
+      buildSubtopic(topic, node.title, subtopic, level)
+    );
+  }
+
+  async findResources({
+    topic,
+    node,
+  }: ExpandNodeContext): Promise<LearningResource[]> {
+    const slug = `${slugify(topic)}/${slugify(node.title)}`;
+    const knownUrls = new Set(node.resources.map(({ url }) => url));
+    const resource: LearningResource = {
+      type: "book",
+      title: `${node.title}: further reading`,
+      url: `https://example.com/books/${slug}`,
+    };
+    return knownUrls.has(resource.url) ? [] : [resource];
+  }
+
+  async replaceResource({
+    topic,
+    node,
+    resource,
+  }: ReplaceResourceContext): Promise<LearningResource> {
+    const slug = `${slugify(topic)}/${slugify(node.title)}`;
+    return {
+      type: resource.type,
+      title: `${resource.title} (replacement)`,
+      url: `https://example.com/${resource.type}s/${slug}/replacement`,
+    };
+  }
+
+  async regenerateBranch({
+    topic,
+    level,
+    branch,
+    hint,
+  }: RegenerateBranchContext): Promise<MainBranch> {
+    const title = hint ? `${branch.title} (${hint})` : branch.title;
+    return {
+      title,
+      description: `Revised coverage of ${branch.title.toLowerCase()} in ${topic}.`,
+      subtopics: SUBTOPIC_TEMPLATES.map((subtopic) =>
+        buildSubtopic(topic, title, subtopic, level)
+      ),
+    };
+  }
+
+  async generateFlashcards({
+    topic,
+    subtopics,
+  }: BranchStudyContext): Promise<GeneratedFlashcard[]> {
+    return subtopics.map(({ path, subtopic }) => ({
+      path,
+      question: `What does "${subtopic.title}" cover in ${topic}?`,
+      answer: subtopic.description,
+    }));
+  }
+
+  async generateQuiz({
+    topic,
+    branch,
+    subtopics,
+  }: BranchStudyContext): Promise<QuizQuestion[]> {
+    const titles = subtopics.map(({ subtopic }) => subtopic.title);
+
+    // One question of each type per subtopic; options are the titles of the
+    // other subtopics, padded with generic distractors for small branches
+    return subtopics
+      .flatMap(({ path, subtopic }, index): QuizQuestion[] => {
+        const distractors = [
+          ...titles.filter((title) => title !== subtopic.title),
+          "None of the above",
+          "All of the above",
+        ].slice(0, 3);
+        const correctIndex = index % (distractors.length + 1);
+
+        return [
+          {
+            type: "multiple-choice",
+            path,
+            question: `Which subtopic covers the following? ${subtopic.description}`,
+            options: [
+              ...distractors.slice(0, correctIndex),
+              subtopic.title,
+              ...distractors.slice(correctIndex),
+            ],
+            correctIndex,
+            explanation: `This is the overview of "${subtopic.title}".`,
+          },
+          {
+            type: "short-answer",
+            path,
+            question: `In your own words, what does "${subtopic.title}" cover?`,
+            answer: subtopic.description,
+            explanation: `"${subtopic.title}" is part of ${branch.title} in ${topic}.`,
+          },
+        ];
+      })
+      .slice(0, LEARNING_MAP_LIMITS.quizQuestions.max);
+  }
+}
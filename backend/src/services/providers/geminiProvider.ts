@@ -0,0 +1,72 @@
+/**
+ * Learning map provider backed by the Google Gemini API
+ */
+import { GoogleGenAI } from "@google/genai";
+import { ErrorCodeEnum } from "../../enum/error-code.enum";
+import { AppError } from "../../middlewares/error.middleware";
+import logger from "../../utils/logger";
+import { PromptedProvider } from "./promptedProvider";
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model: string;
+  maxRepairAttempts: number;
+}
+
+export class GeminiProvider extends PromptedProvider {
+  readonly name = "gemini" as const;
+  readonly model: string;
+  private readonly client: GoogleGenAI;
+
+  constructor({ apiKey, model, maxRepairAttempts }: GeminiProviderOptions) {
+    super(maxRepairAttempts);
+
+    if (!apiKey) {
+      logger.error("GEMINI_API_KEY is not configured");
+      throw AppError.fromErrorCode(
+        ErrorCodeEnum.EXTERNAL_SERVICE_ERROR,
+        "GEMINI_API_KEY environment variable is not set"
+      );
+    }
+
+    this.model = model;
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  protected async generateText(
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const result = await this.client.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: { abortSignal: signal },
+    });
+
+    return result.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+
+  protected async streamText(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const stream = await this.client.models.generateContentStream({
+      model: this.model,
+      contents: prompt,
+      config: { abortSignal: signal },
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      const chunkText = chunk.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      if (chunkText) {
+        text += chunkText;
+        onChunk(chunkText);
+      }
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Selects the learning map provider configured through LLM_PROVIDER
+ */
+import { Env } from "../../config/env.config";
+import { ErrorCodeEnum } from "../../enum/error-code.enum";
+import {
+  LearningMapProvider,
+  LearningMapProviderName,
+} from "../../interfaces/learningMapProvider.interface";
+import { AppError } from "../../middlewares/error.middleware";
+import logger from "../../utils/logger";
+import { FixtureProvider } from "./fixtureProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+
+let provider: LearningMapProvider | null = null;
+
+/**
+ * Creates a provider instance by name using the values from Env
+ */
+export function createLearningMapProvider(
+  name: string = Env.LLM_PROVIDER
+): LearningMapProvider {
+  switch (name as LearningMapProviderName) {
+    case "gemini":
+      return new GeminiProvider({
+        apiKey: Env.GEMINI_API_KEY,
+        model: Env.GEMINI_MODEL,
+        maxRepairAttempts: Env.LLM_MAX_REPAIR_ATTEMPTS,
+      });
+    case "openai":
+      return new OpenAiCompatibleProvider({
+        baseUrl: Env.OPENAI_BASE_URL,
+        apiKey: Env.OPENAI_API_KEY,
+        model: Env.OPENAI_MODEL,
+        timeoutMs: Env.OPENAI_TIMEOUT_MS,
+        maxRepairAttempts: Env.LLM_MAX_REPAIR_ATTEMPTS,
+      });
+    case "fixture":
+      return new FixtureProvider();
+    default:
+      logger.error(`Unknown LLM provider configured: ${name}`);
+      throw AppError.fromErrorCode(
+        ErrorCodeEnum.INTERNAL_SERVER_ERROR,
+        `Unknown LLM_PROVIDER "${name}". Expected one of: gemini, openai, fixture`
+      );
+  }
+}
+
+/**
+ * Returns the configured provider, creating it on first use
+ */
+export function getLearningMapProvider(): LearningMapProvider {
+  if (!provider) {
+    provider = createLearningMapProvider();
+    logger.info(
+      `Using LLM provider: ${provider.name} (model: ${provider.model})`
+    );
+  }
+  return provider;
+}
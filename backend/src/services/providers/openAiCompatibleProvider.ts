@@ -0,0 +1,163 @@
+/**
+ * Learning map provider for any server exposing the OpenAI chat completions API
+ * Works with OpenAI itself as well as local servers such as llama.cpp or Ollama
+ */
+import { ErrorCodeEnum } from "../../enum/error-code.enum";
+import { AppError } from "../../middlewares/error.middleware";
+import { PromptedProvider } from "./promptedProvider";
+
+export interface OpenAiCompatibleProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  maxRepairAttempts: number;
+  timeoutMs: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null };
+  }>;
+  error?: { message?: string };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+  }>;
+}
+
+export class OpenAiCompatibleProvider extends PromptedProvider {
+  readonly name = "openai" as const;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly timeoutMs: number;
+
+  constructor({
+    baseUrl,
+    apiKey,
+    model,
+    timeoutMs,
+    maxRepairAttempts,
+  }: OpenAiCompatibleProviderOptions) {
+    super(maxRepairAttempts);
+    // Strip trailing slashes so endpoint paths can be appended safely
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+    this.model = model;
+    this.timeoutMs = timeoutMs;
+  }
+
+  protected async generateText(
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const response = await this.requestCompletion(prompt, false, signal);
+    const body = (await response.json()) as ChatCompletionResponse;
+    return body.choices?.[0]?.message?.content || "";
+  }
+
+  protected async streamText(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const response = await this.requestCompletion(prompt, true, signal);
+    if (!response.body) {
+      throw new Error("OpenAI-compatible server returned no stream body");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = "";
+    let text = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      // Server-Sent Events: one "data: {...}" line per delta
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split("\n");
+      pending = lines.pop() || "";
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") {
+          continue;
+        }
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const chunkText = chunk.choices?.[0]?.delta?.content || "";
+        if (chunkText) {
+          text += chunkText;
+          onChunk(chunkText);
+        }
+      }
+    }
+
+    return text;
+  }
+
+  /**
+   * Sends a chat completion request and maps HTTP failures to errors
+   * The request is cancelled after timeoutMs or when the signal is aborted
+   */
+  private async requestCompletion(
+    prompt: string,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    // Local servers usually run without authentication
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.7,
+        stream,
+      }),
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(this.timeoutMs)])
+        : AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (response.ok) {
+      return response;
+    }
+
+    const body = (await response
+      .json()
+      .catch(() => ({}))) as ChatCompletionResponse;
+    const message =
+      body.error?.message || `${response.status} ${response.statusText}`;
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`Invalid API key: ${message}`);
+    }
+
+    if (response.status === 429) {
+      throw AppError.fromErrorCode(
+        ErrorCodeEnum.TOO_MANY_REQUESTS,
+        "API quota exceeded. Please try again later"
+      );
+    }
+
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.EXTERNAL_SERVICE_ERROR,
+      `OpenAI-compatible server error: ${message}`
+    );
+  }
+}
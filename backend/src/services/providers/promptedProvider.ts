@@ -0,0 +1,431 @@
+/**
+ * Base class for providers backed by a text-completion LLM
+ * Handles prompt composition, response parsing and error mapping so that
+ * concrete providers only need to implement the raw model call
+ */
+import { type z } from "zod";
+import { ErrorCodeEnum } from "../../enum/error-code.enum";
+import {
+  LearningMapProvider,
+  LearningMapProviderName,
+} from "../../interfaces/learningMapProvider.interface";
+import { AppError } from "../../middlewares/error.middleware";
+import {
+  BranchStudyContext,
+  ExpandNodeContext,
+  GeneratedFlashcard,
+  LearningLevel,
+  LearningMap,
+  LearningMapStreamListener,
+  LearningResource,
+  MainBranch,
+  QuizQuestion,
+  RegenerateBranchContext,
+  ReplaceResourceContext,
+  SubTopic,
+} from "../../types";
+import logger from "../../utils/logger";
+import {
+  ExpandNodeResponseSchema,
+  FindResourcesResponseSchema,
+  FlashcardsResponseSchema,
+  LEARNING_MAP_LIMITS,
+  LearningMapResponseSchema,
+  QuizResponseSchema,
+  RegenerateBranchResponseSchema,
+  ReplaceResourceResponseSchema,
+} from "../../validations/learningMap.schema";
+import {
+  createExpandNodePrompt,
+  createFindResourcesPrompt,
+  createFlashcardsPrompt,
+  createLearningMapPrompt,
+  createQuizPrompt,
+  createRegenerateBranchPrompt,
+  createRepairPrompt,
+  createReplaceResourcePrompt,
+} from "./prompts";
+import { parseModelResponse } from "./responseParser";
+import { LearningMapStreamParser } from "./streamParser";
+
+/**
+ * Extends a response schema so that items referencing subtopic paths outside
+ * the context fail validation, which sends them back to the model for repair
+ */
+function withKnownPaths<
+  T extends Record<K, { path: string }[]>,
+  K extends string,
+>(
+  schema: z.ZodType<T>,
+  key: K,
+  { subtopics }: BranchStudyContext
+): z.ZodType<T> {
+  const paths = new Set(subtopics.map(({ path }) => path));
+
+  return schema.superRefine((response, ctx) =>
+    response[key].forEach((item, index) => {
+      if (!paths.has(item.path)) {
+        ctx.addIssue({
+          code: "custom",
+          path: [key, index, "path"],
+          message: `Unknown subtopic path "${item.path}"`,
+        });
+      }
+    })
+  );
+}
+
+export abstract class PromptedProvider implements LearningMapProvider {
+  abstract readonly name: LearningMapProviderName;
+  abstract readonly model: string;
+
+  // Number of times invalid output is sent back to the model for correction
+  protected readonly maxRepairAttempts: number;
+
+  constructor(maxRepairAttempts: number) {
+    this.maxRepairAttempts = maxRepairAttempts;
+  }
+
+  /**
+   * Sends a prompt to the model and resolves with its raw text output
+   */
+  protected abstract generateText(
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<string>;
+
+  /**
+   * Streams the model output chunk by chunk and resolves with the full text
+   * Providers without streaming support deliver the whole response as one chunk
+   */
+  protected async streamText(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const text = await this.generateText(prompt, signal);
+    onChunk(text);
+    return text;
+  }
+
+  /**
+   * Generates a learning map for the given topic and level
+   */
+  async generateLearningMap(
+    topic: string,
+    level: LearningLevel
+  ): Promise<LearningMap> {
+    return this.buildLearningMap(topic, level);
+  }
+
+  /**
+   * Generates a learning map while emitting branches and subtopics as they stream in
+   */
+  async streamLearningMap(
+    topic: string,
+    level: LearningLevel,
+    onEvent: LearningMapStreamListener,
+    signal?: AbortSignal
+  ): Promise<LearningMap> {
+    return this.buildLearningMap(topic, level, onEvent, signal);
+  }
+
+  /**
+   * Generates child subtopics for a single subtopic
+   */
+  async expandSubtopic(context: ExpandNodeContext): Promise<SubTopic[]> {
+    const response = await this.generateValidated(
+      createExpandNodePrompt(context),
+      ExpandNodeResponseSchema
+    );
+
+    logger.info(
+      `Generated ${response.subtopics.length} child subtopics for "${context.node.title}"`
+    );
+
+    return response.subtopics;
+  }
+
+  /**
+   * Suggests more resources for one subtopic
+   * Resources the subtopic already lists are sent back for repair
+   */
+  async findResources(context: ExpandNodeContext): Promise<LearningResource[]> {
+    const knownUrls = new Set(context.node.resources.map(({ url }) => url));
+    const response = await this.generateValidated(
+      createFindResourcesPrompt(context),
+      FindResourcesResponseSchema.superRefine(({ resources }, ctx) =>
+        resources.forEach(({ url }, index) => {
+          if (knownUrls.has(url)) {
+            ctx.addIssue({
+              code: "custom",
+              path: ["resources", index, "url"],
+              message: `Resource "${url}" is already listed`,
+            });
+          }
+        })
+      )
+    );
+
+    logger.info(
+      `Found ${response.resources.length} resources for "${context.node.title}"`
+    );
+
+    return response.resources;
+  }
+
+  /**
+   * Suggests a replacement for a broken resource
+   * URLs the subtopic already lists, including the broken one, fail validation
+   * so the model is asked to repair its answer
+   */
+  async replaceResource(
+    context: ReplaceResourceContext
+  ): Promise<LearningResource> {
+    const knownUrls = new Set(context.node.resources.map(({ url }) => url));
+    const response = await this.generateValidated(
+      createReplaceResourcePrompt(context),
+      ReplaceResourceResponseSchema.superRefine(({ resource }, ctx) => {
+        if (knownUrls.has(resource.url)) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["resource", "url"],
+            message: `Resource "${resource.url}" is already listed`,
+          });
+        }
+      })
+    );
+
+    logger.info(
+      `Replaced resource "${context.resource.title}" of "${context.node.title}" with "${response.resource.title}"`
+    );
+
+    return response.resource;
+  }
+
+  /**
+   * Generates a replacement for one branch, using the other branches as context
+   */
+  async regenerateBranch(
+    context: RegenerateBranchContext
+  ): Promise<MainBranch> {
+    const response = await this.generateValidated(
+      createRegenerateBranchPrompt(context),
+      RegenerateBranchResponseSchema
+    );
+
+    logger.info(
+      `Regenerated branch "${context.branch.title}" as "${response.branch.title}"`
+    );
+
+    return response.branch;
+  }
+
+  /**
+   * Generates flashcards for the subtopics of one branch
+   * Cards must reference listed subtopic paths and every subtopic needs its
+   * minimum number of cards; other answers are sent back for repair
+   */
+  async generateFlashcards(
+    context: BranchStudyContext
+  ): Promise<GeneratedFlashcard[]> {
+    const { min } = LEARNING_MAP_LIMITS.flashcards;
+    const response = await this.generateValidated(
+      createFlashcardsPrompt(context),
+      withKnownPaths(
+        FlashcardsResponseSchema,
+        "flashcards",
+        context
+      ).superRefine(({ flashcards }, ctx) =>
+        context.subtopics.forEach(({ path }) => {
+          const count = flashcards.filter((card) => card.path === path).length;
+          if (count < min) {
+            ctx.addIssue({
+              code: "custom",
+              path: ["flashcards"],
+              message: `Only ${count} flashcards for subtopic "${path}", at least ${min} required`,
+            });
+          }
+        })
+      )
+    );
+
+    logger.info(
+      `Generated ${response.flashcards.length} flashcards for branch "${context.branch.title}"`
+    );
+
+    return response.flashcards;
+  }
+
+  /**
+   * Generates a quiz on one branch
+   * Questions must reference listed subtopic paths; others are sent back for repair
+   */
+  async generateQuiz(context: BranchStudyContext): Promise<QuizQuestion[]> {
+    const response = await this.generateValidated(
+      createQuizPrompt(context),
+      withKnownPaths(QuizResponseSchema, "questions", context)
+    );
+
+    logger.info(
+      `Generated ${response.questions.length} quiz questions for branch "${context.branch.title}"`
+    );
+
+    return response.questions;
+  }
+
+  private async buildLearningMap(
+    topic: string,
+    level: LearningLevel,
+    onEvent?: LearningMapStreamListener,
+    signal?: AbortSignal
+  ): Promise<LearningMap> {
+    const prompt = createLearningMapPrompt(topic, level);
+    const streamParser = onEvent ? new LearningMapStreamParser() : null;
+
+    const parsedResponse = await this.generateValidated(
+      prompt,
+      LearningMapResponseSchema,
+      streamParser && onEvent
+        ? (chunk) => streamParser.feed(chunk).forEach(onEvent)
+        : undefined,
+      signal
+    );
+
+    if (parsedResponse.droppedPrerequisites.length > 0) {
+      logger.warn(
+        `Dropped ${parsedResponse.droppedPrerequisites.length} invalid prerequisite links from the generated map`,
+        { issues: parsedResponse.droppedPrerequisites }
+      );
+    }
+
+    logger.info(
+      `Successfully generated learning map with ${parsedResponse.branches.length} branches`
+    );
+
+    return {
+      topic,
+      level,
+      branches: parsedResponse.branches,
+      prerequisites: parsedResponse.prerequisites,
+    };
+  }
+
+  /**
+   * Runs a prompt and validates the output against a schema
+   * Invalid output is sent back to the model together with the validation
+   * errors, up to maxRepairAttempts times. Only the first attempt is streamed.
+   * Aborting the signal stops the current request and any further repair
+   * attempts; the abort reason is rethrown as is.
+   */
+  protected async generateValidated<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    onChunk?: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    try {
+      logger.debug(
+        `Making ${this.name} request (model: ${this.model}, streaming: ${!!onChunk}) with prompt:`,
+        prompt.substring(0, 100) + "..."
+      );
+
+      let responseText = onChunk
+        ? await this.streamText(prompt, onChunk, signal)
+        : await this.generateText(prompt, signal);
+
+      for (let attempt = 0; ; attempt++) {
+        if (!responseText) {
+          logger.error(`${this.name} returned empty response`);
+          throw AppError.fromErrorCode(
+            ErrorCodeEnum.EXTERNAL_SERVICE_ERROR,
+            `${this.name} returned empty response`
+          );
+        }
+
+        // Parse and validate the response
+        const result = parseModelResponse(responseText, schema);
+        if (result.success) {
+          logger.debug(`Successfully parsed ${this.name} response`);
+          return result.data;
+        }
+
+        if (attempt >= this.maxRepairAttempts) {
+          throw AppError.fromErrorCode(
+            ErrorCodeEnum.MODEL_RESPONSE_INVALID,
+            `${this.name} returned an invalid response after ${
+              attempt + 1
+            } attempt(s)`,
+            { errors: result.errors }
+          );
+        }
+
+        logger.warn(
+          `${this.name} response failed validation (attempt ${attempt + 1}), re-prompting`,
+          { errors: result.errors }
+        );
+        signal?.throwIfAborted();
+        responseText = await this.generateText(
+          createRepairPrompt(prompt, responseText, result.errors),
+          signal
+        );
+      }
+    } catch (error: unknown) {
+      if (signal?.aborted) {
+        logger.info(`${this.name} request aborted`);
+        throw signal.reason;
+      }
+      logger.error(`${this.name} error occurred:`, error);
+      throw this.toAppError(error);
+    }
+  }
+
+  /**
+   * Maps provider errors to AppError instances with the matching error code
+   */
+  protected toAppError(error: unknown): AppError {
+    // If it's already an AppError, re-throw it
+    if (error instanceof AppError) {
+      return error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("API key")) {
+      return AppError.fromErrorCode(
+        ErrorCodeEnum.EXTERNAL_SERVICE_ERROR,
+        `${this.name} API key not configured or invalid`
+      );
+    }
+
+    if (errorMessage.includes("quota")) {
+      return AppError.fromErrorCode(
+        ErrorCodeEnum.TOO_MANY_REQUESTS,
+        "API quota exceeded. Please try again later"
+      );
+    }
+
+    if (errorMessage.includes("network") || errorMessage.includes("fetch")) {
+      return AppError.fromErrorCode(
+        ErrorCodeEnum.NETWORK_ERROR,
+        "Network error. Please check your connection"
+      );
+    }
+
+    if (
+      errorMessage.includes("timeout") ||
+      (error instanceof Error && error.name === "TimeoutError")
+    ) {
+      return AppError.fromErrorCode(
+        ErrorCodeEnum.EXTERNAL_SERVICE_TIMEOUT,
+        "Request timed out. Please try again"
+      );
+    }
+
+    // Unknown errors
+    return AppError.fromErrorCode(
+      ErrorCodeEnum.EXTERNAL_SERVICE_ERROR,
+      errorMessage || "Unknown error occurred while generating learning map"
+    );
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * Prompt templates shared by all text-based LLM providers
+ */
+import {
+  BranchStudyContext,
+  BranchSubtopic,
+  ExpandNodeContext,
+  LearningLevel,
+  RegenerateBranchContext,
+  ReplaceResourceContext,
+} from "../../types";
+import { LEARNING_MAP_LIMITS } from "../../validations/learningMap.schema";
+
+const {
+  branches,
+  prerequisites,
+  subtopics,
+  resources,
+  children,
+  foundResources,
+  flashcards,
+  quizQuestions,
+  quizOptions,
+} = LEARNING_MAP_LIMITS;
+
+// Version of the learning map prompt, part of the generation cache key
+// Bump it when createLearningMapPrompt changes so maps generated from the old
+// prompt are no longer reused
+export const LEARNING_MAP_PROMPT_VERSION = 1;
+
+/**
+ * Crafts a precise prompt for the model to generate structured learning maps
+ */
+export function createLearningMapPrompt(
+  topic: string,
+  level: LearningLevel
+): string {
+  return `Generate a structured, hierarchical learning map for the topic: ${topic}.
+
+Requirements:
+- Include ${branches.min}-${branches.max} main branches, each containing ${subtopics.min}-${subtopics.max} subtopics
+- Each subtopic should include:
+  - A clear, concise title
+  - A one-sentence overview/description
+  - ${resources.min}-${resources.max} suggested learning resources (each with type: "article", "video", or "book", plus title and URL)
+- Adapt the complexity of explanations to the ${level} learning level
+  - Beginner: Simple explanations, foundational concepts, step-by-step guidance
+  - Intermediate: Balanced depth, practical applications, building on fundamentals
+  - Advanced: Deep technical details, complex concepts, expert-level content
+- List up to ${prerequisites.max} prerequisite links between subtopics where one should be learned before another (links may cross branches)
+  - Refer to subtopics by path: "<branch index>.<subtopic index>", both zero-based in the order you list them (e.g. "0.2" is the third subtopic of the first branch)
+  - "from" is the subtopic to learn first, "to" the subtopic that builds on it
+  - Only link subtopics within this map, and never create a cycle
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "branches": [
+    {
+      "title": "Branch Title",
+      "description": "Brief description of this branch",
+      "subtopics": [
+        {
+          "title": "Subtopic Title",
+          "description": "One-sentence overview",
+          "resources": [
+            {
+              "type": "article|video|book",
+              "title": "Resource Title",
+              "url": "https://example.com/resource"
+            }
+          ]
+        }
+      ]
+    }
+  ],
+  "prerequisites": [
+    {
+      "from": "0.1",
+      "to": "1.0"
+    }
+  ]
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the JSON object.`;
+}
+
+/**
+ * Crafts a prompt asking for child subtopics that go deeper into a single subtopic
+ */
+export function createExpandNodePrompt({
+  topic,
+  level,
+  ancestorTitles,
+  node,
+  siblingTitles,
+}: ExpandNodeContext): string {
+  return `You are extending an existing learning map for the topic: ${topic} (${level} level).
+
+The learner wants to go deeper into this subtopic:
+- Location in the map: ${[...ancestorTitles, node.title].join(" > ")}
+- Title: ${node.title}
+- Description: ${node.description}
+${
+  node.subtopics && node.subtopics.length > 0
+    ? `- Existing child subtopics (do not repeat them): ${node.subtopics
+        .map((child) => child.title)
+        .join(", ")}\n`
+    : ""
+}${
+    siblingTitles.length > 0
+      ? `- Neighbouring subtopics already covered elsewhere (do not repeat them): ${siblingTitles.join(
+          ", "
+        )}\n`
+      : ""
+  }
+Requirements:
+- Generate ${children.min}-${children.max} child subtopics that break "${node.title}" down into more specific concepts
+- Each child subtopic should include:
+  - A clear, concise title
+  - A one-sentence overview/description
+  - ${resources.min}-${resources.max} suggested learning resources (each with type: "article", "video", or "book", plus title and URL)
+- Match the complexity to the ${level} learning level
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "subtopics": [
+    {
+      "title": "Subtopic Title",
+      "description": "One-sentence overview",
+      "resources": [
+        {
+          "type": "article|video|book",
+          "title": "Resource Title",
+          "url": "https://example.com/resource"
+        }
+      ]
+    }
+  ]
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the JSON object.`;
+}
+
+/**
+ * Crafts a prompt asking for more learning resources on a single subtopic
+ */
+export function createFindResourcesPrompt({
+  topic,
+  level,
+  ancestorTitles,
+  node,
+}: ExpandNodeContext): string {
+  return `You are extending an existing learning map for the topic: ${topic} (${level} level).
+
+The learner wants more learning resources for this subtopic:
+- Location in the map: ${[...ancestorTitles, node.title].join(" > ")}
+- Title: ${node.title}
+- Description: ${node.description}
+${
+  node.resources.length > 0
+    ? `- Resources it already lists (do not repeat them):\n${node.resources
+        .map((resource) => `  - ${resource.title} (${resource.url})`)
+        .join("\n")}\n`
+    : ""
+}
+Requirements:
+- Suggest ${foundResources.min}-${foundResources.max} additional learning resources (each with type: "article", "video", or "book", plus title and URL)
+- Prefer well-known, reputable sources with stable URLs
+- Cover angles the existing resources miss, such as a different format or depth
+- Match the complexity to the ${level} learning level
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "resources": [
+    {
+      "type": "article|video|book",
+      "title": "Resource Title",
+      "url": "https://example.com/resource"
+    }
+  ]
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the JSON object.`;
+}
+
+/**
+ * Crafts a prompt asking for a working replacement of a subtopic's broken resource
+ */
+export function createReplaceResourcePrompt({
+  topic,
+  level,
+  ancestorTitles,
+  node,
+  resource,
+}: ReplaceResourceContext): string {
+  const otherResources = node.resources.filter(
+    ({ url }) => url !== resource.url
+  );
+
+  return `You are maintaining an existing learning map for the topic: ${topic} (${level} level).
+
+One learning resource of this subtopic has a broken link:
+- Location in the map: ${[...ancestorTitles, node.title].join(" > ")}
+- Title: ${node.title}
+- Description: ${node.description}
+- Broken resource: ${resource.title} (${resource.type}, ${resource.url})
+${
+  otherResources.length > 0
+    ? `- Other resources it lists (do not repeat them):\n${otherResources
+        .map((other) => `  - ${other.title} (${other.url})`)
+        .join("\n")}\n`
+    : ""
+}
+Requirements:
+- Suggest exactly one resource that replaces the broken one, covering the same material
+- Prefer the same type ("${resource.type}"); use "article", "video", or "book" otherwise
+- Do not return the broken URL; prefer well-known, reputable sources with stable URLs, such as the current location of the same resource or an official documentation page
+- Match the complexity to the ${level} learning level
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "resource": {
+    "type": "article|video|book",
+    "title": "Resource Title",
+    "url": "https://example.com/resource"
+  }
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the JSON object.`;
+}
+
+/**
+ * Crafts a prompt asking for a replacement of one branch that does not overlap the others
+ */
+export function createRegenerateBranchPrompt({
+  topic,
+  level,
+  branch,
+  otherBranches,
+  hint,
+}: RegenerateBranchContext): string {
+  const otherBranchSummary = otherBranches
+    .map(
+      (other) =>
+        `- ${other.title}: ${other.subtopics
+          .map((subtopic) => subtopic.title)
+          .join(", ")}`
+    )
+    .join("\n");
+
+  return `You are improving an existing learning map for the topic: ${topic} (${level} level).
+
+Rewrite this branch, which the learner found weak:
+- Title: ${branch.title}
+- Description: ${branch.description}
+- Subtopics: ${branch.subtopics.map((subtopic) => subtopic.title).join(", ")}
+${hint ? `\nLearner guidance for the new version: ${hint}\n` : ""}
+The other branches of the map stay unchanged. Do not duplicate their content:
+${otherBranchSummary || "- (none)"}
+
+Requirements:
+- Keep the branch focused on the same area of ${topic}, but improve its structure and content
+- Include ${subtopics.min}-${subtopics.max} subtopics
+- Each subtopic should include:
+  - A clear, concise title
+  - A one-sentence overview/description
+  - ${resources.min}-${resources.max} suggested learning resources (each with type: "article", "video", or "book", plus title and URL)
+- Match the complexity to the ${level} learning level
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "branch": {
+    "title": "Branch Title",
+    "description": "Brief description of this branch",
+    "subtopics": [
+      {
+        "title": "Subtopic Title",
+        "description": "One-sentence overview",
+        "resources": [
+          {
+            "type": "article|video|book",
+            "title": "Resource Title",
+            "url": "https://example.com/resource"
+          }
+        ]
+      }
+    ]
+  }
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the JSON object.`;
+}
+
+/**
+ * Lists the subtopics of a branch with their paths in brackets
+ */
+function formatSubtopicList(branchSubtopics: BranchSubtopic[]): string {
+  return branchSubtopics
+    .map(
+      ({ path, subtopic, ancestorTitles }) =>
+        `- [${path}] ${[...ancestorTitles.slice(1), subtopic.title].join(
+          " > "
+        )}: ${subtopic.description}`
+    )
+    .join("\n");
+}
+
+/**
+ * Crafts a prompt asking for question/answer flashcards on the subtopics of one branch
+ */
+export function createFlashcardsPrompt({
+  topic,
+  level,
+  branch,
+  subtopics: branchSubtopics,
+}: BranchStudyContext): string {
+  const subtopicList = formatSubtopicList(branchSubtopics);
+
+  return `You are writing flashcards for a learner studying the topic: ${topic} (${level} level).
+
+The cards cover the branch "${branch.title}" (${branch.description}) and its subtopics, each listed with its path in brackets:
+${subtopicList}
+
+Requirements:
+- Write ${flashcards.min}-${flashcards.max} flashcards for every subtopic listed above
+- Each flashcard should include:
+  - The path of its subtopic, exactly as listed in brackets
+  - A question that tests one fact or concept of the subtopic
+  - A concise answer (one to three sentences) that is correct on its own
+- Avoid yes/no questions and questions answered by the subtopic title alone
+- Match the difficulty to the ${level} learning level
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "flashcards": [
+    {
+      "path": "0.1",
+      "question": "Question text",
+      "answer": "Answer text"
+    }
+  ]
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the JSON object.`;
+}
+
+/**
+ * Crafts a prompt asking for a self-assessment quiz on one branch
+ */
+export function createQuizPrompt({
+  topic,
+  level,
+  branch,
+  subtopics: branchSubtopics,
+}: BranchStudyContext): string {
+  const subtopicList = formatSubtopicList(branchSubtopics);
+
+  return `You are writing a self-assessment quiz for a learner studying the topic: ${topic} (${level} level).
+
+The quiz covers the branch "${branch.title}" (${branch.description}) and its subtopics, each listed with its path in brackets:
+${subtopicList}
+
+Requirements:
+- Write ${quizQuestions.min}-${quizQuestions.max} questions in total, covering every subtopic listed above at least once where the limit allows
+- Mix two question types:
+  - "multiple-choice": ${quizOptions.min}-${quizOptions.max} options with exactly one correct option, given by its zero-based correctIndex; wrong options should be plausible
+  - "short-answer": a question answered in one or two sentences, with a model answer the learner can compare against
+- Each question should include:
+  - The path of its subtopic, exactly as listed in brackets
+  - An explanation of why the correct answer is right, shown after answering
+- Avoid trick questions and questions answered by the subtopic title alone
+- Match the difficulty to the ${level} learning level
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "questions": [
+    {
+      "type": "multiple-choice",
+      "path": "0.1",
+      "question": "Question text",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correctIndex": 2,
+      "explanation": "Why option C is correct"
+    },
+    {
+      "type": "short-answer",
+      "path": "0.2",
+      "question": "Question text",
+      "answer": "Model answer",
+      "explanation": "What a good answer should mention"
+    }
+  ]
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the JSON object.`;
+}
+
+/**
+ * Asks the model to fix a response that failed JSON parsing or schema validation
+ */
+export function createRepairPrompt(
+  originalPrompt: string,
+  previousResponse: string,
+  errors: string[]
+): string {
+  return `${originalPrompt}
+
+Your previous response did not satisfy these requirements. It had the following problems:
+${errors
+  .slice(0, 20)
+  .map((error) => `- ${error}`)
+  .join("\n")}
+
+Previous response:
+${previousResponse}
+
+Return the corrected JSON object only, fixing every problem listed above.`;
+}
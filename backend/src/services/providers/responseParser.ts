@@ -0,0 +1,50 @@
+/**
+ * Parsing and validation of raw model output
+ */
+import { type z } from "zod";
+import { extractJsonCandidate, repairJson } from "../../utils/jsonRepair.util";
+import logger from "../../utils/logger";
+
+export type ModelParseResult<T> =
+  { success: true; data: T } | { success: false; errors: string[] };
+
+/**
+ * Parses model output as JSON (repairing it if needed) and validates it against the schema
+ * Returns readable validation errors instead of throwing so callers can re-prompt
+ */
+export function parseModelResponse<T>(
+  responseText: string,
+  schema: z.ZodType<T>
+): ModelParseResult<T> {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(extractJsonCandidate(responseText));
+  } catch {
+    try {
+      json = JSON.parse(repairJson(responseText));
+      logger.debug("Model response required JSON repair");
+    } catch (error) {
+      return {
+        success: false,
+        errors: [
+          `Response is not valid JSON: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        ],
+      };
+    }
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
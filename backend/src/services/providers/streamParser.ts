@@ -0,0 +1,197 @@
+/**
+ * Incremental parser that extracts branches and subtopics from a streamed
+ * learning map JSON document as soon as each of them is complete
+ */
+import { LearningMapStreamEvent, MainBranch, SubTopic } from "../../types";
+import logger from "../../utils/logger";
+
+interface Frame {
+  kind: "object" | "array";
+  start: number;
+  // Key of this container inside its parent object (if any)
+  parentKey?: string;
+  // Most recent key seen inside this object and where its string started
+  key?: string;
+  keyStart?: number;
+  // Number of child containers opened inside this array
+  count: number;
+}
+
+export class LearningMapStreamParser {
+  private buffer = "";
+  private position = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private pendingString: { start: number; end: number } | null = null;
+  private stack: Frame[] = [];
+
+  /**
+   * Appends a chunk of model output and returns the events it completed
+   */
+  feed(chunk: string): LearningMapStreamEvent[] {
+    this.buffer += chunk;
+    const events: LearningMapStreamEvent[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.pendingString = {
+            start: this.stringStart,
+            end: this.position + 1,
+          };
+        }
+        continue;
+      }
+
+      // Ignore any prose or code fences before the root object
+      if (this.stack.length === 0 && char !== "{") {
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ":":
+          this.recordKey();
+          break;
+        case "{":
+        case "[":
+          this.open(char === "{" ? "object" : "array", events);
+          break;
+        case "}":
+        case "]":
+          this.close(events);
+          break;
+        default:
+          break;
+      }
+    }
+
+    return events;
+  }
+
+  private recordKey(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame || frame.kind !== "object" || !this.pendingString) {
+      return;
+    }
+
+    const { start, end } = this.pendingString;
+    try {
+      frame.key = JSON.parse(this.buffer.slice(start, end));
+      frame.keyStart = start;
+    } catch {
+      frame.key = undefined;
+    }
+    this.pendingString = null;
+  }
+
+  private open(kind: Frame["kind"], events: LearningMapStreamEvent[]): void {
+    const parent = this.stack[this.stack.length - 1];
+    if (parent && parent.kind === "array") {
+      parent.count++;
+    }
+
+    this.stack.push({
+      kind,
+      start: this.position,
+      parentKey: parent && parent.kind === "object" ? parent.key : undefined,
+      count: 0,
+    });
+
+    // A branch's subtopics array is starting, so its title and description are known
+    if (kind === "array" && this.isBranch(this.stack.length - 2)) {
+      const event = this.branchHeaderEvent();
+      if (event) {
+        events.push(event);
+      }
+    }
+  }
+
+  private close(events: LearningMapStreamEvent[]): void {
+    const depth = this.stack.length - 1;
+
+    if (this.isSubtopic(depth)) {
+      const subtopic = this.parseSlice<SubTopic>(this.stack[depth].start);
+      if (subtopic) {
+        events.push({
+          type: "subtopic",
+          branchIndex: this.stack[1].count - 1,
+          subtopicIndex: this.stack[depth - 1].count - 1,
+          subtopic: { ...subtopic, resources: subtopic.resources || [] },
+        });
+      }
+    }
+
+    this.stack.pop();
+    this.pendingString = null;
+  }
+
+  // Root object -> "branches" array -> branch object
+  private isBranch(depth: number): boolean {
+    const frame = this.stack[depth];
+    return (
+      depth === 2 &&
+      frame.kind === "object" &&
+      this.stack[1].parentKey === "branches" &&
+      frame.key === "subtopics"
+    );
+  }
+
+  // Branch object -> "subtopics" array -> subtopic object
+  private isSubtopic(depth: number): boolean {
+    return (
+      depth === 4 &&
+      this.stack[depth].kind === "object" &&
+      this.stack[depth - 1].parentKey === "subtopics" &&
+      this.stack[1].parentKey === "branches"
+    );
+  }
+
+  // Parses the branch fields preceding its "subtopics" key
+  private branchHeaderEvent(): LearningMapStreamEvent | null {
+    const branchFrame = this.stack[2];
+    if (branchFrame.keyStart === undefined) {
+      return null;
+    }
+
+    const header = this.buffer
+      .slice(branchFrame.start, branchFrame.keyStart)
+      .trim()
+      .replace(/,$/, "");
+
+    try {
+      const branch = JSON.parse(`${header}}`) as Partial<MainBranch>;
+      return {
+        type: "branch",
+        branchIndex: this.stack[1].count - 1,
+        branch: {
+          title: branch.title || "",
+          description: branch.description || "",
+        },
+      };
+    } catch (error) {
+      logger.debug("Could not parse streamed branch header yet", error);
+      return null;
+    }
+  }
+
+  private parseSlice<T>(start: number): T | null {
+    try {
+      return JSON.parse(this.buffer.slice(start, this.position + 1)) as T;
+    } catch (error) {
+      logger.debug("Could not parse streamed node", error);
+      return null;
+    }
+  }
+}
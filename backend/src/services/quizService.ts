@@ -0,0 +1,426 @@
+/**
+ * Service layer for branch quizzes and the learner's attempts at them
+ * Quizzes are stored against the map so every learner answers the same
+ * questions; scored attempts update the learner's progress on the subtopics
+ * they cover and reveal weak areas
+ * Quizzes and attempts are stored by branch id and addressed by the branch's
+ * current index
+ */
+import { Types } from "mongoose";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { LearningMapProvider } from "../interfaces/learningMapProvider.interface";
+import { AppError } from "../middlewares/error.middleware";
+import { BranchQuizDocument, BranchQuizModel } from "../models/BranchQuiz";
+import { QuizAttemptDocument, QuizAttemptModel } from "../models/QuizAttempt";
+import {
+  BranchQuiz,
+  LearningMap,
+  MainBranch,
+  NodeProgressUpdate,
+  QuizAnswer,
+  QuizAttempt,
+  QuizPerformance,
+  QuizQuestion,
+  QuizQuestionResult,
+  SubtopicQuizScore,
+} from "../types";
+import logger from "../utils/logger";
+import { listBranchSubtopics } from "../utils/nodePath.util";
+import { findLearningMapDocument } from "./mapService";
+import { updateMapProgress } from "./progressService";
+import { getLearningMapProvider } from "./providers";
+
+// Subtopics at or below this share of correct answers are weak areas
+const WEAK_AREA_THRESHOLD = 0.5;
+
+/**
+ * Converts a stored question to the API shape, dropping the fields of the
+ * other question type
+ */
+function toQuizQuestion(question: QuizQuestion): QuizQuestion {
+  const { path, question: text, explanation } = question;
+
+  return question.type === "multiple-choice"
+    ? {
+        type: "multiple-choice",
+        path,
+        question: text,
+        options: question.options,
+        correctIndex: question.correctIndex,
+        explanation,
+      }
+    : {
+        type: "short-answer",
+        path,
+        question: text,
+        answer: question.answer,
+        explanation,
+      };
+}
+
+/**
+ * Converts a stored quiz to the API shape
+ * Parameters: branchIndex - Current index of the branch, mapRevision -
+ * Current revision of the map, to flag outdated quizzes
+ */
+function toBranchQuiz(
+  quiz: BranchQuizDocument,
+  branchIndex: number,
+  mapRevision: number
+): BranchQuiz {
+  return {
+    mapId: String(quiz.mapId),
+    branchIndex,
+    branchTitle: quiz.branchTitle,
+    revision: quiz.revision,
+    outdated: quiz.revision !== mapRevision,
+    questions: quiz.questions.map(toQuizQuestion),
+    generatedBy: quiz.generatedBy,
+    createdAt: quiz.createdAt,
+  };
+}
+
+/**
+ * Converts a stored attempt to the API shape
+ */
+function toQuizAttempt(
+  attempt: QuizAttemptDocument,
+  branchIndex: number
+): QuizAttempt {
+  return {
+    mapId: String(attempt.mapId),
+    branchIndex,
+    score: attempt.score,
+    total: attempt.total,
+    results: attempt.results.map(({ path, correct }): QuizQuestionResult => ({
+      path,
+      correct,
+    })),
+    createdAt: attempt.createdAt,
+  };
+}
+
+/**
+ * Loads a map and resolves one of its branches by index
+ * Throws a not found error when the branch does not exist
+ */
+async function findBranch(
+  mapId: string,
+  branchIndex: number
+): Promise<{
+  learningMap: LearningMap;
+  branch: MainBranch;
+  branchId: Types.ObjectId;
+}> {
+  const learningMap: LearningMap = (
+    await findLearningMapDocument(mapId)
+  ).toObject();
+  // Branches are subdocuments, so stored maps give each one an _id
+  const branch = learningMap.branches[branchIndex] as
+    (MainBranch & { _id: Types.ObjectId }) | undefined;
+
+  if (!branch) {
+    throw AppError.notFoundError("Branch");
+  }
+
+  return { learningMap, branch, branchId: branch._id };
+}
+
+/**
+ * Retrieves the stored quiz of a branch, or null when none was generated
+ */
+export async function getBranchQuiz(
+  mapId: string,
+  branchIndex: number
+): Promise<BranchQuiz | null> {
+  const { learningMap, branchId } = await findBranch(mapId, branchIndex);
+
+  try {
+    const quiz: BranchQuizDocument | null = await BranchQuizModel.findOne({
+      mapId: new Types.ObjectId(mapId),
+      branchId,
+    }).lean();
+
+    return quiz
+      ? toBranchQuiz(quiz, branchIndex, learningMap.revision ?? 1)
+      : null;
+  } catch (error) {
+    logger.error(`Error retrieving quiz of map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve quiz"
+    );
+  }
+}
+
+/**
+ * Generates a quiz on one branch of a map and stores it in place of any
+ * previous quiz on that branch
+ */
+export async function generateBranchQuiz(
+  mapId: string,
+  branchIndex: number,
+  provider: LearningMapProvider = getLearningMapProvider()
+): Promise<BranchQuiz> {
+  const { learningMap, branch, branchId } = await findBranch(
+    mapId,
+    branchIndex
+  );
+
+  const subtopics = listBranchSubtopics(branch, branchIndex);
+  if (subtopics.length === 0) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "The branch has no subtopics to generate a quiz for"
+    );
+  }
+
+  const questions = await provider.generateQuiz({
+    topic: learningMap.topic,
+    level: learningMap.level,
+    branch,
+    subtopics,
+  });
+
+  logger.info(
+    `Generated ${questions.length} quiz questions for branch ${branchIndex} of map ${mapId}`
+  );
+
+  try {
+    const quiz: BranchQuizDocument = await BranchQuizModel.findOneAndUpdate(
+      { mapId: new Types.ObjectId(mapId), branchId },
+      {
+        branchTitle: branch.title,
+        revision: learningMap.revision ?? 1,
+        questions,
+        generatedBy: `${provider.name}/${provider.model}`,
+        createdAt: new Date(),
+      },
+      { upsert: true, new: true }
+    ).lean();
+
+    return toBranchQuiz(quiz, branchIndex, learningMap.revision ?? 1);
+  } catch (error) {
+    logger.error(`Error saving quiz of map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to save quiz"
+    );
+  }
+}
+
+/**
+ * Scores one answer: multiple-choice answers against the stored correct
+ * option, short answers by the learner's own verdict
+ */
+function isCorrectAnswer(question: QuizQuestion, answer: QuizAnswer): boolean {
+  return question.type === "multiple-choice"
+    ? answer.selectedIndex === question.correctIndex
+    : answer.correct === true;
+}
+
+/**
+ * Derives progress updates from quiz results: subtopics answered correctly
+ * every time are done, the others are still in progress
+ */
+function toProgressUpdates(
+  results: QuizQuestionResult[]
+): NodeProgressUpdate[] {
+  const mastered = new Map<string, boolean>();
+
+  results.forEach(({ path, correct }) =>
+    mastered.set(path, (mastered.get(path) ?? true) && correct)
+  );
+
+  return [...mastered.entries()].map(([path, done]) => ({
+    path,
+    status: done ? "done" : "in-progress",
+  }));
+}
+
+/**
+ * Scores an attempt at a branch quiz, stores it and updates the learner's
+ * progress on the subtopics the questions cover
+ * Answers are given in question order, one per question. Quizzes generated
+ * before the map last changed are refused, since their questions may cover
+ * moved or removed subtopics.
+ */
+export async function submitQuizAttempt(
+  userId: string,
+  mapId: string,
+  branchIndex: number,
+  answers: QuizAnswer[]
+): Promise<QuizAttempt> {
+  const { branchId } = await findBranch(mapId, branchIndex);
+  const quiz = await getBranchQuiz(mapId, branchIndex);
+
+  if (!quiz) {
+    throw AppError.notFoundError("Quiz for this branch");
+  }
+
+  if (quiz.outdated) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.MAP_REVISION_CONFLICT,
+      "The map has changed since this quiz was generated; regenerate it before submitting answers"
+    );
+  }
+
+  if (answers.length !== quiz.questions.length) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      `Expected ${quiz.questions.length} answers, received ${answers.length}`
+    );
+  }
+
+  const results = quiz.questions.map((question, index): QuizQuestionResult => ({
+    path: question.path,
+    correct: isCorrectAnswer(question, answers[index]),
+  }));
+  const score = results.filter(({ correct }) => correct).length;
+
+  let attempt: QuizAttemptDocument;
+  try {
+    attempt = (
+      await QuizAttemptModel.create({
+        userId: new Types.ObjectId(userId),
+        mapId: new Types.ObjectId(mapId),
+        branchId,
+        score,
+        total: results.length,
+        results,
+      })
+    ).toObject();
+  } catch (error) {
+    logger.error(`Error saving quiz attempt on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to save quiz attempt"
+    );
+  }
+
+  logger.debug(
+    `Scored quiz attempt on branch ${branchIndex} of map ${mapId}: ${score}/${results.length}`
+  );
+
+  const updates = toProgressUpdates(results);
+
+  if (updates.length > 0) {
+    await updateMapProgress(userId, mapId, updates);
+  }
+
+  return toQuizAttempt(attempt, branchIndex);
+}
+
+/**
+ * Summarizes a learner's latest attempt at each branch quiz of a map per
+ * subtopic, and lists the subtopics that need review
+ * Attempts on branches that were removed since are left out
+ */
+export async function getQuizPerformance(
+  userId: string,
+  mapId: string
+): Promise<QuizPerformance> {
+  const learningMap: LearningMap = (
+    await findLearningMapDocument(mapId)
+  ).toObject();
+  // Current branch indices by branch id
+  const branchIndices = new Map(
+    learningMap.branches.map((branch, index) => [
+      String((branch as MainBranch & { _id: Types.ObjectId })._id),
+      index,
+    ])
+  );
+
+  let attempts: QuizAttemptDocument[];
+  try {
+    attempts = await QuizAttemptModel.find({
+      userId: new Types.ObjectId(userId),
+      mapId: new Types.ObjectId(mapId),
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+  } catch (error) {
+    logger.error(`Error retrieving quiz attempts on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve quiz results"
+    );
+  }
+
+  // Attempts are sorted newest first, so the first one per branch is the latest
+  const latest = new Map<number, QuizAttempt>();
+  attempts.forEach((attempt) => {
+    const branchIndex = branchIndices.get(String(attempt.branchId));
+    if (branchIndex !== undefined && !latest.has(branchIndex)) {
+      latest.set(branchIndex, toQuizAttempt(attempt, branchIndex));
+    }
+  });
+
+  const subtopics: Record<string, SubtopicQuizScore> = {};
+  [...latest.values()].forEach(({ results }) =>
+    results.forEach(({ path, correct }) => {
+      const score = (subtopics[path] ??= { correct: 0, total: 0 });
+      score.total += 1;
+      score.correct += correct ? 1 : 0;
+    })
+  );
+
+  return {
+    mapId,
+    subtopics,
+    weakPaths: Object.entries(subtopics)
+      .filter(
+        ([, { correct, total }]) => correct / total <= WEAK_AREA_THRESHOLD
+      )
+      .map(([path]) => path),
+  };
+}
+
+/**
+ * Moves the results of every learner's quiz attempts on a map along with
+ * their subtopics after an edit, regeneration or restore, so weak areas point
+ * at the right nodes; results on removed subtopics are dropped
+ * Scores are kept as they were when the attempt was submitted
+ */
+export async function remapQuizAttempts(
+  mapId: string,
+  paths: Map<string, string>
+): Promise<void> {
+  try {
+    const attempts: QuizAttemptDocument[] = await QuizAttemptModel.find({
+      mapId: new Types.ObjectId(mapId),
+    })
+      .select("results")
+      .lean();
+
+    const updates = attempts
+      .filter(({ results }) =>
+        results.some(({ path }) => paths.get(path) !== path)
+      )
+      .map(({ _id, results }) => ({
+        updateOne: {
+          filter: { _id },
+          update: {
+            $set: {
+              results: results.flatMap(({ path, correct }) => {
+                const newPath = paths.get(path);
+                return newPath ? [{ path: newPath, correct }] : [];
+              }),
+            },
+          },
+        },
+      }));
+    if (updates.length === 0) return;
+
+    await QuizAttemptModel.bulkWrite(updates);
+    logger.debug(
+      `Moved or removed results of ${updates.length} quiz attempts on map ${mapId}`
+    );
+  } catch (error) {
+    logger.error(`Error moving quiz results on map ${mapId}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to update quiz results of the edited map"
+    );
+  }
+}
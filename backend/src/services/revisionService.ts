@@ -0,0 +1,165 @@
+/**
+ * Service layer for learning map revisions
+ * Records a snapshot for every change and compares stored revisions
+ */
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { MapRevisionModel } from "../models/MapRevision";
+import {
+  LearningMap,
+  MapChange,
+  MapDiff,
+  MapRevision,
+  MapRevisionSummary,
+} from "../types";
+import logger from "../utils/logger";
+import { diffLearningMaps } from "../utils/mapDiff.util";
+
+/**
+ * Stores a revision holding the content of a map about to be saved
+ * The unique {mapId, revision} index lets only one change claim a revision
+ * number; a concurrent change of the same revision fails with
+ * MAP_REVISION_CONFLICT
+ */
+export async function recordMapRevision(
+  learningMap: LearningMap,
+  change: MapChange
+): Promise<void> {
+  const { _id, topic, level, branches, prerequisites, revision } = learningMap;
+
+  try {
+    await MapRevisionModel.create({
+      ...change,
+      mapId: _id,
+      revision,
+      snapshot: { topic, level, branches, prerequisites },
+    });
+    logger.debug(
+      `Recorded revision ${revision} (${change.action}) of map ${_id}`
+    );
+  } catch (error) {
+    if (
+      error &&
+      typeof error === "object" &&
+      "code" in error &&
+      error.code === 11000
+    ) {
+      logger.warn(`Revision ${revision} of map ${_id} was already recorded`);
+      throw AppError.fromErrorCode(ErrorCodeEnum.MAP_REVISION_CONFLICT);
+    }
+
+    logger.error(`Error recording revision of learning map ${_id}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to record learning map revision"
+    );
+  }
+}
+
+/**
+ * Removes a revision whose change could not be saved, releasing its number
+ * Failures are only logged so the original save error is reported
+ */
+export async function discardMapRevision(
+  mapId: unknown,
+  revision: number
+): Promise<void> {
+  try {
+    await MapRevisionModel.deleteOne({ mapId, revision });
+    logger.debug(`Discarded revision ${revision} of map ${mapId}`);
+  } catch (error) {
+    logger.error(
+      `Error discarding revision ${revision} of learning map ${mapId}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Lists the revisions of a map, newest first, without their snapshots
+ */
+export async function listMapRevisions(
+  mapId: string
+): Promise<MapRevisionSummary[]> {
+  try {
+    const revisions = await MapRevisionModel.find({ mapId })
+      .select("-snapshot")
+      .sort({ revision: -1 })
+      .lean();
+
+    return revisions as unknown as MapRevisionSummary[];
+  } catch (error) {
+    throw toRevisionQueryError(error, mapId);
+  }
+}
+
+/**
+ * Retrieves a single revision including its snapshot
+ */
+export async function getMapRevision(
+  mapId: string,
+  revision: number
+): Promise<MapRevision> {
+  let result: MapRevision | null;
+
+  try {
+    result = (await MapRevisionModel.findOne({
+      mapId,
+      revision,
+    }).lean()) as unknown as MapRevision | null;
+  } catch (error) {
+    throw toRevisionQueryError(error, mapId);
+  }
+
+  if (!result) {
+    logger.warn(`Revision ${revision} not found for map ${mapId}`);
+    throw AppError.notFoundError(`Revision ${revision}`);
+  }
+
+  return result;
+}
+
+/**
+ * Compares two revisions of a map
+ */
+export async function diffMapRevisions(
+  mapId: string,
+  from: number,
+  to: number
+): Promise<MapDiff> {
+  const [before, after] = await Promise.all([
+    getMapRevision(mapId, from),
+    getMapRevision(mapId, to),
+  ]);
+
+  return {
+    from,
+    to,
+    changes: diffLearningMaps(before.snapshot, after.snapshot),
+  };
+}
+
+/**
+ * Maps revision query errors to AppErrors
+ */
+function toRevisionQueryError(error: unknown, mapId: string): AppError {
+  logger.error(`Error retrieving revisions of learning map ${mapId}:`, error);
+
+  // Handle invalid ObjectId format
+  if (
+    error &&
+    typeof error === "object" &&
+    "name" in error &&
+    error.name === "CastError"
+  ) {
+    return AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      `Invalid learning map ID format: ${mapId}`
+    );
+  }
+
+  return AppError.fromErrorCode(
+    ErrorCodeEnum.DATABASE_QUERY_ERROR,
+    "Failed to retrieve learning map revisions"
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Service layer for map visibility and read-only share links
+ */
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { LearningMapModel } from "../models/LearningMap";
+import { LearningMap, MapVisibility, SharedLearningMap } from "../types";
+import logger from "../utils/logger";
+import { generateShareSlug } from "../utils/shareSlug.util";
+import { findLearningMapDocument, saveLearningMapDocument } from "./mapService";
+
+/**
+ * Retrieves the map behind a share link
+ * Links of private maps and revoked slugs resolve to not found
+ */
+export async function getSharedLearningMap(
+  slug: string
+): Promise<SharedLearningMap> {
+  let learningMap: LearningMap | null;
+
+  try {
+    learningMap = (await LearningMapModel.findOne({
+      shareSlug: slug,
+      visibility: { $in: ["unlisted", "public"] },
+    })
+      .select("-ownerId")
+      .lean()) as unknown as LearningMap | null;
+  } catch (error) {
+    logger.error(`Error retrieving shared learning map ${slug}:`, error);
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.DATABASE_QUERY_ERROR,
+      "Failed to retrieve shared learning map"
+    );
+  }
+
+  if (!learningMap) {
+    logger.warn(`No shared learning map for slug ${slug}`);
+    throw AppError.notFoundError("Shared learning map");
+  }
+
+  return learningMap;
+}
+
+/**
+ * Changes who can view a map
+ * Unlisted and public maps get a share slug if they do not have one yet
+ */
+export async function updateLearningMapVisibility(
+  id: string,
+  visibility: MapVisibility
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+
+  document.set("visibility", visibility);
+  if (visibility !== "private" && !document.shareSlug) {
+    document.set("shareSlug", generateShareSlug());
+  }
+
+  logger.info(`Set visibility of map ${id} to ${visibility}`);
+
+  return saveLearningMapDocument(document);
+}
+
+/**
+ * Replaces the share slug so previously shared links stop working
+ */
+export async function rotateLearningMapShareSlug(
+  id: string
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+
+  if (document.visibility === "private") {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "Make the map unlisted or public before creating a share link"
+    );
+  }
+
+  document.set("shareSlug", generateShareSlug());
+
+  logger.info(`Rotated share slug of map ${id}`);
+
+  return saveLearningMapDocument(document);
+}
+
+/**
+ * Removes the share slug
+ * Unlisted maps are only reachable through their link, so they become private
+ */
+export async function revokeLearningMapShareSlug(
+  id: string
+): Promise<LearningMap> {
+  const document = await findLearningMapDocument(id);
+
+  document.set("shareSlug", undefined);
+  if (document.visibility === "unlisted") {
+    document.set("visibility", "private");
+  }
+
+  logger.info(`Revoked share slug of map ${id}`);
+
+  return saveLearningMapDocument(document);
+}
@@ -15,12 +15,26 @@ declare module "express" {
     body: any;
     params: any;
     query: any;
+    method: string;
     ip?: string;
+    headers: Record<string, string | string[] | undefined>;
+    cookies: Record<string, string | undefined>;
+    // Set by the authenticate middleware for signed-in users
+    user?: import("./index").AuthenticatedUser;
   }
   export interface Response {
     status(code: number): Response;
     json(body: any): Response;
     send(body: any): Response;
+    setHeader(name: string, value: string | number): Response;
+    cookie(name: string, value: string, options?: any): Response;
+    clearCookie(name: string, options?: any): Response;
+    flushHeaders(): void;
+    write(chunk: string): boolean;
+    end(): void;
+    on(event: string, listener: (...args: any[]) => void): Response;
+    headersSent: boolean;
+    writableEnded: boolean;
   }
   export interface NextFunction {
     (err?: any): void;
@@ -28,6 +42,9 @@ declare module "express" {
   export interface Router {
     get(path: string, ...handlers: any[]): Router;
     post(path: string, ...handlers: any[]): Router;
+    put(path: string, ...handlers: any[]): Router;
+    patch(path: string, ...handlers: any[]): Router;
+    delete(path: string, ...handlers: any[]): Router;
   }
   export function json(): any;
   export function urlencoded(options?: any): any;
@@ -90,6 +107,20 @@ declare module "express-rate-limit" {
   export default rateLimit;
 }
 
+declare module "anki-apkg-export" {
+  // Builds an Anki package (.apkg) holding a single deck of Basic notes
+  export default class AnkiExport {
+    constructor(deckName: string, template?: Record<string, unknown>);
+    addMedia(filename: string, data: Buffer): void;
+    addCard(
+      front: string,
+      back: string,
+      options?: { tags?: string[] | string }
+    ): void;
+    save(options?: Record<string, unknown>): Promise<Buffer>;
+  }
+}
+
 declare module "mongoose" {
   export interface Document {
     _id?: any;
@@ -125,16 +156,26 @@ declare module "mongoose" {
 }
 
 declare module "@google/genai" {
+  export interface GenerateContentResponse {
+    candidates?: Array<{
+      content?: {
+        parts?: Array<{ text?: string }>;
+      };
+    }>;
+  }
   export class GoogleGenAI {
     constructor(options: { apiKey: string });
     models: {
-      generateContent(options: { model: string; contents: string }): Promise<{
-        candidates?: Array<{
-          content?: {
-            parts?: Array<{ text?: string }>;
-          };
-        }>;
-      }>;
+      generateContent(options: {
+        model: string;
+        contents: string;
+        config?: { abortSignal?: AbortSignal };
+      }): Promise<GenerateContentResponse>;
+      generateContentStream(options: {
+        model: string;
+        contents: string;
+        config?: { abortSignal?: AbortSignal };
+      }): Promise<AsyncGenerator<GenerateContentResponse>>;
     };
   }
 }
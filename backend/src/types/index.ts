@@ -1,15 +1,62 @@
 /**
  * Type definitions for learning map data structures
+ * Data shapes are inferred from the zod schemas in validations/learningMap.schema.ts
  */
+import type { z } from "zod";
+import type {
+  FlashcardExportFormatSchema,
+  FlashcardSchema,
+  ImportedLearningMapSchema,
+  LearningLevelSchema,
+  LearningMapResponseSchema,
+  LearningResourceSchema,
+  MainBranchSchema,
+  MapExportFormatSchema,
+  MapFileFormatSchema,
+  MapVisibilitySchema,
+  MermaidVariantSchema,
+  PrerequisiteSchema,
+  ProgressStatusSchema,
+  QuizAnswerSchema,
+  QuizQuestionSchema,
+  ResourceTypeSchema,
+} from "../validations/learningMap.schema";
 
-export type LearningLevel = "Beginner" | "Intermediate" | "Advanced";
+export type LearningLevel = z.infer<typeof LearningLevelSchema>;
 
-export interface LearningResource {
-  type: "article" | "video" | "book";
-  title: string;
-  url: string;
+export type ResourceType = z.infer<typeof ResourceTypeSchema>;
+
+// Outcome of checking whether a resource URL still resolves
+export type LinkStatus = "ok" | "broken";
+
+// Result of the latest link check of a resource, see services/linkCheckService.ts
+export interface LinkCheck {
+  status: LinkStatus;
+  // Status code of the final response; absent when no response was received
+  httpStatus?: number;
+  // Reason a broken link failed, e.g. "HTTP 404" or "Timed out after 10000ms"
+  reason?: string;
+  checkedAt: Date;
 }
 
+export type LearningResource = z.infer<typeof LearningResourceSchema> & {
+  // Set by the link checker, never by the model or by user edits
+  linkCheck?: LinkCheck;
+};
+
+export type MapVisibility = z.infer<typeof MapVisibilitySchema>;
+
+export type MapFileFormat = z.infer<typeof MapFileFormatSchema>;
+
+export type MapExportFormat = z.infer<typeof MapExportFormatSchema>;
+
+export type MermaidVariant = z.infer<typeof MermaidVariantSchema>;
+
+export type FlashcardExportFormat = z.infer<typeof FlashcardExportFormatSchema>;
+
+export type ProgressStatus = z.infer<typeof ProgressStatusSchema>;
+
+// Declared explicitly because recursive schemas cannot be inferred
 export interface SubTopic {
   title: string;
   description: string;
@@ -17,24 +64,382 @@ export interface SubTopic {
   subtopics?: SubTopic[];
 }
 
-export interface MainBranch {
-  title: string;
-  description: string;
-  subtopics: SubTopic[];
-}
+export type MainBranch = z.infer<typeof MainBranchSchema>;
+
+// Link between two subtopics by node path, see utils/prerequisite.util.ts
+export type Prerequisite = z.infer<typeof PrerequisiteSchema>;
 
 export interface LearningMap {
+  _id?: string;
   topic: string;
   level: LearningLevel;
   branches: MainBranch[];
+  // Subtopics to learn before others, possibly across branches
+  prerequisites?: Prerequisite[];
+  tags?: string[];
+  // User who generated the map; null for maps generated anonymously
+  ownerId?: string | null;
+  visibility?: MapVisibility;
+  // Unguessable slug of the read-only share link (/api/share/:slug)
+  shareSlug?: string;
+  // Number of the latest revision recorded for this map
+  revision?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+  // Last time the resource links were checked, see services/linkCheckService.ts
+  linksCheckedAt?: Date;
+}
+
+// Content of a learning map read from an imported file
+export type ImportedLearningMap = z.infer<typeof ImportedLearningMapSchema>;
+
+// A learning map serialized for download
+export interface ExportedLearningMap {
+  content: string | Buffer;
+  contentType: string;
+  filename: string;
+}
+
+// Options of the PDF study guide export
+export interface StudyGuideOptions {
+  // Draw a checkbox next to every subtopic
+  checkboxes: boolean;
+  // Statuses by node path used to tick the checkboxes
+  progress?: Record<string, ProgressStatus>;
+}
+
+// Options passed to every exporter; each format reads the options it supports
+export interface MapExportFileOptions extends StudyGuideOptions {
+  // Diagram type of the Mermaid export
+  mermaidVariant: MermaidVariant;
+}
+
+// Content of a learning map captured by a revision
+export type LearningMapSnapshot = Pick<
+  LearningMap,
+  "topic" | "level" | "branches" | "prerequisites"
+>;
+
+// Kinds of changes recorded in a map's revision history
+export type MapRevisionAction =
+  | "created"
+  | "imported"
+  | "node-expanded"
+  | "branch-regenerated"
+  | "resources-found"
+  | "resource-replaced"
+  | "edited"
+  | "restored";
+
+// Describes a change to a map before it is recorded as a revision
+export interface MapChange {
+  action: MapRevisionAction;
+  // Human-readable description, e.g. 'Regenerated branch "Foundations"'
+  summary: string;
+  // Whether the content came from the model or directly from a user action
+  source: "model" | "user";
+  // Action-specific data such as the node path or regeneration hint
+  details?: Record<string, unknown>;
+  // Signed-in user who made the change; omitted for anonymous maps
+  userId?: string;
+}
+
+// Content accepted when a user adds a branch or subtopic
+export interface NewMapNode {
+  title: string;
+  description: string;
+  // Ignored for branches, which do not hold resources
+  resources: LearningResource[];
+}
+
+// Changes accepted when a user edits a branch or subtopic
+export interface MapNodeUpdate {
+  title?: string;
+  description?: string;
+  // New position among the node's siblings
+  position?: number;
+}
+
+export interface MapRevision extends MapChange {
+  _id?: string;
+  mapId: string;
+  revision: number;
+  snapshot: LearningMapSnapshot;
   createdAt?: Date;
 }
 
+// Revision metadata returned when listing a map's history
+export type MapRevisionSummary = Omit<MapRevision, "snapshot">;
+
+// A single difference between two revisions of a map
+export interface MapDiffChange {
+  kind: "branch" | "subtopic" | "resource";
+  change: "added" | "removed" | "modified";
+  // Node path of the branch or subtopic (for resources: the owning node)
+  path: string;
+  title: string;
+  // Fields that differ (modified entries only)
+  fields?: string[];
+}
+
+export interface MapDiff {
+  from: number;
+  to: number;
+  changes: MapDiffChange[];
+}
+
 export interface GenerateMapRequest {
   topic: string;
   level: LearningLevel;
+  tags?: string[];
+  // Skip the generation cache, see services/generationCacheService.ts
+  fresh?: boolean;
 }
 
-export interface GeminiResponse {
-  branches: MainBranch[];
+// Options of a learning map generation
+export interface GenerateMapOptions {
+  // Always call the model instead of reusing a cached or in-flight generation
+  fresh?: boolean;
+  // Stops the model call and skips saving, e.g. once the client disconnected
+  signal?: AbortSignal;
+}
+
+// A newly generated (and possibly saved) map
+export interface GeneratedLearningMap {
+  learningMap: LearningMap;
+  // Whether the content was reused from an identical recent or concurrent request
+  cached: boolean;
+}
+
+// Metadata stored alongside a newly generated map
+export interface NewMapMetadata {
+  tags?: string[];
+  // Omitted for anonymous generation
+  ownerId?: string;
+}
+
+// Filters and pagination options for listing saved maps
+export interface LearningMapListQuery {
+  // Full-text search across topic, branch titles and subtopic descriptions
+  q?: string;
+  level?: LearningLevel;
+  tag?: string;
+  // Creation date range (inclusive)
+  from?: Date;
+  to?: Date;
+  limit: number;
+  // Opaque cursor returned as nextCursor by the previous page
+  cursor?: string;
+  // Only list the maps of the signed-in user
+  mine?: boolean;
+}
+
+// Lightweight map entry returned when listing saved maps
+export interface LearningMapSummary {
+  _id: string;
+  topic: string;
+  level: LearningLevel;
+  tags: string[];
+  ownerId: string | null;
+  visibility: MapVisibility;
+  branchTitles: string[];
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface LearningMapPage {
+  items: LearningMapSummary[];
+  // null when there are no more maps
+  nextCursor: string | null;
+}
+
+export type LearningMapResponse = z.infer<typeof LearningMapResponseSchema>;
+
+// Events emitted while a learning map is being streamed from the model
+export type LearningMapStreamEvent =
+  | {
+      type: "branch";
+      branchIndex: number;
+      branch: Omit<MainBranch, "subtopics">;
+    }
+  | {
+      type: "subtopic";
+      branchIndex: number;
+      subtopicIndex: number;
+      subtopic: SubTopic;
+    };
+
+// Subtopic of a branch together with its location in the map
+export interface BranchSubtopic {
+  // Dot-separated node path, e.g. "2.0.1"
+  path: string;
+  subtopic: SubTopic;
+  // Titles from the branch down to the subtopic's parent
+  ancestorTitles: string[];
+}
+
+// Context sent to the model when expanding a subtopic into child subtopics
+// or finding more resources for it
+export interface ExpandNodeContext {
+  topic: string;
+  level: LearningLevel;
+  // Titles from the branch down to the node's parent
+  ancestorTitles: string[];
+  node: SubTopic;
+  siblingTitles: string[];
+}
+
+// Context sent to the model when replacing a broken resource of a subtopic
+export interface ReplaceResourceContext extends ExpandNodeContext {
+  resource: LearningResource;
+}
+
+// Context sent to the model when regenerating a single branch
+export interface RegenerateBranchContext {
+  topic: string;
+  level: LearningLevel;
+  branch: MainBranch;
+  // The other branches stay fixed and must not be duplicated
+  otherBranches: MainBranch[];
+  // Optional user guidance such as "more hands-on"
+  hint?: string;
+}
+
+// Context sent to the model when generating study material (flashcards,
+// quizzes) for one branch
+export interface BranchStudyContext {
+  topic: string;
+  level: LearningLevel;
+  branch: MainBranch;
+  // Subtopics of the branch at any depth, addressed by node path
+  subtopics: BranchSubtopic[];
+}
+
+// Card generated by the model for the subtopic at a node path
+export type GeneratedFlashcard = z.infer<typeof FlashcardSchema>;
+
+export interface Flashcard extends GeneratedFlashcard {
+  // Title of the branch when the card was generated, used as the Anki tag
+  branch: string;
+}
+
+// Flashcards stored against a map, so exports do not call the model again
+export interface FlashcardDeck {
+  mapId: string;
+  // Map revision the cards were generated from
+  revision: number;
+  // Whether the map changed since, so cards may cover removed or moved subtopics
+  outdated: boolean;
+  cards: Flashcard[];
+  // Provider and model that generated the cards, e.g. "gemini/gemini-2.5-flash"
+  generatedBy: string;
+  createdAt?: Date;
+}
+
+// Question generated by the model for the subtopic at a node path
+export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+
+// Quiz on one branch, stored against the map so attempts can be scored later
+export interface BranchQuiz {
+  mapId: string;
+  // Current index of the branch
+  branchIndex: number;
+  // Title of the branch when the quiz was generated
+  branchTitle: string;
+  // Map revision the questions were generated from
+  revision: number;
+  // Whether the map changed since; attempts at outdated quizzes are refused
+  outdated: boolean;
+  questions: QuizQuestion[];
+  generatedBy: string;
+  createdAt?: Date;
+}
+
+export type QuizAnswer = z.infer<typeof QuizAnswerSchema>;
+
+// Outcome of one question of an attempt
+export interface QuizQuestionResult {
+  path: string;
+  correct: boolean;
+}
+
+// Scored attempt at a branch quiz
+export interface QuizAttempt {
+  mapId: string;
+  // Current index of the branch
+  branchIndex: number;
+  score: number;
+  total: number;
+  results: QuizQuestionResult[];
+  createdAt?: Date;
+}
+
+// Answers per subtopic across the latest attempt at each branch quiz
+export interface SubtopicQuizScore {
+  correct: number;
+  total: number;
+}
+
+export interface QuizPerformance {
+  mapId: string;
+  subtopics: Record<string, SubtopicQuizScore>;
+  // Subtopics where at most half of the latest answers were correct
+  weakPaths: string[];
+}
+
+export type LearningMapStreamListener = (event: LearningMapStreamEvent) => void;
+
+// Registered account as returned by the API (never includes credentials)
+export interface User {
+  _id: string;
+  email: string;
+  name?: string;
+  createdAt: Date;
+}
+
+export interface AuthCredentials {
+  email: string;
+  password: string;
+}
+
+export interface RegisterUserRequest extends AuthCredentials {
+  name?: string;
+}
+
+// Identity attached to a request by the authentication middleware
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+}
+
+// Kind of access a request needs on a learning map
+// "owner" is required for sharing settings, which anonymous maps do not have
+export type MapAccess = "read" | "write" | "owner";
+
+// Map as returned by a share link: read-only and without owner details
+export type SharedLearningMap = Omit<LearningMap, "ownerId">;
+
+// Progress update for one node; "not-started" clears the stored state
+export interface NodeProgressUpdate {
+  path: string;
+  status: ProgressStatus;
+}
+
+// Progress of a user on a map: node path to status, for nodes that were started
+export interface MapProgress {
+  mapId: string;
+  nodes: Record<string, ProgressStatus>;
+}
+
+// Personal markdown note of a user on one node
+export interface NodeNote {
+  path: string;
+  content: string;
+  updatedAt: Date;
+}
+
+// Notes of a user on a map by node path, for nodes that have a note
+export interface MapNotes {
+  mapId: string;
+  notes: Record<string, NodeNote>;
 }
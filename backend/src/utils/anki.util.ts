@@ -0,0 +1,103 @@
+import AnkiExport from "anki-apkg-export";
+import { Flashcard } from "../types";
+import { escapeXml } from "./xml.util";
+
+// Anki decks built from stored flashcards: one "Basic" note per card in a
+// deck named after the map topic, tagged <topic>::<branch> so cards can be
+// filtered by branch in the Anki browser.
+
+interface AnkiNote {
+  front: string;
+  back: string;
+  deck: string;
+  tags: string[];
+}
+
+// Separators of the text import, by the name Anki uses in file headers
+const SEPARATOR_NAMES: Record<string, string> = {
+  ",": "Comma",
+  "\t": "Tab",
+};
+
+// Convert the map topic to a deck name ("::" would create subdecks)
+// Parameters: topic - Map topic
+// Returns Deck name
+const toAnkiDeckName = (topic: string): string =>
+  topic.trim().replace(/::/g, ":");
+
+// Convert a title to one level of an Anki tag (tags cannot contain spaces,
+// and "::" would nest them)
+// Parameters: title - Topic or branch title
+// Returns Tag
+const toAnkiTag = (title: string): string =>
+  toAnkiDeckName(title).replace(/\s+/g, "_");
+
+// Build the notes of a deck
+// Parameters: topic - Map topic, cards - Stored flashcards
+// Returns Anki notes
+const toAnkiNotes = (topic: string, cards: Flashcard[]): AnkiNote[] => {
+  const deck = toAnkiDeckName(topic);
+
+  return cards.map((card) => ({
+    front: card.question,
+    back: card.answer,
+    deck,
+    tags: [`${toAnkiTag(topic)}::${toAnkiTag(card.branch)}`],
+  }));
+};
+
+// Quote a field of the text import when it would otherwise be misread
+// Parameters: value - Field text, separator - Field separator
+// Returns Field, double-quoted (with doubled inner quotes) when it contains
+// the separator, quotes or line breaks, or starts with "#" (header marker)
+const formatField = (value: string, separator: string): string =>
+  value.includes(separator) || /["\r\n]/.test(value) || value.startsWith("#")
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+// Serialize flashcards as an Anki text import file
+// File headers tell Anki the separator, note type and the deck and tags
+// columns, so the file imports without manual field mapping
+// Parameters: topic - Map topic, cards - Stored flashcards, separator - "," (CSV) or "\t" (TSV)
+// Returns File content
+export const flashcardsToAnkiText = (
+  topic: string,
+  cards: Flashcard[],
+  separator: "," | "\t"
+): string =>
+  [
+    `#separator:${SEPARATOR_NAMES[separator]}`,
+    "#html:false",
+    "#notetype:Basic",
+    "#deck column:3",
+    "#tags column:4",
+    `#columns:${["Front", "Back", "Deck", "Tags"].join(separator)}`,
+    ...toAnkiNotes(topic, cards).map(({ front, back, deck, tags }) =>
+      [front, back, deck, tags.join(" ")]
+        .map((field) => formatField(field, separator))
+        .join(separator)
+    ),
+    "",
+  ].join("\n");
+
+// Convert plain text to an Anki field (fields are HTML)
+// Parameters: text - Question or answer
+// Returns HTML with line breaks as <br>
+const toAnkiHtml = (text: string): string =>
+  text.split(/\r?\n/).map(escapeXml).join("<br>");
+
+// Build an Anki package (.apkg) holding one deck
+// Parameters: topic - Map topic, cards - Stored flashcards
+// Returns Package file
+export const flashcardsToApkg = async (
+  topic: string,
+  cards: Flashcard[]
+): Promise<Buffer> => {
+  const apkg = new AnkiExport(toAnkiDeckName(topic));
+
+  toAnkiNotes(topic, cards).forEach(({ front, back, tags }) =>
+    apkg.addCard(toAnkiHtml(front), toAnkiHtml(back), { tags })
+  );
+
+  return apkg.save();
+};
@@ -0,0 +1,40 @@
+import { Types } from "mongoose";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+
+// Position of the last item on a page sorted by createdAt then _id (descending)
+export interface ListCursor {
+  createdAt: Date;
+  id: string;
+}
+
+// Encode a list position as an opaque URL-safe cursor
+// Parameters: cursor - createdAt and _id of the last item returned
+// Returns Base64url-encoded cursor string
+export const encodeCursor = ({ createdAt, id }: ListCursor): string =>
+  Buffer.from(
+    JSON.stringify({ createdAt: createdAt.toISOString(), id })
+  ).toString("base64url");
+
+// Decode a cursor produced by encodeCursor
+// Parameters: cursor - Cursor string from the client
+// Returns ListCursor; throws INVALID_INPUT for malformed or tampered cursors
+export const decodeCursor = (cursor: string): ListCursor => {
+  try {
+    const { createdAt, id } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    const date = new Date(createdAt);
+
+    if (!Types.ObjectId.isValid(id) || isNaN(date.getTime())) {
+      throw new Error("Invalid cursor fields");
+    }
+
+    return { createdAt: date, id };
+  } catch {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "Invalid pagination cursor"
+    );
+  }
+};
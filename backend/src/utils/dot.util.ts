@@ -0,0 +1,56 @@
+import { LearningMap } from "../types";
+import {
+  MapGraphNodeType,
+  toMapGraphLinks,
+  toMapGraphNodes,
+  toSingleLine,
+} from "./mapGraph.util";
+
+// Graphviz DOT digraph of the map hierarchy (titles only), laid out top-down.
+// Prerequisite links are dashed edges that do not affect the layout.
+// Render with e.g. `dot -Tsvg map.dot -o map.svg`.
+
+// Node attributes by node type
+const NODE_STYLES: Record<MapGraphNodeType, string> = {
+  topic: `shape=ellipse, style="filled,bold", fillcolor="#e0e7ff"`,
+  branch: `shape=box, style=filled, fillcolor="#f3f4f6"`,
+  subtopic: `shape=box, style=rounded`,
+};
+
+// Quote a string as a DOT ID
+// Backslashes and quotes are escaped so that titles are not read as DOT
+// escape sequences (such as \n or \N)
+// Parameters: value - Text to quote
+// Returns Double-quoted string
+export const quoteDotString = (value: string): string =>
+  `"${toSingleLine(value).replace(/[\\"]/g, "\\$&")}"`;
+
+// Serialize a learning map as a DOT digraph
+// Parameters: learningMap - Map to serialize
+// Returns DOT document
+export const learningMapToDot = (learningMap: LearningMap): string => {
+  const nodes = toMapGraphNodes(learningMap);
+
+  return [
+    `digraph ${quoteDotString(learningMap.topic)} {`,
+    `  rankdir=TB;`,
+    `  node [fontname="Helvetica"];`,
+    "",
+    ...nodes.map(
+      (node) =>
+        `  ${node.id} [label=${quoteDotString(node.title)}, ${
+          NODE_STYLES[node.type]
+        }];`
+    ),
+    "",
+    ...nodes
+      .filter((node) => node.parentId !== undefined)
+      .map((node) => `  ${node.parentId} -> ${node.id};`),
+    ...toMapGraphLinks(learningMap).map(
+      ({ fromId, toId }) =>
+        `  ${fromId} -> ${toId} [style=dashed, constraint=false];`
+    ),
+    `}`,
+    "",
+  ].join("\n");
+};
@@ -9,15 +9,23 @@ const ERROR_CODE_TO_STATUS: Record<ErrorCodeEnumType, number> = {
   VALIDATION_ERROR: HTTPSTATUS.BAD_REQUEST,
   INVALID_INPUT: HTTPSTATUS.BAD_REQUEST,
 
+  // Authentication and Authorization Errors
+  UNAUTHORIZED: HTTPSTATUS.UNAUTHORIZED,
+  INVALID_CREDENTIALS: HTTPSTATUS.UNAUTHORIZED,
+  FORBIDDEN: HTTPSTATUS.FORBIDDEN,
+  EMAIL_ALREADY_REGISTERED: HTTPSTATUS.CONFLICT,
+
   // Rate Limiting Errors
   TOO_MANY_REQUESTS: HTTPSTATUS.TOO_MANY_REQUESTS,
 
   // Database Errors
   DATABASE_QUERY_ERROR: HTTPSTATUS.INTERNAL_SERVER_ERROR,
+  MAP_REVISION_CONFLICT: HTTPSTATUS.CONFLICT,
 
   // External Service Errors (for Gemini API)
   EXTERNAL_SERVICE_ERROR: HTTPSTATUS.BAD_GATEWAY,
   EXTERNAL_SERVICE_TIMEOUT: HTTPSTATUS.GATEWAY_TIMEOUT,
+  MODEL_RESPONSE_INVALID: HTTPSTATUS.BAD_GATEWAY,
 
   // System Errors
   INTERNAL_SERVER_ERROR: HTTPSTATUS.INTERNAL_SERVER_ERROR,
@@ -61,15 +69,25 @@ export const getDefaultErrorMessage = (
     VALIDATION_ERROR: "Validation failed.",
     INVALID_INPUT: "Invalid input provided.",
 
+    // Authentication and Authorization Errors
+    UNAUTHORIZED: "Authentication required.",
+    INVALID_CREDENTIALS: "Invalid email or password.",
+    FORBIDDEN: "You do not have permission to perform this action.",
+    EMAIL_ALREADY_REGISTERED: "An account with this email already exists.",
+
     // Rate Limiting Errors
     TOO_MANY_REQUESTS: "Too many requests. Please try again later.",
 
     // Database Errors
     DATABASE_QUERY_ERROR: "Database query failed.",
+    MAP_REVISION_CONFLICT:
+      "The learning map was changed by another request. Reload it and try again.",
 
     // External Service Errors (for Gemini API)
     EXTERNAL_SERVICE_ERROR: "External service error occurred.",
     EXTERNAL_SERVICE_TIMEOUT: "External service timeout.",
+    MODEL_RESPONSE_INVALID:
+      "The AI model returned a response that could not be parsed or validated.",
 
     // System Errors
     INTERNAL_SERVER_ERROR: "Internal server error occurred.",
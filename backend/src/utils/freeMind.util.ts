@@ -0,0 +1,142 @@
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { LearningMap } from "../types";
+import {
+  learningMapToMindMapTree,
+  MindMapLearningMap,
+  MindMapNode,
+  mindMapTreeToLearningMap,
+} from "./mindMapTree.util";
+import { escapeXml, parseXml } from "./xml.util";
+
+// FreeMind (.mm) layout: the topic is the root node, descriptions are HTML
+// notes (one paragraph per line) and resources are nodes with a LINK. Level,
+// tags, prerequisites and resource types are stored as node attributes.
+// Freeplane reads the same format.
+
+// Serialize a description as a FreeMind HTML note
+// Leading and trailing spaces are written as character references so HTML
+// whitespace handling does not drop them
+// Parameters: note - Description text, indent - Indentation of the element
+// Returns XML lines
+const formatNote = (note: string, indent: string): string[] => [
+  `${indent}<richcontent TYPE="NOTE"><html><head></head><body>`,
+  ...note
+    .split(/\r?\n/)
+    .map(
+      (line) =>
+        `${indent}  <p>${escapeXml(line).replace(/^ +| +$/g, (spaces) =>
+          "&#32;".repeat(spaces.length)
+        )}</p>`
+    ),
+  `${indent}</body></html></richcontent>`,
+];
+
+// Serialize a node and its descendants
+// Parameters: node - Mind-map node, indent - Indentation of the element
+// Returns XML lines
+const formatNode = (node: MindMapNode, indent: string): string[] => {
+  const link = node.link !== undefined ? ` LINK="${escapeXml(node.link)}"` : "";
+  const content = [
+    ...Object.entries(node.attributes).map(
+      ([name, value]) =>
+        `${indent}  <attribute NAME="${escapeXml(name)}" VALUE="${escapeXml(
+          value
+        )}"/>`
+    ),
+    ...(node.note !== undefined ? formatNote(node.note, `${indent}  `) : []),
+    ...node.children.flatMap((child) => formatNode(child, `${indent}  `)),
+  ];
+
+  if (content.length === 0) {
+    return [`${indent}<node TEXT="${escapeXml(node.title)}"${link}/>`];
+  }
+
+  return [
+    `${indent}<node TEXT="${escapeXml(node.title)}"${link}>`,
+    ...content,
+    `${indent}</node>`,
+  ];
+};
+
+// Serialize a learning map as a FreeMind document
+// Parameters: learningMap - Map to serialize
+// Returns FreeMind (.mm) document
+export const learningMapToFreeMind = (learningMap: LearningMap): string =>
+  [
+    `<map version="1.0.1">`,
+    ...formatNode(learningMapToMindMapTree(learningMap), ""),
+    `</map>`,
+    "",
+  ].join("\n");
+
+// Convert the HTML of a note to plain text, one line per paragraph or line break
+// Parameters: html - Raw note markup
+// Returns Plain text
+const htmlToText = (html: string): string => {
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+  const text = body
+    // Line breaks in the markup are formatting, not content
+    .replace(/\s*\n\s*/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/ *\n */g, "\n");
+
+  // Markup has been removed, so the remaining entities can be decoded
+  const decoded = parseXml(`<note>${text}</note>`, "FreeMind", []).note;
+  return typeof decoded === "string" ? decoded.replace(/\n$/, "") : "";
+};
+
+// Convert a parsed node element to a mind-map node
+// Parameters: node - Parsed node element
+// Returns Mind-map node
+const elementToNode = (node: Record<string, any>): MindMapNode => {
+  const {
+    TEXT = "",
+    LINK,
+    attribute = [],
+    richcontent = [],
+    node: children = [],
+  } = node;
+  const note = richcontent.find(
+    (content: Record<string, any>) => content.TYPE === "NOTE"
+  );
+
+  return {
+    title: String(TEXT).trim(),
+    note: note ? htmlToText(String(note["#text"] ?? "")) : undefined,
+    link: LINK,
+    attributes: Object.fromEntries(
+      attribute
+        .filter((entry: Record<string, any>) => entry.NAME)
+        .map((entry: Record<string, any>) => [
+          String(entry.NAME),
+          String(entry.VALUE ?? ""),
+        ])
+    ),
+    children: children.map(elementToNode),
+  };
+};
+
+// Parse a FreeMind document back into map content
+// Parameters: mm - FreeMind (.mm) document
+// Returns Parsed map content; throws INVALID_INPUT when there is no root node
+export const parseLearningMapFreeMind = (mm: string): MindMapLearningMap => {
+  const document = parseXml(
+    mm,
+    "FreeMind",
+    ["node", "attribute", "richcontent"],
+    ["*.richcontent"]
+  );
+  const roots = document.map?.node || [];
+
+  if (roots.length !== 1) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      `Invalid FreeMind learning map: expected one root node (the topic), found ${roots.length}`
+    );
+  }
+
+  return mindMapTreeToLearningMap(elementToNode(roots[0]), "FreeMind");
+};
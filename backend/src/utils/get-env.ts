@@ -24,4 +24,23 @@ const getEnv = (key: string, defaultValue?: string) => {
   return value;
 };
 
+// Get an environment variable holding a whole number of at least `min`
+// Throws at startup instead of letting a typo turn into NaN
+export const getIntegerEnv = (
+  key: string,
+  defaultValue: number,
+  min = 0
+): number => {
+  const value = getEnv(key, String(defaultValue)).trim();
+  const parsed = /^-?\d+$/.test(value) ? parseInt(value, 10) : NaN;
+
+  if (Number.isNaN(parsed) || parsed < min) {
+    const message = `Environment variable ${key} must be a whole number of at least ${min}, got "${value}".`;
+    logger.error(message);
+    throw new Error(message);
+  }
+
+  return parsed;
+};
+
 export default getEnv;
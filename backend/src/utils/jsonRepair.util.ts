@@ -0,0 +1,134 @@
+// Tolerant JSON helpers for model output that is almost, but not quite, valid JSON
+
+interface RepairFrame {
+  closer: "}" | "]";
+  // Output length right after the last complete element (arrays only)
+  lastCompleteEnd: number;
+}
+
+// Extract the JSON document from a model response
+// Removes markdown code fences and any prose before or after the root value
+// Parameters: text - Raw model output
+// Returns The JSON candidate (possibly still truncated or malformed)
+export const extractJsonCandidate = (text: string): string => {
+  const cleaned = text.replace(/```(?:json)?/gi, "").trim();
+  const start = cleaned.search(/[{[]/);
+  if (start === -1) {
+    return cleaned;
+  }
+
+  // Find where the root value closes so trailing prose can be dropped
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < cleaned.length; i++) {
+    const char = cleaned[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{" || char === "[") depth++;
+    else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 0) {
+        return cleaned.slice(start, i + 1);
+      }
+    }
+  }
+
+  return cleaned.slice(start);
+};
+
+// Repair common defects in model-generated JSON
+// Handles prose around the JSON, trailing commas and truncated output
+// (incomplete trailing array elements are dropped and open containers closed)
+// Parameters: text - Raw model output
+// Returns Repaired JSON text (not guaranteed to parse)
+export const repairJson = (text: string): string => {
+  const source = extractJsonCandidate(text);
+  const stack: RepairFrame[] = [];
+  let output = "";
+  let inString = false;
+  let escaped = false;
+
+  for (const char of source) {
+    if (inString) {
+      output += char;
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (char) {
+      case '"':
+        inString = true;
+        output += char;
+        break;
+      case "{":
+      case "[":
+        output += char;
+        stack.push({
+          closer: char === "{" ? "}" : "]",
+          lastCompleteEnd: output.length,
+        });
+        break;
+      case "}":
+      case "]": {
+        // Drop trailing commas before the closing bracket
+        output = output.replace(/,\s*$/, "") + char;
+        stack.pop();
+        const parent = stack[stack.length - 1];
+        if (parent && parent.closer === "]") {
+          parent.lastCompleteEnd = output.length;
+        }
+        break;
+      }
+      case ",":
+        if (top && top.closer === "]") {
+          top.lastCompleteEnd = output.length;
+        }
+        output += char;
+        break;
+      default:
+        output += char;
+    }
+  }
+
+  if (stack.length === 0) {
+    return output;
+  }
+
+  // Truncated output: cut back to the last complete element of the deepest array
+  let arrayDepth = -1;
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i].closer === "]") {
+      arrayDepth = i;
+      break;
+    }
+  }
+
+  if (arrayDepth >= 0) {
+    output = output.slice(0, stack[arrayDepth].lastCompleteEnd);
+    stack.length = arrayDepth + 1;
+  } else {
+    if (inString) {
+      output += '"';
+    }
+    // Remove a key whose value was cut off
+    output = output.replace(/,?\s*"[^"]*"\s*:\s*$/, "");
+  }
+
+  output = output.replace(/,\s*$/, "");
+  return (
+    output +
+    stack
+      .map((frame) => frame.closer)
+      .reverse()
+      .join("")
+  );
+};
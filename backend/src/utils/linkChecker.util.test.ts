@@ -0,0 +1,134 @@
+/**
+ * Tests for the link checker against a local stub server
+ * The stub is reached with the global fetch as client: the default client
+ * refuses loopback addresses
+ */
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { checkLink, checkLinks, LinkCheckOptions } from "./linkChecker.util";
+
+// Requests received by the stub, as "METHOD /path"
+const requests: string[] = [];
+
+const stub = createServer((req: IncomingMessage, res: ServerResponse) => {
+  requests.push(`${req.method} ${req.url}`);
+
+  switch (req.url) {
+    case "/ok":
+      res.writeHead(200).end("ok");
+      break;
+    case "/missing":
+      res.writeHead(404).end();
+      break;
+    case "/get-only":
+      res.writeHead(req.method === "HEAD" ? 405 : 200).end();
+      break;
+    case "/moved":
+      res.writeHead(301, { Location: "/ok" }).end();
+      break;
+    case "/loop":
+      res.writeHead(302, { Location: "/loop" }).end();
+      break;
+    case "/slow":
+      // Never answers; the checker gives up after its timeout
+      break;
+    default:
+      res.writeHead(500).end();
+  }
+});
+
+let baseUrl = "";
+const options: LinkCheckOptions = { client: fetch, timeoutMs: 500 };
+
+before(async () => {
+  await new Promise<void>((resolve) => stub.listen(0, () => resolve()));
+  baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  stub.closeAllConnections();
+  stub.close();
+});
+
+describe("checkLink", () => {
+  it("reports reachable links as ok", async () => {
+    const check = await checkLink(`${baseUrl}/ok`, options);
+
+    assert.equal(check.status, "ok");
+    assert.equal(check.httpStatus, 200);
+  });
+
+  it("reports 404 responses as broken", async () => {
+    const check = await checkLink(`${baseUrl}/missing`, options);
+
+    assert.equal(check.status, "broken");
+    assert.equal(check.httpStatus, 404);
+    assert.equal(check.reason, "HTTP 404");
+  });
+
+  it("retries with GET when HEAD is refused with 405", async () => {
+    requests.length = 0;
+    const check = await checkLink(`${baseUrl}/get-only`, options);
+
+    assert.equal(check.status, "ok");
+    assert.equal(check.httpStatus, 200);
+    assert.deepEqual(requests, ["HEAD /get-only", "GET /get-only"]);
+  });
+
+  it("follows redirects", async () => {
+    const check = await checkLink(`${baseUrl}/moved`, options);
+
+    assert.equal(check.status, "ok");
+    assert.equal(check.httpStatus, 200);
+  });
+
+  it("reports redirect loops as broken", async () => {
+    const check = await checkLink(`${baseUrl}/loop`, {
+      ...options,
+      maxRedirects: 3,
+    });
+
+    assert.equal(check.status, "broken");
+    assert.equal(check.httpStatus, undefined);
+    assert.equal(check.reason, "More than 3 redirects");
+  });
+
+  it("reports links that do not answer in time as broken", async () => {
+    const check = await checkLink(`${baseUrl}/slow`, {
+      ...options,
+      timeoutMs: 100,
+    });
+
+    assert.equal(check.status, "broken");
+    assert.equal(check.reason, "Timed out after 100ms");
+  });
+
+  it("refuses loopback addresses with the default client", async () => {
+    requests.length = 0;
+    const check = await checkLink(`${baseUrl}/ok`);
+
+    assert.equal(check.status, "broken");
+    assert.match(check.reason ?? "", /private or reserved address/);
+    assert.deepEqual(requests, []);
+  });
+});
+
+describe("checkLinks", () => {
+  it("checks every distinct link once", async () => {
+    requests.length = 0;
+    const checks = await checkLinks(
+      [`${baseUrl}/ok`, `${baseUrl}/missing`, `${baseUrl}/ok`],
+      { ...options, concurrency: 2 }
+    );
+
+    assert.equal(checks.size, 2);
+    assert.equal(checks.get(`${baseUrl}/ok`)?.status, "ok");
+    assert.equal(checks.get(`${baseUrl}/missing`)?.status, "broken");
+    assert.deepEqual(
+      requests.filter((request) => request.endsWith("/ok")),
+      ["HEAD /ok"]
+    );
+  });
+});
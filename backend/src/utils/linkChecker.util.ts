@@ -0,0 +1,286 @@
+import { lookup as dnsLookup } from "dns";
+import { IncomingMessage, request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import { LinkCheck } from "../types";
+
+// Minimal response shape the link checker reads; the global fetch Response satisfies it
+export interface LinkCheckResponse {
+  status: number;
+  headers: { get(name: string): string | null };
+  body?: { cancel(): Promise<void> } | null;
+}
+
+// HTTP client used to resolve links. The default client refuses private and
+// reserved addresses (see guardedHttpClient); tests can pass a client such as
+// the global fetch pointed at a local stub server, or one answering in memory.
+export type LinkCheckHttpClient = (
+  url: string,
+  init: {
+    method: "HEAD" | "GET";
+    redirect: "manual";
+    headers: Record<string, string>;
+    signal: AbortSignal;
+  }
+) => Promise<LinkCheckResponse>;
+
+export interface LinkCheckOptions {
+  client?: LinkCheckHttpClient;
+  // Time allowed for each request, including every redirect hop
+  timeoutMs?: number;
+  maxRedirects?: number;
+  // Number of links checked at the same time
+  concurrency?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_CONCURRENCY = 5;
+
+const USER_AGENT = "Mozilla/5.0 (compatible; InagiffyLinkChecker/1.0)";
+
+// Servers that refuse HEAD requests answer with these; the link is retried with GET
+const HEAD_UNSUPPORTED_STATUSES = [403, 405, 501];
+
+// Status codes meaning the page is gone. Other client errors such as 401,
+// 403 or 429 mean the page exists but refused an automated request.
+const BROKEN_CLIENT_STATUSES = [404, 410];
+
+const isBrokenStatus = (status: number): boolean =>
+  BROKEN_CLIENT_STATUSES.includes(status) || status >= 500;
+
+// Addresses links may not lead to. Links come from map content and are
+// requested from the server, so loopback, private, link-local (including the
+// 169.254.169.254 cloud metadata service), multicast and unspecified addresses
+// would let a map probe the internal network. IPv4 rules also cover
+// IPv4-mapped IPv6 addresses.
+const BLOCKED_ADDRESSES = new BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4")
+);
+(
+  [
+    // Unspecified, loopback and IPv4-compatible addresses
+    ["::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["fec0::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6")
+);
+
+// Check whether an IP address is one links may not lead to
+// Parameters: address - IPv4 or IPv6 address (anything else is not blocked)
+// Returns true for blocked addresses
+const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+};
+
+const blockedAddressError = (host: string, address: string): Error =>
+  new Error(
+    `Refusing to request ${
+      host === address ? host : `${host} (${address})`
+    }: private or reserved address`
+  );
+
+// Resolve a host name like dns.lookup, failing when any address is blocked
+// Used as the socket lookup, so the addresses checked are the ones connected
+// to (a host cannot resolve differently between the check and the request)
+const guardedLookup: LookupFunction = (hostname, options, callback) =>
+  dnsLookup(hostname, options, (error, address, family) => {
+    const addresses = Array.isArray(address)
+      ? address.map((entry) => entry.address)
+      : [address];
+    const blocked = error ? undefined : addresses.find(isBlockedAddress);
+
+    callback(
+      blocked ? blockedAddressError(hostname, blocked) : error,
+      address,
+      family
+    );
+  });
+
+// Adapt a Node.js response to the shape the checker reads
+// Parameters: response - Response to a HEAD or GET request
+// Returns LinkCheckResponse; cancelling the body closes the connection
+const toLinkCheckResponse = (response: IncomingMessage): LinkCheckResponse => ({
+  status: response.statusCode ?? 0,
+  headers: {
+    get: (name) => {
+      const value = response.headers[name.toLowerCase()];
+      return Array.isArray(value) ? value.join(", ") : (value ?? null);
+    },
+  },
+  body: { cancel: async () => void response.destroy() },
+});
+
+// Default client: requests http(s) URLs without following redirects, and
+// refuses hosts that are or resolve to a blocked address. Every redirect hop
+// is a new request, so each one is checked.
+// Parameters: url - Link to request, init - Method, headers and abort signal
+// Returns The response; rejects for blocked addresses and network errors,
+// and with the signal's reason once it aborts
+const guardedHttpClient: LinkCheckHttpClient = (
+  url,
+  { method, headers, signal }
+) =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+      throw new Error(`Unsupported protocol ${target.protocol}`);
+    }
+    // IP addresses in the URL are connected to without a lookup
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    if (isBlockedAddress(host)) {
+      throw blockedAddressError(host, host);
+    }
+
+    const request = (target.protocol === "https:" ? httpsRequest : httpRequest)(
+      target,
+      { method, headers, signal, lookup: guardedLookup },
+      (response) => resolve(toLinkCheckResponse(response))
+    );
+    request.on("error", (error) =>
+      reject(signal.aborted ? signal.reason : error)
+    );
+    request.end();
+  });
+
+// Request a URL with one method, following redirects manually so the hop count is bounded
+// Parameters: url - Link to request, method - HEAD or GET, options - Resolved checker options
+// Returns The final response status; throws on network errors, timeouts and redirect loops
+const requestFollowingRedirects = async (
+  url: string,
+  method: "HEAD" | "GET",
+  {
+    client,
+    timeoutMs,
+    maxRedirects,
+  }: Required<Omit<LinkCheckOptions, "concurrency">>
+): Promise<number> => {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    const response = await client(currentUrl, {
+      method,
+      redirect: "manual",
+      headers: { "User-Agent": USER_AGENT, Accept: "*/*" },
+      signal,
+    });
+    // Only the status matters; release the connection without reading the body
+    await response.body?.cancel().catch(() => undefined);
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response.status;
+    }
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  throw new Error(`More than ${maxRedirects} redirects`);
+};
+
+// Describe why a link could not be requested
+// fetch-based clients report every network failure as "fetch failed" with
+// the actual error (e.g. ENOTFOUND, ECONNREFUSED) as its cause
+const describeRequestError = (error: unknown, timeoutMs: number): string => {
+  if (!(error instanceof Error)) return String(error);
+  if (error.name === "TimeoutError") return `Timed out after ${timeoutMs}ms`;
+  const { cause } = error as { cause?: unknown };
+  return cause instanceof Error ? cause.message : error.message;
+};
+
+// Check whether a link still resolves, trying HEAD first and falling back to GET
+// Parameters: url - Link to check, options - Client, timeout and redirect limit
+// Returns LinkCheck describing the outcome; never throws
+export const checkLink = async (
+  url: string,
+  options: LinkCheckOptions = {}
+): Promise<LinkCheck> => {
+  const resolved = {
+    client: options.client ?? guardedHttpClient,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+  };
+
+  // Some servers reject or mishandle HEAD but serve the page over GET
+  const headStatus = await requestFollowingRedirects(
+    url,
+    "HEAD",
+    resolved
+  ).catch(() => undefined);
+
+  try {
+    const httpStatus =
+      headStatus === undefined || HEAD_UNSUPPORTED_STATUSES.includes(headStatus)
+        ? await requestFollowingRedirects(url, "GET", resolved)
+        : headStatus;
+
+    return isBrokenStatus(httpStatus)
+      ? {
+          status: "broken",
+          httpStatus,
+          reason: `HTTP ${httpStatus}`,
+          checkedAt: new Date(),
+        }
+      : { status: "ok", httpStatus, checkedAt: new Date() };
+  } catch (error) {
+    return {
+      status: "broken",
+      reason: describeRequestError(error, resolved.timeoutMs),
+      checkedAt: new Date(),
+    };
+  }
+};
+
+// Check several links with bounded concurrency; duplicate URLs are checked once
+// Parameters: urls - Links to check, options - Client, timeout, redirect limit and concurrency
+// Returns Map of URL to LinkCheck
+export const checkLinks = async (
+  urls: string[],
+  options: LinkCheckOptions = {}
+): Promise<Map<string, LinkCheck>> => {
+  const pending = [...new Set(urls)];
+  const results = new Map<string, LinkCheck>();
+
+  const worker = async () => {
+    for (let url = pending.shift(); url; url = pending.shift()) {
+      results.set(url, await checkLink(url, options));
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      {
+        length: Math.min(
+          options.concurrency ?? DEFAULT_CONCURRENCY,
+          pending.length
+        ),
+      },
+      worker
+    )
+  );
+
+  return results;
+};
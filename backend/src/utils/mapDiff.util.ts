@@ -0,0 +1,154 @@
+import {
+  LearningMapSnapshot,
+  LearningResource,
+  MapDiffChange,
+  SubTopic,
+} from "../types";
+
+// Branch or subtopic flattened for comparison, keyed by its node path
+interface DiffNode {
+  kind: "branch" | "subtopic";
+  title: string;
+  description: string;
+  resources: LearningResource[];
+}
+
+// Flatten a map into its branches and subtopics, in document order
+// Parameters: snapshot - Map content to flatten
+// Returns Map of node path to node
+const flattenNodes = (snapshot: LearningMapSnapshot): Map<string, DiffNode> => {
+  const nodes = new Map<string, DiffNode>();
+
+  const addSubtopics = (subtopics: SubTopic[], parentPath: string) => {
+    subtopics.forEach((subtopic, index) => {
+      const path = `${parentPath}.${index}`;
+      nodes.set(path, {
+        kind: "subtopic",
+        title: subtopic.title,
+        description: subtopic.description,
+        resources: subtopic.resources || [],
+      });
+      addSubtopics(subtopic.subtopics || [], path);
+    });
+  };
+
+  snapshot.branches.forEach((branch, index) => {
+    nodes.set(`${index}`, {
+      kind: "branch",
+      title: branch.title,
+      description: branch.description,
+      resources: [],
+    });
+    addSubtopics(branch.subtopics, `${index}`);
+  });
+
+  return nodes;
+};
+
+// Compare the resources of a node that exists in both revisions
+// Resources are matched by URL; title or type changes are reported as modified
+const diffResources = (
+  path: string,
+  before: LearningResource[],
+  after: LearningResource[]
+): MapDiffChange[] => {
+  const changes: MapDiffChange[] = [];
+  const beforeByUrl = new Map(
+    before.map((resource) => [resource.url, resource])
+  );
+  const afterUrls = new Set(after.map((resource) => resource.url));
+
+  for (const resource of after) {
+    const previous = beforeByUrl.get(resource.url);
+    if (!previous) {
+      changes.push({
+        kind: "resource",
+        change: "added",
+        path,
+        title: resource.title,
+      });
+      continue;
+    }
+
+    const fields = (["title", "type"] as const).filter(
+      (field) => previous[field] !== resource[field]
+    );
+    if (fields.length > 0) {
+      changes.push({
+        kind: "resource",
+        change: "modified",
+        path,
+        title: resource.title,
+        fields: [...fields],
+      });
+    }
+  }
+
+  for (const resource of before) {
+    if (!afterUrls.has(resource.url)) {
+      changes.push({
+        kind: "resource",
+        change: "removed",
+        path,
+        title: resource.title,
+      });
+    }
+  }
+
+  return changes;
+};
+
+// Diff two map snapshots at branch, subtopic and resource granularity
+// Nodes are matched by node path; resources of added or removed nodes are not
+// listed separately
+// Parameters: before - Older snapshot, after - Newer snapshot
+// Returns List of changes, ordered by the newer snapshot followed by removals
+export const diffLearningMaps = (
+  before: LearningMapSnapshot,
+  after: LearningMapSnapshot
+): MapDiffChange[] => {
+  const beforeNodes = flattenNodes(before);
+  const afterNodes = flattenNodes(after);
+  const changes: MapDiffChange[] = [];
+
+  afterNodes.forEach((node, path) => {
+    const previous = beforeNodes.get(path);
+    if (!previous) {
+      changes.push({
+        kind: node.kind,
+        change: "added",
+        path,
+        title: node.title,
+      });
+      return;
+    }
+
+    const fields = (["title", "description"] as const).filter(
+      (field) => previous[field] !== node[field]
+    );
+    if (fields.length > 0) {
+      changes.push({
+        kind: node.kind,
+        change: "modified",
+        path,
+        title: node.title,
+        fields: [...fields],
+      });
+    }
+
+    changes.push(...diffResources(path, previous.resources, node.resources));
+  });
+
+  beforeNodes.forEach((node, path) => {
+    if (!afterNodes.has(path)) {
+      changes.push({
+        kind: node.kind,
+        change: "removed",
+        path,
+        title: node.title,
+      });
+    }
+  });
+
+  return changes;
+};
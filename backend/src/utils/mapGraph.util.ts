@@ -0,0 +1,83 @@
+import { LearningMap, SubTopic } from "../types";
+
+// Graph of a learning map as drawn by the frontend visualization: the topic
+// links to its branches, branches to their subtopics and subtopics to their
+// child subtopics. Node IDs follow the visualization (root, branch_<i>,
+// subtopic_<path>) with underscores, which every graph text format accepts.
+// Prerequisite links are extra edges between subtopics, drawn dashed.
+
+export type MapGraphNodeType = "topic" | "branch" | "subtopic";
+
+export interface MapGraphNode {
+  id: string;
+  // Undefined for the root topic
+  parentId?: string;
+  title: string;
+  type: MapGraphNodeType;
+  // 0 for the topic, 1 for branches, 2 and more for subtopics
+  depth: number;
+}
+
+// List the nodes of a map in depth-first order (parents before children)
+// Parameters: learningMap - Map to convert
+// Returns Graph nodes
+export const toMapGraphNodes = (learningMap: LearningMap): MapGraphNode[] => {
+  const nodes: MapGraphNode[] = [
+    { id: "root", title: learningMap.topic, type: "topic", depth: 0 },
+  ];
+
+  const addSubtopics = (
+    subtopics: SubTopic[],
+    parentId: string,
+    parentPath: string,
+    depth: number
+  ) => {
+    subtopics.forEach((subtopic, index) => {
+      const path = `${parentPath}_${index}`;
+      const id = `subtopic_${path}`;
+      nodes.push({
+        id,
+        parentId,
+        title: subtopic.title,
+        type: "subtopic",
+        depth,
+      });
+      addSubtopics(subtopic.subtopics || [], id, path, depth + 1);
+    });
+  };
+
+  learningMap.branches.forEach((branch, index) => {
+    const id = `branch_${index}`;
+    nodes.push({
+      id,
+      parentId: "root",
+      title: branch.title,
+      type: "branch",
+      depth: 1,
+    });
+    addSubtopics(branch.subtopics, id, `${index}`, 2);
+  });
+
+  return nodes;
+};
+
+// Prerequisite link between two subtopic nodes
+export interface MapGraphLink {
+  fromId: string;
+  toId: string;
+}
+
+// List the prerequisite links of a map as graph edges
+// Parameters: learningMap - Map to convert
+// Returns Links from the prerequisite to the subtopic that requires it
+export const toMapGraphLinks = (learningMap: LearningMap): MapGraphLink[] =>
+  (learningMap.prerequisites || []).map(({ from, to }) => ({
+    fromId: `subtopic_${from.replace(/\./g, "_")}`,
+    toId: `subtopic_${to.replace(/\./g, "_")}`,
+  }));
+
+// Collapse line breaks and repeated whitespace of a title into single spaces
+// Parameters: title - Node title
+// Returns Single-line title
+export const toSingleLine = (title: string): string =>
+  title.replace(/\s+/g, " ").trim();
@@ -0,0 +1,311 @@
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  LearningMap,
+  LearningResource,
+  Prerequisite,
+  ResourceType,
+  SubTopic,
+} from "../types";
+import {
+  formatPrerequisiteList,
+  parsePrerequisiteList,
+} from "./prerequisite.util";
+import { formatTagList, parseTagList } from "./tagList.util";
+
+// Markdown layout of a learning map:
+//
+//   # Topic
+//
+//   - **Level:** Beginner
+//   - **Tags:** tag one, tag two
+//   - **Prerequisites:** 0.0 > 1.0, 0.1 > 2.0
+//
+//   ## Branch title
+//
+//   Branch description
+//
+//   ### Subtopic title
+//
+//   Subtopic description
+//
+//   - [Resource title](https://example.com) (video)
+//
+// Child subtopics use one more "#" per level of depth (#### and deeper).
+// Prerequisites are written as links between subtopic node paths (branch
+// index, then subtopic indices, all zero-based).
+// Description lines that would read as a heading or list item are escaped
+// with a backslash, as are brackets in resource titles and commas in tags.
+
+// Content read back from a Markdown export (validated by the caller)
+export interface MarkdownLearningMap {
+  topic: string;
+  level?: string;
+  tags: string[];
+  prerequisites: Prerequisite[];
+  branches: {
+    title: string;
+    description: string;
+    subtopics: SubTopic[];
+  }[];
+}
+
+// Branch or subtopic being collected while parsing
+interface ParsedNode {
+  depth: number;
+  title: string;
+  descriptionLines: string[];
+  resources: LearningResource[];
+  subtopics: ParsedNode[];
+}
+
+const HEADING_PATTERN = /^(#+)\s+(.*?)\s*$/;
+const METADATA_PATTERN =
+  /^[-*+]\s+\*\*(Level|Tags|Prerequisites):\*\*\s*(.*?)\s*$/i;
+// "- [Title](url) (type)"; the URL may be wrapped in <> and the type omitted
+const RESOURCE_PATTERN =
+  /^[-*+]\s+\[((?:\\.|[^\\\]])*)\]\((<[^>]*>|[^\s)]*)\)(?:\s+\((\w+)\))?\s*$/;
+const RESOURCE_TYPES: ResourceType[] = ["article", "video", "book"];
+
+// Format a heading, keeping multi-line titles on one line
+// Parameters: depth - Heading level, title - Heading text
+// Returns Markdown heading line
+const formatHeading = (depth: number, title: string): string =>
+  `${"#".repeat(depth)} ${title.replace(/\s*\r?\n\s*/g, " ")}`;
+
+// Escape a description line that would otherwise be read as markup
+// Parameters: line - Line of a description
+// Returns The line, prefixed with a backslash when needed
+const escapeDescriptionLine = (line: string): string =>
+  /^[#\-*+\\]/.test(line) ? `\\${line}` : line;
+
+// Escape backslashes and square brackets in a link text
+// Parameters: text - Resource title
+// Returns Text safe to place between [ and ]
+const escapeLinkText = (text: string): string =>
+  text.replace(/[\\[\]]/g, (char) => `\\${char}`);
+
+// Remove the backslash escapes added by escapeLinkText
+// Parameters: text - Escaped link text
+// Returns The original text
+const unescapeText = (text: string): string => text.replace(/\\(.)/g, "$1");
+
+// Format a URL as a link destination, wrapping it in <> when it contains
+// characters that would end a plain destination
+// Parameters: url - Resource URL
+// Returns Link destination
+const formatLinkDestination = (url: string): string =>
+  /[\s()<>]/.test(url) ? `<${url}>` : url;
+
+// Serialize a branch's or subtopic's description as escaped lines
+// Parameters: description - Description text
+// Returns Markdown lines
+const formatDescription = (description: string): string[] =>
+  description.split(/\r?\n/).map(escapeDescriptionLine);
+
+// Serialize a subtopic and its descendants
+// Parameters: subtopic - Subtopic to serialize, depth - Heading level of the subtopic
+// Returns Markdown lines
+const formatSubtopic = (subtopic: SubTopic, depth: number): string[] => {
+  const lines = [
+    formatHeading(depth, subtopic.title),
+    "",
+    ...formatDescription(subtopic.description),
+    "",
+  ];
+
+  if (subtopic.resources.length > 0) {
+    lines.push(
+      ...subtopic.resources.map(
+        (resource) =>
+          `- [${escapeLinkText(resource.title)}](${formatLinkDestination(
+            resource.url
+          )}) (${resource.type})`
+      ),
+      ""
+    );
+  }
+
+  for (const child of subtopic.subtopics || []) {
+    lines.push(...formatSubtopic(child, depth + 1));
+  }
+
+  return lines;
+};
+
+// Serialize a learning map to Markdown
+// Parameters: learningMap - Map to serialize
+// Returns Markdown document
+export const learningMapToMarkdown = (learningMap: LearningMap): string => {
+  const lines = [
+    formatHeading(1, learningMap.topic),
+    "",
+    `- **Level:** ${learningMap.level}`,
+  ];
+
+  const tags = learningMap.tags || [];
+  if (tags.length > 0) {
+    lines.push(`- **Tags:** ${formatTagList(tags)}`);
+  }
+  const prerequisites = learningMap.prerequisites || [];
+  if (prerequisites.length > 0) {
+    lines.push(`- **Prerequisites:** ${formatPrerequisiteList(prerequisites)}`);
+  }
+  lines.push("");
+
+  for (const branch of learningMap.branches) {
+    lines.push(
+      formatHeading(2, branch.title),
+      "",
+      ...formatDescription(branch.description),
+      ""
+    );
+    for (const subtopic of branch.subtopics) {
+      lines.push(...formatSubtopic(subtopic, 3));
+    }
+  }
+
+  return lines.join("\n");
+};
+
+// Build an INVALID_INPUT error pointing at a line of the document
+// Parameters: lineNumber - 1-based line number, message - Problem description
+// Returns AppError to throw
+const markdownError = (lineNumber: number, message: string): AppError =>
+  AppError.fromErrorCode(
+    ErrorCodeEnum.INVALID_INPUT,
+    `Invalid Markdown learning map (line ${lineNumber}): ${message}`
+  );
+
+// Convert a collected node into a subtopic
+// Parameters: node - Parsed subtopic
+// Returns SubTopic (child subtopics only present when there are any)
+const toSubtopic = (node: ParsedNode): SubTopic => ({
+  title: node.title,
+  description: node.descriptionLines.join("\n").trim(),
+  resources: node.resources,
+  ...(node.subtopics.length > 0 && {
+    subtopics: node.subtopics.map(toSubtopic),
+  }),
+});
+
+// Parse a Markdown document written by learningMapToMarkdown (or an outline
+// following the same heading structure) back into map content
+// Resources without a type default to articles; a missing level is left for
+// the caller to validate
+// Parameters: markdown - Markdown document
+// Returns Parsed map content; throws INVALID_INPUT for malformed outlines
+export const parseLearningMapMarkdown = (
+  markdown: string
+): MarkdownLearningMap => {
+  let topic: string | undefined;
+  let level: string | undefined;
+  let tags: string[] = [];
+  let prerequisites: Prerequisite[] = [];
+  const branches: ParsedNode[] = [];
+  // Path from the current branch down to the node being collected
+  const stack: ParsedNode[] = [];
+
+  markdown.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+    const heading = HEADING_PATTERN.exec(line);
+
+    if (heading) {
+      const depth = heading[1].length;
+      const title = heading[2];
+
+      if (depth === 1) {
+        if (topic !== undefined) {
+          throw markdownError(lineNumber, "only one topic (#) is allowed");
+        }
+        topic = title;
+        return;
+      }
+      if (topic === undefined) {
+        throw markdownError(lineNumber, "the topic (#) must come first");
+      }
+
+      const parentDepth = stack.length > 0 ? stack[stack.length - 1].depth : 1;
+      if (depth > parentDepth + 1) {
+        throw markdownError(
+          lineNumber,
+          `heading level ${depth} skips a level (expected at most ${
+            parentDepth + 1
+          })`
+        );
+      }
+
+      const node: ParsedNode = {
+        depth,
+        title,
+        descriptionLines: [],
+        resources: [],
+        subtopics: [],
+      };
+      while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+        stack.pop();
+      }
+      if (depth === 2) {
+        branches.push(node);
+      } else {
+        stack[stack.length - 1].subtopics.push(node);
+      }
+      stack.push(node);
+      return;
+    }
+
+    const current = stack[stack.length - 1];
+
+    // Metadata list between the topic and the first branch
+    if (!current) {
+      const metadata = METADATA_PATTERN.exec(line);
+      const name = metadata?.[1].toLowerCase();
+      if (metadata && name === "level") {
+        level = metadata[2];
+      } else if (metadata && name === "tags") {
+        tags = parseTagList(metadata[2]);
+      } else if (metadata) {
+        prerequisites = parsePrerequisiteList(metadata[2]);
+      }
+      return;
+    }
+
+    const resource = RESOURCE_PATTERN.exec(line);
+    if (resource) {
+      if (current.depth === 2) {
+        throw markdownError(
+          lineNumber,
+          "resources belong to subtopics (###), not branches"
+        );
+      }
+      const type = (resource[3] || "article").toLowerCase() as ResourceType;
+      if (!RESOURCE_TYPES.includes(type)) {
+        throw markdownError(lineNumber, `unknown resource type "${type}"`);
+      }
+      current.resources.push({
+        type,
+        title: unescapeText(resource[1]).trim(),
+        url: resource[2].replace(/^<(.*)>$/, "$1"),
+      });
+      return;
+    }
+
+    current.descriptionLines.push(line.startsWith("\\") ? line.slice(1) : line);
+  });
+
+  if (topic === undefined) {
+    throw markdownError(1, "missing topic (#)");
+  }
+
+  return {
+    topic,
+    level,
+    tags,
+    prerequisites,
+    branches: branches.map((branch) => ({
+      title: branch.title,
+      description: branch.descriptionLines.join("\n").trim(),
+      subtopics: branch.subtopics.map(toSubtopic),
+    })),
+  };
+};
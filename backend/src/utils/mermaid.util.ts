@@ -0,0 +1,96 @@
+import { LearningMap, MermaidVariant } from "../types";
+import {
+  MapGraphNode,
+  MapGraphNodeType,
+  toMapGraphLinks,
+  toMapGraphNodes,
+  toSingleLine,
+} from "./mapGraph.util";
+
+// Mermaid diagrams of the map hierarchy (titles only), for Markdown docs with
+// Mermaid support. The topic is drawn as a circle (stadium in flowcharts),
+// branches as rectangles and subtopics as rounded rectangles. Prerequisite
+// links are dashed arrows in flowcharts; mindmaps cannot draw edges outside
+// the hierarchy, so they are left out there.
+
+// Node shapes as [opening, closing] brackets around the quoted label
+const MINDMAP_SHAPES: Record<MapGraphNodeType, [string, string]> = {
+  topic: ["((", "))"],
+  branch: ["[", "]"],
+  subtopic: ["(", ")"],
+};
+
+const FLOWCHART_SHAPES: Record<MapGraphNodeType, [string, string]> = {
+  topic: ["([", "])"],
+  branch: ["[", "]"],
+  subtopic: ["(", ")"],
+};
+
+// Escape a title for use inside a quoted Mermaid label
+// Mermaid entity codes are used so that quotes, markup and "#...;" sequences
+// in titles are shown literally
+// Parameters: title - Node title
+// Returns Label text
+export const escapeMermaidLabel = (title: string): string =>
+  toSingleLine(title)
+    .replace(/#/g, "#35;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/`/g, "#96;");
+
+// Format a node definition
+// Parameters: node - Graph node, shapes - Brackets by node type
+// Returns Mermaid node, e.g. branch_0["Basics"]
+const formatNode = (
+  node: MapGraphNode,
+  shapes: Record<MapGraphNodeType, [string, string]>
+): string => {
+  const [open, close] = shapes[node.type];
+  return `${node.id}${open}"${escapeMermaidLabel(node.title)}"${close}`;
+};
+
+// Serialize a learning map as a Mermaid mindmap (hierarchy by indentation)
+// Parameters: learningMap - Map to serialize
+// Returns Mermaid diagram
+export const learningMapToMermaidMindmap = (learningMap: LearningMap): string =>
+  [
+    "mindmap",
+    ...toMapGraphNodes(learningMap).map(
+      (node) =>
+        `${"  ".repeat(node.depth + 1)}${formatNode(node, MINDMAP_SHAPES)}`
+    ),
+    "",
+  ].join("\n");
+
+// Serialize a learning map as a top-down Mermaid flowchart
+// Parameters: learningMap - Map to serialize
+// Returns Mermaid diagram
+export const learningMapToMermaidFlowchart = (
+  learningMap: LearningMap
+): string => {
+  const nodes = toMapGraphNodes(learningMap);
+
+  return [
+    "flowchart TD",
+    ...nodes.map((node) => `  ${formatNode(node, FLOWCHART_SHAPES)}`),
+    ...nodes
+      .filter((node) => node.parentId !== undefined)
+      .map((node) => `  ${node.parentId} --> ${node.id}`),
+    ...toMapGraphLinks(learningMap).map(
+      ({ fromId, toId }) => `  ${fromId} -.-> ${toId}`
+    ),
+    "",
+  ].join("\n");
+};
+
+// Serialize a learning map as a Mermaid diagram
+// Parameters: learningMap - Map to serialize, variant - Diagram type
+// Returns Mermaid diagram
+export const learningMapToMermaid = (
+  learningMap: LearningMap,
+  variant: MermaidVariant
+): string =>
+  variant === "flowchart"
+    ? learningMapToMermaidFlowchart(learningMap)
+    : learningMapToMermaidMindmap(learningMap);
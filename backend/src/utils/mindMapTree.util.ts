@@ -0,0 +1,156 @@
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  LearningMap,
+  LearningResource,
+  Prerequisite,
+  SubTopic,
+} from "../types";
+import {
+  formatPrerequisiteList,
+  parsePrerequisiteList,
+} from "./prerequisite.util";
+import { formatTagList, parseTagList } from "./tagList.util";
+
+// Mind-map formats (OPML, FreeMind, XMind) share one tree layout:
+//
+//   topic (attributes: level, tags, prerequisites)
+//   └── branch (note: description)
+//       └── subtopic (note: description)
+//           ├── resource (link: URL, attributes: resourceType)
+//           └── child subtopic ...
+//
+// Nodes with a link and no children are read as resources; every other node
+// below a branch is a subtopic. Prerequisites are a list of links between
+// subtopic node paths, e.g. "0.0 > 1.0, 0.1 > 2.0".
+
+export interface MindMapNode {
+  title: string;
+  // Description of a branch or subtopic
+  note?: string;
+  // URL of a resource
+  link?: string;
+  // Metadata: level, tags and prerequisites on the root, resourceType on resources
+  attributes: Record<string, string>;
+  children: MindMapNode[];
+}
+
+// Content read back from a mind-map tree (validated by the caller)
+export interface MindMapLearningMap {
+  topic: string;
+  level?: string;
+  tags: string[];
+  prerequisites: Prerequisite[];
+  branches: {
+    title: string;
+    description: string;
+    subtopics: SubTopic[];
+  }[];
+}
+
+// Convert a resource to a link node
+// Parameters: resource - Resource of a subtopic
+// Returns Mind-map node
+const resourceToNode = (resource: LearningResource): MindMapNode => ({
+  title: resource.title,
+  link: resource.url,
+  attributes: { resourceType: resource.type },
+  children: [],
+});
+
+// Convert a subtopic and its descendants, resources first
+// Parameters: subtopic - Subtopic to convert
+// Returns Mind-map node
+const subtopicToNode = (subtopic: SubTopic): MindMapNode => ({
+  title: subtopic.title,
+  note: subtopic.description,
+  attributes: {},
+  children: [
+    ...subtopic.resources.map(resourceToNode),
+    ...(subtopic.subtopics || []).map(subtopicToNode),
+  ],
+});
+
+// Convert a learning map to a mind-map tree rooted at its topic
+// Parameters: learningMap - Map to convert
+// Returns Root node
+export const learningMapToMindMapTree = (
+  learningMap: LearningMap
+): MindMapNode => {
+  const tags = learningMap.tags || [];
+  const prerequisites = learningMap.prerequisites || [];
+
+  return {
+    title: learningMap.topic,
+    attributes: {
+      level: learningMap.level,
+      ...(tags.length > 0 && { tags: formatTagList(tags) }),
+      ...(prerequisites.length > 0 && {
+        prerequisites: formatPrerequisiteList(prerequisites),
+      }),
+    },
+    children: learningMap.branches.map((branch) => ({
+      title: branch.title,
+      note: branch.description,
+      attributes: {},
+      children: branch.subtopics.map(subtopicToNode),
+    })),
+  };
+};
+
+// Whether a node is read as a resource rather than a subtopic
+// Parameters: node - Mind-map node
+// Returns true for link nodes without children
+const isResourceNode = (node: MindMapNode): boolean =>
+  !!node.link && node.children.length === 0;
+
+// Convert a subtopic node, splitting its children into resources and subtopics
+// Parameters: node - Mind-map node below a branch
+// Returns SubTopic (child subtopics only present when there are any)
+const nodeToSubtopic = (node: MindMapNode): SubTopic => {
+  const resources = node.children.filter(isResourceNode).map((child) => ({
+    type: (child.attributes.resourceType ||
+      "article") as LearningResource["type"],
+    title: child.title,
+    url: child.link as string,
+  }));
+  const subtopics = node.children
+    .filter((child) => !isResourceNode(child))
+    .map(nodeToSubtopic);
+
+  return {
+    title: node.title,
+    description: node.note?.trim() ?? "",
+    resources,
+    ...(subtopics.length > 0 && { subtopics }),
+  };
+};
+
+// Convert a mind-map tree back into map content
+// Resources without a type default to articles
+// Parameters: root - Root node, formatName - Format name used in error messages
+// Returns Parsed map content; throws INVALID_INPUT when branches hold resources
+export const mindMapTreeToLearningMap = (
+  root: MindMapNode,
+  formatName: string
+): MindMapLearningMap => ({
+  topic: root.title,
+  level: root.attributes.level,
+  tags: parseTagList(root.attributes.tags || ""),
+  prerequisites: parsePrerequisiteList(root.attributes.prerequisites || ""),
+  branches: root.children.map((branch) => {
+    const resource = branch.children.find(isResourceNode);
+    if (resource) {
+      throw AppError.fromErrorCode(
+        ErrorCodeEnum.INVALID_INPUT,
+        `Invalid ${formatName} learning map: resources belong to subtopics, but branch "${branch.title}" links to "${resource.title}"`
+      );
+    }
+
+    return {
+      title: branch.title,
+      description: branch.note?.trim() ?? "",
+      subtopics: branch.children.map(nodeToSubtopic),
+    };
+  }),
+});
@@ -0,0 +1,203 @@
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { BranchSubtopic, LearningMap, MainBranch, SubTopic } from "../types";
+
+// A node path addresses a node in a learning map by dot-separated indices:
+// "2" is the third branch, "2.0" its first subtopic, "2.0.1" the second
+// child of that subtopic, and so on for arbitrarily deep trees
+
+export interface ResolvedNode {
+  branch: MainBranch;
+  // Requested subtopic (undefined when the path points at a branch)
+  subtopic?: SubTopic;
+  // Titles from the branch down to (but excluding) the requested node
+  ancestorTitles: string[];
+  // Titles of the other nodes sharing the same parent
+  siblingTitles: string[];
+}
+
+// Parse a node path string into indices
+// Parameters: path - Dot-separated node path (e.g. "0.2.1")
+// Returns Array of indices; throws INVALID_INPUT for malformed paths
+export const parseNodePath = (path: string): number[] => {
+  if (!/^\d+(\.\d+)*$/.test(path || "")) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      `Invalid node path: ${path}`
+    );
+  }
+  return path.split(".").map((index) => parseInt(index, 10));
+};
+
+// Format indices back into a node path string
+export const formatNodePath = (indices: number[]): string => indices.join(".");
+
+// Resolve a node path against a learning map
+// Parameters: learningMap - Map to search, indices - Parsed node path
+// Returns ResolvedNode; throws a not found error when any index is out of range
+export const resolveNodePath = (
+  learningMap: Pick<LearningMap, "branches">,
+  indices: number[]
+): ResolvedNode => {
+  const [branchIndex, ...subtopicIndices] = indices;
+  const branch = learningMap.branches[branchIndex];
+
+  if (!branch) {
+    throw AppError.notFoundError(`Node ${formatNodePath(indices)}`);
+  }
+
+  let siblings: SubTopic[] = branch.subtopics;
+  let subtopic: SubTopic | undefined;
+  const ancestorTitles: string[] = [];
+  let siblingTitles = learningMap.branches
+    .filter((_, index) => index !== branchIndex)
+    .map((other) => other.title);
+
+  for (const index of subtopicIndices) {
+    ancestorTitles.push(subtopic ? subtopic.title : branch.title);
+    subtopic = siblings[index];
+    if (!subtopic) {
+      throw AppError.notFoundError(`Node ${formatNodePath(indices)}`);
+    }
+    siblingTitles = siblings
+      .filter((_, siblingIndex) => siblingIndex !== index)
+      .map((sibling) => sibling.title);
+    siblings = subtopic.subtopics || [];
+  }
+
+  return { branch, subtopic, ancestorTitles, siblingTitles };
+};
+
+// List containing a node together with the node's position in it
+export interface NodeSiblings {
+  // map.branches for branch paths, otherwise the parent's subtopics
+  siblings: (MainBranch | SubTopic)[];
+  index: number;
+}
+
+// Resolve the sibling list that holds the node at a path
+// The returned array is the live array from the map, so callers can mutate it
+// Parameters: learningMap - Map to search, indices - Parsed node path
+// Returns NodeSiblings; throws a not found error when the node does not exist
+export const resolveNodeSiblings = (
+  learningMap: Pick<LearningMap, "branches">,
+  indices: number[]
+): NodeSiblings => {
+  const { branch } = resolveNodePath(learningMap, indices);
+  const index = indices[indices.length - 1];
+
+  if (indices.length === 1) {
+    return { siblings: learningMap.branches, index };
+  }
+
+  const parent =
+    indices.length === 2
+      ? branch
+      : resolveNodePath(learningMap, indices.slice(0, -1)).subtopic;
+  return { siblings: parent?.subtopics || [], index };
+};
+
+// List the subtopics of a branch at any depth, parents before children
+// Parameters: branch - Branch to walk, branchIndex - Index of the branch in the map
+// Returns Subtopics with their node paths and ancestor titles
+export const listBranchSubtopics = (
+  branch: MainBranch,
+  branchIndex: number
+): BranchSubtopic[] => {
+  const entries: BranchSubtopic[] = [];
+
+  const visit = (
+    subtopics: SubTopic[],
+    parentPath: string,
+    ancestorTitles: string[]
+  ) => {
+    subtopics.forEach((subtopic, index) => {
+      const path = `${parentPath}.${index}`;
+      entries.push({ path, subtopic, ancestorTitles });
+      visit(subtopic.subtopics || [], path, [
+        ...ancestorTitles,
+        subtopic.title,
+      ]);
+    });
+  };
+
+  visit(branch.subtopics, `${branchIndex}`, [branch.title]);
+  return entries;
+};
+
+// Index every node of a map (branches and subtopics at any depth) by node path
+// Parameters: learningMap - Map to walk
+// Returns Map of node path to node, parents before children
+const indexNodes = (
+  learningMap: Pick<LearningMap, "branches">
+): Map<string, MainBranch | SubTopic> =>
+  new Map(
+    learningMap.branches.flatMap((branch, branchIndex) => [
+      [`${branchIndex}`, branch] as [string, MainBranch | SubTopic],
+      ...listBranchSubtopics(branch, branchIndex).map(
+        ({ path, subtopic }): [string, MainBranch | SubTopic] => [
+          path,
+          subtopic,
+        ]
+      ),
+    ])
+  );
+
+// Track node paths across an edit that moves, adds or removes nodes
+// Nodes are followed by object identity, so the edit must mutate the same
+// objects in place; nodes replaced by new objects count as removed
+// Parameters: learningMap - Map before the edit
+// Returns Function producing the new path of every node that still exists,
+// by its path before the edit
+export const trackNodePaths = (
+  learningMap: Pick<LearningMap, "branches">
+): (() => Map<string, string>) => {
+  const before = indexNodes(learningMap);
+
+  return () => {
+    const after = new Map(
+      [...indexNodes(learningMap)].map(([path, node]) => [node, path])
+    );
+
+    return new Map(
+      [...before].flatMap(([path, node]): [string, string][] => {
+        const newPath = after.get(node);
+        return newPath ? [[path, newPath]] : [];
+      })
+    );
+  };
+};
+
+// Match the nodes of two versions of a map by their titles from the branch down
+// Used where nodes cannot be followed by identity, e.g. when a map is
+// replaced by an earlier revision; nodes whose titles are ambiguous among
+// their siblings are not matched
+// Parameters: before - Map before the change, after - Map after the change
+// Returns Map of path in after by path in before, for every matched node
+export const matchNodePaths = (
+  before: Pick<LearningMap, "branches">,
+  after: Pick<LearningMap, "branches">
+): Map<string, string> => {
+  // Node paths by title chain; null marks a chain used by several nodes
+  const indexByTitles = (learningMap: Pick<LearningMap, "branches">) => {
+    const paths = new Map<string, string | null>();
+    const titles = new Map<string, string[]>();
+
+    indexNodes(learningMap).forEach((node, path) => {
+      const parentPath = path.split(".").slice(0, -1).join(".");
+      const chain = [...(titles.get(parentPath) ?? []), node.title];
+      const key = JSON.stringify(chain);
+      titles.set(path, chain);
+      paths.set(key, paths.has(key) ? null : path);
+    });
+    return paths;
+  };
+
+  const afterPaths = indexByTitles(after);
+  return new Map(
+    [...indexByTitles(before)].flatMap(([key, path]): [string, string][] => {
+      const newPath = afterPaths.get(key);
+      return path && newPath ? [[path, newPath]] : [];
+    })
+  );
+};
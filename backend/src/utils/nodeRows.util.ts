@@ -0,0 +1,64 @@
+import { Types } from "mongoose";
+
+// Per-user data on map nodes (progress, notes) is stored as one row per
+// user, map and node path, with a unique index on those three fields. When
+// an edit moves nodes, the rows have to move along.
+
+// The parts of a row model used to move rows
+interface NodeRowModel {
+  find(query: object): { select(fields: string): { lean(): unknown } };
+  updateOne(filter: object, update: object): Promise<unknown>;
+  deleteOne(filter: object): Promise<unknown>;
+}
+
+// Prefix of the temporary paths rows are parked at while being moved
+const MOVING_PATH_PREFIX = "moving:";
+
+// Move the rows of a map to the new paths of their nodes
+// Rows are moved in place, so changes made to them meanwhile are kept. Moved
+// rows are first parked at a temporary path so nodes swapping places do not
+// collide on the unique path index; a row written to a new path in the
+// meantime wins over the row moving there.
+// Parameters: model - Model of the rows, mapId - Map whose nodes changed,
+// paths - New node path by old path (removed nodes are missing)
+// Returns Number of rows moved or deleted (rows of removed nodes are deleted)
+export const remapNodeRows = async (
+  model: NodeRowModel,
+  mapId: string,
+  paths: Map<string, string>
+): Promise<number> => {
+  const rows = (await model
+    .find({ mapId: new Types.ObjectId(mapId) })
+    .select("path")
+    .lean()) as { _id: Types.ObjectId; path: string }[];
+  const changed = rows.filter(({ path }) => paths.get(path) !== path);
+  if (changed.length === 0) return 0;
+
+  await Promise.all(
+    changed.map(({ _id, path }) =>
+      paths.has(path)
+        ? model.updateOne(
+            { _id, path },
+            { $set: { path: `${MOVING_PATH_PREFIX}${_id}` } }
+          )
+        : model.deleteOne({ _id, path })
+    )
+  );
+  await Promise.all(
+    changed
+      .filter(({ path }) => paths.has(path))
+      .map(({ _id, path }) =>
+        model
+          .updateOne(
+            { _id, path: `${MOVING_PATH_PREFIX}${_id}` },
+            { $set: { path: paths.get(path) } }
+          )
+          .catch((error: { code?: number }) => {
+            if (error.code !== 11000) throw error;
+            return model.deleteOne({ _id });
+          })
+      )
+  );
+
+  return changed.length;
+};
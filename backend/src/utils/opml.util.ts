@@ -0,0 +1,100 @@
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { LearningMap } from "../types";
+import {
+  learningMapToMindMapTree,
+  MindMapLearningMap,
+  MindMapNode,
+  mindMapTreeToLearningMap,
+} from "./mindMapTree.util";
+import { escapeXml, parseXml } from "./xml.util";
+
+// OPML 2.0 layout: the topic is the single top-level outline; descriptions
+// are stored in the _note attribute (as used by outliners such as
+// OmniOutliner) and resources are link outlines (type="link" url="...").
+// Level, tags, prerequisites and resource types are kept as extra outline
+// attributes.
+
+// Attributes with a fixed meaning in an outline element
+const OUTLINE_ATTRIBUTES = ["text", "_note", "type", "url"];
+
+// Serialize a node and its children as outline elements
+// Parameters: node - Mind-map node, indent - Indentation of the element
+// Returns XML lines
+const formatOutline = (node: MindMapNode, indent: string): string[] => {
+  const attributes = [
+    `text="${escapeXml(node.title)}"`,
+    ...(node.note !== undefined ? [`_note="${escapeXml(node.note)}"`] : []),
+    ...(node.link !== undefined
+      ? [`type="link"`, `url="${escapeXml(node.link)}"`]
+      : []),
+    ...Object.entries(node.attributes).map(
+      ([name, value]) => `${name}="${escapeXml(value)}"`
+    ),
+  ].join(" ");
+
+  if (node.children.length === 0) {
+    return [`${indent}<outline ${attributes}/>`];
+  }
+
+  return [
+    `${indent}<outline ${attributes}>`,
+    ...node.children.flatMap((child) => formatOutline(child, `${indent}  `)),
+    `${indent}</outline>`,
+  ];
+};
+
+// Serialize a learning map as an OPML document
+// Parameters: learningMap - Map to serialize
+// Returns OPML document
+export const learningMapToOpml = (learningMap: LearningMap): string =>
+  [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>${escapeXml(learningMap.topic)}</title>`,
+    `  </head>`,
+    `  <body>`,
+    ...formatOutline(learningMapToMindMapTree(learningMap), "    "),
+    `  </body>`,
+    `</opml>`,
+    "",
+  ].join("\n");
+
+// Convert a parsed outline element to a mind-map node
+// Parameters: outline - Parsed outline element
+// Returns Mind-map node
+const outlineToNode = (outline: Record<string, any>): MindMapNode => {
+  const { text = "", _note, url, outline: children = [] } = outline;
+
+  return {
+    title: String(text).trim(),
+    note: _note,
+    link: url,
+    attributes: Object.fromEntries(
+      Object.entries(outline).filter(
+        ([name, value]) =>
+          !OUTLINE_ATTRIBUTES.includes(name) && typeof value === "string"
+      )
+    ),
+    children: children.map(outlineToNode),
+  };
+};
+
+// Parse an OPML document back into map content
+// Parameters: opml - OPML document
+// Returns Parsed map content; throws INVALID_INPUT unless the body holds
+// exactly one top-level outline
+export const parseLearningMapOpml = (opml: string): MindMapLearningMap => {
+  const document = parseXml(opml, "OPML", ["outline"]);
+  const outlines = document.opml?.body?.outline || [];
+
+  if (outlines.length !== 1) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      `Invalid OPML learning map: expected one top-level outline (the topic), found ${outlines.length}`
+    );
+  }
+
+  return mindMapTreeToLearningMap(outlineToNode(outlines[0]), "OPML");
+};
@@ -0,0 +1,42 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Hash a password with a random salt using scrypt
+// Parameters: password - Plain-text password
+// Returns "scrypt$<salt>$<hash>" with hex-encoded salt and hash
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+// Check a password against a hash produced by hashPassword
+// Comparison is constant-time; malformed hashes never match
+// Parameters: password - Plain-text password, storedHash - Hash from the database
+// Returns Whether the password matches
+export const verifyPassword = async (
+  password: string,
+  storedHash: string
+): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = storedHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltHex, "hex"),
+    expected.length
+  );
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
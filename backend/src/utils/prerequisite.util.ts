@@ -0,0 +1,134 @@
+import { LearningMap, Prerequisite, SubTopic } from "../types";
+import { listBranchSubtopics, trackNodePaths } from "./nodePath.util";
+
+// Prerequisite links connect two subtopics (possibly in different branches)
+// by node path: the "from" subtopic should be learned before the "to"
+// subtopic. Links must point at existing subtopics and never form a cycle.
+
+// Text formats write the links as one list of node paths, e.g.
+// "0.0 > 1.0, 0.1 > 2.0"
+const LINK_PATTERN = /^(.*?)\s*>\s*(.*)$/;
+
+// Problem with one prerequisite link, by its index in the list
+export interface PrerequisiteIssue {
+  index: number;
+  message: string;
+}
+
+type PrerequisiteMap = Pick<LearningMap, "branches" | "prerequisites">;
+
+// Index the subtopics of a map by node path
+// Parameters: learningMap - Map to walk
+// Returns Map of node path to subtopic
+const indexSubtopics = (
+  learningMap: Pick<LearningMap, "branches">
+): Map<string, SubTopic> =>
+  new Map(
+    learningMap.branches.flatMap((branch, branchIndex) =>
+      listBranchSubtopics(branch, branchIndex).map(
+        ({ path, subtopic }): [string, SubTopic] => [path, subtopic]
+      )
+    )
+  );
+
+// Check whether a path can be followed from one subtopic to another
+// Parameters: start - Node path to search from, target - Node path to reach,
+// edges - Outgoing links by node path
+// Returns true when target is reachable from start
+const isReachable = (
+  start: string,
+  target: string,
+  edges: Map<string, string[]>
+): boolean => {
+  const visited = new Set<string>();
+  const pending = [start];
+
+  while (pending.length > 0) {
+    const path = pending.pop() as string;
+    if (path === target) return true;
+    if (visited.has(path)) continue;
+    visited.add(path);
+    pending.push(...(edges.get(path) ?? []));
+  }
+  return false;
+};
+
+// Validate the prerequisite links of a map
+// Parameters: learningMap - Map whose links are checked against its subtopics
+// Returns Issues found (empty when every link is valid); a link closing a
+// cycle is reported at the first link that completes it
+export const findPrerequisiteIssues = (
+  learningMap: PrerequisiteMap
+): PrerequisiteIssue[] => {
+  const subtopics = indexSubtopics(learningMap);
+  const edges = new Map<string, string[]>();
+  const seen = new Set<string>();
+  const issues: PrerequisiteIssue[] = [];
+
+  (learningMap.prerequisites ?? []).forEach(({ from, to }, index) => {
+    const unknown = [from, to].find((path) => !subtopics.has(path));
+    const key = `${from}>${to}`;
+
+    if (unknown !== undefined) {
+      issues.push({ index, message: `Unknown subtopic path "${unknown}"` });
+    } else if (from === to) {
+      issues.push({ index, message: `Subtopic ${from} cannot require itself` });
+    } else if (seen.has(key)) {
+      issues.push({ index, message: `Duplicate link from ${from} to ${to}` });
+    } else if (isReachable(to, from, edges)) {
+      issues.push({
+        index,
+        message: `Link from ${from} to ${to} creates a cycle`,
+      });
+    } else {
+      seen.add(key);
+      edges.set(from, [...(edges.get(from) ?? []), to]);
+    }
+  });
+
+  return issues;
+};
+
+// Join prerequisite links into a list
+// Parameters: links - Prerequisite links
+// Returns List such as "0.0 > 1.0, 0.1 > 2.0"
+export const formatPrerequisiteList = (links: Prerequisite[]): string =>
+  links.map(({ from, to }) => `${from} > ${to}`).join(", ");
+
+// Split a list written by formatPrerequisiteList
+// Entries without a ">" are kept with an empty "to" path, so that validation
+// reports them instead of the link silently disappearing
+// Parameters: value - Link list
+// Returns Prerequisite links (unvalidated)
+export const parsePrerequisiteList = (value: string): Prerequisite[] =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = LINK_PATTERN.exec(entry);
+      return match ? { from: match[1], to: match[2] } : { from: entry, to: "" };
+    });
+
+// Track prerequisite links across an edit that moves, adds or removes nodes
+// Links follow the subtopics they point at (see trackNodePaths), so the edit
+// must mutate the same objects in place
+// Parameters: learningMap - Map before the edit
+// Returns Function producing the links for the edited map; links to removed
+// subtopics are dropped
+export const trackPrerequisites = (
+  learningMap: PrerequisiteMap
+): (() => Prerequisite[]) => {
+  const links = learningMap.prerequisites ?? [];
+  const getPaths = trackNodePaths(learningMap);
+
+  return () => {
+    const paths = getPaths();
+
+    return links.flatMap(({ from, to }) => {
+      const fromPath = paths.get(from);
+      const toPath = paths.get(to);
+      return fromPath && toPath ? [{ from: fromPath, to: toPath }] : [];
+    });
+  };
+};
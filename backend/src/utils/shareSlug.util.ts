@@ -0,0 +1,9 @@
+import { randomBytes } from "crypto";
+
+// Bytes of randomness in a share slug (128 bits, so links cannot be guessed)
+const SHARE_SLUG_BYTES = 16;
+
+// Generate a URL-safe slug for a read-only share link
+// Returns 22-character base64url string
+export const generateShareSlug = (): string =>
+  randomBytes(SHARE_SLUG_BYTES).toString("base64url");
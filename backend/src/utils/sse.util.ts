@@ -0,0 +1,51 @@
+import { type Response } from "express";
+import logger from "./logger";
+
+// Handle for writing Server-Sent Events to a single client
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  isClosed(): boolean;
+  // Aborted when the client disconnects before the stream is closed
+  signal: AbortSignal;
+}
+
+// Switches the response into Server-Sent Events mode
+// Parameters: res - Express response object
+// Returns EventStream handle; writes after the client disconnects are ignored
+export const openEventStream = (res: Response): EventStream => {
+  let closed = false;
+  const disconnect = new AbortController();
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable proxy buffering (e.g. nginx) so events reach the client immediately
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  res.on("close", () => {
+    if (!closed) {
+      logger.debug("Event stream closed by client");
+      disconnect.abort();
+    }
+    closed = true;
+  });
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    isClosed() {
+      return closed;
+    },
+    signal: disconnect.signal,
+  };
+};
@@ -0,0 +1,478 @@
+import path from "path";
+import PDFDocument from "pdfkit";
+import {
+  LearningMap,
+  ProgressStatus,
+  StudyGuideOptions,
+  SubTopic,
+} from "../types";
+
+// Study guide layout: a cover page, the table of contents, then for every
+// branch an overview page followed by one page per subtopic (child subtopics
+// continue on their parent's page). Pages are buffered so the table of
+// contents and page footers can be filled in once all page numbers are known.
+
+type PdfDocument = PDFKit.PDFDocument;
+
+const PAGE_MARGIN = 56;
+// DejaVu Sans is embedded because the standard PDF fonts (Helvetica) only
+// cover Latin-1 and garble other scripts such as Greek or Cyrillic
+const FONT_DIR = path.join(
+  path.dirname(require.resolve("dejavu-fonts-ttf/package.json")),
+  "ttf"
+);
+const FONT = path.join(FONT_DIR, "DejaVuSans.ttf");
+const BOLD_FONT = path.join(FONT_DIR, "DejaVuSans-Bold.ttf");
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#6b7280";
+const LINK_COLOR = "#2563eb";
+const CHECKBOX_SIZE = 10;
+const TOC_LINE_HEIGHT = 18;
+const TOC_INDENT = 16;
+// Space taken by the "Contents" heading on the first table of contents page
+const TOC_HEADING_HEIGHT = 48;
+
+// Branch or subtopic listed in the table of contents
+interface TocEntry {
+  path: string;
+  title: string;
+  // 0 for branches, 1 for their subtopics, 2 and more for child subtopics
+  depth: number;
+}
+
+// Name of the PDF destination the table of contents links to
+// Parameters: path - Node path of a branch or subtopic
+// Returns Destination name
+const destinationName = (path: string): string => `node-${path}`;
+
+// Index of the page currently being written
+// Parameters: doc - PDF document
+// Returns Zero-based page index
+const currentPageIndex = (doc: PdfDocument): number => {
+  const { start, count } = doc.bufferedPageRange();
+  return start + count - 1;
+};
+
+// Width available for text between the page margins
+// Parameters: doc - PDF document
+// Returns Width in points
+const contentWidth = (doc: PdfDocument): number =>
+  doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+// Count the subtopics of a tree at any depth
+// Parameters: subtopics - Subtopics to count
+// Returns Number of subtopics including descendants
+const countSubtopics = (subtopics: SubTopic[] = []): number =>
+  subtopics.reduce(
+    (count, subtopic) => count + 1 + countSubtopics(subtopic.subtopics),
+    0
+  );
+
+// List branches and subtopics in document order
+// Parameters: learningMap - Map to list
+// Returns Table of contents entries
+const collectTocEntries = (learningMap: LearningMap): TocEntry[] => {
+  const entries: TocEntry[] = [];
+
+  const addSubtopics = (
+    subtopics: SubTopic[],
+    parentPath: string,
+    depth: number
+  ) => {
+    subtopics.forEach((subtopic, index) => {
+      const path = `${parentPath}.${index}`;
+      entries.push({ path, title: subtopic.title, depth });
+      addSubtopics(subtopic.subtopics || [], path, depth + 1);
+    });
+  };
+
+  learningMap.branches.forEach((branch, index) => {
+    entries.push({ path: `${index}`, title: branch.title, depth: 0 });
+    addSubtopics(branch.subtopics, `${index}`, 1);
+  });
+
+  return entries;
+};
+
+// Draw a checkbox, ticked for done and struck through for skipped nodes
+// Parameters: doc - PDF document, x/y - Top left corner, status - Progress of the node
+const drawCheckbox = (
+  doc: PdfDocument,
+  x: number,
+  y: number,
+  status: ProgressStatus
+) => {
+  doc
+    .save()
+    .lineWidth(1)
+    .strokeColor(TEXT_COLOR)
+    .rect(x, y, CHECKBOX_SIZE, CHECKBOX_SIZE)
+    .stroke();
+
+  if (status === "done") {
+    doc
+      .lineWidth(1.5)
+      .moveTo(x + 2, y + 5)
+      .lineTo(x + 4.5, y + 8)
+      .lineTo(x + 8.5, y + 2)
+      .stroke();
+  } else if (status === "skipped") {
+    doc
+      .moveTo(x + 2, y + CHECKBOX_SIZE / 2)
+      .lineTo(x + CHECKBOX_SIZE - 2, y + CHECKBOX_SIZE / 2)
+      .stroke();
+  }
+
+  doc.restore();
+};
+
+// Render the cover page with topic, level, tags and map size
+// Parameters: doc - PDF document, learningMap - Map to render
+const renderCover = (doc: PdfDocument, learningMap: LearningMap) => {
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const subtopicCount = learningMap.branches.reduce(
+    (count, branch) => count + countSubtopics(branch.subtopics),
+    0
+  );
+
+  doc.y = doc.page.height / 3;
+  doc
+    .font(BOLD_FONT)
+    .fontSize(12)
+    .fillColor(MUTED_COLOR)
+    .text("STUDY GUIDE", left, doc.y, { width, characterSpacing: 2 });
+  doc
+    .moveDown(0.5)
+    .font(BOLD_FONT)
+    .fontSize(32)
+    .fillColor(TEXT_COLOR)
+    .text(learningMap.topic, { width });
+  doc
+    .moveDown(0.5)
+    .font(FONT)
+    .fontSize(16)
+    .text(`Level: ${learningMap.level}`, { width });
+
+  if (learningMap.tags && learningMap.tags.length > 0) {
+    doc
+      .moveDown(0.25)
+      .fontSize(12)
+      .fillColor(MUTED_COLOR)
+      .text(learningMap.tags.map((tag) => `#${tag}`).join("  "), { width });
+  }
+
+  doc
+    .moveDown(2)
+    .fontSize(12)
+    .fillColor(MUTED_COLOR)
+    .text(
+      `${learningMap.branches.length} branches • ${subtopicCount} subtopics`,
+      { width }
+    );
+
+  if (learningMap.createdAt) {
+    doc.text(
+      `Created ${new Date(learningMap.createdAt).toLocaleDateString("en-US")}`,
+      { width }
+    );
+  }
+};
+
+// Number of table of contents entries that fit on a page
+// Parameters: doc - PDF document, isFirstPage - Whether the page holds the heading
+// Returns Entries per page
+const tocEntriesPerPage = (doc: PdfDocument, isFirstPage: boolean): number => {
+  const height =
+    doc.page.height - doc.page.margins.top - doc.page.margins.bottom;
+  return Math.floor(
+    (height - (isFirstPage ? TOC_HEADING_HEIGHT : 0)) / TOC_LINE_HEIGHT
+  );
+};
+
+// Add the blank pages the table of contents is written to later
+// Parameters: doc - PDF document, entryCount - Number of entries
+// Returns Index of the first table of contents page
+const reserveTocPages = (doc: PdfDocument, entryCount: number): number => {
+  doc.addPage();
+  const firstPage = currentPageIndex(doc);
+
+  let remaining = entryCount - tocEntriesPerPage(doc, true);
+  while (remaining > 0) {
+    doc.addPage();
+    remaining -= tocEntriesPerPage(doc, false);
+  }
+
+  return firstPage;
+};
+
+// Fill the reserved pages with linked entries and their page numbers
+// Parameters: doc - PDF document, entries - Entries to list, firstPage - First
+// reserved page, pages - Page index of each node path
+const renderToc = (
+  doc: PdfDocument,
+  entries: TocEntry[],
+  firstPage: number,
+  pages: Map<string, number>
+) => {
+  let pageIndex = firstPage;
+  doc.switchToPage(pageIndex);
+
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  doc
+    .font(BOLD_FONT)
+    .fontSize(22)
+    .fillColor(TEXT_COLOR)
+    .text("Contents", left, doc.page.margins.top, { width });
+
+  let y = doc.page.margins.top + TOC_HEADING_HEIGHT;
+  let remaining = tocEntriesPerPage(doc, true);
+
+  for (const entry of entries) {
+    if (remaining === 0) {
+      doc.switchToPage(++pageIndex);
+      y = doc.page.margins.top;
+      remaining = tocEntriesPerPage(doc, false);
+    }
+
+    const indent = entry.depth * TOC_INDENT;
+    const pageNumber = String((pages.get(entry.path) ?? 0) + 1);
+
+    doc
+      .font(entry.depth === 0 ? BOLD_FONT : FONT)
+      .fontSize(entry.depth === 0 ? 12 : 11)
+      .fillColor(TEXT_COLOR)
+      .text(entry.title, left + indent, y, {
+        width: width - indent - 40,
+        height: TOC_LINE_HEIGHT,
+        ellipsis: true,
+        lineBreak: false,
+        goTo: destinationName(entry.path),
+      })
+      .fillColor(MUTED_COLOR)
+      .text(pageNumber, left, y, {
+        width,
+        align: "right",
+        lineBreak: false,
+        goTo: destinationName(entry.path),
+      });
+
+    y += TOC_LINE_HEIGHT;
+    remaining--;
+  }
+};
+
+// Mark the current position as the destination of a node
+// Parameters: doc - PDF document, path - Node path, pages - Page index of each node path
+const addDestination = (
+  doc: PdfDocument,
+  path: string,
+  pages: Map<string, number>
+) => {
+  doc.addNamedDestination(destinationName(path));
+  pages.set(path, currentPageIndex(doc));
+};
+
+// Render a subtopic with its description, resources and child subtopics
+// Parameters: doc - PDF document, subtopic - Subtopic to render, path - Its
+// node path, options - Study guide options, pages - Page index of each node path
+const renderSubtopic = (
+  doc: PdfDocument,
+  subtopic: SubTopic,
+  path: string,
+  options: StudyGuideOptions,
+  pages: Map<string, number>
+) => {
+  const depth = path.split(".").length - 2;
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+
+  // Keep a child's heading together with the start of its content
+  if (depth > 0) {
+    doc.moveDown(1.5);
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 120) {
+      doc.addPage();
+    }
+  }
+  addDestination(doc, path, pages);
+
+  const fontSize = depth === 0 ? 18 : 14;
+  let headingLeft = left;
+  if (options.checkboxes) {
+    drawCheckbox(
+      doc,
+      left,
+      doc.y + (fontSize - CHECKBOX_SIZE) / 2,
+      options.progress?.[path] ?? "not-started"
+    );
+    headingLeft += CHECKBOX_SIZE + 8;
+  }
+
+  doc
+    .font(BOLD_FONT)
+    .fontSize(fontSize)
+    .fillColor(TEXT_COLOR)
+    .text(subtopic.title, headingLeft, doc.y, {
+      width: width - (headingLeft - left),
+    });
+  doc
+    .moveDown(0.5)
+    .font(FONT)
+    .fontSize(11)
+    .text(subtopic.description, left, doc.y, { width, lineGap: 2 });
+
+  if (subtopic.resources.length > 0) {
+    doc
+      .moveDown()
+      .font(BOLD_FONT)
+      .fontSize(11)
+      .text("Resources", left, doc.y, { width });
+
+    for (const resource of subtopic.resources) {
+      doc
+        .moveDown(0.4)
+        .font(FONT)
+        .fontSize(11)
+        .fillColor(MUTED_COLOR)
+        .text(`• ${resource.type}: `, left, doc.y, { width, continued: true })
+        .fillColor(LINK_COLOR)
+        .text(resource.title, { link: resource.url, underline: true });
+      doc
+        .font(FONT)
+        .fontSize(9)
+        .fillColor(MUTED_COLOR)
+        .text(resource.url, left + 12, doc.y, {
+          width: width - 12,
+          link: resource.url,
+        });
+    }
+  }
+
+  (subtopic.subtopics || []).forEach((child, index) =>
+    renderSubtopic(doc, child, `${path}.${index}`, options, pages)
+  );
+};
+
+// Render the overview page of every branch followed by its subtopic pages
+// Parameters: doc - PDF document, learningMap - Map to render, options - Study guide options
+// Returns Page index of each node path
+const renderBranches = (
+  doc: PdfDocument,
+  learningMap: LearningMap,
+  options: StudyGuideOptions
+): Map<string, number> => {
+  const pages = new Map<string, number>();
+
+  learningMap.branches.forEach((branch, branchIndex) => {
+    doc.addPage();
+    const left = doc.page.margins.left;
+    const width = contentWidth(doc);
+    addDestination(doc, `${branchIndex}`, pages);
+
+    doc
+      .font(BOLD_FONT)
+      .fontSize(10)
+      .fillColor(MUTED_COLOR)
+      .text(
+        `BRANCH ${branchIndex + 1} OF ${learningMap.branches.length}`,
+        left,
+        doc.y,
+        { width, characterSpacing: 1 }
+      );
+    doc
+      .moveDown(0.5)
+      .fontSize(24)
+      .fillColor(TEXT_COLOR)
+      .text(branch.title, { width });
+    doc
+      .moveDown(0.5)
+      .font(FONT)
+      .fontSize(12)
+      .text(branch.description, { width, lineGap: 2 });
+
+    doc
+      .moveDown(1.5)
+      .font(BOLD_FONT)
+      .fontSize(12)
+      .text("In this branch", { width });
+    branch.subtopics.forEach((subtopic, index) => {
+      doc
+        .moveDown(0.3)
+        .font(FONT)
+        .fontSize(11)
+        .text(`${index + 1}. ${subtopic.title}`, left, doc.y, {
+          width,
+          goTo: destinationName(`${branchIndex}.${index}`),
+        });
+    });
+
+    branch.subtopics.forEach((subtopic, index) => {
+      doc.addPage();
+      renderSubtopic(doc, subtopic, `${branchIndex}.${index}`, options, pages);
+    });
+  });
+
+  return pages;
+};
+
+// Write the topic and page number at the bottom of every page but the cover
+// Parameters: doc - PDF document, learningMap - Map being rendered
+const renderPageFooters = (doc: PdfDocument, learningMap: LearningMap) => {
+  const { start, count } = doc.bufferedPageRange();
+
+  for (let index = start + 1; index < start + count; index++) {
+    doc.switchToPage(index);
+
+    // Writing into the bottom margin would otherwise start a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font(FONT)
+      .fontSize(9)
+      .fillColor(MUTED_COLOR)
+      .text(
+        `${learningMap.topic} • Page ${index + 1} of ${count}`,
+        doc.page.margins.left,
+        doc.page.height - bottomMargin / 2,
+        { width: contentWidth(doc), align: "center", lineBreak: false }
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+};
+
+// Render a learning map as a printable PDF study guide
+// Parameters: learningMap - Map to render, options - Checkbox and progress settings
+// Returns PDF file contents
+export const renderStudyGuidePdf = (
+  learningMap: LearningMap,
+  options: StudyGuideOptions
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `${learningMap.topic} - Study Guide`,
+        Subject: `${learningMap.level} learning map`,
+      },
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      renderCover(doc, learningMap);
+      const entries = collectTocEntries(learningMap);
+      const tocPage = reserveTocPages(doc, entries.length);
+      const pages = renderBranches(doc, learningMap, options);
+      renderToc(doc, entries, tocPage, pages);
+      renderPageFooters(doc, learningMap);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
@@ -0,0 +1,16 @@
+// Tags are written as one comma-separated list in text formats; commas and
+// backslashes inside a tag are escaped with a backslash
+
+// Join tags into a comma-separated list
+// Parameters: tags - Map tags
+// Returns Escaped list, e.g. "react, web\, mobile"
+export const formatTagList = (tags: string[]): string =>
+  tags.map((tag) => tag.replace(/[\\,]/g, "\\$&")).join(", ");
+
+// Split a comma-separated list written by formatTagList
+// Parameters: value - Escaped list
+// Returns Unescaped, non-empty tags
+export const parseTagList = (value: string): string[] =>
+  (value.match(/(?:\\.|[^,])+/g) || [])
+    .map((tag) => tag.trim().replace(/\\(.)/g, "$1"))
+    .filter(Boolean);
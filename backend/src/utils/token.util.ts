@@ -0,0 +1,45 @@
+import jwt from "jsonwebtoken";
+import { Env } from "../config/env.config";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { AuthenticatedUser } from "../types";
+
+// Claims stored in an access token
+interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  exp: number;
+}
+
+export interface AccessToken {
+  token: string;
+  expiresAt: Date;
+}
+
+// Sign an access token for a user
+// Parameters: user - Identity to embed in the token
+// Returns Signed JWT expiring after JWT_EXPIRES_IN, with its expiry date
+export const signAccessToken = (user: AuthenticatedUser): AccessToken => {
+  const token = jwt.sign({ email: user.email }, Env.JWT_SECRET, {
+    subject: user.id,
+    expiresIn: Env.JWT_EXPIRES_IN as jwt.SignOptions["expiresIn"],
+  });
+  const { exp } = jwt.decode(token) as { exp: number };
+
+  return { token, expiresAt: new Date(exp * 1000) };
+};
+
+// Verify an access token and extract the user it was issued for
+// Parameters: token - JWT from the auth cookie or Authorization header
+// Returns The authenticated user, or throws UNAUTHORIZED for invalid or expired tokens
+export const verifyAccessToken = (token: string): AuthenticatedUser => {
+  try {
+    const payload = jwt.verify(token, Env.JWT_SECRET) as AccessTokenPayload;
+    return { id: payload.sub, email: payload.email };
+  } catch {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.UNAUTHORIZED,
+      "Session is invalid or has expired"
+    );
+  }
+};
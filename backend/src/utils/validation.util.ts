@@ -0,0 +1,30 @@
+import { type z } from "zod";
+import { AppError } from "../middlewares/error.middleware";
+import logger from "./logger";
+
+// Validate request data (body, query or params) against a zod schema
+// Parameters: schema - Zod schema to apply, data - Raw request data, context - Operation name used in the log message
+// Returns The parsed data, or a validation AppError listing each failing field
+export const validateRequestData = <T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  context: string
+): T | AppError => {
+  const validationResult = schema.safeParse(data);
+
+  if (!validationResult.success) {
+    const errorDetails = validationResult.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+    }));
+
+    logger.warn(`Invalid request data for ${context}`, {
+      errors: errorDetails,
+    });
+    return AppError.validationError("Invalid request data", {
+      errors: errorDetails,
+    });
+  }
+
+  return validationResult.data;
+};
@@ -0,0 +1,126 @@
+import { randomUUID } from "crypto";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+import { LearningMap } from "../types";
+import {
+  learningMapToMindMapTree,
+  MindMapLearningMap,
+  MindMapNode,
+  mindMapTreeToLearningMap,
+} from "./mindMapTree.util";
+
+// XMind content format: the content.json file of an .xmind archive (XMind
+// 2020 and later), a list of sheets whose root topic is the map topic.
+// Descriptions are plain-text notes, resources are topics with an href, and
+// level, tags, prerequisites and resource types are "name: value" labels.
+
+interface XMindTopic {
+  id: string;
+  class: "topic";
+  title: string;
+  href?: string;
+  labels?: string[];
+  notes?: { plain: { content: string } };
+  children?: { attached: XMindTopic[] };
+}
+
+interface XMindSheet {
+  id: string;
+  class: "sheet";
+  title: string;
+  rootTopic: XMindTopic;
+}
+
+const LABEL_PATTERN = /^(\w+):\s*(.*)$/;
+
+// Convert a node and its descendants to an XMind topic
+// Parameters: node - Mind-map node
+// Returns XMind topic
+const nodeToTopic = (node: MindMapNode): XMindTopic => {
+  const labels = Object.entries(node.attributes).map(
+    ([name, value]) => `${name}: ${value}`
+  );
+
+  return {
+    id: randomUUID(),
+    class: "topic",
+    title: node.title,
+    ...(node.link !== undefined && { href: node.link }),
+    ...(labels.length > 0 && { labels }),
+    ...(node.note !== undefined && {
+      notes: { plain: { content: node.note } },
+    }),
+    ...(node.children.length > 0 && {
+      children: { attached: node.children.map(nodeToTopic) },
+    }),
+  };
+};
+
+// Serialize a learning map as XMind content JSON (one sheet)
+// Parameters: learningMap - Map to serialize
+// Returns content.json document
+export const learningMapToXMind = (learningMap: LearningMap): string => {
+  const sheets: XMindSheet[] = [
+    {
+      id: randomUUID(),
+      class: "sheet",
+      title: learningMap.topic,
+      rootTopic: nodeToTopic(learningMapToMindMapTree(learningMap)),
+    },
+  ];
+
+  return JSON.stringify(sheets, null, 2);
+};
+
+// Convert a parsed XMind topic to a mind-map node
+// Labels that are not "name: value" pairs are ignored
+// Parameters: topic - Parsed topic
+// Returns Mind-map node
+const topicToNode = (topic: Record<string, any>): MindMapNode => {
+  const labels: unknown[] = Array.isArray(topic.labels) ? topic.labels : [];
+  const children: unknown[] = Array.isArray(topic.children?.attached)
+    ? topic.children.attached
+    : [];
+  const note = topic.notes?.plain?.content;
+
+  return {
+    title: String(topic.title ?? "").trim(),
+    note: typeof note === "string" ? note : undefined,
+    link: typeof topic.href === "string" ? topic.href : undefined,
+    attributes: Object.fromEntries(
+      labels
+        .map((label) => LABEL_PATTERN.exec(String(label)))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map((match) => [match[1], match[2]])
+    ),
+    children: children
+      .filter((child) => child && typeof child === "object")
+      .map((child) => topicToNode(child as Record<string, any>)),
+  };
+};
+
+// Parse XMind content JSON back into map content
+// Only the first sheet is imported
+// Parameters: content - content.json document
+// Returns Parsed map content; throws INVALID_INPUT when there is no root topic
+export const parseLearningMapXMind = (content: string): MindMapLearningMap => {
+  let sheets: unknown;
+  try {
+    sheets = JSON.parse(content);
+  } catch {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "Invalid XMind learning map: the file is not valid JSON"
+    );
+  }
+
+  const rootTopic = Array.isArray(sheets) ? sheets[0]?.rootTopic : undefined;
+  if (!rootTopic || typeof rootTopic !== "object") {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      "Invalid XMind learning map: expected a list of sheets with a rootTopic (content.json)"
+    );
+  }
+
+  return mindMapTreeToLearningMap(topicToNode(rootTopic), "XMind");
+};
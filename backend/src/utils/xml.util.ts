@@ -0,0 +1,58 @@
+import { XMLParser } from "fast-xml-parser";
+import { ErrorCodeEnum } from "../enum/error-code.enum";
+import { AppError } from "../middlewares/error.middleware";
+
+// Escape text for use in XML content or attribute values
+// Line breaks and tabs are written as character references so that they
+// survive attribute value normalization
+// Parameters: value - Text to escape
+// Returns Escaped text
+export const escapeXml = (value: string): string =>
+  value.replace(
+    /[&<>"'\n\r\t]/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&apos;",
+        "\n": "&#10;",
+        "\r": "&#13;",
+        "\t": "&#9;",
+      })[char] as string
+  );
+
+// Parse an XML document into plain objects
+// Attributes are kept under their own names (without prefix) and character
+// references are decoded
+// Parameters: xml - XML document, formatName - Format name used in error
+// messages, arrayTags - Elements that are always parsed as arrays, stopNodes -
+// Paths of elements whose content is kept as raw markup
+// Returns Parsed document; throws INVALID_INPUT for malformed XML
+export const parseXml = (
+  xml: string,
+  formatName: string,
+  arrayTags: string[],
+  stopNodes: string[] = []
+): Record<string, any> => {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    htmlEntities: true,
+    parseTagValue: false,
+    isArray: (tagName) => arrayTags.includes(tagName),
+    stopNodes,
+  });
+
+  try {
+    return parser.parse(xml, true);
+  } catch (error) {
+    throw AppError.fromErrorCode(
+      ErrorCodeEnum.INVALID_INPUT,
+      `Invalid ${formatName} learning map: ${
+        error instanceof Error ? error.message : "the file is not valid XML"
+      }`
+    );
+  }
+};
@@ -0,0 +1,320 @@
+/**
+ * Zod schemas for learning map data
+ * Single source of truth for both model output validation and the shared types
+ */
+import { z } from "zod";
+import type { LearningMap, Prerequisite, SubTopic } from "../types";
+import {
+  findPrerequisiteIssues,
+  PrerequisiteIssue,
+} from "../utils/prerequisite.util";
+
+// Structural limits requested from the model in the generation prompt
+export const LEARNING_MAP_LIMITS = {
+  branches: { min: 3, max: 5 },
+  subtopics: { min: 3, max: 4 },
+  resources: { min: 2, max: 3 },
+  // Prerequisite links between subtopics in a generated map
+  prerequisites: { max: 12 },
+  // Children generated when expanding a single subtopic
+  children: { min: 2, max: 4 },
+  // Resources suggested when finding more resources for a subtopic
+  foundResources: { min: 1, max: 3 },
+  // Flashcards generated per subtopic
+  flashcards: { min: 1, max: 3 },
+  // Questions generated per branch quiz, and options per multiple-choice question
+  quizQuestions: { min: 4, max: 10 },
+  quizOptions: { min: 3, max: 5 },
+} as const;
+
+export const LearningLevelSchema = z.enum([
+  "Beginner",
+  "Intermediate",
+  "Advanced",
+]);
+
+export const ResourceTypeSchema = z.enum(["article", "video", "book"]);
+
+// Who can view a map owned by a user: only the owner, anyone with the share
+// link, or everyone (also listed when browsing)
+export const MapVisibilitySchema = z.enum(["private", "unlisted", "public"]);
+
+// Learning progress of a user on one node of a map
+export const ProgressStatusSchema = z.enum([
+  "not-started",
+  "in-progress",
+  "done",
+  "skipped",
+]);
+
+// User-supplied labels for organising saved maps (stored lowercased)
+export const MapTagSchema = z.string().trim().toLowerCase().min(1).max(40);
+
+export const LearningResourceSchema = z.object({
+  type: ResourceTypeSchema,
+  title: z.string().trim().min(1),
+  url: z.url({ protocol: /^https?$/, message: "Must be an http(s) URL" }),
+});
+
+export const SubTopicSchema: z.ZodType<SubTopic> = z.lazy(() =>
+  z.object({
+    title: z.string().trim().min(1),
+    description: z.string().trim().min(1),
+    resources: z
+      .array(LearningResourceSchema)
+      .min(LEARNING_MAP_LIMITS.resources.min)
+      .max(LEARNING_MAP_LIMITS.resources.max),
+    subtopics: z.array(SubTopicSchema).optional(),
+  })
+);
+
+export const MainBranchSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  subtopics: z
+    .array(SubTopicSchema)
+    .min(LEARNING_MAP_LIMITS.subtopics.min)
+    .max(LEARNING_MAP_LIMITS.subtopics.max),
+});
+
+const SubtopicPathSchema = z
+  .string()
+  .regex(/^\d+(\.\d+)+$/, "Must be a subtopic node path");
+
+// Link between two subtopics, possibly in different branches: "from" should
+// be learned before "to"
+export const PrerequisiteSchema = z.object({
+  from: SubtopicPathSchema,
+  to: SubtopicPathSchema,
+});
+
+/**
+ * Reports prerequisite links that point at missing subtopics, repeat another
+ * link or close a cycle
+ */
+function refinePrerequisites(
+  learningMap: Pick<LearningMap, "branches" | "prerequisites">,
+  ctx: z.RefinementCtx
+): void {
+  findPrerequisiteIssues(learningMap).forEach(({ index, message }) =>
+    ctx.addIssue({
+      code: "custom",
+      path: ["prerequisites", index],
+      message,
+    })
+  );
+}
+
+/**
+ * Drops prerequisite links that are malformed, point at missing subtopics,
+ * repeat another link or close a cycle, and any beyond the limit
+ * A bad link should not cost an otherwise usable map; the dropped links are
+ * returned so the caller can log them
+ */
+function dropInvalidPrerequisites({
+  branches,
+  prerequisites,
+}: Pick<LearningMap, "branches"> & { prerequisites: (Prerequisite | null)[] }) {
+  const issues: PrerequisiteIssue[] = [];
+  const links = prerequisites.flatMap((link, index) => {
+    if (link) return [{ link, index }];
+    issues.push({ index, message: "Malformed link" });
+    return [];
+  });
+
+  findPrerequisiteIssues({
+    branches,
+    prerequisites: links.map(({ link }) => link),
+  }).forEach(({ index, message }) =>
+    issues.push({ index: links[index].index, message })
+  );
+
+  const invalid = new Set(issues.map(({ index }) => index));
+  const valid = links.filter(({ index }) => !invalid.has(index));
+  valid.slice(LEARNING_MAP_LIMITS.prerequisites.max).forEach(({ index }) =>
+    issues.push({
+      index,
+      message: `Over the limit of ${LEARNING_MAP_LIMITS.prerequisites.max} links`,
+    })
+  );
+
+  return {
+    branches,
+    prerequisites: valid
+      .slice(0, LEARNING_MAP_LIMITS.prerequisites.max)
+      .map(({ link }) => link),
+    droppedPrerequisites: issues.sort((a, b) => a.index - b.index),
+  };
+}
+
+// Shape of the JSON document the model must return for a full map
+// Unlike imports, invalid prerequisite links are dropped instead of rejected
+export const LearningMapResponseSchema = z
+  .object({
+    branches: z
+      .array(MainBranchSchema)
+      .min(LEARNING_MAP_LIMITS.branches.min)
+      .max(LEARNING_MAP_LIMITS.branches.max),
+    prerequisites: z
+      .array(PrerequisiteSchema.nullable().catch(null))
+      .default([]),
+  })
+  .transform(dropInvalidPrerequisites);
+
+// Subtopics of imported maps, which (like edited maps) need not meet the
+// generation limits
+export const ImportedSubTopicSchema: z.ZodType<SubTopic> = z.lazy(() =>
+  z.object({
+    title: z.string().trim().min(1),
+    description: z.string().trim().min(1),
+    resources: z.array(LearningResourceSchema),
+    subtopics: z.array(ImportedSubTopicSchema).optional(),
+  })
+);
+
+// Content of a map imported from an exported file
+export const ImportedLearningMapSchema = z
+  .object({
+    topic: z.string().trim().min(1).max(200),
+    level: LearningLevelSchema,
+    tags: z
+      .array(MapTagSchema)
+      .max(10)
+      .transform((tags) => [...new Set(tags)])
+      .default([]),
+    branches: z
+      .array(
+        z.object({
+          title: z.string().trim().min(1),
+          description: z.string().trim().min(1),
+          subtopics: z.array(ImportedSubTopicSchema),
+        })
+      )
+      .min(1),
+    prerequisites: z.array(PrerequisiteSchema).default([]),
+  })
+  .superRefine(refinePrerequisites);
+
+// File formats learning maps can be exported to and imported from
+// (mm: FreeMind, xmind: XMind content.json)
+export const MapFileFormatSchema = z.enum([
+  "json",
+  "md",
+  "opml",
+  "mm",
+  "xmind",
+]);
+
+// File formats learning maps can be exported to (PDF, Mermaid and Graphviz
+// DOT are export-only)
+export const MapExportFormatSchema = z.enum([
+  ...MapFileFormatSchema.options,
+  "pdf",
+  "mermaid",
+  "dot",
+]);
+
+// Diagram types of the Mermaid export
+export const MermaidVariantSchema = z.enum(["mindmap", "flowchart"]);
+
+// Shape of the JSON document the model must return when expanding a subtopic
+export const ExpandNodeResponseSchema = z.object({
+  subtopics: z
+    .array(SubTopicSchema)
+    .min(LEARNING_MAP_LIMITS.children.min)
+    .max(LEARNING_MAP_LIMITS.children.max),
+});
+
+// Shape of the JSON document the model must return when finding more
+// resources for a subtopic
+export const FindResourcesResponseSchema = z.object({
+  resources: z
+    .array(LearningResourceSchema)
+    .min(LEARNING_MAP_LIMITS.foundResources.min)
+    .max(LEARNING_MAP_LIMITS.foundResources.max),
+});
+
+// Shape of the JSON document the model must return when replacing a broken
+// resource of a subtopic
+export const ReplaceResourceResponseSchema = z.object({
+  resource: LearningResourceSchema,
+});
+
+// Shape of the JSON document the model must return when regenerating a branch
+export const RegenerateBranchResponseSchema = z.object({
+  branch: MainBranchSchema,
+});
+
+// Question/answer card about the subtopic at a node path
+export const FlashcardSchema = z.object({
+  path: z.string().regex(/^\d+(\.\d+)+$/, "Must be a subtopic node path"),
+  question: z.string().trim().min(1).max(500),
+  answer: z.string().trim().min(1).max(1000),
+});
+
+// Shape of the JSON document the model must return when generating the
+// flashcards of one branch; cards beyond the limit of their subtopic fail
+export const FlashcardsResponseSchema = z
+  .object({
+    flashcards: z.array(FlashcardSchema).min(1),
+  })
+  .superRefine(({ flashcards }, ctx) => {
+    const counts = new Map<string, number>();
+    flashcards.forEach(({ path }, index) => {
+      const count = (counts.get(path) ?? 0) + 1;
+      counts.set(path, count);
+      if (count > LEARNING_MAP_LIMITS.flashcards.max) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["flashcards", index],
+          message: `Over the limit of ${LEARNING_MAP_LIMITS.flashcards.max} flashcards for subtopic "${path}"`,
+        });
+      }
+    });
+  });
+
+// File formats flashcard decks can be exported to (Anki text import or package)
+export const FlashcardExportFormatSchema = z.enum(["csv", "tsv", "apkg"]);
+
+const QuizQuestionBaseSchema = z.object({
+  path: z.string().regex(/^\d+(\.\d+)+$/, "Must be a subtopic node path"),
+  question: z.string().trim().min(1).max(500),
+  // Shown after answering, whether the answer was right or wrong
+  explanation: z.string().trim().min(1).max(1000),
+});
+
+// Quiz question about the subtopic at a node path: multiple choice (scored
+// by the server) or short answer (self-assessed against the model answer)
+export const QuizQuestionSchema = z.discriminatedUnion("type", [
+  QuizQuestionBaseSchema.extend({
+    type: z.literal("multiple-choice"),
+    options: z
+      .array(z.string().trim().min(1).max(300))
+      .min(LEARNING_MAP_LIMITS.quizOptions.min)
+      .max(LEARNING_MAP_LIMITS.quizOptions.max),
+    correctIndex: z.number().int().min(0),
+  }).refine(({ options, correctIndex }) => correctIndex < options.length, {
+    message: "correctIndex must point to one of the options",
+    path: ["correctIndex"],
+  }),
+  QuizQuestionBaseSchema.extend({
+    type: z.literal("short-answer"),
+    answer: z.string().trim().min(1).max(1000),
+  }),
+]);
+
+// Shape of the JSON document the model must return when generating the quiz
+// of one branch
+export const QuizResponseSchema = z.object({
+  questions: z
+    .array(QuizQuestionSchema)
+    .min(LEARNING_MAP_LIMITS.quizQuestions.min)
+    .max(LEARNING_MAP_LIMITS.quizQuestions.max),
+});
+
+// Answer to one quiz question: the selected option of a multiple-choice
+// question, or the learner's own verdict on a short-answer question
+export const QuizAnswerSchema = z.object({
+  selectedIndex: z.number().int().min(0).nullable().optional(),
+  correct: z.boolean().optional(),
+});
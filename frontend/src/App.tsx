@@ -1,11 +1,64 @@
+import { NavLink, Route, Routes } from "react-router-dom";
+import { AuthPage } from "./components/AuthPage";
+import { BrowseMaps } from "./components/BrowseMaps";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { MapGenerator } from "./components/MapGenerator";
+import { MapViewer } from "./components/MapViewer";
+import { MyMaps } from "./components/MyMaps";
+import { SharedMapViewer } from "./components/SharedMapViewer";
+import { Button } from "./components/ui/button";
+import { useAuth } from "./hooks/useAuth";
+
+const navLinkClassName = ({ isActive }: { isActive: boolean }) =>
+  `text-sm font-medium transition-colors hover:text-primary ${
+    isActive ? "text-primary" : "text-muted-foreground"
+  }`;
 
 function App() {
+  const { user, logout } = useAuth();
+
   return (
     <ErrorBoundary>
       <div className="min-h-screen bg-background">
-        <MapGenerator />
+        <nav className="border-b">
+          <div className="container mx-auto flex items-center gap-6 px-6 py-3">
+            <NavLink to="/" end className={navLinkClassName}>
+              Generate
+            </NavLink>
+            <NavLink to="/maps" className={navLinkClassName}>
+              Browse maps
+            </NavLink>
+            {user && (
+              <NavLink to="/my-maps" className={navLinkClassName}>
+                My maps
+              </NavLink>
+            )}
+            <div className="ml-auto flex items-center gap-3">
+              {user ? (
+                <>
+                  <span className="text-sm text-muted-foreground">
+                    {user.name || user.email}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={logout}>
+                    Sign out
+                  </Button>
+                </>
+              ) : (
+                <NavLink to="/login" className={navLinkClassName}>
+                  Sign in
+                </NavLink>
+              )}
+            </div>
+          </div>
+        </nav>
+        <Routes>
+          <Route path="/" element={<MapGenerator />} />
+          <Route path="/maps" element={<BrowseMaps />} />
+          <Route path="/maps/:id" element={<MapViewer />} />
+          <Route path="/my-maps" element={<MyMaps />} />
+          <Route path="/login" element={<AuthPage />} />
+          <Route path="/m/:slug" element={<SharedMapViewer />} />
+        </Routes>
       </div>
     </ErrorBoundary>
   );
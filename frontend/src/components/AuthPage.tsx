@@ -0,0 +1,157 @@
+/**
+ * Sign-in and registration page
+ */
+import { Loader2 } from "lucide-react";
+import { useState, type FormEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { clearError } from "../store/slices/uiSlice";
+import { formatZodErrors, type ValidationError } from "../utils/validation";
+import { loginSchema, registerSchema } from "../validations/schemas";
+import { InlineError } from "./ErrorDisplay";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { FormError } from "./ui/form-error";
+import { Input } from "./ui/input";
+
+type AuthMode = "login" | "register";
+
+export function AuthPage() {
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const error = useAppSelector((state) => state.ui.error);
+  const { login, register, isSubmitting } = useAuth();
+  const [mode, setMode] = useState<AuthMode>("login");
+  const [form, setForm] = useState({ email: "", password: "", name: "" });
+  const [fieldErrors, setFieldErrors] = useState<ValidationError[]>([]);
+
+  const getFieldError = (field: string) =>
+    fieldErrors.find((err) => err.field === field)?.message;
+
+  const updateForm = (changes: Partial<typeof form>) => {
+    setForm((current) => ({ ...current, ...changes }));
+    setFieldErrors([]);
+  };
+
+  const switchMode = () => {
+    setMode(mode === "login" ? "register" : "login");
+    setFieldErrors([]);
+    dispatch(clearError());
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const result =
+      mode === "login"
+        ? loginSchema.safeParse(form)
+        : registerSchema.safeParse(form);
+    if (!result.success) {
+      setFieldErrors(formatZodErrors(result.error));
+      return;
+    }
+
+    try {
+      if (mode === "login") {
+        await login(result.data);
+      } else {
+        await register(result.data);
+      }
+      navigate("/my-maps");
+    } catch {
+      // Error already handled in useAuth
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>
+            {mode === "login" ? "Sign in" : "Create an account"}
+          </CardTitle>
+          <CardDescription>
+            Maps you generate while signed in are saved to My maps and stay
+            private until you share them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === "register" && (
+              <div className="space-y-1.5">
+                <Input
+                  placeholder="Name (optional)"
+                  autoComplete="name"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+                <FormError
+                  message={getFieldError("name")}
+                  className="text-xs"
+                />
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Input
+                type="email"
+                placeholder="Email"
+                autoComplete="email"
+                value={form.email}
+                onChange={(e) => updateForm({ email: e.target.value })}
+                aria-invalid={!!getFieldError("email")}
+              />
+              <FormError message={getFieldError("email")} className="text-xs" />
+            </div>
+            <div className="space-y-1.5">
+              <Input
+                type="password"
+                placeholder="Password"
+                autoComplete={
+                  mode === "login" ? "current-password" : "new-password"
+                }
+                value={form.password}
+                onChange={(e) => updateForm({ password: e.target.value })}
+                aria-invalid={!!getFieldError("password")}
+              />
+              <FormError
+                message={getFieldError("password")}
+                className="text-xs"
+              />
+            </div>
+
+            {error && (
+              <InlineError
+                error={error}
+                onDismiss={() => dispatch(clearError())}
+              />
+            )}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {mode === "login" ? "Sign in" : "Create account"}
+            </Button>
+            <Button
+              type="button"
+              variant="link"
+              className="w-full"
+              onClick={switchMode}
+            >
+              {mode === "login"
+                ? "No account yet? Create one"
+                : "Already have an account? Sign in"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * Page for browsing, searching and filtering saved learning maps
+ * Lists anonymous maps, or the signed-in user's own maps ("My maps")
+ */
+import { Loader2, Search } from "lucide-react";
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import {
+  EMPTY_MAP_BROWSER_FILTERS,
+  type MapBrowserFilterInput,
+  useMapBrowser,
+} from "../hooks/useMapBrowser";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { clearError } from "../store/slices/uiSlice";
+import { type LearningLevel, type LearningMapSummary } from "../types";
+import { InlineError } from "./ErrorDisplay";
+import { MapImportButton } from "./MapImportButton";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+function MapSummaryCard({ map }: { map: LearningMapSummary }) {
+  return (
+    <Link to={`/maps/${map._id}`} className="block">
+      <Card className="h-full transition-colors hover:border-primary">
+        <CardHeader className="p-4">
+          <CardTitle className="text-lg">{map.topic}</CardTitle>
+          <CardDescription>
+            {map.level} • {new Date(map.createdAt).toLocaleDateString()}
+            {map.ownerId && ` • ${map.visibility}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 space-y-2">
+          <p className="text-xs text-muted-foreground line-clamp-2">
+            {map.branchTitles.join(" • ")}
+          </p>
+          {map.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {map.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="rounded bg-secondary px-1.5 py-0.5 text-xs text-secondary-foreground"
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
+
+interface BrowseMapsProps {
+  // List the signed-in user's maps instead of anonymous maps
+  mine?: boolean;
+}
+
+export function BrowseMaps({ mine = false }: BrowseMapsProps) {
+  const [input, setInput] = useState<MapBrowserFilterInput>(
+    EMPTY_MAP_BROWSER_FILTERS
+  );
+  const {
+    maps,
+    error,
+    isLoading,
+    isSearching,
+    isLoadingMore,
+    hasMore,
+    applyFilters,
+    loadMore,
+  } = useMapBrowser({ mine });
+  const dispatch = useAppDispatch();
+  // Errors from importing a map file
+  const importError = useAppSelector((state) => state.ui.error);
+
+  const updateInput = (changes: Partial<MapBrowserFilterInput>) =>
+    setInput((current) => ({ ...current, ...changes }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    applyFilters(input);
+  };
+
+  const handleReset = () => {
+    setInput(EMPTY_MAP_BROWSER_FILTERS);
+    applyFilters(EMPTY_MAP_BROWSER_FILTERS);
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-4xl font-bold">
+          {mine ? "My maps" : "Browse maps"}
+        </h1>
+        <p className="text-muted-foreground">
+          {mine
+            ? "Learning maps you generated while signed in"
+            : "Search public learning maps and maps generated without an account"}
+        </p>
+        <MapImportButton />
+      </div>
+
+      {importError && (
+        <InlineError
+          error={importError}
+          onDismiss={() => dispatch(clearError())}
+        />
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex gap-4 flex-col sm:flex-row">
+              <Input
+                placeholder="Search topics, branches and descriptions"
+                value={input.q}
+                onChange={(e) => updateInput({ q: e.target.value })}
+                className="flex-1"
+              />
+              <Select
+                value={input.level}
+                onValueChange={(value) =>
+                  updateInput({ level: value as LearningLevel | "all" })
+                }
+              >
+                <SelectTrigger className="sm:w-[180px]">
+                  <SelectValue placeholder="All levels" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All levels</SelectItem>
+                  <SelectItem value="Beginner">Beginner</SelectItem>
+                  <SelectItem value="Intermediate">Intermediate</SelectItem>
+                  <SelectItem value="Advanced">Advanced</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-4 flex-col sm:flex-row sm:items-center">
+              <Input
+                placeholder="Tag"
+                value={input.tag}
+                onChange={(e) => updateInput({ tag: e.target.value })}
+                className="sm:w-[200px]"
+              />
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                From
+                <Input
+                  type="date"
+                  value={input.from}
+                  onChange={(e) => updateInput({ from: e.target.value })}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                To
+                <Input
+                  type="date"
+                  value={input.to}
+                  onChange={(e) => updateInput({ to: e.target.value })}
+                />
+              </label>
+              <div className="flex gap-2 sm:ml-auto">
+                <Button type="button" variant="ghost" onClick={handleReset}>
+                  Reset
+                </Button>
+                <Button type="submit" disabled={isSearching}>
+                  {isSearching ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Search className="mr-2 h-4 w-4" />
+                  )}
+                  Search
+                </Button>
+              </div>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && <InlineError error={error} />}
+
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {!isLoading && !error && maps.length === 0 && (
+        <p className="text-center text-muted-foreground py-12">
+          No learning maps match these filters.
+        </p>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {maps.map((map) => (
+          <MapSummaryCard key={map._id} map={map} />
+        ))}
+      </div>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
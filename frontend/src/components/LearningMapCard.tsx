@@ -0,0 +1,341 @@
+/**
+ * Card displaying a learning map with its node actions, node details,
+ * history, sharing, flashcards, quizzes and export
+ * Shared by the generator and the saved map view
+ */
+import {
+  Check,
+  History,
+  Layers,
+  Link2,
+  Loader2,
+  Pencil,
+  Share2,
+} from "lucide-react";
+import { useCallback, useState } from "react";
+import { ReactFlowProvider } from "reactflow";
+import { useAuth } from "../hooks/useAuth";
+import { useBranchRegeneration } from "../hooks/useBranchRegeneration";
+import { useLinkCheck } from "../hooks/useLinkCheck";
+import { useMapEditing } from "../hooks/useMapEditing";
+import { useMapProgress } from "../hooks/useMapProgress";
+import { useNodeExpansion } from "../hooks/useNodeExpansion";
+import { useNodeNotes } from "../hooks/useNodeNotes";
+import { useQuizPerformance } from "../hooks/useQuizPerformance";
+import { useResourceFinder } from "../hooks/useResourceFinder";
+import { type LearningMap } from "../types";
+import { LearningMapVisualization } from "./LearningMapVisualization";
+import { MapDownloadMenu } from "./MapDownloadMenu";
+import { MapFlashcardsPanel } from "./MapFlashcardsPanel";
+import { MapHistoryPanel } from "./MapHistoryPanel";
+import { MapNodePanel } from "./MapNodePanel";
+import { MapQuizPanel } from "./MapQuizPanel";
+import { MapSharePanel } from "./MapSharePanel";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+
+interface LearningMapCardProps {
+  learningMap: LearningMap;
+  isStreaming?: boolean;
+  // Called with the updated map after a change made on the server
+  onMapChange?: (learningMap: LearningMap) => void;
+}
+
+// Side panel shown next to the visualization
+type MapCardPanel = "history" | "share" | "flashcards" | "quiz" | "node";
+
+export function LearningMapCard({
+  learningMap,
+  isStreaming = false,
+  onMapChange,
+}: LearningMapCardProps) {
+  const { expandNode, expandingPath } = useNodeExpansion();
+  const { regenerateBranch, regeneratingBranch } = useBranchRegeneration();
+  const { findResources, findingPath } = useResourceFinder();
+  const { checkLinks, isCheckingLinks, replaceResource, replacingResource } =
+    useLinkCheck();
+  const { user } = useAuth();
+  const [openPanel, setOpenPanel] = useState<MapCardPanel | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  // Branch whose quiz is shown in the quiz panel
+  const [quizBranch, setQuizBranch] = useState(0);
+  // Branch or subtopic shown in the node details panel
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const { editMap, isSaving } = useMapEditing(learningMap, onMapChange);
+
+  // Only owners can change their maps; anonymous maps are read-only
+  const isOwner = !!user && learningMap.ownerId === user._id;
+  // Saved maps can be edited once streaming has finished
+  const mapId = isStreaming || !isOwner ? undefined : learningMap._id;
+
+  // Progress is tracked for signed-in users on any saved map they can view
+  const progressMapId = user && !isStreaming ? learningMap._id : undefined;
+  const { statuses, setNodeStatus } = useMapProgress(progressMapId);
+  const { weakPaths } = useQuizPerformance(progressMapId);
+  const { notes, saveNote, isSavingNote } = useNodeNotes(progressMapId);
+
+  const togglePanel = (panel: MapCardPanel) =>
+    setOpenPanel((current) => (current === panel ? null : panel));
+
+  const handleExpandNode = useCallback(
+    async (path: string) => {
+      if (!mapId) return;
+      try {
+        onMapChange?.(await expandNode(mapId, path));
+      } catch {
+        // Error already handled in useNodeExpansion
+      }
+    },
+    [mapId, expandNode, onMapChange]
+  );
+
+  const handleRegenerateBranch = useCallback(
+    async (branchIndex: number, hint?: string) => {
+      if (!mapId) return;
+      try {
+        onMapChange?.(await regenerateBranch(mapId, branchIndex, hint));
+      } catch {
+        // Error already handled in useBranchRegeneration
+      }
+    },
+    [mapId, regenerateBranch, onMapChange]
+  );
+
+  const handleFindResources = useCallback(
+    async (path: string) => {
+      if (!mapId) return;
+      try {
+        onMapChange?.(await findResources(mapId, path));
+      } catch {
+        // Error already handled in useResourceFinder
+      }
+    },
+    [mapId, findResources, onMapChange]
+  );
+
+  const handleCheckLinks = useCallback(async () => {
+    if (!mapId) return;
+    try {
+      onMapChange?.(await checkLinks(mapId));
+    } catch {
+      // Error already handled in useLinkCheck
+    }
+  }, [mapId, checkLinks, onMapChange]);
+
+  const handleReplaceResource = useCallback(
+    async (path: string, resourceIndex: number) => {
+      if (!mapId) return;
+      try {
+        onMapChange?.(await replaceResource(mapId, path, resourceIndex));
+      } catch {
+        // Error already handled in useLinkCheck
+      }
+    },
+    [mapId, replaceResource, onMapChange]
+  );
+
+  // Clicking a node shows its details; clicking the background closes them
+  const handleSelectNode = useCallback((path: string | null) => {
+    if (path) {
+      setSelectedPath(path);
+      setOpenPanel("node");
+    } else {
+      setOpenPanel((current) => (current === "node" ? null : current));
+    }
+  }, []);
+
+  const handleStartQuiz = useCallback((branchIndex: number) => {
+    setQuizBranch(branchIndex);
+    setOpenPanel("quiz");
+  }, []);
+
+  // Restores and sharing changes return the updated map
+  const handleMapUpdated = useCallback(
+    (updatedMap: LearningMap) => onMapChange?.(updatedMap),
+    [onMapChange]
+  );
+
+  // The provider lets the download menu capture the rendered graph
+  return (
+    <ReactFlowProvider>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>{learningMap.topic}</CardTitle>
+              <CardDescription>
+                Level: {learningMap.level} • {learningMap.branches.length} main
+                branches
+                {isStreaming && " • generating more..."}
+              </CardDescription>
+            </div>
+            {isStreaming ? (
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            ) : (
+              <div className="flex gap-2">
+                {mapId && (
+                  <Button
+                    variant={isEditing ? "secondary" : "outline"}
+                    onClick={() => setIsEditing((editing) => !editing)}
+                  >
+                    {isSaving ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : isEditing ? (
+                      <Check className="mr-2 h-4 w-4" />
+                    ) : (
+                      <Pencil className="mr-2 h-4 w-4" />
+                    )}
+                    {isEditing ? "Done" : "Edit"}
+                  </Button>
+                )}
+                {mapId && (
+                  <Button
+                    variant="outline"
+                    disabled={isCheckingLinks}
+                    onClick={handleCheckLinks}
+                    title={
+                      learningMap.linksCheckedAt
+                        ? `Links last checked ${new Date(
+                            learningMap.linksCheckedAt
+                          ).toLocaleString()}`
+                        : "Links have not been checked yet"
+                    }
+                  >
+                    {isCheckingLinks ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Link2 className="mr-2 h-4 w-4" />
+                    )}
+                    {isCheckingLinks ? "Checking..." : "Check links"}
+                  </Button>
+                )}
+                {mapId && (
+                  <Button
+                    variant={openPanel === "history" ? "secondary" : "outline"}
+                    onClick={() => togglePanel("history")}
+                  >
+                    <History className="mr-2 h-4 w-4" />
+                    History
+                  </Button>
+                )}
+                {learningMap._id && (
+                  <Button
+                    variant={
+                      openPanel === "flashcards" ? "secondary" : "outline"
+                    }
+                    onClick={() => togglePanel("flashcards")}
+                  >
+                    <Layers className="mr-2 h-4 w-4" />
+                    Flashcards
+                  </Button>
+                )}
+                {mapId && (
+                  <Button
+                    variant={openPanel === "share" ? "secondary" : "outline"}
+                    onClick={() => togglePanel("share")}
+                  >
+                    <Share2 className="mr-2 h-4 w-4" />
+                    Share
+                  </Button>
+                )}
+                <MapDownloadMenu learningMap={learningMap} />
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 min-w-0">
+            <LearningMapVisualization
+              learningMap={learningMap}
+              isStreaming={isStreaming}
+              onExpandNode={mapId ? handleExpandNode : undefined}
+              expandingPath={expandingPath}
+              onRegenerateBranch={mapId ? handleRegenerateBranch : undefined}
+              regeneratingBranch={regeneratingBranch}
+              onEditMap={mapId && isEditing ? editMap : undefined}
+              progress={progressMapId ? statuses : undefined}
+              onProgressChange={setNodeStatus}
+              onStartQuiz={
+                learningMap._id && !isStreaming ? handleStartQuiz : undefined
+              }
+              weakPaths={progressMapId ? weakPaths : undefined}
+              onSelectNode={handleSelectNode}
+              selectedPath={openPanel === "node" ? selectedPath : null}
+            />
+          </div>
+          {openPanel === "node" && selectedPath && (
+            <div className="lg:w-[320px]">
+              <MapNodePanel
+                learningMap={learningMap}
+                path={selectedPath}
+                onClose={() => setOpenPanel(null)}
+                progress={progressMapId ? statuses : undefined}
+                onProgressChange={setNodeStatus}
+                note={notes[selectedPath]}
+                onSaveNote={progressMapId ? saveNote : undefined}
+                isSavingNote={isSavingNote}
+                onExpandNode={mapId ? handleExpandNode : undefined}
+                expandingPath={expandingPath}
+                onFindResources={mapId ? handleFindResources : undefined}
+                findingPath={findingPath}
+                onReplaceResource={mapId ? handleReplaceResource : undefined}
+                replacingResource={replacingResource}
+                onRegenerateBranch={mapId ? handleRegenerateBranch : undefined}
+                regeneratingBranch={regeneratingBranch}
+                onStartQuiz={
+                  learningMap._id && !isStreaming ? handleStartQuiz : undefined
+                }
+              />
+            </div>
+          )}
+          {mapId && openPanel === "history" && (
+            <div className="lg:w-[320px]">
+              <MapHistoryPanel
+                mapId={mapId}
+                currentRevision={learningMap.revision}
+                onRestore={handleMapUpdated}
+              />
+            </div>
+          )}
+          {learningMap._id && openPanel === "flashcards" && (
+            <div className="lg:w-[320px]">
+              <MapFlashcardsPanel
+                mapId={learningMap._id}
+                learningMap={learningMap}
+                canGenerate={!!mapId}
+              />
+            </div>
+          )}
+          {learningMap._id && openPanel === "quiz" && (
+            <div className="lg:w-[320px]">
+              <MapQuizPanel
+                key={quizBranch}
+                mapId={learningMap._id}
+                learningMap={learningMap}
+                branchIndex={quizBranch}
+                canGenerate={!!mapId}
+                canSubmit={!!progressMapId}
+                onClose={() => setOpenPanel(null)}
+              />
+            </div>
+          )}
+          {mapId && openPanel === "share" && (
+            <div className="lg:w-[320px]">
+              <MapSharePanel
+                mapId={mapId}
+                learningMap={learningMap}
+                onChange={handleMapUpdated}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </ReactFlowProvider>
+  );
+}
@@ -1,32 +1,155 @@
 /**
  * Interactive learning map visualization using ReactFlow
  */
-import { Book, FileText, Video } from "lucide-react";
-import { useMemo } from "react";
+import {
+  AlertTriangle,
+  Book,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  ChevronsDown,
+  Crosshair,
+  FileText,
+  LayoutGrid,
+  Link2,
+  Link2Off,
+  ListChecks,
+  Loader2,
+  Video,
+} from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import ReactFlow, {
   Background,
   Controls,
   Handle,
+  MarkerType,
   MiniMap,
+  Panel,
   Position,
+  useReactFlow,
+  useStore,
   type Edge,
   type Node,
   type NodeProps,
 } from "reactflow";
 import "reactflow/dist/style.css";
-import { type LearningMap, type LearningResource } from "../types";
+import { useCollapsedNodes } from "../hooks/useCollapsedNodes";
+import {
+  type LearningMap,
+  type LearningResource,
+  type MapEdit,
+  type ProgressStatus,
+  type SubTopic,
+} from "../types";
+import {
+  type LayoutNode,
+  layoutMapNodes,
+  MAP_LAYOUTS,
+  type MapLayout,
+  type NodeSize,
+} from "../utils/mapLayout";
+import { describeBrokenLink, isBrokenLink } from "../utils/linkCheck";
+import { type ProgressSummary, summarizeMapProgress } from "../utils/progress";
+import { MapNodeEditor } from "./MapNodeEditor";
+import { MapSearchBar } from "./MapSearchBar";
+import { Button } from "./ui/button";
+import {
+  ProgressStatusControl,
+  ProgressSummaryBar,
+  RegenerateBranchControl,
+} from "./MapNodeControls";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+interface NodeActionOptions {
+  onExpandNode?: (path: string) => void;
+  expandingPath?: string | null;
+  onRegenerateBranch?: (branchIndex: number, hint?: string) => void;
+  regeneratingBranch?: number | null;
+  // Edit mode replaces node content with inline editing controls
+  onEditMap?: (edit: MapEdit) => void;
+  // Signed-in user's progress by node path; omitted when not tracked
+  progress?: Record<string, ProgressStatus>;
+  onProgressChange?: (path: string, status: ProgressStatus) => void;
+  onStartQuiz?: (branchIndex: number) => void;
+  // Subtopic paths the user missed in their latest quiz attempts
+  weakPaths?: string[];
+  // Draw prerequisite links between subtopics
+  showPrerequisites?: boolean;
+  // Node path of the branch or subtopic shown in the detail panel
+  selectedPath?: string | null;
+  // Node IDs matching the search, see findSearchMatches
+  searchMatchIds?: string[];
+  // Node ID of the search match last jumped to
+  activeMatchId?: string | null;
+  // Only subtopics offering one of these resource types (and the nodes above
+  // them) stay undimmed; empty shows everything
+  resourceTypes?: LearningResource["type"][];
+  layout?: MapLayout;
+  // Node IDs of collapsed topic and branch nodes, whose descendants are hidden
+  collapsedNodeIds?: string[];
+  onToggleCollapse?: (nodeId: string) => void;
+  // Branch shown in focus mode; the rest of the map is dimmed
+  focusedBranch?: number | null;
+  onFocusBranch?: (branchIndex: number | null) => void;
+  // Rendered node sizes by node ID, used to keep the layout free of overlaps
+  nodeSizes?: Record<string, NodeSize>;
+}
 
 interface MapNodeData {
   label: string;
   description?: string;
   resources?: LearningResource[];
   type: "topic" | "branch" | "subtopic";
+  // Dot-separated node path used by the API (branches and subtopics)
+  path?: string;
+  onExpand?: (path: string) => void;
+  isExpanding?: boolean;
+  onRegenerate?: (branchIndex: number, hint?: string) => void;
+  isRegenerating?: boolean;
+  // Set in edit mode
+  onEdit?: (edit: MapEdit) => void;
+  siblingCount?: number;
+  // Status of a subtopic, and completion of a branch (or the whole map on the root)
+  progressStatus?: ProgressStatus;
+  progressSummary?: ProgressSummary;
+  onProgressChange?: (path: string, status: ProgressStatus) => void;
+  onStartQuiz?: (branchIndex: number) => void;
+  // Subtopic flagged as a weak area by quiz results
+  needsReview?: boolean;
+  // Topic and branch nodes can hide their descendants
+  isCollapsed?: boolean;
+  hiddenCount?: number;
+  onToggleCollapse?: (nodeId: string) => void;
+  isFocused?: boolean;
+  onFocusBranch?: (branchIndex: number | null) => void;
+  // Matches the search query, and is the match last jumped to
+  isSearchMatch?: boolean;
+  isActiveMatch?: boolean;
 }
 
+const PROGRESS_BORDERS: Record<ProgressStatus, string> = {
+  "not-started": "border-gray-200",
+  "in-progress": "border-amber-400",
+  done: "border-green-500",
+  skipped: "border-dashed border-gray-300 opacity-70",
+};
+
 /**
  * Custom node component for displaying learning map nodes
  */
-function MapNode({ data, selected }: NodeProps<MapNodeData>) {
+function MapNode({
+  id,
+  data,
+  selected,
+  targetPosition = Position.Top,
+  sourcePosition = Position.Bottom,
+}: NodeProps<MapNodeData>) {
   const getIcon = (type: string) => {
     switch (type) {
       case "topic":
@@ -40,48 +163,204 @@ function MapNode({ data, selected }: NodeProps<MapNodeData>) {
     }
   };
 
+  const progressStatus = data.progressStatus ?? "not-started";
+  const brokenLinkCount = (data.resources ?? []).filter(isBrokenLink).length;
+
   return (
     <div
       className={`px-4 py-3 rounded-lg border-2 shadow-lg bg-white min-w-[220px] max-w-[320px] z-10 ${
-        selected ? "border-primary ring-2 ring-primary" : "border-gray-200"
+        selected
+          ? "border-primary ring-2 ring-primary"
+          : `${PROGRESS_BORDERS[progressStatus]} ${
+              data.isActiveMatch
+                ? "ring-4 ring-yellow-400"
+                : data.isSearchMatch
+                  ? "ring-2 ring-yellow-300"
+                  : data.needsReview
+                    ? "ring-2 ring-red-300"
+                    : ""
+            }`
       }`}
     >
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
 
       <div className="flex items-start gap-2">
         <span className="text-2xl">{getIcon(data.type)}</span>
-        <div className="flex-1">
-          <h3 className="font-semibold text-sm mb-1">{data.label}</h3>
-          {data.description && (
-            <p className="text-xs text-gray-600 mb-2 line-clamp-2">
-              {data.description}
-            </p>
-          )}
-          {data.resources && data.resources.length > 0 && (
-            <div className="mt-2 space-y-1">
-              <p className="text-xs font-medium text-gray-700">Resources:</p>
-              {data.resources.slice(0, 2).map((resource, idx) => (
-                <a
-                  key={idx}
-                  href={resource.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-xs text-primary hover:underline flex items-center gap-1"
-                >
-                  {resource.type === "article" && (
-                    <FileText className="w-3 h-3" />
+        {data.onEdit ? (
+          <div className="flex-1">
+            {data.type === "topic" && (
+              <h3 className="font-semibold text-sm mb-1">{data.label}</h3>
+            )}
+            <MapNodeEditor
+              type={data.type}
+              path={data.path}
+              label={data.label}
+              description={data.description}
+              resources={data.resources}
+              siblingCount={data.siblingCount}
+              onEdit={data.onEdit}
+            />
+          </div>
+        ) : (
+          <div className="flex-1">
+            <h3 className="font-semibold text-sm mb-1">
+              {progressStatus === "done" && (
+                <CheckCircle2 className="inline w-4 h-4 mr-1 text-green-600 align-text-bottom" />
+              )}
+              {data.label}
+            </h3>
+            {data.needsReview && (
+              <p className="mb-1 flex items-center gap-1 text-xs font-medium text-red-600">
+                <AlertTriangle className="w-3 h-3" />
+                Needs review
+              </p>
+            )}
+            {data.description && (
+              <p className="text-xs text-gray-600 mb-2 line-clamp-2">
+                {data.description}
+              </p>
+            )}
+            {data.resources && data.resources.length > 0 && (
+              <div className="mt-2 space-y-1">
+                <p className="text-xs font-medium text-gray-700">
+                  Resources:
+                  {brokenLinkCount > 0 && (
+                    <span className="ml-1 font-normal text-red-600">
+                      {brokenLinkCount} broken
+                    </span>
                   )}
-                  {resource.type === "video" && <Video className="w-3 h-3" />}
-                  {resource.type === "book" && <Book className="w-3 h-3" />}
-                  {resource.title}
-                </a>
-              ))}
-            </div>
-          )}
-        </div>
+                </p>
+                {data.resources.slice(0, 2).map((resource, idx) => (
+                  <a
+                    key={idx}
+                    href={resource.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={
+                      isBrokenLink(resource)
+                        ? describeBrokenLink(resource)
+                        : undefined
+                    }
+                    className={`text-xs hover:underline flex items-center gap-1 ${
+                      isBrokenLink(resource)
+                        ? "text-red-600 line-through"
+                        : "text-primary"
+                    }`}
+                  >
+                    {isBrokenLink(resource) ? (
+                      <Link2Off className="w-3 h-3 shrink-0" />
+                    ) : (
+                      <>
+                        {resource.type === "article" && (
+                          <FileText className="w-3 h-3" />
+                        )}
+                        {resource.type === "video" && (
+                          <Video className="w-3 h-3" />
+                        )}
+                        {resource.type === "book" && (
+                          <Book className="w-3 h-3" />
+                        )}
+                      </>
+                    )}
+                    {resource.title}
+                  </a>
+                ))}
+                {data.resources.length > 2 && (
+                  <p className="text-xs text-muted-foreground">
+                    +{data.resources.length - 2} more
+                  </p>
+                )}
+              </div>
+            )}
+            {data.progressSummary && (
+              <ProgressSummaryBar
+                summary={data.progressSummary}
+                label={data.type === "topic" ? "Overall progress" : "Completed"}
+              />
+            )}
+            {data.type === "subtopic" && data.path && data.onProgressChange && (
+              <ProgressStatusControl
+                path={data.path}
+                status={progressStatus}
+                onChange={data.onProgressChange}
+              />
+            )}
+            {data.type === "subtopic" && data.path && data.onExpand && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="nodrag mt-2 h-7 text-xs"
+                disabled={data.isExpanding}
+                onClick={() => data.path && data.onExpand?.(data.path)}
+              >
+                {data.isExpanding ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <ChevronsDown className="w-3 h-3" />
+                )}
+                {data.isExpanding ? "Expanding..." : "Expand"}
+              </Button>
+            )}
+            {data.type === "branch" && data.path && data.onStartQuiz && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="nodrag mt-2 mr-2 h-7 text-xs"
+                onClick={() =>
+                  data.path && data.onStartQuiz?.(Number(data.path))
+                }
+              >
+                <ListChecks className="w-3 h-3" />
+                Quiz
+              </Button>
+            )}
+            {data.type === "branch" && data.path && data.onRegenerate && (
+              <RegenerateBranchControl
+                branchIndex={Number(data.path)}
+                isRegenerating={data.isRegenerating}
+                onRegenerate={data.onRegenerate}
+              />
+            )}
+          </div>
+        )}
+        {data.type === "branch" && data.path && data.onFocusBranch && (
+          <Button
+            variant={data.isFocused ? "secondary" : "ghost"}
+            size="icon"
+            className="nodrag h-6 w-6 shrink-0"
+            onClick={() =>
+              data.onFocusBranch?.(data.isFocused ? null : Number(data.path))
+            }
+            aria-label={data.isFocused ? "Exit focus" : "Focus on branch"}
+            aria-pressed={data.isFocused}
+          >
+            <Crosshair className="w-3 h-3" />
+          </Button>
+        )}
+        {data.onToggleCollapse && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="nodrag h-6 w-6 shrink-0"
+            onClick={() => data.onToggleCollapse?.(id)}
+            aria-label={data.isCollapsed ? "Expand" : "Collapse"}
+            aria-expanded={!data.isCollapsed}
+          >
+            {data.isCollapsed ? (
+              <ChevronRight className="w-4 h-4" />
+            ) : (
+              <ChevronDown className="w-4 h-4" />
+            )}
+          </Button>
+        )}
       </div>
+      {data.isCollapsed && !!data.hiddenCount && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          {data.hiddenCount} hidden {data.hiddenCount === 1 ? "node" : "nodes"}
+        </p>
+      )}
 
-      <Handle type="source" position={Position.Bottom} />
+      <Handle type="source" position={sourcePosition} />
     </div>
   );
 }
@@ -90,144 +369,688 @@ const nodeTypes = {
   mapNode: MapNode,
 };
 
+// Colour of prerequisite edges and their legend
+const PREREQUISITE_COLOR = "#8b5cf6";
+
+// Opacity of nodes and edges outside the focused branch
+const DIMMED_OPACITY = 0.25;
+
+/**
+ * ReactFlow node ID of the subtopic at a node path
+ */
+function getSubtopicNodeId(path: string): string {
+  return `subtopic-${path.replace(/\./g, "-")}`;
+}
+
+/**
+ * Whether a ReactFlow node belongs to a branch: the branch node itself or
+ * one of its subtopics at any depth
+ */
+function isInBranch(nodeId: string, branchIndex: number): boolean {
+  return (
+    nodeId === `branch-${branchIndex}` ||
+    nodeId.startsWith(`subtopic-${branchIndex}-`)
+  );
+}
+
+/**
+ * Collapsed nodes hiding a node: the topic, and the branch of a subtopic
+ */
+function getCollapsedAncestors(
+  nodeId: string,
+  collapsedNodeIds: string[]
+): string[] {
+  const branchIndex = /^(?:branch|subtopic)-(\d+)/.exec(nodeId)?.[1];
+  const ancestorIds = [
+    ...(nodeId !== "root" ? ["root"] : []),
+    ...(branchIndex !== undefined && nodeId.startsWith("subtopic-")
+      ? [`branch-${branchIndex}`]
+      : []),
+  ];
+  return ancestorIds.filter((id) => collapsedNodeIds.includes(id));
+}
+
+/**
+ * Node IDs of every node whose title, description or resource titles contain
+ * the query, in map order; nodes hidden in collapsed branches are included
+ */
+function findSearchMatches(learningMap: LearningMap, query: string): string[] {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+
+  const matches = (...values: (string | undefined)[]) =>
+    values.some((value) => value?.toLowerCase().includes(text));
+  const matchIds = matches(learningMap.topic) ? ["root"] : [];
+
+  const addSubtopics = (subtopics: SubTopic[], parentPath: string) => {
+    subtopics.forEach((subtopic, subtopicIndex) => {
+      const path = `${parentPath}.${subtopicIndex}`;
+      if (
+        matches(
+          subtopic.title,
+          subtopic.description,
+          ...subtopic.resources.map((resource) => resource.title)
+        )
+      ) {
+        matchIds.push(getSubtopicNodeId(path));
+      }
+      addSubtopics(subtopic.subtopics ?? [], path);
+    });
+  };
+
+  learningMap.branches.forEach((branch, branchIndex) => {
+    if (matches(branch.title, branch.description)) {
+      matchIds.push(`branch-${branchIndex}`);
+    }
+    addSubtopics(branch.subtopics, `${branchIndex}`);
+  });
+
+  return matchIds;
+}
+
+/**
+ * Number of subtopics in a list, including expanded children
+ */
+function countSubtopics(subtopics: SubTopic[]): number {
+  return subtopics.reduce(
+    (count, subtopic) => count + 1 + countSubtopics(subtopic.subtopics ?? []),
+    0
+  );
+}
+
 /**
  * Converts learning map data to ReactFlow nodes and edges
- * Creates a vertical timeline layout with cards stacked vertically
+ * The timeline layout stacks the cards vertically and chains siblings, with
+ * expanded subtopics indented below their parent; the other layouts connect
+ * every node to its parent
  */
-function convertMapToFlowData(learningMap: LearningMap): {
+function convertMapToFlowData(
+  learningMap: LearningMap,
+  options: NodeActionOptions = {}
+): {
   nodes: Node<MapNodeData>[];
   edges: Edge[];
 } {
+  const layout = options.layout ?? "timeline";
   const nodes: Node<MapNodeData>[] = [];
+  const layoutNodes: LayoutNode[] = [];
   const edges: Edge[] = [];
+  const progressSummary = options.progress
+    ? summarizeMapProgress(learningMap, options.progress)
+    : undefined;
+  const weakPaths = new Set(options.weakPaths);
+  const collapsedNodeIds = new Set(options.collapsedNodeIds);
 
-  // Center X position for all nodes (vertical timeline)
-  const centerX = 400;
-  let currentY = 50;
-  const verticalSpacing = 200; // Spacing between cards
+  const addNode = (
+    id: string,
+    data: MapNodeData,
+    depth: number,
+    parentId?: string
+  ) => {
+    nodes.push({
+      id,
+      type: "mapNode",
+      position: { x: 0, y: 0 },
+      data,
+      selected: !!data.path && data.path === options.selectedPath,
+    });
+    layoutNodes.push({ id, parentId, depth });
+  };
+
+  /**
+   * Connects a node to the previous sibling (or the parent for the first
+   * one) in the timeline, and to its parent in the other layouts
+   */
+  const addEdge = (
+    nodeId: string,
+    parentId: string,
+    previousSiblingId: string | undefined,
+    depth: number
+  ) => {
+    if (layout !== "timeline") {
+      edges.push({
+        id: `edge-${parentId}-${nodeId}`,
+        source: parentId,
+        target: nodeId,
+        type: layout === "radial" ? "straight" : "smoothstep",
+        animated: depth === 1,
+      });
+      return;
+    }
+
+    const source = previousSiblingId ?? parentId;
+    edges.push({
+      id: `edge-${source}-${nodeId}`,
+      source,
+      target: nodeId,
+      type: depth > 2 && !previousSiblingId ? "smoothstep" : "straight",
+      animated: depth === 1,
+    });
+  };
+
+  /**
+   * Adds subtopic nodes below their parent, including expanded children
+   */
+  const addSubtopicNodes = (
+    subtopics: SubTopic[],
+    parentNodeId: string,
+    parentPath: string,
+    depth: number
+  ) => {
+    subtopics.forEach((subtopic, subtopicIndex) => {
+      const path = `${parentPath}.${subtopicIndex}`;
+      const subtopicNodeId = getSubtopicNodeId(path);
+
+      addNode(
+        subtopicNodeId,
+        {
+          label: subtopic.title,
+          description: subtopic.description,
+          resources: subtopic.resources,
+          type: "subtopic",
+          path,
+          onExpand: options.onExpandNode,
+          isExpanding: options.expandingPath === path,
+          onEdit: options.onEditMap,
+          siblingCount: subtopics.length,
+          progressStatus: options.progress?.[path],
+          onProgressChange: options.progress
+            ? options.onProgressChange
+            : undefined,
+          needsReview: weakPaths.has(path),
+        },
+        depth,
+        parentNodeId
+      );
+      addEdge(
+        subtopicNodeId,
+        parentNodeId,
+        subtopicIndex > 0
+          ? getSubtopicNodeId(`${parentPath}.${subtopicIndex - 1}`)
+          : undefined,
+        depth
+      );
+
+      if (subtopic.subtopics && subtopic.subtopics.length > 0) {
+        addSubtopicNodes(subtopic.subtopics, subtopicNodeId, path, depth + 1);
+      }
+    });
+  };
 
-  // Create root topic node at the top
   const rootNodeId = "root";
-  nodes.push({
-    id: rootNodeId,
-    type: "mapNode",
-    position: { x: centerX, y: currentY },
-    data: {
+  const isRootCollapsed = collapsedNodeIds.has(rootNodeId);
+  addNode(
+    rootNodeId,
+    {
       label: learningMap.topic,
       type: "topic",
+      onEdit: options.onEditMap,
+      progressSummary: progressSummary?.overall,
+      isCollapsed: isRootCollapsed,
+      hiddenCount: learningMap.branches.reduce(
+        (count, branch) => count + 1 + countSubtopics(branch.subtopics),
+        0
+      ),
+      onToggleCollapse:
+        learningMap.branches.length > 0 ? options.onToggleCollapse : undefined,
     },
-  });
-
-  currentY += verticalSpacing;
+    0
+  );
 
-  // Create branch nodes and their subtopics in vertical stack
   learningMap.branches.forEach((branch, branchIndex) => {
+    if (isRootCollapsed) return;
     const branchNodeId = `branch-${branchIndex}`;
+    const isCollapsed = collapsedNodeIds.has(branchNodeId);
 
-    // Create branch node
-    nodes.push({
-      id: branchNodeId,
-      type: "mapNode",
-      position: { x: centerX, y: currentY },
-      data: {
-        label: branch.title,
+    addNode(
+      branchNodeId,
+      {
+        // Branch titles may not be known yet while the map is streaming
+        label: branch.title || "Generating branch...",
         description: branch.description,
         type: "branch",
+        path: `${branchIndex}`,
+        onRegenerate: options.onRegenerateBranch,
+        isRegenerating: options.regeneratingBranch === branchIndex,
+        onEdit: options.onEditMap,
+        siblingCount: learningMap.branches.length,
+        progressSummary: progressSummary?.branches[branchIndex],
+        onStartQuiz: options.onStartQuiz,
+        isCollapsed,
+        hiddenCount: countSubtopics(branch.subtopics),
+        onToggleCollapse:
+          branch.subtopics.length > 0 ? options.onToggleCollapse : undefined,
+        isFocused: options.focusedBranch === branchIndex,
+        onFocusBranch: options.onFocusBranch,
       },
-    });
+      1,
+      rootNodeId
+    );
+    addEdge(
+      branchNodeId,
+      rootNodeId,
+      branchIndex > 0 ? `branch-${branchIndex - 1}` : undefined,
+      1
+    );
 
-    // Connect root to first branch, or previous branch to current branch
-    if (branchIndex === 0) {
-      edges.push({
-        id: `edge-${rootNodeId}-${branchNodeId}`,
-        source: rootNodeId,
-        target: branchNodeId,
-        type: "straight",
-        animated: true,
-      });
-    } else {
-      const prevBranchNodeId = `branch-${branchIndex - 1}`;
-      edges.push({
-        id: `edge-${prevBranchNodeId}-${branchNodeId}`,
-        source: prevBranchNodeId,
-        target: branchNodeId,
-        type: "straight",
-        animated: true,
-      });
+    // Create subtopic nodes (and any expanded children) for this branch
+    if (!isCollapsed) {
+      addSubtopicNodes(branch.subtopics, branchNodeId, `${branchIndex}`, 2);
     }
+  });
 
-    currentY += verticalSpacing;
+  // Position the nodes, with handles facing the direction edges flow in
+  const positions = layoutMapNodes(
+    layoutNodes,
+    layout,
+    options.nodeSizes ?? {}
+  );
+  const isHorizontal = layout === "left-right";
+  nodes.forEach((node) => {
+    node.position = positions[node.id];
+    node.targetPosition = isHorizontal ? Position.Left : Position.Top;
+    node.sourcePosition = isHorizontal ? Position.Right : Position.Bottom;
+  });
 
-    // Create subtopic nodes for this branch
-    branch.subtopics.forEach((subtopic, subtopicIndex) => {
-      const subtopicNodeId = `subtopic-${branchIndex}-${subtopicIndex}`;
+  // Prerequisite links are drawn as dashed arrows on top of the hierarchy;
+  // links to nodes not shown yet (e.g. while streaming) are skipped
+  if (options.showPrerequisites) {
+    const nodeIds = new Set(nodes.map((node) => node.id));
 
-      nodes.push({
-        id: subtopicNodeId,
-        type: "mapNode",
-        position: { x: centerX, y: currentY },
-        data: {
-          label: subtopic.title,
-          description: subtopic.description,
-          resources: subtopic.resources,
-          type: "subtopic",
+    (learningMap.prerequisites ?? []).forEach(({ from, to }) => {
+      const source = getSubtopicNodeId(from);
+      const target = getSubtopicNodeId(to);
+      if (!nodeIds.has(source) || !nodeIds.has(target)) return;
+
+      edges.push({
+        id: `prerequisite-${source}-${target}`,
+        source,
+        target,
+        type: "default",
+        style: {
+          stroke: PREREQUISITE_COLOR,
+          strokeWidth: 1.5,
+          strokeDasharray: "6 4",
         },
+        markerEnd: { type: MarkerType.ArrowClosed, color: PREREQUISITE_COLOR },
+        zIndex: 1,
       });
+    });
+  }
 
-      // Connect branch to first subtopic, or previous subtopic to current subtopic
-      if (subtopicIndex === 0) {
-        edges.push({
-          id: `edge-${branchNodeId}-${subtopicNodeId}`,
-          source: branchNodeId,
-          target: subtopicNodeId,
-          type: "straight",
-        });
-      } else {
-        const prevSubtopicNodeId = `subtopic-${branchIndex}-${
-          subtopicIndex - 1
-        }`;
-        edges.push({
-          id: `edge-${prevSubtopicNodeId}-${subtopicNodeId}`,
-          source: prevSubtopicNodeId,
-          target: subtopicNodeId,
-          type: "straight",
-        });
-      }
+  // Search highlights the matching nodes that are shown
+  const searchMatchIds = new Set(options.searchMatchIds);
+  nodes.forEach(({ id, data }) => {
+    data.isSearchMatch = searchMatchIds.has(id);
+    data.isActiveMatch = data.isSearchMatch && id === options.activeMatchId;
+  });
 
-      currentY += verticalSpacing;
+  // The resource filter keeps subtopics offering a selected type, along with
+  // the nodes above them so the matches stay in context
+  const resourceTypes = options.resourceTypes ?? [];
+  const filteredNodeIds =
+    resourceTypes.length > 0 ? new Set<string>() : undefined;
+  if (filteredNodeIds) {
+    const parentIds = new Map(
+      layoutNodes.map(({ id, parentId }) => [id, parentId])
+    );
+    nodes.forEach(({ id, data }) => {
+      if (
+        data.type !== "subtopic" ||
+        !data.resources?.some(({ type }) => resourceTypes.includes(type))
+      ) {
+        return;
+      }
+      for (
+        let nodeId: string | undefined = id;
+        nodeId && !filteredNodeIds.has(nodeId);
+        nodeId = parentIds.get(nodeId)
+      ) {
+        filteredNodeIds.add(nodeId);
+      }
     });
+  }
+
+  // Nodes outside the focused branch or the resource filter are dimmed, along
+  // with every edge touching them
+  const { focusedBranch } = options;
+  const isDimmed = (nodeId: string) =>
+    (focusedBranch !== undefined &&
+      focusedBranch !== null &&
+      !isInBranch(nodeId, focusedBranch)) ||
+    (!!filteredNodeIds && !filteredNodeIds.has(nodeId));
+
+  nodes.forEach((node) => {
+    if (isDimmed(node.id)) {
+      node.style = { opacity: DIMMED_OPACITY };
+    }
+  });
+  edges.forEach((edge) => {
+    if (isDimmed(edge.source) || isDimmed(edge.target)) {
+      edge.style = { ...edge.style, opacity: DIMMED_OPACITY };
+    }
   });
 
   return { nodes, edges };
 }
 
+/**
+ * Reports the rendered size of every node so the layout can make room for
+ * long descriptions, resources and controls
+ */
+function NodeSizeReporter({
+  onChange,
+}: {
+  onChange: (sizes: Record<string, NodeSize>) => void;
+}) {
+  // Serialized so the reporter only re-renders when a size changes
+  const measured = useStore((state) =>
+    Array.from(state.nodeInternals.values())
+      .filter((node) => node.width && node.height)
+      .map((node) => `${node.id}:${node.width}:${node.height}`)
+      .join(";")
+  );
+
+  useEffect(() => {
+    if (!measured) return;
+    onChange(
+      Object.fromEntries(
+        measured.split(";").map((entry) => {
+          const [id, width, height] = entry.split(":");
+          return [id, { width: Number(width), height: Number(height) }];
+        })
+      )
+    );
+  }, [measured, onChange]);
+
+  return null;
+}
+
+/**
+ * Fits the map (or the focused branch) into view whenever the fit key changes
+ * (new nodes while streaming, a different layout, collapsed nodes or focus,
+ * or the first measurement)
+ */
+function FitViewOnChange({
+  fitKey,
+  focusedBranch,
+}: {
+  fitKey: string;
+  focusedBranch: number | null;
+}) {
+  const { fitView, getNodes } = useReactFlow();
+
+  useEffect(() => {
+    fitView({
+      padding: 0.2,
+      maxZoom: 1.2,
+      nodes:
+        focusedBranch === null
+          ? undefined
+          : getNodes().filter((node) => isInBranch(node.id, focusedBranch)),
+    });
+  }, [fitKey, focusedBranch, fitView, getNodes]);
+
+  return null;
+}
+
+/**
+ * Centres the view on the search match last jumped to once it is rendered
+ * and measured, which takes a render or two when the jump expanded a
+ * collapsed branch
+ */
+function CenterOnMatch({
+  jump,
+  node,
+  size,
+}: {
+  // Incremented on every jump, so jumping to the same match centres it again
+  jump: number;
+  node?: Node<MapNodeData>;
+  size?: NodeSize;
+}) {
+  const { setCenter } = useReactFlow();
+  const centeredJump = useRef(0);
+
+  useEffect(() => {
+    if (!node || !size || centeredJump.current === jump) return;
+    centeredJump.current = jump;
+    setCenter(
+      node.position.x + size.width / 2,
+      node.position.y + size.height / 2,
+      { zoom: 1, duration: 300 }
+    );
+  }, [jump, node, size, setCenter]);
+
+  return null;
+}
+
 interface LearningMapVisualizationProps {
   learningMap: LearningMap;
+  isStreaming?: boolean;
+  onExpandNode?: (path: string) => void;
+  expandingPath?: string | null;
+  onRegenerateBranch?: (branchIndex: number, hint?: string) => void;
+  regeneratingBranch?: number | null;
+  onEditMap?: (edit: MapEdit) => void;
+  progress?: Record<string, ProgressStatus>;
+  onProgressChange?: (path: string, status: ProgressStatus) => void;
+  onStartQuiz?: (branchIndex: number) => void;
+  weakPaths?: string[];
+  // Called with the node path of a clicked branch or subtopic, and with null
+  // when the background is clicked
+  onSelectNode?: (path: string | null) => void;
+  selectedPath?: string | null;
 }
 
 export function LearningMapVisualization({
   learningMap,
+  isStreaming = false,
+  onExpandNode,
+  expandingPath,
+  onRegenerateBranch,
+  regeneratingBranch,
+  onEditMap,
+  progress,
+  onProgressChange,
+  onStartQuiz,
+  weakPaths,
+  onSelectNode,
+  selectedPath,
 }: LearningMapVisualizationProps) {
+  const [showPrerequisites, setShowPrerequisites] = useState(true);
+  const [layout, setLayout] = useState<MapLayout>("timeline");
+  const [nodeSizes, setNodeSizes] = useState<Record<string, NodeSize>>({});
+  const [focusedBranch, setFocusedBranch] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [activeMatchId, setActiveMatchId] = useState<string | null>(null);
+  const [matchJump, setMatchJump] = useState(0);
+  const [resourceTypes, setResourceTypes] = useState<
+    LearningResource["type"][]
+  >([]);
+  const { collapsedNodeIds, toggleCollapsed, expandNodes } = useCollapsedNodes(
+    learningMap._id,
+    learningMap.branches
+  );
+  // Focus ends when the branch is removed or hidden
+  const activeFocus =
+    focusedBranch !== null &&
+    focusedBranch < learningMap.branches.length &&
+    !collapsedNodeIds.includes("root")
+      ? focusedBranch
+      : null;
+  const hasPrerequisites = (learningMap.prerequisites?.length ?? 0) > 0;
+  const isMeasured = Object.keys(nodeSizes).length > 0;
+  const searchMatchIds = useMemo(
+    () => findSearchMatches(learningMap, searchQuery),
+    [learningMap, searchQuery]
+  );
+  const hiddenMatchCount = searchMatchIds.filter(
+    (id) => getCollapsedAncestors(id, collapsedNodeIds).length > 0
+  ).length;
+
   const { nodes, edges } = useMemo(
-    () => convertMapToFlowData(learningMap),
-    [learningMap]
+    () =>
+      convertMapToFlowData(learningMap, {
+        onExpandNode,
+        expandingPath,
+        onRegenerateBranch,
+        regeneratingBranch,
+        onEditMap,
+        progress,
+        onProgressChange,
+        onStartQuiz,
+        weakPaths,
+        showPrerequisites,
+        selectedPath,
+        searchMatchIds,
+        activeMatchId,
+        resourceTypes,
+        layout,
+        collapsedNodeIds,
+        onToggleCollapse: toggleCollapsed,
+        focusedBranch: activeFocus,
+        onFocusBranch: setFocusedBranch,
+        nodeSizes,
+      }),
+    [
+      learningMap,
+      onExpandNode,
+      expandingPath,
+      onRegenerateBranch,
+      regeneratingBranch,
+      onEditMap,
+      progress,
+      onProgressChange,
+      onStartQuiz,
+      weakPaths,
+      showPrerequisites,
+      selectedPath,
+      searchMatchIds,
+      activeMatchId,
+      resourceTypes,
+      layout,
+      collapsedNodeIds,
+      toggleCollapsed,
+      activeFocus,
+      nodeSizes,
+    ]
   );
 
+  /**
+   * Makes a match the active one, expanding the collapsed nodes hiding it,
+   * and centres it in the view
+   */
+  const handleActiveMatchChange = (nodeId: string | null) => {
+    setActiveMatchId(nodeId);
+    if (!nodeId) return;
+
+    expandNodes(getCollapsedAncestors(nodeId, collapsedNodeIds));
+    setMatchJump((jump) => jump + 1);
+  };
+
   return (
     <div className="w-full h-[800px] border rounded-lg bg-gray-50 overflow-hidden">
       <ReactFlow
         nodes={nodes}
         edges={edges}
         nodeTypes={nodeTypes}
+        onNodeClick={(event, node: Node<MapNodeData>) => {
+          // Clicks on the node's own controls do not open the details
+          const target = event.target as HTMLElement;
+          if (target.closest("a, button, input, textarea, [role=combobox]")) {
+            return;
+          }
+          if (node.data.path) onSelectNode?.(node.data.path);
+        }}
+        onPaneClick={() => onSelectNode?.(null)}
         fitView
         fitViewOptions={{ padding: 0.2, maxZoom: 1.2 }}
-        minZoom={0.5}
+        minZoom={0.1}
         maxZoom={1.5}
         defaultViewport={{ x: 0, y: 0, zoom: 0.8 }}
       >
         <Background />
         <Controls />
         <MiniMap />
+        <Panel position="top-left">
+          <MapSearchBar
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            matchIds={searchMatchIds}
+            hiddenMatchCount={hiddenMatchCount}
+            activeMatchId={activeMatchId}
+            onActiveMatchChange={handleActiveMatchChange}
+            resourceTypes={resourceTypes}
+            onResourceTypesChange={setResourceTypes}
+          />
+        </Panel>
+        <Panel position="top-right" className="flex items-center gap-2">
+          {activeFocus !== null && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs bg-white"
+              onClick={() => setFocusedBranch(null)}
+            >
+              <Crosshair className="w-3 h-3" />
+              Exit focus
+            </Button>
+          )}
+          {hasPrerequisites && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs bg-white"
+              onClick={() => setShowPrerequisites((shown) => !shown)}
+              aria-pressed={showPrerequisites}
+            >
+              {showPrerequisites ? (
+                <Link2 className="w-3 h-3" />
+              ) : (
+                <Link2Off className="w-3 h-3" />
+              )}
+              {showPrerequisites ? "Hide prerequisites" : "Show prerequisites"}
+              <span
+                className="ml-1 inline-block w-5 border-t-2 border-dashed"
+                style={{ borderColor: PREREQUISITE_COLOR }}
+              />
+            </Button>
+          )}
+          <Select
+            value={layout}
+            onValueChange={(value) => setLayout(value as MapLayout)}
+          >
+            <SelectTrigger
+              className="h-7 w-[140px] text-xs bg-white"
+              aria-label="Layout"
+            >
+              <LayoutGrid className="w-3 h-3" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAP_LAYOUTS.map(({ value, label }) => (
+                <SelectItem key={value} value={value} className="text-xs">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Panel>
+        <NodeSizeReporter onChange={setNodeSizes} />
+        <FitViewOnChange
+          fitKey={
+            isStreaming
+              ? `nodes-${nodes.length}`
+              : [layout, isMeasured, ...collapsedNodeIds].join(":")
+          }
+          focusedBranch={activeFocus}
+        />
+        <CenterOnMatch
+          jump={matchJump}
+          node={nodes.find(({ id }) => id === activeMatchId)}
+          size={activeMatchId ? nodeSizes[activeMatchId] : undefined}
+        />
       </ReactFlow>
     </div>
   );
@@ -0,0 +1,269 @@
+/**
+ * Download menu of a learning map: data files (JSON, Markdown, OPML, FreeMind,
+ * XMind), a printable PDF study guide, Mermaid and Graphviz DOT diagrams (with
+ * a "Copy as Mermaid" action) and images of the rendered graph (PNG, SVG) at
+ * a chosen scale and background
+ * Must be rendered inside the ReactFlowProvider of the map
+ */
+import {
+  BookOpen,
+  Check,
+  ChevronDown,
+  Copy,
+  Download,
+  FileText,
+  ImageIcon,
+  Loader2,
+  Network,
+} from "lucide-react";
+import { useState } from "react";
+import { getExportFilename, useMapExport } from "../hooks/useMapExport";
+import {
+  type MapImageBackground,
+  type MapImageFormat,
+  useMapImageExport,
+} from "../hooks/useMapImageExport";
+import {
+  type LearningMap,
+  type MapFileFormat,
+  type MermaidVariant,
+} from "../types";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+const IMAGE_SCALES = [1, 2, 3];
+
+// Server-side formats of saved maps, besides JSON
+const DATA_FORMATS: { format: MapFileFormat; label: string }[] = [
+  { format: "md", label: "Markdown" },
+  { format: "opml", label: "OPML" },
+  { format: "mm", label: "FreeMind (.mm)" },
+  { format: "xmind", label: "XMind (content.json)" },
+];
+
+interface MapDownloadMenuProps {
+  learningMap: LearningMap;
+}
+
+export function MapDownloadMenu({ learningMap }: MapDownloadMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [background, setBackground] = useState<MapImageBackground>("white");
+  const [withCheckboxes, setWithCheckboxes] = useState(true);
+  const [mermaidVariant, setMermaidVariant] =
+    useState<MermaidVariant>("mindmap");
+  const [copied, setCopied] = useState(false);
+  const { exportMap, copyAsMermaid, isExporting, isCopying } = useMapExport();
+  const { exportImage, isExportingImage } = useMapImageExport();
+  const isBusy = isExporting || isCopying || isExportingImage;
+
+  const handleCopyMermaid = async () => {
+    if (await copyAsMermaid(learningMap, mermaidVariant)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleImage = async (format: MapImageFormat) => {
+    await exportImage(getExportFilename(learningMap, format), {
+      format,
+      scale,
+      background,
+    });
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" onClick={() => setIsOpen((open) => !open)}>
+        {isBusy ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Download className="mr-2 h-4 w-4" />
+        )}
+        Download
+        <ChevronDown className="ml-1 h-4 w-4" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-64 rounded-lg border bg-white p-3 shadow-lg space-y-3">
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Data</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start"
+              disabled={isBusy}
+              onClick={() => exportMap(learningMap, "json")}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              JSON
+            </Button>
+            {learningMap._id &&
+              DATA_FORMATS.map(({ format, label }) => (
+                <Button
+                  key={format}
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start"
+                  disabled={isBusy}
+                  onClick={() => exportMap(learningMap, format)}
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  {label}
+                </Button>
+              ))}
+          </div>
+
+          {learningMap._id && (
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-xs font-medium text-muted-foreground">
+                Study guide
+              </p>
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={withCheckboxes}
+                  onChange={(e) => setWithCheckboxes(e.target.checked)}
+                />
+                Progress checkboxes
+              </label>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={isBusy}
+                onClick={() =>
+                  exportMap(learningMap, "pdf", {
+                    checkboxes: withCheckboxes,
+                  })
+                }
+              >
+                <BookOpen className="mr-2 h-4 w-4" />
+                PDF
+              </Button>
+            </div>
+          )}
+
+          {learningMap._id && (
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-xs font-medium text-muted-foreground">
+                Diagram
+              </p>
+              <Select
+                value={mermaidVariant}
+                onValueChange={(value) =>
+                  setMermaidVariant(value as MermaidVariant)
+                }
+              >
+                <SelectTrigger className="h-8 w-full text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mindmap">Mermaid mindmap</SelectItem>
+                  <SelectItem value="flowchart">Mermaid flowchart</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={isBusy}
+                onClick={handleCopyMermaid}
+              >
+                {copied ? (
+                  <Check className="mr-2 h-4 w-4" />
+                ) : (
+                  <Copy className="mr-2 h-4 w-4" />
+                )}
+                {copied ? "Copied" : "Copy as Mermaid"}
+              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={isBusy}
+                  onClick={() =>
+                    exportMap(learningMap, "mermaid", {
+                      variant: mermaidVariant,
+                    })
+                  }
+                >
+                  <Network className="mr-2 h-4 w-4" />
+                  Mermaid
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={isBusy}
+                  onClick={() => exportMap(learningMap, "dot")}
+                >
+                  <Network className="mr-2 h-4 w-4" />
+                  DOT
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2 border-t pt-3">
+            <p className="text-xs font-medium text-muted-foreground">Image</p>
+            <div className="flex gap-2">
+              <Select
+                value={String(scale)}
+                onValueChange={(value) => setScale(Number(value))}
+              >
+                <SelectTrigger className="h-8 flex-1 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMAGE_SCALES.map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {value}x
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={background}
+                onValueChange={(value) =>
+                  setBackground(value as MapImageBackground)
+                }
+              >
+                <SelectTrigger className="h-8 flex-1 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="white">White</SelectItem>
+                  <SelectItem value="transparent">Transparent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              {(["png", "svg"] as const).map((format) => (
+                <Button
+                  key={format}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={isBusy}
+                  onClick={() => handleImage(format)}
+                >
+                  <ImageIcon className="mr-2 h-4 w-4" />
+                  {format.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
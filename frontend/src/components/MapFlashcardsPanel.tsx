@@ -0,0 +1,148 @@
+/**
+ * Flashcards of a saved map: generated by the model per subtopic, stored with
+ * the map and downloadable as an Anki deck (CSV, TSV or .apkg)
+ */
+import { Download, Layers, Loader2, RefreshCw } from "lucide-react";
+import { useMapFlashcards } from "../hooks/useMapFlashcards";
+import {
+  type Flashcard,
+  type FlashcardExportFormat,
+  type LearningMap,
+} from "../types";
+import { Button } from "./ui/button";
+
+interface MapFlashcardsPanelProps {
+  mapId: string;
+  learningMap: LearningMap;
+  // Whether the user may (re)generate the cards, which calls the model
+  canGenerate: boolean;
+}
+
+const EXPORT_FORMATS: { format: FlashcardExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "tsv", label: "TSV" },
+  { format: "apkg", label: ".apkg" },
+];
+
+/**
+ * Groups cards by the branch they were generated for, keeping their order
+ */
+function groupByBranch(cards: Flashcard[]): [string, Flashcard[]][] {
+  const groups = new Map<string, Flashcard[]>();
+  cards.forEach((card) => {
+    groups.set(card.branch, [...(groups.get(card.branch) ?? []), card]);
+  });
+  return [...groups.entries()];
+}
+
+export function MapFlashcardsPanel({
+  mapId,
+  learningMap,
+  canGenerate,
+}: MapFlashcardsPanelProps) {
+  const {
+    deck,
+    isLoadingDeck,
+    deckError,
+    generate,
+    isGenerating,
+    exportDeck,
+    isExporting,
+  } = useMapFlashcards(mapId);
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Layers className="h-4 w-4" />
+        <h3 className="font-semibold text-sm">Flashcards</h3>
+      </div>
+
+      {isLoadingDeck && (
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      )}
+      {deckError && <p className="text-xs text-destructive">{deckError}</p>}
+
+      {!isLoadingDeck && !deckError && !deck && (
+        <p className="text-xs text-muted-foreground">
+          {canGenerate
+            ? "Generate question/answer cards for every subtopic and study them in Anki."
+            : "No flashcards have been generated for this map yet."}
+        </p>
+      )}
+
+      {deck && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {deck.cards.length} cards • generated{" "}
+            {new Date(deck.createdAt).toLocaleString()}
+          </p>
+          {deck.outdated && (
+            <p className="text-xs text-amber-700">
+              The map has changed since these cards were generated.{" "}
+              {canGenerate
+                ? "Regenerate them to download an up-to-date deck."
+                : "They can be downloaded once the map's editors regenerate them."}
+            </p>
+          )}
+          <div className="flex gap-2">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <Button
+                key={format}
+                variant="outline"
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                disabled={isExporting || deck.outdated}
+                onClick={() => exportDeck(learningMap, format)}
+              >
+                <Download className="w-3 h-3" />
+                {label}
+              </Button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {canGenerate && !isLoadingDeck && (
+        <Button
+          variant={deck ? "outline" : "default"}
+          size="sm"
+          className="w-full"
+          disabled={isGenerating}
+          onClick={generate}
+        >
+          {isGenerating ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : deck ? (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          ) : (
+            <Layers className="mr-2 h-4 w-4" />
+          )}
+          {deck ? "Regenerate flashcards" : "Generate flashcards"}
+        </Button>
+      )}
+
+      {deck && (
+        <div className="space-y-3 max-h-[600px] overflow-y-auto">
+          {groupByBranch(deck.cards).map(([branch, cards]) => (
+            <div key={branch} className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">
+                {branch}
+              </p>
+              <ul className="space-y-2">
+                {cards.map((card, index) => (
+                  <li
+                    key={`${card.path}-${index}`}
+                    className="rounded-md border border-gray-200 p-2"
+                  >
+                    <p className="text-xs font-medium">{card.question}</p>
+                    <p className="mt-1 text-xs text-gray-600">{card.answer}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,14 @@
  * Main component for generating and displaying learning maps
  * Uses custom hooks for clean separation of concerns
  */
-import { Download, Loader2 } from "lucide-react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
 import { useLearningMapForm } from "../hooks/useLearningMapForm";
-import { useMapExport } from "../hooks/useMapExport";
 import { useMapGeneration } from "../hooks/useMapGeneration";
 import { type LearningLevel } from "../types";
 import { InlineError } from "./ErrorDisplay";
-import { LearningMapVisualization } from "./LearningMapVisualization";
+import { LearningMapCard } from "./LearningMapCard";
 import { Button } from "./ui/button";
 import {
   Card,
@@ -31,16 +32,28 @@ export function MapGenerator() {
   const {
     topic,
     level,
+    tags,
     error,
     handleTopicChange,
     handleLevelChange,
+    handleTagsChange,
     getFieldError,
     validateForm,
     clearFormError,
   } = useLearningMapForm();
 
-  const { learningMap, isLoading, generateMap, resetMap } = useMapGeneration();
-  const { exportMap } = useMapExport();
+  const {
+    learningMap,
+    isLoading,
+    isStreaming,
+    isCached,
+    generateMap,
+    generateFresh,
+    resetMap,
+    updateMap,
+  } = useMapGeneration();
+  const { isAuthenticated } = useAuth();
+  const hasStreamedNodes = !!learningMap && learningMap.branches.length > 0;
 
   const handleGenerate = async () => {
     resetMap();
@@ -54,9 +67,12 @@ export function MapGenerator() {
     }
   };
 
-  const handleExport = () => {
-    if (!learningMap) return;
-    exportMap(learningMap);
+  const handleGenerateFresh = async () => {
+    try {
+      await generateFresh();
+    } catch {
+      // Error already handled in useMapGeneration
+    }
   };
 
   return (
@@ -153,6 +169,42 @@ export function MapGenerator() {
                   </Button>
                 </div>
               </div>
+              <div className="space-y-1.5">
+                <Input
+                  placeholder="Tags (optional, comma separated, e.g. programming, career)"
+                  value={tags}
+                  onChange={(e) => handleTagsChange(e.target.value)}
+                  disabled={isLoading}
+                  className={
+                    getFieldError("tags")
+                      ? "border-destructive focus-visible:ring-destructive"
+                      : ""
+                  }
+                  aria-invalid={!!getFieldError("tags")}
+                />
+                <FormError
+                  message={getFieldError("tags")}
+                  className="text-xs"
+                />
+              </div>
+              {isAuthenticated ? (
+                <p className="text-xs text-muted-foreground">
+                  The map will be saved to{" "}
+                  <Link to="/my-maps" className="underline">
+                    My maps
+                  </Link>{" "}
+                  and stay private until you share it.
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  You are not signed in: the map will be saved anonymously,
+                  anyone with its link can view it and no one can change it.{" "}
+                  <Link to="/login" className="underline">
+                    Sign in
+                  </Link>{" "}
+                  to keep it in My maps and expand or edit it.
+                </p>
+              )}
             </div>
 
             {error && <InlineError error={error} onDismiss={clearFormError} />}
@@ -160,7 +212,7 @@ export function MapGenerator() {
         </CardContent>
       </Card>
 
-      {isLoading && (
+      {isLoading && !hasStreamedNodes && (
         <Card>
           <CardContent className="flex items-center justify-center py-12">
             <div className="text-center space-y-4">
@@ -180,27 +232,24 @@ export function MapGenerator() {
         </Card>
       )}
 
-      {learningMap && !isLoading && (
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <div>
-                <CardTitle>{learningMap.topic}</CardTitle>
-                <CardDescription>
-                  Level: {learningMap.level} • {learningMap.branches.length}{" "}
-                  main branches
-                </CardDescription>
-              </div>
-              <Button variant="outline" onClick={handleExport}>
-                <Download className="mr-2 h-4 w-4" />
-                Export JSON
-              </Button>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <LearningMapVisualization learningMap={learningMap} />
-          </CardContent>
-        </Card>
+      {learningMap && isCached && !isLoading && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/50 px-4 py-2">
+          <p className="text-sm text-muted-foreground">
+            This map reuses a recent generation for the same topic and level.
+          </p>
+          <Button variant="outline" size="sm" onClick={handleGenerateFresh}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Generate fresh
+          </Button>
+        </div>
+      )}
+
+      {learningMap && (!isLoading || hasStreamedNodes) && (
+        <LearningMapCard
+          learningMap={learningMap}
+          isStreaming={isStreaming}
+          onMapChange={updateMap}
+        />
       )}
 
       {!learningMap && !isLoading && !error && (
@@ -0,0 +1,172 @@
+/**
+ * Revision history of a saved learning map with a per-revision diff and restore
+ */
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { useAuth } from "../hooks/useAuth";
+import { useMapHistory } from "../hooks/useMapHistory";
+import { type LearningMap, type MapDiffChange } from "../types";
+import { Button } from "./ui/button";
+
+interface MapHistoryPanelProps {
+  mapId: string;
+  // Revision currently shown in the visualization
+  currentRevision?: number;
+  onRestore: (learningMap: LearningMap) => void;
+}
+
+const CHANGE_STYLES: Record<MapDiffChange["change"], string> = {
+  added: "text-green-700 bg-green-50",
+  removed: "text-red-700 bg-red-50",
+  modified: "text-amber-700 bg-amber-50",
+};
+
+function DiffChangeItem({ change }: { change: MapDiffChange }) {
+  return (
+    <li className="flex items-start gap-2 text-xs">
+      <span
+        className={`shrink-0 rounded px-1.5 py-0.5 font-medium ${
+          CHANGE_STYLES[change.change]
+        }`}
+      >
+        {change.change}
+      </span>
+      <span className="text-gray-700">
+        <span className="text-muted-foreground">
+          {change.kind} {change.path}:
+        </span>{" "}
+        {change.title}
+        {change.fields && (
+          <span className="text-muted-foreground">
+            {" "}
+            ({change.fields.join(", ")})
+          </span>
+        )}
+      </span>
+    </li>
+  );
+}
+
+export function MapHistoryPanel({
+  mapId,
+  currentRevision,
+  onRestore,
+}: MapHistoryPanelProps) {
+  const {
+    revisions,
+    isLoadingRevisions,
+    revisionsError,
+    selectedRevision,
+    selectRevision,
+    diff,
+    isLoadingDiff,
+    restoreRevision,
+    isRestoring,
+  } = useMapHistory(mapId);
+  const { user } = useAuth();
+
+  const handleRestore = async (revision: number) => {
+    try {
+      onRestore(await restoreRevision(revision));
+    } catch {
+      // Error already handled in useMapHistory
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4" />
+        <h3 className="font-semibold text-sm">History</h3>
+      </div>
+
+      {isLoadingRevisions && (
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      )}
+      {revisionsError && (
+        <p className="text-xs text-destructive">{revisionsError}</p>
+      )}
+      {!isLoadingRevisions && !revisionsError && revisions.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No revisions recorded for this map yet.
+        </p>
+      )}
+
+      <ul className="space-y-2 max-h-[600px] overflow-y-auto">
+        {revisions.map((revision) => {
+          const isSelected = revision.revision === selectedRevision;
+          const isCurrent = revision.revision === currentRevision;
+
+          return (
+            <li
+              key={revision._id}
+              className={`rounded-md border p-2 ${
+                isSelected ? "border-primary" : "border-gray-200"
+              }`}
+            >
+              <button
+                type="button"
+                className="w-full text-left"
+                onClick={() =>
+                  selectRevision(isSelected ? null : revision.revision)
+                }
+              >
+                <p className="text-xs font-medium">
+                  #{revision.revision} {revision.summary}
+                  {isCurrent && (
+                    <span className="ml-1 text-muted-foreground">
+                      (current)
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(revision.createdAt).toLocaleString()} •{" "}
+                  {revision.source === "model" ? "AI generated" : "User"}
+                  {revision.userId &&
+                    (revision.userId === user?._id
+                      ? " • by you"
+                      : " • by another user")}
+                </p>
+              </button>
+
+              {isSelected && (
+                <div className="mt-2 space-y-2">
+                  {isLoadingDiff && (
+                    <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                  )}
+                  {diff && diff.changes.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      No content changes from revision {diff.from}.
+                    </p>
+                  )}
+                  {diff && diff.changes.length > 0 && (
+                    <ul className="space-y-1">
+                      {diff.changes.map((change, index) => (
+                        <DiffChangeItem key={index} change={change} />
+                      ))}
+                    </ul>
+                  )}
+                  {!isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={isRestoring}
+                      onClick={() => handleRestore(revision.revision)}
+                    >
+                      {isRestoring ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-3 h-3" />
+                      )}
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
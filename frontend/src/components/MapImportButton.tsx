@@ -0,0 +1,51 @@
+/**
+ * Button that imports an exported JSON, Markdown, OPML, FreeMind or XMind file
+ * and opens the new map
+ */
+import { Loader2, Upload } from "lucide-react";
+import { useRef, type ChangeEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { IMPORT_FILE_ACCEPT, useMapImport } from "../hooks/useMapImport";
+import { Button } from "./ui/button";
+
+export function MapImportButton() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { importFile, isImporting } = useMapImport();
+
+  const handleChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow choosing the same file again after a failed import
+    e.target.value = "";
+    if (!file) return;
+
+    const learningMap = await importFile(file);
+    if (learningMap?._id) {
+      navigate(`/maps/${learningMap._id}`);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMPORT_FILE_ACCEPT}
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        variant="outline"
+        disabled={isImporting}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isImporting ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="mr-2 h-4 w-4" />
+        )}
+        Import map
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Controls shared by the nodes of the map visualization and the node detail
+ * panel: progress status, completion bar and branch regeneration
+ */
+import { Loader2, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { type ProgressStatus } from "../types";
+import { type ProgressSummary } from "../utils/progress";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+const PROGRESS_LABELS: Record<ProgressStatus, string> = {
+  "not-started": "Not started",
+  "in-progress": "In progress",
+  done: "Done",
+  skipped: "Skipped",
+};
+
+/**
+ * Status selector for a subtopic
+ */
+export function ProgressStatusControl({
+  path,
+  status,
+  onChange,
+}: {
+  path: string;
+  status: ProgressStatus;
+  onChange: (path: string, status: ProgressStatus) => void;
+}) {
+  return (
+    <Select
+      value={status}
+      onValueChange={(value) => onChange(path, value as ProgressStatus)}
+    >
+      <SelectTrigger className="nodrag mt-2 h-7 w-[130px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(PROGRESS_LABELS).map(([value, label]) => (
+          <SelectItem key={value} value={value} className="text-xs">
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Completion bar for branch nodes and the root topic node
+ */
+export function ProgressSummaryBar({
+  summary,
+  label,
+}: {
+  summary: ProgressSummary;
+  label: string;
+}) {
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span>
+          {summary.done}/{summary.total} • {summary.percent}%
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className="h-full bg-green-500 transition-all"
+          style={{ width: `${summary.percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Regenerate action for branch nodes with an optional hint for the model
+ */
+export function RegenerateBranchControl({
+  branchIndex,
+  isRegenerating,
+  onRegenerate,
+}: {
+  branchIndex: number;
+  isRegenerating?: boolean;
+  onRegenerate: (branchIndex: number, hint?: string) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [hint, setHint] = useState("");
+
+  const handleConfirm = () => {
+    onRegenerate(branchIndex, hint);
+    setIsOpen(false);
+    setHint("");
+  };
+
+  if (isRegenerating) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="nodrag mt-2 h-7 text-xs"
+        disabled
+      >
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Regenerating...
+      </Button>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="nodrag mt-2 h-7 text-xs"
+        onClick={() => setIsOpen(true)}
+      >
+        <RefreshCw className="w-3 h-3" />
+        Regenerate
+      </Button>
+    );
+  }
+
+  return (
+    <div className="nodrag mt-2 space-y-1.5">
+      <Input
+        value={hint}
+        onChange={(e) => setHint(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleConfirm();
+          if (e.key === "Escape") setIsOpen(false);
+        }}
+        placeholder="Optional hint (e.g. more hands-on)"
+        maxLength={500}
+        className="h-7 text-xs"
+        autoFocus
+      />
+      <div className="flex gap-1.5">
+        <Button size="sm" className="h-7 text-xs" onClick={handleConfirm}>
+          Regenerate
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setIsOpen(false)}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
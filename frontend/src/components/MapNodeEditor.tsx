@@ -0,0 +1,308 @@
+/**
+ * Inline editing controls rendered inside map nodes while edit mode is on
+ */
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { type LearningResource, type MapEdit } from "../types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+const RESOURCE_TYPES: LearningResource["type"][] = ["article", "video", "book"];
+
+const textareaClassName =
+  "nodrag w-full rounded-md border border-input bg-background px-2 py-1 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+const selectClassName =
+  "nodrag h-7 rounded-md border border-input bg-background px-1 text-xs";
+
+interface MapNodeEditorProps {
+  type: "topic" | "branch" | "subtopic";
+  path?: string;
+  label: string;
+  description?: string;
+  resources?: LearningResource[];
+  // Number of nodes sharing this node's parent (for move up/down)
+  siblingCount?: number;
+  onEdit: (edit: MapEdit) => void;
+}
+
+/**
+ * Form for adding a resource to a subtopic
+ */
+function AddResourceForm({
+  onAdd,
+}: {
+  onAdd: (resource: LearningResource) => void;
+}) {
+  const [resource, setResource] = useState<LearningResource>({
+    type: "article",
+    title: "",
+    url: "",
+  });
+  const isValid =
+    resource.title.trim().length > 0 && /^https?:\/\/\S+$/.test(resource.url);
+
+  const handleAdd = () => {
+    onAdd({ ...resource, title: resource.title.trim() });
+    setResource({ type: "article", title: "", url: "" });
+  };
+
+  return (
+    <div className="space-y-1 rounded-md border border-dashed p-1.5">
+      <div className="flex gap-1">
+        <select
+          className={selectClassName}
+          value={resource.type}
+          onChange={(e) =>
+            setResource({
+              ...resource,
+              type: e.target.value as LearningResource["type"],
+            })
+          }
+        >
+          {RESOURCE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <Input
+          className="nodrag h-7 text-xs"
+          placeholder="Title"
+          value={resource.title}
+          onChange={(e) => setResource({ ...resource, title: e.target.value })}
+        />
+      </div>
+      <div className="flex gap-1">
+        <Input
+          className="nodrag h-7 text-xs"
+          placeholder="https://..."
+          value={resource.url}
+          onChange={(e) => setResource({ ...resource, url: e.target.value })}
+        />
+        <Button
+          size="sm"
+          className="nodrag h-7 text-xs"
+          disabled={!isValid}
+          onClick={handleAdd}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function MapNodeEditor({
+  type,
+  path,
+  label,
+  description,
+  resources = [],
+  siblingCount = 0,
+  onEdit,
+}: MapNodeEditorProps) {
+  if (type === "topic") {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="nodrag mt-2 h-7 text-xs"
+        onClick={() =>
+          onEdit({
+            type: "add-node",
+            node: { title: "New branch", description: "Describe this branch" },
+          })
+        }
+      >
+        <Plus className="w-3 h-3" />
+        Add branch
+      </Button>
+    );
+  }
+
+  if (!path) return null;
+
+  const index = Number(path.split(".").pop());
+
+  // Saves a title or description when the field loses focus with a new value
+  const commitText = (field: "title" | "description", value: string) => {
+    const trimmed = value.trim();
+    const current = field === "title" ? label : description;
+    if (trimmed && trimmed !== current) {
+      onEdit({ type: "update-node", path, changes: { [field]: trimmed } });
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${label}" and everything below it?`)) {
+      onEdit({ type: "delete-node", path });
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Input
+        key={`title-${label}`}
+        className="nodrag h-7 text-sm font-semibold"
+        defaultValue={label}
+        maxLength={200}
+        onBlur={(e) => commitText("title", e.target.value)}
+        aria-label="Title"
+      />
+      <textarea
+        key={`description-${description}`}
+        className={textareaClassName}
+        defaultValue={description}
+        rows={3}
+        maxLength={2000}
+        onBlur={(e) => commitText("description", e.target.value)}
+        aria-label="Description"
+      />
+
+      {type === "subtopic" && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-700">Resources:</p>
+          {resources.map((resource, resourceIndex) => (
+            <div
+              key={`${resourceIndex}-${resource.url}`}
+              className="flex gap-1 items-center"
+            >
+              <select
+                className={selectClassName}
+                value={resource.type}
+                onChange={(e) =>
+                  onEdit({
+                    type: "update-resource",
+                    path,
+                    resourceIndex,
+                    changes: {
+                      type: e.target.value as LearningResource["type"],
+                    },
+                  })
+                }
+              >
+                {RESOURCE_TYPES.map((resourceType) => (
+                  <option key={resourceType} value={resourceType}>
+                    {resourceType}
+                  </option>
+                ))}
+              </select>
+              <Input
+                key={`resource-title-${resource.title}`}
+                className="nodrag h-7 text-xs"
+                defaultValue={resource.title}
+                onBlur={(e) => {
+                  const title = e.target.value.trim();
+                  if (title && title !== resource.title) {
+                    onEdit({
+                      type: "update-resource",
+                      path,
+                      resourceIndex,
+                      changes: { title },
+                    });
+                  }
+                }}
+                aria-label="Resource title"
+              />
+              <Input
+                key={`resource-url-${resource.url}`}
+                className="nodrag h-7 text-xs"
+                defaultValue={resource.url}
+                onBlur={(e) => {
+                  const url = e.target.value.trim();
+                  if (/^https?:\/\/\S+$/.test(url) && url !== resource.url) {
+                    onEdit({
+                      type: "update-resource",
+                      path,
+                      resourceIndex,
+                      changes: { url },
+                    });
+                  }
+                }}
+                aria-label="Resource URL"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="nodrag h-7 w-7 shrink-0"
+                onClick={() =>
+                  onEdit({ type: "delete-resource", path, resourceIndex })
+                }
+                aria-label="Remove resource"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          <AddResourceForm
+            onAdd={(resource) =>
+              onEdit({ type: "add-resource", path, resource })
+            }
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        <Button
+          variant="outline"
+          size="icon"
+          className="nodrag h-7 w-7"
+          disabled={index === 0}
+          onClick={() =>
+            onEdit({
+              type: "update-node",
+              path,
+              changes: { position: index - 1 },
+            })
+          }
+          aria-label="Move up"
+        >
+          <ArrowUp className="w-3 h-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="nodrag h-7 w-7"
+          disabled={index >= siblingCount - 1}
+          onClick={() =>
+            onEdit({
+              type: "update-node",
+              path,
+              changes: { position: index + 1 },
+            })
+          }
+          aria-label="Move down"
+        >
+          <ArrowDown className="w-3 h-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="nodrag h-7 text-xs"
+          onClick={() =>
+            onEdit({
+              type: "add-node",
+              parentPath: path,
+              node: {
+                title: "New subtopic",
+                description: "Describe this subtopic",
+              },
+            })
+          }
+        >
+          <Plus className="w-3 h-3" />
+          Add subtopic
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="nodrag h-7 w-7 text-destructive"
+          onClick={handleDelete}
+          aria-label={`Delete ${type}`}
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
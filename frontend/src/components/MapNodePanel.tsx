@@ -0,0 +1,456 @@
+/**
+ * Details of the selected branch or subtopic: the full description, every
+ * resource grouped by type, progress, personal notes and model actions
+ */
+import {
+  Book,
+  ChevronsDown,
+  FileText,
+  Link2Off,
+  ListChecks,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  Search,
+  Video,
+  X,
+} from "lucide-react";
+import { type ComponentType, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import {
+  type LearningMap,
+  type LearningResource,
+  type MainBranch,
+  type NodeNote,
+  type ProgressStatus,
+  type SubTopic,
+} from "../types";
+import { describeBrokenLink, isBrokenLink } from "../utils/linkCheck";
+import { summarizeMapProgress } from "../utils/progress";
+import {
+  ProgressStatusControl,
+  ProgressSummaryBar,
+  RegenerateBranchControl,
+} from "./MapNodeControls";
+import { Button } from "./ui/button";
+
+interface MapNodePanelProps {
+  learningMap: LearningMap;
+  // Dot-separated node path of a branch or subtopic
+  path: string;
+  onClose: () => void;
+  // Signed-in user's progress by node path; omitted when not tracked
+  progress?: Record<string, ProgressStatus>;
+  onProgressChange?: (path: string, status: ProgressStatus) => void;
+  // Signed-in user's note on the node; saving is omitted when notes are not kept
+  note?: NodeNote;
+  onSaveNote?: (path: string, content: string) => Promise<boolean>;
+  isSavingNote?: boolean;
+  // Model actions, passed when the user may change the map
+  onExpandNode?: (path: string) => void;
+  expandingPath?: string | null;
+  onFindResources?: (path: string) => void;
+  findingPath?: string | null;
+  onReplaceResource?: (path: string, resourceIndex: number) => void;
+  // Resource being replaced, as "<node path>:<resource index>"
+  replacingResource?: string | null;
+  onRegenerateBranch?: (branchIndex: number, hint?: string) => void;
+  regeneratingBranch?: number | null;
+  onStartQuiz?: (branchIndex: number) => void;
+}
+
+const RESOURCE_GROUPS: {
+  type: LearningResource["type"];
+  label: string;
+  icon: ComponentType<{ className?: string }>;
+}[] = [
+  { type: "article", label: "Articles", icon: FileText },
+  { type: "video", label: "Videos", icon: Video },
+  { type: "book", label: "Books", icon: Book },
+];
+
+const textareaClassName =
+  "w-full rounded-md border border-input bg-background px-2 py-1 text-xs font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+// Styles the elements rendered from markdown, which carry no classes
+const markdownClassName =
+  "space-y-2 text-xs text-gray-700 break-words [&_a]:text-primary [&_a]:underline [&_code]:rounded [&_code]:bg-gray-100 [&_code]:px-1 [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-medium [&_ol]:list-decimal [&_ol]:pl-4 [&_pre]:overflow-x-auto [&_ul]:list-disc [&_ul]:pl-4";
+
+/**
+ * Returns the branch or subtopic at a node path, if it still exists
+ */
+function resolveNode(
+  learningMap: LearningMap,
+  path: string
+): MainBranch | SubTopic | undefined {
+  const [branchIndex, ...indices] = path.split(".").map(Number);
+  let node: MainBranch | SubTopic | undefined =
+    learningMap.branches[branchIndex];
+
+  for (const index of indices) {
+    node = node?.subtopics?.[index];
+  }
+  return node;
+}
+
+/**
+ * Renders markdown written by the user; links open in a new tab
+ */
+function Markdown({ content }: { content: string }) {
+  return (
+    <div className={markdownClassName}>
+      <ReactMarkdown
+        components={{
+          a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer">
+              {children}
+            </a>
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+/**
+ * Personal markdown note on a node, with a preview while editing
+ */
+function NodeNoteEditor({
+  path,
+  note,
+  onSave,
+  isSaving,
+}: {
+  path: string;
+  note?: NodeNote;
+  onSave: (path: string, content: string) => Promise<boolean>;
+  isSaving?: boolean;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isPreview, setIsPreview] = useState(false);
+  const [draft, setDraft] = useState(note?.content ?? "");
+
+  const handleEdit = () => {
+    setDraft(note?.content ?? "");
+    setIsPreview(false);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (await onSave(path, draft)) setIsEditing(false);
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="space-y-2">
+        {note ? (
+          <>
+            <Markdown content={note.content} />
+            <p className="text-xs text-muted-foreground">
+              Updated {new Date(note.updatedAt).toLocaleString()}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Keep your own notes on this topic. Markdown is supported.
+          </p>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={handleEdit}
+        >
+          <Pencil className="w-3 h-3" />
+          {note ? "Edit note" : "Add note"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        <Button
+          variant={isPreview ? "ghost" : "secondary"}
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => setIsPreview(false)}
+        >
+          Write
+        </Button>
+        <Button
+          variant={isPreview ? "secondary" : "ghost"}
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => setIsPreview(true)}
+        >
+          Preview
+        </Button>
+      </div>
+      {isPreview ? (
+        <div className="min-h-[120px] rounded-md border p-2">
+          {draft.trim() ? (
+            <Markdown content={draft} />
+          ) : (
+            <p className="text-xs text-muted-foreground">Nothing to preview.</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          className={textareaClassName}
+          rows={8}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={10000}
+          placeholder="Write your notes in markdown"
+          aria-label="Note"
+          autoFocus
+        />
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="h-7 text-xs"
+          disabled={isSaving || draft === (note?.content ?? "")}
+          onClick={handleSave}
+        >
+          {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+          Save
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setIsEditing(false)}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function MapNodePanel({
+  learningMap,
+  path,
+  onClose,
+  progress,
+  onProgressChange,
+  note,
+  onSaveNote,
+  isSavingNote,
+  onExpandNode,
+  expandingPath,
+  onFindResources,
+  findingPath,
+  onReplaceResource,
+  replacingResource,
+  onRegenerateBranch,
+  regeneratingBranch,
+  onStartQuiz,
+}: MapNodePanelProps) {
+  const node = resolveNode(learningMap, path);
+  if (!node) return null;
+
+  const branchIndex = Number(path.split(".")[0]);
+  const isBranch = !path.includes(".");
+  const resources = "resources" in node ? node.resources : [];
+  const branchSummary =
+    isBranch && progress
+      ? summarizeMapProgress(learningMap, progress).branches[branchIndex]
+      : undefined;
+  const isExpanding = expandingPath === path;
+  const isFinding = findingPath === path;
+  const brokenLinkCount = resources.filter(isBrokenLink).length;
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-3">
+      <div className="flex items-start gap-2">
+        <span className="text-lg">{isBranch ? "🌿" : "📖"}</span>
+        <h3 className="font-semibold text-sm flex-1">{node.title}</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onClose}
+          aria-label="Close details"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {node.description && (
+        <p className="text-sm text-gray-600">{node.description}</p>
+      )}
+
+      {branchSummary && (
+        <ProgressSummaryBar summary={branchSummary} label="Completed" />
+      )}
+      {!isBranch && progress && onProgressChange && (
+        <ProgressStatusControl
+          path={path}
+          status={progress[path] ?? "not-started"}
+          onChange={onProgressChange}
+        />
+      )}
+
+      {!isBranch && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-700">
+            Resources ({resources.length})
+            {brokenLinkCount > 0 && (
+              <span className="ml-1 font-normal text-red-600">
+                • {brokenLinkCount} broken
+              </span>
+            )}
+          </p>
+          {RESOURCE_GROUPS.map(({ type, label, icon: Icon }) => {
+            const group = resources.filter(
+              (resource) => resource.type === type
+            );
+            if (group.length === 0) return null;
+
+            return (
+              <div key={type} className="space-y-1">
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Icon className="w-3 h-3" />
+                  {label}
+                </p>
+                <ul className="space-y-1 pl-4">
+                  {group.map((resource, index) => {
+                    const resourceIndex = resources.indexOf(resource);
+                    const isReplacing =
+                      replacingResource === `${path}:${resourceIndex}`;
+
+                    return (
+                      <li
+                        key={`${resource.url}-${index}`}
+                        className="space-y-1"
+                      >
+                        <a
+                          href={resource.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`text-xs hover:underline break-words ${
+                            isBrokenLink(resource)
+                              ? "text-red-600 line-through"
+                              : "text-primary"
+                          }`}
+                        >
+                          {resource.title}
+                        </a>
+                        {isBrokenLink(resource) && (
+                          <div className="flex flex-wrap items-center gap-1">
+                            <span className="flex items-center gap-1 text-xs text-red-600">
+                              <Link2Off className="w-3 h-3" />
+                              {describeBrokenLink(resource)}
+                            </span>
+                            {onReplaceResource && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                disabled={isReplacing}
+                                onClick={() =>
+                                  onReplaceResource(path, resourceIndex)
+                                }
+                              >
+                                {isReplacing ? (
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                ) : (
+                                  <RefreshCw className="w-3 h-3" />
+                                )}
+                                {isReplacing
+                                  ? "Replacing..."
+                                  : "Find replacement"}
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(onExpandNode || onFindResources || onStartQuiz) && (
+        <div className="flex flex-wrap gap-2">
+          {!isBranch && onFindResources && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={isFinding}
+              onClick={() => onFindResources(path)}
+            >
+              {isFinding ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Search className="w-3 h-3" />
+              )}
+              {isFinding ? "Finding..." : "Find more resources"}
+            </Button>
+          )}
+          {!isBranch && onExpandNode && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={isExpanding}
+              onClick={() => onExpandNode(path)}
+            >
+              {isExpanding ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <ChevronsDown className="w-3 h-3" />
+              )}
+              {isExpanding ? "Expanding..." : "Expand"}
+            </Button>
+          )}
+          {isBranch && onStartQuiz && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => onStartQuiz(branchIndex)}
+            >
+              <ListChecks className="w-3 h-3" />
+              Quiz
+            </Button>
+          )}
+        </div>
+      )}
+      {isBranch && onRegenerateBranch && (
+        <RegenerateBranchControl
+          branchIndex={branchIndex}
+          isRegenerating={regeneratingBranch === branchIndex}
+          onRegenerate={onRegenerateBranch}
+        />
+      )}
+
+      <div className="space-y-2 border-t pt-3">
+        <p className="text-xs font-medium text-gray-700">My notes</p>
+        {onSaveNote ? (
+          <NodeNoteEditor
+            key={path}
+            path={path}
+            note={note}
+            onSave={onSaveNote}
+            isSaving={isSavingNote}
+          />
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Sign in to keep personal notes on saved maps.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
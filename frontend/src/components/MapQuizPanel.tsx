@@ -0,0 +1,386 @@
+/**
+ * Self-assessment quiz on one branch of a saved map
+ * Multiple-choice answers are checked against the stored correct option;
+ * short answers are compared with the model answer by the learner. Attempts
+ * of signed-in users are scored by the server and update their progress.
+ */
+import {
+  Check,
+  ListChecks,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+import { useBranchQuiz } from "../hooks/useBranchQuiz";
+import {
+  type BranchQuiz,
+  type LearningMap,
+  type MainBranch,
+  type QuizAnswer,
+  type QuizQuestion,
+  type SubTopic,
+} from "../types";
+import { Button } from "./ui/button";
+
+interface MapQuizPanelProps {
+  mapId: string;
+  learningMap: LearningMap;
+  branchIndex: number;
+  // Whether the user may (re)generate the quiz, which calls the model
+  canGenerate: boolean;
+  // Whether attempts are stored and fed into progress (signed-in users)
+  canSubmit: boolean;
+  onClose: () => void;
+}
+
+const textareaClassName =
+  "w-full rounded-md border border-input bg-background px-2 py-1 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+/**
+ * Returns the title of the subtopic at a node path, if it still exists
+ */
+function getSubtopicTitle(
+  learningMap: LearningMap,
+  path: string
+): string | undefined {
+  const [branchIndex, ...indices] = path.split(".").map(Number);
+  let node: MainBranch | SubTopic | undefined =
+    learningMap.branches[branchIndex];
+
+  for (const index of indices) {
+    node = node?.subtopics?.[index];
+  }
+  return node?.title;
+}
+
+/**
+ * Scores one answer the way the server does
+ */
+function isCorrectAnswer(
+  question: QuizQuestion,
+  answer: QuizAnswer | undefined
+): boolean {
+  return question.type === "multiple-choice"
+    ? answer?.selectedIndex === question.correctIndex
+    : answer?.correct === true;
+}
+
+/**
+ * Steps through the questions of a quiz and shows the score at the end
+ */
+function QuizRunner({
+  quiz,
+  learningMap,
+  canSubmit,
+  onSubmit,
+  isSubmitting,
+}: {
+  quiz: BranchQuiz;
+  learningMap: LearningMap;
+  canSubmit: boolean;
+  onSubmit: (answers: QuizAnswer[]) => Promise<{ score: number } | null>;
+  isSubmitting: boolean;
+}) {
+  const [current, setCurrent] = useState(0);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [response, setResponse] = useState("");
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [score, setScore] = useState<number | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const question = quiz.questions[current];
+  const answer = answers[current] ?? {};
+  const isLast = current === quiz.questions.length - 1;
+
+  const setAnswer = (value: QuizAnswer) =>
+    setAnswers((previous) => {
+      const next = [...previous];
+      next[current] = value;
+      return next;
+    });
+
+  const handleNext = async () => {
+    if (!isLast) {
+      setCurrent(current + 1);
+      setResponse("");
+      setIsRevealed(false);
+      return;
+    }
+
+    const submitted = canSubmit ? await onSubmit(answers) : null;
+    setIsSaved(!!submitted);
+    // Attempts that are not (or could not be) submitted are scored locally
+    setScore(
+      submitted?.score ??
+        quiz.questions.filter((item, index) =>
+          isCorrectAnswer(item, answers[index])
+        ).length
+    );
+  };
+
+  const handleRetake = () => {
+    setCurrent(0);
+    setAnswers([]);
+    setResponse("");
+    setIsRevealed(false);
+    setScore(null);
+    setIsSaved(false);
+  };
+
+  if (score !== null) {
+    const missed = [
+      ...new Set(
+        quiz.questions
+          .filter((item, index) => !isCorrectAnswer(item, answers[index]))
+          .map(({ path }) => path)
+      ),
+    ];
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm font-semibold">
+          Score: {score}/{quiz.questions.length}
+        </p>
+        {missed.length > 0 ? (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-gray-700">Review:</p>
+            <ul className="list-disc pl-4 text-xs text-gray-600">
+              {missed.map((path) => (
+                <li key={path}>
+                  {getSubtopicTitle(learningMap, path) ?? path}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-xs text-green-700">Every answer was correct.</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {isSaved
+            ? "Your progress on these subtopics has been updated."
+            : quiz.outdated
+              ? "Results of an outdated quiz are not saved."
+              : canSubmit
+                ? "Your results could not be saved."
+                : "Sign in to save your results and track progress."}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handleRetake}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Retake quiz
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>
+          Question {current + 1} of {quiz.questions.length}
+        </span>
+        <span className="truncate ml-2">
+          {getSubtopicTitle(learningMap, question.path)}
+        </span>
+      </div>
+      <p className="text-sm font-medium">{question.question}</p>
+
+      {question.type === "multiple-choice" ? (
+        <div className="space-y-1.5">
+          {question.options.map((option, index) => {
+            const isSelected = answer.selectedIndex === index;
+            const stateClassName = !isRevealed
+              ? isSelected
+                ? "border-primary bg-primary/5"
+                : "border-gray-200 hover:bg-gray-50"
+              : index === question.correctIndex
+                ? "border-green-500 bg-green-50"
+                : isSelected
+                  ? "border-red-400 bg-red-50"
+                  : "border-gray-200 opacity-70";
+
+            return (
+              <button
+                key={index}
+                type="button"
+                className={`w-full rounded-md border px-2 py-1.5 text-left text-xs ${stateClassName}`}
+                disabled={isRevealed}
+                onClick={() => setAnswer({ selectedIndex: index })}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <textarea
+          className={textareaClassName}
+          rows={3}
+          value={response}
+          onChange={(e) => setResponse(e.target.value)}
+          disabled={isRevealed}
+          placeholder="Write your answer, then compare it with the model answer"
+          aria-label="Your answer"
+        />
+      )}
+
+      {isRevealed && (
+        <div className="rounded-md bg-gray-50 p-2 space-y-1">
+          {question.type === "short-answer" && (
+            <p className="text-xs">
+              <span className="font-medium">Model answer: </span>
+              {question.answer}
+            </p>
+          )}
+          <p className="text-xs text-gray-600">{question.explanation}</p>
+        </div>
+      )}
+
+      {!isRevealed ? (
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={
+            question.type === "multiple-choice" &&
+            answer.selectedIndex === undefined
+          }
+          onClick={() => setIsRevealed(true)}
+        >
+          {question.type === "multiple-choice" ? "Check answer" : "Show answer"}
+        </Button>
+      ) : (
+        <>
+          {question.type === "short-answer" && (
+            <div className="flex gap-2">
+              <Button
+                variant={answer.correct === true ? "secondary" : "outline"}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => setAnswer({ correct: true })}
+              >
+                <Check className="w-3 h-3" />I got it right
+              </Button>
+              <Button
+                variant={answer.correct === false ? "secondary" : "outline"}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => setAnswer({ correct: false })}
+              >
+                <X className="w-3 h-3" />I missed it
+              </Button>
+            </div>
+          )}
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={
+              isSubmitting ||
+              (question.type === "short-answer" && answer.correct === undefined)
+            }
+            onClick={handleNext}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isLast ? "Finish" : "Next question"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function MapQuizPanel({
+  mapId,
+  learningMap,
+  branchIndex,
+  canGenerate,
+  canSubmit,
+  onClose,
+}: MapQuizPanelProps) {
+  const {
+    quiz,
+    isLoadingQuiz,
+    quizError,
+    generate,
+    isGenerating,
+    submit,
+    isSubmitting,
+  } = useBranchQuiz(mapId, branchIndex);
+  const branch = learningMap.branches[branchIndex];
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ListChecks className="h-4 w-4" />
+        <h3 className="font-semibold text-sm flex-1 truncate">
+          Quiz: {branch?.title ?? quiz?.branchTitle}
+        </h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onClose}
+          aria-label="Close quiz"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoadingQuiz && (
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      )}
+      {quizError && <p className="text-xs text-destructive">{quizError}</p>}
+
+      {!isLoadingQuiz && !quizError && !quiz && (
+        <p className="text-xs text-muted-foreground">
+          {canGenerate
+            ? "Generate multiple-choice and short-answer questions on this branch to test yourself."
+            : "No quiz has been generated for this branch yet."}
+        </p>
+      )}
+
+      {quiz && !isLoadingQuiz && (
+        <>
+          {quiz.outdated && (
+            <p className="text-xs text-amber-700">
+              The map has changed since this quiz was generated, so results are
+              not saved.{canGenerate && " Regenerate it to track progress."}
+            </p>
+          )}
+          <QuizRunner
+            key={quiz.createdAt}
+            quiz={quiz}
+            learningMap={learningMap}
+            canSubmit={canSubmit && !quiz.outdated}
+            onSubmit={submit}
+            isSubmitting={isSubmitting}
+          />
+        </>
+      )}
+
+      {canGenerate && !isLoadingQuiz && (
+        <Button
+          variant={quiz ? "outline" : "default"}
+          size="sm"
+          className="w-full"
+          disabled={isGenerating}
+          onClick={generate}
+        >
+          {isGenerating ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : quiz ? (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          ) : (
+            <ListChecks className="mr-2 h-4 w-4" />
+          )}
+          {quiz ? "Regenerate quiz" : "Generate quiz"}
+        </Button>
+      )}
+    </div>
+  );
+}
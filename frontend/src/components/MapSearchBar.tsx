@@ -0,0 +1,204 @@
+/**
+ * Search box and resource-type filter shown over the map visualization
+ * Matches are jumped to with Enter / Shift+Enter (or the arrow keys) and "/"
+ * focuses the search box from anywhere on the page
+ */
+import {
+  Book,
+  ChevronDown,
+  ChevronUp,
+  FileText,
+  Search,
+  Video,
+  X,
+} from "lucide-react";
+import { type ComponentType, useEffect, useRef } from "react";
+import { type LearningResource } from "../types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+type ResourceType = LearningResource["type"];
+
+interface MapSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  // IDs of the nodes matching the query, in map order
+  matchIds: string[];
+  // Matches hidden in collapsed branches, which expand when jumped to
+  hiddenMatchCount: number;
+  activeMatchId: string | null;
+  onActiveMatchChange: (nodeId: string | null) => void;
+  resourceTypes: ResourceType[];
+  onResourceTypesChange: (resourceTypes: ResourceType[]) => void;
+}
+
+const RESOURCE_FILTERS: {
+  type: ResourceType;
+  label: string;
+  icon: ComponentType<{ className?: string }>;
+}[] = [
+  { type: "video", label: "Videos", icon: Video },
+  { type: "article", label: "Articles", icon: FileText },
+  { type: "book", label: "Books", icon: Book },
+];
+
+/**
+ * Whether a keyboard event was typed into a text field
+ */
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+export function MapSearchBar({
+  query,
+  onQueryChange,
+  matchIds,
+  hiddenMatchCount,
+  activeMatchId,
+  onActiveMatchChange,
+  resourceTypes,
+  onResourceTypesChange,
+}: MapSearchBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const activeIndex = activeMatchId ? matchIds.indexOf(activeMatchId) : -1;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "/" && !isTypingTarget(event.target)) {
+        event.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  /**
+   * Moves to the next (1) or previous (-1) match, which the visualization
+   * then reveals and centres
+   */
+  const jump = (offset: 1 | -1) => {
+    if (matchIds.length === 0) return;
+
+    const index =
+      activeIndex === -1
+        ? offset === 1
+          ? 0
+          : matchIds.length - 1
+        : (activeIndex + offset + matchIds.length) % matchIds.length;
+    onActiveMatchChange(matchIds[index]);
+  };
+
+  const toggleResourceType = (type: ResourceType) =>
+    onResourceTypesChange(
+      resourceTypes.includes(type)
+        ? resourceTypes.filter((selected) => selected !== type)
+        : [...resourceTypes, type]
+    );
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-white p-2 shadow-sm">
+      <div className="flex items-center gap-1">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 h-3 w-3 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              onQueryChange(e.target.value);
+              onActiveMatchChange(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === "ArrowDown") {
+                e.preventDefault();
+                jump(e.key === "Enter" && e.shiftKey ? -1 : 1);
+              } else if (e.key === "ArrowUp") {
+                e.preventDefault();
+                jump(-1);
+              } else if (e.key === "Escape") {
+                onQueryChange("");
+                onActiveMatchChange(null);
+                e.currentTarget.blur();
+              }
+            }}
+            placeholder="Search map ( / )"
+            aria-label="Search map"
+            className="h-7 w-[200px] pl-7 text-xs"
+          />
+        </div>
+        {query.trim() && (
+          <>
+            <span
+              className="min-w-[56px] text-center text-xs text-muted-foreground"
+              title={
+                hiddenMatchCount > 0
+                  ? `${hiddenMatchCount} in collapsed branches, expanded when jumped to`
+                  : undefined
+              }
+            >
+              {matchIds.length === 0
+                ? "No matches"
+                : activeIndex === -1
+                  ? `${matchIds.length} found`
+                  : `${activeIndex + 1}/${matchIds.length}`}
+              {hiddenMatchCount > 0 && ` (${hiddenMatchCount} hidden)`}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              disabled={matchIds.length === 0}
+              onClick={() => jump(-1)}
+              aria-label="Previous match"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              disabled={matchIds.length === 0}
+              onClick={() => jump(1)}
+              aria-label="Next match"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => {
+                onQueryChange("");
+                onActiveMatchChange(null);
+              }}
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-muted-foreground">Show:</span>
+        {RESOURCE_FILTERS.map(({ type, label, icon: Icon }) => (
+          <Button
+            key={type}
+            variant={resourceTypes.includes(type) ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => toggleResourceType(type)}
+            aria-pressed={resourceTypes.includes(type)}
+          >
+            <Icon className="w-3 h-3" />
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Visibility settings and share link of a map owned by the signed-in user
+ */
+import { Check, Copy, Link2Off, RefreshCw, Share2 } from "lucide-react";
+import { useState } from "react";
+import { getShareUrl, useMapSharing } from "../hooks/useMapSharing";
+import { type LearningMap, type MapVisibility } from "../types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+interface MapSharePanelProps {
+  mapId: string;
+  learningMap: LearningMap;
+  onChange: (learningMap: LearningMap) => void;
+}
+
+const VISIBILITY_DESCRIPTIONS: Record<MapVisibility, string> = {
+  private: "Only you can view this map.",
+  unlisted: "Anyone with the link can view this map. It is not listed.",
+  public: "Anyone can view this map, and it is listed in Browse maps.",
+};
+
+export function MapSharePanel({
+  mapId,
+  learningMap,
+  onChange,
+}: MapSharePanelProps) {
+  const { setVisibility, rotateLink, revokeLink, isUpdating } =
+    useMapSharing(mapId);
+  const [copied, setCopied] = useState(false);
+  const visibility = learningMap.visibility ?? "private";
+  const shareUrl = learningMap.shareSlug
+    ? getShareUrl(learningMap.shareSlug)
+    : null;
+
+  // Errors are reported by useMapSharing
+  const apply = async (request: Promise<LearningMap>) => {
+    try {
+      onChange(await request);
+    } catch {
+      // Error already handled in useMapSharing
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Share2 className="h-4 w-4" />
+        <h3 className="font-semibold text-sm">Share</h3>
+      </div>
+
+      <Select
+        value={visibility}
+        onValueChange={(value) => apply(setVisibility(value as MapVisibility))}
+        disabled={isUpdating}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="private">Private</SelectItem>
+          <SelectItem value="unlisted">Unlisted</SelectItem>
+          <SelectItem value="public">Public</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        {VISIBILITY_DESCRIPTIONS[visibility]}
+      </p>
+
+      {visibility !== "private" && (
+        <div className="space-y-2">
+          {shareUrl ? (
+            <div className="flex gap-2">
+              <Input readOnly value={shareUrl} className="h-8 text-xs" />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8"
+                onClick={handleCopy}
+                aria-label="Copy share link"
+              >
+                {copied ? (
+                  <Check className="w-3 h-3" />
+                ) : (
+                  <Copy className="w-3 h-3" />
+                )}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              The share link was revoked.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={isUpdating}
+              onClick={() => apply(rotateLink())}
+            >
+              <RefreshCw className="w-3 h-3" />
+              {shareUrl ? "New link" : "Create link"}
+            </Button>
+            {shareUrl && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={isUpdating}
+                onClick={() => apply(revokeLink())}
+              >
+                <Link2Off className="w-3 h-3" />
+                Revoke link
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Page displaying a saved learning map loaded by ID
+ */
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+import { useGetLearningMapByIdQuery } from "../store/api/learningMapApi";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { clearError } from "../store/slices/uiSlice";
+import { ErrorDisplay, InlineError } from "./ErrorDisplay";
+import { LearningMapCard } from "./LearningMapCard";
+import { Button } from "./ui/button";
+
+export function MapViewer() {
+  const { id = "" } = useParams<{ id: string }>();
+  const dispatch = useAppDispatch();
+  // Errors from node actions (expand, regenerate, restore)
+  const actionError = useAppSelector((state) => state.ui.error);
+  const {
+    data: learningMap,
+    isLoading,
+    error,
+  } = useGetLearningMapByIdQuery(id, { skip: !id });
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <Button variant="ghost" asChild>
+        <Link to="/maps">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to maps
+        </Link>
+      </Button>
+
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {error && <ErrorDisplay error={error} title="Could not load map" />}
+
+      {actionError && (
+        <InlineError
+          error={actionError}
+          onDismiss={() => dispatch(clearError())}
+        />
+      )}
+
+      {/* Changes invalidate the cached map, so no manual update is needed */}
+      {learningMap && <LearningMapCard learningMap={learningMap} />}
+    </div>
+  );
+}
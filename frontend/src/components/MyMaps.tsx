@@ -0,0 +1,40 @@
+/**
+ * Page listing the signed-in user's learning maps
+ */
+import { Loader2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { BrowseMaps } from "./BrowseMaps";
+import { Button } from "./ui/button";
+import { Card, CardContent } from "./ui/card";
+
+export function MyMaps() {
+  const { isAuthenticated, isLoadingUser } = useAuth();
+
+  if (isLoadingUser) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+            <p className="text-muted-foreground">
+              Sign in to see the learning maps saved to your account.
+            </p>
+            <Button asChild>
+              <Link to="/login">Sign in</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <BrowseMaps mine />;
+}
@@ -0,0 +1,48 @@
+/**
+ * Read-only page for a map opened through its share link
+ */
+import { Loader2 } from "lucide-react";
+import { useParams } from "react-router-dom";
+import { useGetSharedMapQuery } from "../store/api/learningMapApi";
+import { ErrorDisplay } from "./ErrorDisplay";
+import { LearningMapVisualization } from "./LearningMapVisualization";
+
+export function SharedMapViewer() {
+  const { slug = "" } = useParams<{ slug: string }>();
+  const {
+    data: learningMap,
+    isLoading,
+    error,
+  } = useGetSharedMapQuery(slug, { skip: !slug });
+
+  return (
+    <div className="container mx-auto p-6 space-y-4">
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {error && (
+        <ErrorDisplay
+          error={error}
+          title="This share link is invalid or has been revoked"
+        />
+      )}
+
+      {learningMap && (
+        <>
+          <div>
+            <h1 className="text-2xl font-bold">{learningMap.topic}</h1>
+            <p className="text-sm text-muted-foreground">
+              Level: {learningMap.level} • {learningMap.branches.length} main
+              branches • Shared read-only
+            </p>
+          </div>
+          {/* No action handlers: the shared view cannot change the map */}
+          <LearningMapVisualization learningMap={learningMap} />
+        </>
+      )}
+    </div>
+  );
+}
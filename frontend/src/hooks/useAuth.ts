@@ -0,0 +1,71 @@
+/**
+ * Custom hook for the signed-in user, sign-in, registration and sign-out
+ * The session itself lives in an httpOnly cookie set by the backend
+ */
+import { useCallback } from "react";
+import {
+  useGetCurrentUserQuery,
+  useLoginMutation,
+  useLogoutMutation,
+  useRegisterMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type AuthCredentials, type RegisterRequest } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+export function useAuth() {
+  const dispatch = useAppDispatch();
+  const { data: user = null, isLoading: isLoadingUser } =
+    useGetCurrentUserQuery();
+  const [loginMutation, { isLoading: isLoggingIn }] = useLoginMutation();
+  const [registerMutation, { isLoading: isRegistering }] =
+    useRegisterMutation();
+  const [logoutMutation] = useLogoutMutation();
+
+  const login = useCallback(
+    async (credentials: AuthCredentials) => {
+      dispatch(clearError());
+
+      try {
+        return (await loginMutation(credentials).unwrap()).user;
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+        throw err;
+      }
+    },
+    [dispatch, loginMutation]
+  );
+
+  const register = useCallback(
+    async (request: RegisterRequest) => {
+      dispatch(clearError());
+
+      try {
+        return (await registerMutation(request).unwrap()).user;
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+        throw err;
+      }
+    },
+    [dispatch, registerMutation]
+  );
+
+  const logout = useCallback(async () => {
+    try {
+      await logoutMutation().unwrap();
+    } catch (err) {
+      dispatch(setError(getErrorMessage(err)));
+    }
+  }, [dispatch, logoutMutation]);
+
+  return {
+    user,
+    isAuthenticated: !!user,
+    isLoadingUser,
+    isSubmitting: isLoggingIn || isRegistering,
+    login,
+    register,
+    logout,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Custom hook for the quiz of one branch of a saved map: generating it with
+ * the model and submitting the learner's answers
+ */
+import { useCallback } from "react";
+import {
+  useGenerateBranchQuizMutation,
+  useGetBranchQuizQuery,
+  useSubmitQuizAttemptMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type QuizAnswer, type QuizAttempt } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+export function useBranchQuiz(mapId: string, branchIndex: number) {
+  const dispatch = useAppDispatch();
+  const {
+    data: quiz,
+    isFetching: isLoadingQuiz,
+    error: quizError,
+  } = useGetBranchQuizQuery({ id: mapId, branchIndex });
+  const [generateBranchQuiz, { isLoading: isGenerating }] =
+    useGenerateBranchQuizMutation();
+  const [submitQuizAttempt, { isLoading: isSubmitting }] =
+    useSubmitQuizAttemptMutation();
+
+  const generate = useCallback(async () => {
+    dispatch(clearError());
+
+    try {
+      await generateBranchQuiz({ id: mapId, branchIndex }).unwrap();
+    } catch (err) {
+      dispatch(setError(getErrorMessage(err)));
+    }
+  }, [dispatch, generateBranchQuiz, mapId, branchIndex]);
+
+  // Stores the attempt and updates progress; resolves with the server's
+  // scoring, or null when submitting failed
+  const submit = useCallback(
+    async (answers: QuizAnswer[]): Promise<QuizAttempt | null> => {
+      dispatch(clearError());
+
+      try {
+        return await submitQuizAttempt({
+          id: mapId,
+          branchIndex,
+          answers,
+        }).unwrap();
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+        return null;
+      }
+    },
+    [dispatch, submitQuizAttempt, mapId, branchIndex]
+  );
+
+  return {
+    quiz: quiz ?? null,
+    isLoadingQuiz,
+    quizError: quizError ? getErrorMessage(quizError) : null,
+    generate,
+    isGenerating,
+    submit,
+    isSubmitting,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Custom hook for regenerating a single branch of a saved learning map
+ */
+import { useCallback, useState } from "react";
+import { useRegenerateLearningMapBranchMutation } from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { getErrorMessage } from "../utils/errorHandler";
+
+export function useBranchRegeneration() {
+  const dispatch = useAppDispatch();
+  const [regenerateLearningMapBranch] =
+    useRegenerateLearningMapBranchMutation();
+  const [regeneratingBranch, setRegeneratingBranch] = useState<number | null>(
+    null
+  );
+
+  const regenerateBranch = useCallback(
+    async (mapId: string, branchIndex: number, hint?: string) => {
+      dispatch(clearError());
+      setRegeneratingBranch(branchIndex);
+
+      try {
+        return await regenerateLearningMapBranch({
+          id: mapId,
+          branchIndex,
+          hint: hint?.trim() || undefined,
+        }).unwrap();
+      } catch (err) {
+        const errorMessage = getErrorMessage(err);
+        dispatch(setError(errorMessage));
+        throw err;
+      } finally {
+        setRegeneratingBranch(null);
+      }
+    },
+    [dispatch, regenerateLearningMapBranch]
+  );
+
+  return {
+    regenerateBranch,
+    regeneratingBranch,
+  };
+}
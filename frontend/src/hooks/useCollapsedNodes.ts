@@ -0,0 +1,131 @@
+/**
+ * Custom hook for the collapsed nodes of the map visualization
+ * Saved maps remember their collapsed nodes in local storage; maps that are
+ * not saved yet only keep them in memory
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { type MainBranch } from "../types";
+import logger from "../utils/logger";
+
+const STORAGE_KEY_PREFIX = "inagiffy:collapsed-nodes:";
+
+// Collapsed nodes are kept by key: "root" for the topic and the title of a
+// branch, not its index, so they stay collapsed when branches are reordered,
+// added or removed; renaming a branch expands it
+const ROOT_KEY = "root";
+const BRANCH_KEY_PREFIX = "branch:";
+
+/**
+ * Key of a ReactFlow node ("root" or "branch-<index>") in the current map
+ */
+function getNodeKey(nodeId: string, branches: MainBranch[]) {
+  if (nodeId === "root") return ROOT_KEY;
+  const branch = branches[Number(/^branch-(\d+)$/.exec(nodeId)?.[1])];
+  return branch ? BRANCH_KEY_PREFIX + branch.title : undefined;
+}
+
+/**
+ * ReactFlow node IDs of the nodes with one of the given keys
+ */
+function getNodeIds(keys: string[], branches: MainBranch[]): string[] {
+  return [
+    ...(keys.includes(ROOT_KEY) ? ["root"] : []),
+    ...branches.flatMap((branch, index) =>
+      keys.includes(BRANCH_KEY_PREFIX + branch.title) ? [`branch-${index}`] : []
+    ),
+  ];
+}
+
+/**
+ * Reads the collapsed node keys stored for a map
+ */
+function readCollapsedNodes(mapId: string | undefined): string[] {
+  if (!mapId) return [];
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEY_PREFIX + mapId) ?? "[]"
+    );
+    return Array.isArray(stored)
+      ? stored.filter((id): id is string => typeof id === "string")
+      : [];
+  } catch (err) {
+    logger.warn("Could not read collapsed nodes", err);
+    return [];
+  }
+}
+
+/**
+ * Stores the collapsed node keys of a map, removing the entry when none are
+ */
+function writeCollapsedNodes(mapId: string, keys: string[]) {
+  try {
+    if (keys.length > 0) {
+      localStorage.setItem(STORAGE_KEY_PREFIX + mapId, JSON.stringify(keys));
+    } else {
+      localStorage.removeItem(STORAGE_KEY_PREFIX + mapId);
+    }
+  } catch (err) {
+    logger.warn("Could not save collapsed nodes", err);
+  }
+}
+
+export function useCollapsedNodes(
+  mapId: string | undefined,
+  branches: MainBranch[]
+) {
+  const [collapsed, setCollapsed] = useState(() => ({
+    mapId,
+    keys: readCollapsedNodes(mapId),
+  }));
+
+  // Another map was opened in the same visualization
+  const keys =
+    collapsed.mapId === mapId ? collapsed.keys : readCollapsedNodes(mapId);
+  const nodeIds = useMemo(() => getNodeIds(keys, branches), [keys, branches]);
+
+  useEffect(() => {
+    if (collapsed.mapId !== mapId) {
+      setCollapsed({ mapId, keys: readCollapsedNodes(mapId) });
+    }
+  }, [collapsed.mapId, mapId]);
+
+  /**
+   * Saves the collapsed keys, dropping those of nodes the map no longer has
+   */
+  const saveKeys = useCallback(
+    (next: string[]) => {
+      const existing = next.filter(
+        (key) => getNodeIds([key], branches).length > 0
+      );
+      setCollapsed({ mapId, keys: existing });
+      if (mapId) writeCollapsedNodes(mapId, existing);
+    },
+    [mapId, branches]
+  );
+
+  const toggleCollapsed = useCallback(
+    (nodeId: string) => {
+      const key = getNodeKey(nodeId, branches);
+      if (!key) return;
+
+      saveKeys(
+        keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key]
+      );
+    },
+    [branches, keys, saveKeys]
+  );
+
+  const expandNodes = useCallback(
+    (expandedIds: string[]) => {
+      const expandedKeys = expandedIds.map((id) => getNodeKey(id, branches));
+      const next = keys.filter((key) => !expandedKeys.includes(key));
+      if (next.length === keys.length) return;
+
+      saveKeys(next);
+    },
+    [branches, keys, saveKeys]
+  );
+
+  return { collapsedNodeIds: nodeIds, toggleCollapsed, expandNodes };
+}
@@ -7,6 +7,7 @@ import {
   clearValidationErrors,
   setError,
   setLevel,
+  setTags,
   setTopic,
   setValidationErrors,
 } from "../store/slices/uiSlice";
@@ -16,7 +17,7 @@ import { generateMapRequestSchema } from "../validations/schemas";
 
 export function useLearningMapForm() {
   const dispatch = useAppDispatch();
-  const { topic, level, error, validationErrors } = useAppSelector(
+  const { topic, level, tags, error, validationErrors } = useAppSelector(
     (state) => state.ui
   );
 
@@ -30,6 +31,11 @@ export function useLearningMapForm() {
     dispatch(clearError());
   };
 
+  const handleTagsChange = (value: string) => {
+    dispatch(setTags(value));
+    dispatch(clearError());
+  };
+
   const getFieldError = (fieldName: string): string | undefined => {
     return validationErrors.find((err) => err.field === fieldName)?.message;
   };
@@ -41,6 +47,7 @@ export function useLearningMapForm() {
     const validationResult = generateMapRequestSchema.safeParse({
       topic: topic.trim(),
       level,
+      tags,
     });
 
     if (!validationResult.success) {
@@ -64,10 +71,12 @@ export function useLearningMapForm() {
   return {
     topic,
     level,
+    tags,
     error,
     validationErrors,
     handleTopicChange,
     handleLevelChange,
+    handleTagsChange,
     getFieldError,
     validateForm,
     clearFormError,
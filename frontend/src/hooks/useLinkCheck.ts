@@ -0,0 +1,67 @@
+/**
+ * Custom hook for checking the resource links of a saved learning map and
+ * replacing broken ones with resources suggested by the model
+ */
+import { useCallback, useState } from "react";
+import {
+  useCheckMapLinksMutation,
+  useReplaceNodeResourceMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { getErrorMessage } from "../utils/errorHandler";
+
+export function useLinkCheck() {
+  const dispatch = useAppDispatch();
+  const [checkMapLinks, { isLoading: isCheckingLinks }] =
+    useCheckMapLinksMutation();
+  const [replaceNodeResource] = useReplaceNodeResourceMutation();
+  // Resource being replaced, as "<node path>:<resource index>"
+  const [replacingResource, setReplacingResource] = useState<string | null>(
+    null
+  );
+
+  const checkLinks = useCallback(
+    async (mapId: string) => {
+      dispatch(clearError());
+
+      try {
+        return await checkMapLinks(mapId).unwrap();
+      } catch (err) {
+        const errorMessage = getErrorMessage(err);
+        dispatch(setError(errorMessage));
+        throw err;
+      }
+    },
+    [dispatch, checkMapLinks]
+  );
+
+  const replaceResource = useCallback(
+    async (mapId: string, path: string, resourceIndex: number) => {
+      dispatch(clearError());
+      setReplacingResource(`${path}:${resourceIndex}`);
+
+      try {
+        return await replaceNodeResource({
+          id: mapId,
+          path,
+          resourceIndex,
+        }).unwrap();
+      } catch (err) {
+        const errorMessage = getErrorMessage(err);
+        dispatch(setError(errorMessage));
+        throw err;
+      } finally {
+        setReplacingResource(null);
+      }
+    },
+    [dispatch, replaceNodeResource]
+  );
+
+  return {
+    checkLinks,
+    isCheckingLinks,
+    replaceResource,
+    replacingResource,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Custom hook for browsing saved learning maps with search, filters and paging
+ */
+import { useCallback, useMemo, useState } from "react";
+import { useListLearningMapsInfiniteQuery } from "../store/api/learningMapApi";
+import { type LearningLevel, type LearningMapListFilters } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+// Filter values as entered in the browse form
+export interface MapBrowserFilterInput {
+  q: string;
+  level: LearningLevel | "all";
+  tag: string;
+  // Dates from <input type="date"> (YYYY-MM-DD)
+  from: string;
+  to: string;
+}
+
+export const EMPTY_MAP_BROWSER_FILTERS: MapBrowserFilterInput = {
+  q: "",
+  level: "all",
+  tag: "",
+  from: "",
+  to: "",
+};
+
+/**
+ * Converts form input into API filters, dropping empty values and
+ * widening the date range to cover whole local days
+ */
+function toListFilters(input: MapBrowserFilterInput): LearningMapListFilters {
+  const filters: LearningMapListFilters = {};
+
+  if (input.q.trim()) filters.q = input.q.trim();
+  if (input.level !== "all") filters.level = input.level;
+  if (input.tag.trim()) filters.tag = input.tag.trim().toLowerCase();
+  if (input.from)
+    filters.from = new Date(`${input.from}T00:00:00`).toISOString();
+  if (input.to) filters.to = new Date(`${input.to}T23:59:59.999`).toISOString();
+
+  return filters;
+}
+
+/**
+ * Lists anonymous maps, or the signed-in user's maps when mine is true
+ */
+export function useMapBrowser({ mine = false }: { mine?: boolean } = {}) {
+  const [filters, setFilters] = useState<LearningMapListFilters>({});
+  const {
+    data,
+    error,
+    isLoading,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useListLearningMapsInfiniteQuery(mine ? { ...filters, mine } : filters);
+
+  const maps = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+
+  const applyFilters = useCallback((input: MapBrowserFilterInput) => {
+    setFilters(toListFilters(input));
+  }, []);
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    maps,
+    error: error ? getErrorMessage(error) : null,
+    isLoading,
+    isSearching: isFetching && !isFetchingNextPage,
+    isLoadingMore: isFetchingNextPage,
+    hasMore: hasNextPage,
+    applyFilters,
+    loadMore,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Custom hook for manual edits to a saved learning map
+ * Edits are shown immediately and rolled back if the server rejects them
+ */
+import { useCallback } from "react";
+import { useEditLearningMapMutation } from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type LearningMap, type MapEdit } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+import { applyMapEdit } from "../utils/mapEdits";
+
+export function useMapEditing(
+  learningMap: LearningMap,
+  // Updates maps held in local state; cached maps are patched by the mutation
+  onMapChange?: (learningMap: LearningMap) => void
+) {
+  const dispatch = useAppDispatch();
+  const [editLearningMap, { isLoading: isSaving }] =
+    useEditLearningMapMutation();
+
+  const editMap = useCallback(
+    async (edit: MapEdit) => {
+      if (!learningMap._id) return;
+      dispatch(clearError());
+      onMapChange?.(applyMapEdit(learningMap, edit));
+
+      try {
+        onMapChange?.(
+          await editLearningMap({ id: learningMap._id, edit }).unwrap()
+        );
+      } catch (err) {
+        onMapChange?.(learningMap);
+        dispatch(setError(getErrorMessage(err)));
+      }
+    },
+    [dispatch, learningMap, editLearningMap, onMapChange]
+  );
+
+  return {
+    editMap,
+    isSaving,
+  };
+}
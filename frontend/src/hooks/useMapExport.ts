@@ -1,26 +1,140 @@
 /**
- * Custom hook for exporting learning maps as JSON
+ * Custom hook for exporting learning maps as JSON, Markdown, OPML, FreeMind,
+ * XMind, PDF, Mermaid or Graphviz DOT files, and copying them as Mermaid
+ * Saved maps are serialized by the backend; unsaved maps can only be exported as JSON
  */
-import { type LearningMap } from "../types";
+import { useCallback } from "react";
+import {
+  useExportLearningMapMutation,
+  useExportLearningMapTextMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import {
+  type ExportMapRequest,
+  type LearningMap,
+  type MapExportFormat,
+  type MermaidVariant,
+} from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+/**
+ * Saves the file at a (data or object) URL through a temporary download link
+ */
+export function downloadUrl(url: string, filename: string) {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+/**
+ * Saves text content as a file
+ */
+export function downloadFile(
+  content: BlobPart,
+  type: string,
+  filename: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  downloadUrl(url, filename);
+  URL.revokeObjectURL(url);
+}
+
+// File extensions of exported maps, by format
+const EXPORT_EXTENSIONS: Record<MapExportFormat, string> = {
+  json: "json",
+  md: "md",
+  opml: "opml",
+  mm: "mm",
+  xmind: "xmind.json",
+  pdf: "pdf",
+  mermaid: "mmd",
+  dot: "dot",
+};
+
+/**
+ * Builds the download file name of an exported map
+ */
+export function getExportFilename(learningMap: LearningMap, extension: string) {
+  return `${learningMap.topic.replace(/\s+/g, "-")}-learning-map.${extension}`;
+}
 
 export function useMapExport() {
-  const exportMap = (learningMap: LearningMap) => {
-    const dataStr = JSON.stringify(learningMap, null, 2);
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `${learningMap.topic.replace(
-      /\s+/g,
-      "-"
-    )}-learning-map.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  };
+  const dispatch = useAppDispatch();
+  const [fetchExport, { isLoading: isExporting }] =
+    useExportLearningMapMutation();
+  const [fetchExportText, { isLoading: isCopying }] =
+    useExportLearningMapTextMutation();
+
+  const exportMap = useCallback(
+    async (
+      learningMap: LearningMap,
+      format: MapExportFormat = "json",
+      // Format options: PDF checkboxes, Mermaid diagram type
+      options: Pick<ExportMapRequest, "checkboxes" | "variant"> = {}
+    ) => {
+      if (!learningMap._id) {
+        downloadFile(
+          JSON.stringify(learningMap, null, 2),
+          "application/json",
+          getExportFilename(learningMap, "json")
+        );
+        return;
+      }
+
+      dispatch(clearError());
+
+      try {
+        const url = await fetchExport({
+          id: learningMap._id,
+          format,
+          ...options,
+        }).unwrap();
+        downloadUrl(
+          url,
+          getExportFilename(learningMap, EXPORT_EXTENSIONS[format])
+        );
+        URL.revokeObjectURL(url);
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+      }
+    },
+    [dispatch, fetchExport]
+  );
+
+  // Resolves with true once the diagram is on the clipboard (saved maps only)
+  const copyAsMermaid = useCallback(
+    async (
+      learningMap: LearningMap,
+      variant: MermaidVariant = "mindmap"
+    ): Promise<boolean> => {
+      if (!learningMap._id) return false;
+
+      dispatch(clearError());
+
+      try {
+        const mermaid = await fetchExportText({
+          id: learningMap._id,
+          format: "mermaid",
+          variant,
+        }).unwrap();
+        await navigator.clipboard.writeText(mermaid);
+        return true;
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+        return false;
+      }
+    },
+    [dispatch, fetchExportText]
+  );
 
   return {
     exportMap,
+    copyAsMermaid,
+    isExporting,
+    isCopying,
   };
 }
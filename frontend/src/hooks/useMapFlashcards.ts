@@ -0,0 +1,66 @@
+/**
+ * Custom hook for the flashcards of a saved map: generating them with the
+ * model and downloading the stored cards as an Anki deck
+ */
+import { useCallback } from "react";
+import {
+  useGenerateFlashcardsMutation,
+  useGetFlashcardDeckQuery,
+  useExportFlashcardsMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type FlashcardExportFormat, type LearningMap } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+import { downloadUrl } from "./useMapExport";
+
+export function useMapFlashcards(mapId: string) {
+  const dispatch = useAppDispatch();
+  const {
+    data: deck,
+    isLoading: isLoadingDeck,
+    error: deckError,
+  } = useGetFlashcardDeckQuery(mapId);
+  const [generateFlashcards, { isLoading: isGenerating }] =
+    useGenerateFlashcardsMutation();
+  const [fetchExport, { isLoading: isExporting }] =
+    useExportFlashcardsMutation();
+
+  const generate = useCallback(async () => {
+    dispatch(clearError());
+
+    try {
+      await generateFlashcards(mapId).unwrap();
+    } catch (err) {
+      dispatch(setError(getErrorMessage(err)));
+    }
+  }, [dispatch, generateFlashcards, mapId]);
+
+  const exportDeck = useCallback(
+    async (learningMap: LearningMap, format: FlashcardExportFormat) => {
+      dispatch(clearError());
+
+      try {
+        const url = await fetchExport({ id: mapId, format }).unwrap();
+        downloadUrl(
+          url,
+          `${learningMap.topic.replace(/\s+/g, "-")}-flashcards.${format}`
+        );
+        URL.revokeObjectURL(url);
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+      }
+    },
+    [dispatch, fetchExport, mapId]
+  );
+
+  return {
+    deck: deck ?? null,
+    isLoadingDeck,
+    deckError: deckError ? getErrorMessage(deckError) : null,
+    generate,
+    isGenerating,
+    exportDeck,
+    isExporting,
+  };
+}
@@ -1,19 +1,59 @@
 /**
- * Custom hook for generating learning maps using RTK Query
+ * Custom hook for generating learning maps
+ * Streams branches and subtopics as they are generated, falling back to the
+ * regular RTK Query mutation when the stream cannot be opened
  */
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useGenerateLearningMapMutation } from "../store/api/learningMapApi";
+import { streamLearningMap } from "../store/api/learningMapStream";
 import { useAppDispatch } from "../store/hooks";
 import { clearError, setError } from "../store/slices/uiSlice";
-import { type LearningMap } from "../types";
-import { getErrorMessage } from "../utils/errorHandler";
+import { type LearningMap, type LearningMapStreamEvent } from "../types";
+import {
+  ErrorType,
+  getErrorMessage,
+  normalizeError,
+} from "../utils/errorHandler";
+import logger from "../utils/logger";
 import { type GenerateMapRequestInput } from "../validations/schemas";
 
+/**
+ * Merges a streamed branch or subtopic into the partially generated map
+ */
+function applyStreamEvent(
+  learningMap: LearningMap,
+  event: LearningMapStreamEvent
+): LearningMap {
+  const branches = [...learningMap.branches];
+  const branch = branches[event.branchIndex] ?? {
+    title: "",
+    description: "",
+    subtopics: [],
+  };
+
+  if (event.type === "branch") {
+    branches[event.branchIndex] = { ...branch, ...event.branch };
+  } else {
+    const subtopics = [...branch.subtopics];
+    subtopics[event.subtopicIndex] = event.subtopic;
+    branches[event.branchIndex] = { ...branch, subtopics };
+  }
+
+  return { ...learningMap, branches };
+}
+
 export function useMapGeneration() {
   const dispatch = useAppDispatch();
   const [learningMap, setLearningMap] = useState<LearningMap | null>(null);
-  const [generateLearningMap, { isLoading, error: apiError }] =
-    useGenerateLearningMapMutation();
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Whether the server reused a recent generation of the same topic and level
+  const [isCached, setIsCached] = useState(false);
+  const lastRequestRef = useRef<GenerateMapRequestInput | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [
+    generateLearningMap,
+    { isLoading: isMutationLoading, error: apiError },
+  ] = useGenerateLearningMapMutation();
 
   // Update error state when API error changes
   useEffect(() => {
@@ -23,30 +63,105 @@ export function useMapGeneration() {
     }
   }, [apiError, dispatch]);
 
-  const generateMap = async (data: GenerateMapRequestInput) => {
+  // Abort an in-flight stream when the component unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const generateMap = async (data: GenerateMapRequestInput, fresh = false) => {
     dispatch(clearError());
     setLearningMap(null);
+    setIsCached(false);
+    setIsStreaming(true);
+    lastRequestRef.current = data;
+
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    let receivedEvents = false;
 
     try {
-      const result = await generateLearningMap(data).unwrap();
-      setLearningMap(result);
-      return result;
+      const result = await streamLearningMap(
+        { ...data, fresh },
+        (event) => {
+          receivedEvents = true;
+          setLearningMap((current) =>
+            applyStreamEvent(
+              current ?? { topic: data.topic, level: data.level, branches: [] },
+              event
+            )
+          );
+        },
+        abortController.signal
+      );
+      setLearningMap(result.map);
+      setIsCached(!!result.cached);
+      return result.map;
     } catch (err) {
+      // A newer generation or reset replaced this one
+      if (abortController.signal.aborted) {
+        throw err;
+      }
+
+      // The backend may be asleep or behind a proxy without streaming support;
+      // retry through the regular endpoint, which handles cold starts
+      if (!receivedEvents && normalizeError(err).type === ErrorType.NETWORK) {
+        logger.warn(
+          "Streaming unavailable, falling back to regular generation"
+        );
+        setIsStreaming(false);
+        try {
+          const result = await generateLearningMap({
+            ...data,
+            fresh,
+          }).unwrap();
+          setLearningMap(result.map);
+          setIsCached(result.cached);
+          return result.map;
+        } catch (fallbackError) {
+          dispatch(setError(getErrorMessage(fallbackError)));
+          throw fallbackError;
+        }
+      }
+
       const errorMessage = getErrorMessage(err);
       dispatch(setError(errorMessage));
+      setLearningMap(null);
       throw err;
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        setIsStreaming(false);
+      }
     }
   };
 
+  // Generates the last requested map again, bypassing the server's cache
+  const generateFresh = () => {
+    if (!lastRequestRef.current) return Promise.resolve(null);
+    return generateMap(lastRequestRef.current, true);
+  };
+
   const resetMap = () => {
+    abortControllerRef.current?.abort();
     setLearningMap(null);
+    setIsCached(false);
     dispatch(clearError());
   };
 
+  // Replaces the current map after it was modified on the server
+  const updateMap = useCallback((updatedMap: LearningMap) => {
+    setLearningMap(updatedMap);
+  }, []);
+
   return {
     learningMap,
-    isLoading,
+    isLoading: isStreaming || isMutationLoading,
+    isStreaming,
+    isCached,
     generateMap,
+    generateFresh,
     resetMap,
+    updateMap,
   };
 }
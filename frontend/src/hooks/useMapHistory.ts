@@ -0,0 +1,68 @@
+/**
+ * Custom hook for browsing, comparing and restoring the revisions of a saved map
+ */
+import { useCallback, useState } from "react";
+import {
+  useGetMapRevisionDiffQuery,
+  useGetMapRevisionsQuery,
+  useRestoreMapRevisionMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { getErrorMessage } from "../utils/errorHandler";
+
+export function useMapHistory(mapId: string) {
+  const dispatch = useAppDispatch();
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const {
+    data: revisions = [],
+    isLoading: isLoadingRevisions,
+    error: revisionsError,
+  } = useGetMapRevisionsQuery(mapId);
+
+  // The selected revision is compared with the one before it
+  const canCompare = selectedRevision !== null && selectedRevision > 1;
+  const { data: diff, isFetching: isLoadingDiff } = useGetMapRevisionDiffQuery(
+    {
+      id: mapId,
+      from: (selectedRevision ?? 1) - 1,
+      to: selectedRevision ?? 1,
+    },
+    { skip: !canCompare }
+  );
+
+  const [restoreMapRevision, { isLoading: isRestoring }] =
+    useRestoreMapRevisionMutation();
+
+  const restoreRevision = useCallback(
+    async (revision: number) => {
+      dispatch(clearError());
+
+      try {
+        const learningMap = await restoreMapRevision({
+          id: mapId,
+          revision,
+        }).unwrap();
+        setSelectedRevision(null);
+        return learningMap;
+      } catch (err) {
+        const errorMessage = getErrorMessage(err);
+        dispatch(setError(errorMessage));
+        throw err;
+      }
+    },
+    [dispatch, mapId, restoreMapRevision]
+  );
+
+  return {
+    revisions,
+    isLoadingRevisions,
+    revisionsError: revisionsError ? getErrorMessage(revisionsError) : null,
+    selectedRevision,
+    selectRevision: setSelectedRevision,
+    diff: canCompare ? diff : undefined,
+    isLoadingDiff,
+    restoreRevision,
+    isRestoring,
+  };
+}
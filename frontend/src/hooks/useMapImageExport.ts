@@ -0,0 +1,96 @@
+/**
+ * Custom hook for exporting the rendered learning map as a PNG or SVG image
+ * Captures the whole graph rather than the visible viewport; must be used
+ * inside the ReactFlowProvider of the map
+ */
+import { toPng, toSvg } from "html-to-image";
+import { useCallback, useState } from "react";
+import { getNodesBounds, useReactFlow, useStore } from "reactflow";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { getErrorMessage } from "../utils/errorHandler";
+import { downloadUrl } from "./useMapExport";
+
+export type MapImageFormat = "png" | "svg";
+
+export type MapImageBackground = "white" | "transparent";
+
+export interface MapImageOptions {
+  format: MapImageFormat;
+  // Multiplier applied to the graph's natural size
+  scale: number;
+  background: MapImageBackground;
+}
+
+// Space left around the outermost nodes, in graph units
+const IMAGE_PADDING = 40;
+
+/**
+ * Leaves out interactive controls (selects, buttons, inputs), which are marked
+ * nodrag so they can be used without dragging the node
+ */
+function isStaticElement(element: HTMLElement): boolean {
+  return !element.classList?.contains("nodrag");
+}
+
+export function useMapImageExport() {
+  const dispatch = useAppDispatch();
+  const { getNodes } = useReactFlow();
+  const domNode = useStore((state) => state.domNode);
+  const [isExportingImage, setIsExportingImage] = useState(false);
+
+  // Resolves with an image data URL of the full graph
+  const renderImage = useCallback(
+    async ({ format, scale, background }: MapImageOptions) => {
+      const viewport = domNode?.querySelector<HTMLElement>(
+        ".react-flow__viewport"
+      );
+      if (!viewport) {
+        throw new Error("The map has not been rendered yet");
+      }
+
+      const bounds = getNodesBounds(getNodes());
+      const width = (bounds.width + IMAGE_PADDING * 2) * scale;
+      const height = (bounds.height + IMAGE_PADDING * 2) * scale;
+      const translateX = (IMAGE_PADDING - bounds.x) * scale;
+      const translateY = (IMAGE_PADDING - bounds.y) * scale;
+
+      const render = format === "png" ? toPng : toSvg;
+      return render(viewport, {
+        width,
+        height,
+        // Scaling is applied by the transform, so keep one pixel per unit
+        pixelRatio: 1,
+        backgroundColor: background === "white" ? "#ffffff" : undefined,
+        filter: isStaticElement,
+        style: {
+          width: `${width}px`,
+          height: `${height}px`,
+          transform: `translate(${translateX}px, ${translateY}px) scale(${scale})`,
+        },
+      });
+    },
+    [domNode, getNodes]
+  );
+
+  const exportImage = useCallback(
+    async (filename: string, options: MapImageOptions) => {
+      dispatch(clearError());
+      setIsExportingImage(true);
+
+      try {
+        downloadUrl(await renderImage(options), filename);
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+      } finally {
+        setIsExportingImage(false);
+      }
+    },
+    [dispatch, renderImage]
+  );
+
+  return {
+    exportImage,
+    isExportingImage,
+  };
+}
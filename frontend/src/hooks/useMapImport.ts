@@ -0,0 +1,82 @@
+/**
+ * Custom hook for importing exported JSON, Markdown, OPML, FreeMind or XMind
+ * files as new maps
+ */
+import { useCallback } from "react";
+import { useImportLearningMapMutation } from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type LearningMap, type MapFileFormat } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+// File extensions accepted by the import, by format
+const FORMAT_EXTENSIONS: Record<MapFileFormat, string[]> = {
+  json: [".json"],
+  md: [".md", ".markdown"],
+  opml: [".opml"],
+  mm: [".mm"],
+  xmind: [".xmind.json"],
+};
+
+export const IMPORT_FILE_ACCEPT = Object.values(FORMAT_EXTENSIONS)
+  .flat()
+  .join(",");
+
+/**
+ * Infers the file format from the file name
+ * The longest matching extension wins, so ".xmind.json" is not read as JSON
+ */
+function getFileFormat(filename: string): MapFileFormat | undefined {
+  const name = filename.toLowerCase();
+  let match: { format: MapFileFormat; extension: string } | undefined;
+
+  for (const format of Object.keys(FORMAT_EXTENSIONS) as MapFileFormat[]) {
+    for (const extension of FORMAT_EXTENSIONS[format]) {
+      if (
+        name.endsWith(extension) &&
+        extension.length > (match?.extension.length ?? 0)
+      ) {
+        match = { format, extension };
+      }
+    }
+  }
+
+  return match?.format;
+}
+
+export function useMapImport() {
+  const dispatch = useAppDispatch();
+  const [importLearningMap, { isLoading: isImporting }] =
+    useImportLearningMapMutation();
+
+  // Resolves with the saved map, or undefined when the import failed
+  const importFile = useCallback(
+    async (file: File): Promise<LearningMap | undefined> => {
+      dispatch(clearError());
+
+      const format = getFileFormat(file.name);
+      if (!format) {
+        dispatch(
+          setError(
+            `Unsupported file type. Choose a ${IMPORT_FILE_ACCEPT} file.`
+          )
+        );
+        return undefined;
+      }
+
+      try {
+        const content = await file.text();
+        return await importLearningMap({ format, content }).unwrap();
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+        return undefined;
+      }
+    },
+    [dispatch, importLearningMap]
+  );
+
+  return {
+    importFile,
+    isImporting,
+  };
+}
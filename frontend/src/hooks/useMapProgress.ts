@@ -0,0 +1,46 @@
+/**
+ * Custom hook for the signed-in user's progress on a saved map
+ */
+import { useCallback } from "react";
+import {
+  useGetMapProgressQuery,
+  useUpdateMapProgressMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type ProgressStatus } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+const NO_PROGRESS: Record<string, ProgressStatus> = {};
+
+/**
+ * Loads progress for a map; pass undefined when progress cannot be tracked
+ * (not signed in, or the map is not saved yet)
+ */
+export function useMapProgress(mapId: string | undefined) {
+  const dispatch = useAppDispatch();
+  const { data } = useGetMapProgressQuery(mapId ?? "", { skip: !mapId });
+  const [updateMapProgress] = useUpdateMapProgressMutation();
+
+  const setNodeStatus = useCallback(
+    async (path: string, status: ProgressStatus) => {
+      if (!mapId) return;
+      dispatch(clearError());
+
+      try {
+        await updateMapProgress({
+          id: mapId,
+          updates: [{ path, status }],
+        }).unwrap();
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+      }
+    },
+    [dispatch, mapId, updateMapProgress]
+  );
+
+  return {
+    statuses: data?.nodes ?? NO_PROGRESS,
+    setNodeStatus,
+  };
+}
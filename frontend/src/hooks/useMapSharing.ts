@@ -0,0 +1,68 @@
+/**
+ * Custom hook for the visibility and share link of a map owned by the user
+ */
+import { useCallback } from "react";
+import {
+  useRevokeShareSlugMutation,
+  useRotateShareSlugMutation,
+  useUpdateMapSharingMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type LearningMap, type MapVisibility } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+/**
+ * Builds the absolute URL of the read-only share page for a slug
+ */
+export function getShareUrl(shareSlug: string): string {
+  return `${window.location.origin}/m/${shareSlug}`;
+}
+
+export function useMapSharing(mapId: string) {
+  const dispatch = useAppDispatch();
+  const [updateMapSharing, { isLoading: isUpdatingVisibility }] =
+    useUpdateMapSharingMutation();
+  const [rotateShareSlug, { isLoading: isRotating }] =
+    useRotateShareSlugMutation();
+  const [revokeShareSlug, { isLoading: isRevoking }] =
+    useRevokeShareSlugMutation();
+
+  // Runs a sharing request, reporting failures through the UI error state
+  const run = useCallback(
+    async (request: () => Promise<LearningMap>) => {
+      dispatch(clearError());
+
+      try {
+        return await request();
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+        throw err;
+      }
+    },
+    [dispatch]
+  );
+
+  const setVisibility = useCallback(
+    (visibility: MapVisibility) =>
+      run(() => updateMapSharing({ id: mapId, visibility }).unwrap()),
+    [run, updateMapSharing, mapId]
+  );
+
+  const rotateLink = useCallback(
+    () => run(() => rotateShareSlug(mapId).unwrap()),
+    [run, rotateShareSlug, mapId]
+  );
+
+  const revokeLink = useCallback(
+    () => run(() => revokeShareSlug(mapId).unwrap()),
+    [run, revokeShareSlug, mapId]
+  );
+
+  return {
+    setVisibility,
+    rotateLink,
+    revokeLink,
+    isUpdating: isUpdatingVisibility || isRotating || isRevoking,
+  };
+}
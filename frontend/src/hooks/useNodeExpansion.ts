@@ -0,0 +1,37 @@
+/**
+ * Custom hook for expanding a subtopic of a saved learning map into child subtopics
+ */
+import { useCallback, useState } from "react";
+import { useExpandLearningMapNodeMutation } from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { getErrorMessage } from "../utils/errorHandler";
+
+export function useNodeExpansion() {
+  const dispatch = useAppDispatch();
+  const [expandLearningMapNode] = useExpandLearningMapNodeMutation();
+  const [expandingPath, setExpandingPath] = useState<string | null>(null);
+
+  const expandNode = useCallback(
+    async (mapId: string, path: string) => {
+      dispatch(clearError());
+      setExpandingPath(path);
+
+      try {
+        return await expandLearningMapNode({ id: mapId, path }).unwrap();
+      } catch (err) {
+        const errorMessage = getErrorMessage(err);
+        dispatch(setError(errorMessage));
+        throw err;
+      } finally {
+        setExpandingPath(null);
+      }
+    },
+    [dispatch, expandLearningMapNode]
+  );
+
+  return {
+    expandNode,
+    expandingPath,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Custom hook for the signed-in user's personal notes on the nodes of a saved map
+ */
+import { useCallback } from "react";
+import {
+  useGetMapNotesQuery,
+  useUpdateNodeNoteMutation,
+} from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { type NodeNote } from "../types";
+import { getErrorMessage } from "../utils/errorHandler";
+
+const NO_NOTES: Record<string, NodeNote> = {};
+
+/**
+ * Loads notes for a map; pass undefined when notes cannot be kept
+ * (not signed in, or the map is not saved yet)
+ */
+export function useNodeNotes(mapId: string | undefined) {
+  const dispatch = useAppDispatch();
+  const { data } = useGetMapNotesQuery(mapId ?? "", { skip: !mapId });
+  const [updateNodeNote, { isLoading: isSavingNote }] =
+    useUpdateNodeNoteMutation();
+
+  // Resolves to whether the note was saved
+  const saveNote = useCallback(
+    async (path: string, content: string) => {
+      if (!mapId) return false;
+      dispatch(clearError());
+
+      try {
+        await updateNodeNote({ id: mapId, path, content }).unwrap();
+        return true;
+      } catch (err) {
+        dispatch(setError(getErrorMessage(err)));
+        return false;
+      }
+    },
+    [dispatch, mapId, updateNodeNote]
+  );
+
+  return {
+    notes: data?.notes ?? NO_NOTES,
+    saveNote,
+    isSavingNote,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Custom hook for the signed-in user's latest quiz results on a saved map
+ */
+import { useGetQuizPerformanceQuery } from "../store/api/learningMapApi";
+
+const NO_WEAK_PATHS: string[] = [];
+
+/**
+ * Loads the subtopics that need review; pass undefined when results are not
+ * tracked (not signed in, or the map is not saved yet)
+ */
+export function useQuizPerformance(mapId: string | undefined) {
+  const { data } = useGetQuizPerformanceQuery(mapId ?? "", { skip: !mapId });
+
+  return {
+    weakPaths: data?.weakPaths ?? NO_WEAK_PATHS,
+  };
+}
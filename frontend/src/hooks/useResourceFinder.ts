@@ -0,0 +1,38 @@
+/**
+ * Custom hook for adding resources suggested by the model to a subtopic of a
+ * saved learning map
+ */
+import { useCallback, useState } from "react";
+import { useFindNodeResourcesMutation } from "../store/api/learningMapApi";
+import { useAppDispatch } from "../store/hooks";
+import { clearError, setError } from "../store/slices/uiSlice";
+import { getErrorMessage } from "../utils/errorHandler";
+
+export function useResourceFinder() {
+  const dispatch = useAppDispatch();
+  const [findNodeResources] = useFindNodeResourcesMutation();
+  const [findingPath, setFindingPath] = useState<string | null>(null);
+
+  const findResources = useCallback(
+    async (mapId: string, path: string) => {
+      dispatch(clearError());
+      setFindingPath(path);
+
+      try {
+        return await findNodeResources({ id: mapId, path }).unwrap();
+      } catch (err) {
+        const errorMessage = getErrorMessage(err);
+        dispatch(setError(errorMessage));
+        throw err;
+      } finally {
+        setFindingPath(null);
+      }
+    },
+    [dispatch, findNodeResources]
+  );
+
+  return {
+    findResources,
+    findingPath,
+  };
+}
@@ -1,7 +1,33 @@
 // RTK Query API slice for learning map endpoints
 // Uses centralized error handling
 import { Env } from "@/config/env.config";
-import { type LearningLevel, type LearningMap } from "@/types";
+import {
+  type AuthCredentials,
+  type AuthSession,
+  type BranchQuiz,
+  type BranchQuizRequest,
+  type ExportFlashcardsRequest,
+  type ExportMapRequest,
+  type FlashcardDeck,
+  type ImportMapRequest,
+  type LearningLevel,
+  type LearningMap,
+  type LearningMapListFilters,
+  type LearningMapPage,
+  type MapDiff,
+  type MapEdit,
+  type MapNotes,
+  type MapProgress,
+  type MapRevisionSummary,
+  type MapVisibility,
+  type NodeProgressUpdate,
+  type QuizAttempt,
+  type QuizPerformance,
+  type RegisterRequest,
+  type SubmitQuizAttemptRequest,
+  type User,
+} from "@/types";
+import { current } from "@reduxjs/toolkit";
 import {
   type BaseQueryFn,
   createApi,
@@ -15,6 +41,7 @@ import {
   shouldRetryError,
 } from "../../utils/errorHandler";
 import logger from "../../utils/logger";
+import { applyMapEdit } from "../../utils/mapEdits";
 
 interface ApiResponse<T> {
   success: boolean;
@@ -23,9 +50,112 @@ interface ApiResponse<T> {
   message?: string;
 }
 
+// Generated map and whether the server reused the generation of an identical
+// recent request
+interface GeneratedMapResult {
+  map: LearningMap;
+  cached: boolean;
+}
+
 interface GenerateMapRequest {
   topic: string;
   level: LearningLevel;
+  tags?: string[];
+  // Skip the server's generation cache
+  fresh?: boolean;
+}
+
+// Maps requested per page when browsing saved maps
+const MAP_LIST_PAGE_SIZE = 20;
+
+interface ExpandNodeRequest {
+  id: string;
+  // Dot-separated node path, e.g. "0.2" for the third subtopic of the first branch
+  path: string;
+}
+
+interface ReplaceResourceRequest {
+  id: string;
+  path: string;
+  // Index of the resource in the subtopic's resources
+  resourceIndex: number;
+}
+
+interface RegenerateBranchRequest {
+  id: string;
+  branchIndex: number;
+  // Optional guidance for the model, e.g. "focus on hands-on projects"
+  hint?: string;
+}
+
+interface EditMapRequest {
+  id: string;
+  edit: MapEdit;
+}
+
+// Maps a client-side edit to the matching backend edit endpoint
+function getEditRequest({ id, edit }: EditMapRequest): FetchArgs {
+  const nodeUrl = `/map/${id}/nodes/${"path" in edit ? edit.path : ""}`;
+
+  switch (edit.type) {
+    case "update-node":
+      return { url: nodeUrl, method: "PATCH", body: edit.changes };
+    case "add-node":
+      return {
+        url: edit.parentPath
+          ? `/map/${id}/nodes/${edit.parentPath}/children`
+          : `/map/${id}/branches`,
+        method: "POST",
+        body: { ...edit.node, index: edit.index },
+      };
+    case "delete-node":
+      return { url: nodeUrl, method: "DELETE" };
+    case "add-resource":
+      return {
+        url: `${nodeUrl}/resources`,
+        method: "POST",
+        body: edit.resource,
+      };
+    case "update-resource":
+      return {
+        url: `${nodeUrl}/resources/${edit.resourceIndex}`,
+        method: "PATCH",
+        body: edit.changes,
+      };
+    case "delete-resource":
+      return {
+        url: `${nodeUrl}/resources/${edit.resourceIndex}`,
+        method: "DELETE",
+      };
+  }
+}
+
+interface UpdateSharingRequest {
+  id: string;
+  visibility: MapVisibility;
+}
+
+interface UpdateProgressRequest {
+  id: string;
+  updates: NodeProgressUpdate[];
+}
+
+interface UpdateNoteRequest {
+  id: string;
+  path: string;
+  // Markdown; blank content removes the note
+  content: string;
+}
+
+interface RevisionDiffRequest {
+  id: string;
+  from: number;
+  to: number;
+}
+
+interface RestoreRevisionRequest {
+  id: string;
+  revision: number;
 }
 
 // Retry configuration for Render free tier (backend may sleep)
@@ -44,8 +174,12 @@ function calculateRetryDelay(attempt: number): number {
 // Custom base query with centralized error handling and retry logic
 const baseQuery = fetchBaseQuery({
   baseUrl: Env.API_URL,
+  // Send the httpOnly auth cookie with every request
+  credentials: "include",
   prepareHeaders: (headers) => {
     headers.set("Content-Type", "application/json");
+    // Required by the API for cookie-authenticated requests (CSRF protection)
+    headers.set("X-Requested-With", "XMLHttpRequest");
     return headers;
   },
 });
@@ -124,16 +258,113 @@ const baseQueryWithRetry: BaseQueryFn<
 export const learningMapApi = createApi({
   reducerPath: "learningMapApi",
   baseQuery: baseQueryWithRetry,
-  tagTypes: ["LearningMap"],
+  tagTypes: [
+    "LearningMap",
+    "User",
+    "Progress",
+    "Flashcards",
+    "Quiz",
+    "QuizResults",
+    "Notes",
+  ],
   endpoints: (builder) => ({
+    // Get the signed-in user (null when not signed in)
+    getCurrentUser: builder.query<User | null, void>({
+      query: () => "/auth/me",
+      transformResponse: (response: ApiResponse<User | null>): User | null => {
+        if (!response.success) {
+          const error = normalizeError(
+            response.error || "Failed to load account"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data ?? null;
+      },
+      providesTags: ["User"],
+    }),
+
+    // Sign in with email and password
+    login: builder.mutation<AuthSession, AuthCredentials>({
+      query: (body) => ({
+        url: "/auth/login",
+        method: "POST",
+        body,
+      }),
+      transformResponse: (response: ApiResponse<AuthSession>): AuthSession => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to sign in"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      // Which maps are visible depends on the signed-in user
+      invalidatesTags: [
+        "User",
+        "LearningMap",
+        "Progress",
+        "QuizResults",
+        "Notes",
+      ],
+    }),
+
+    // Create an account and sign in
+    register: builder.mutation<AuthSession, RegisterRequest>({
+      query: (body) => ({
+        url: "/auth/register",
+        method: "POST",
+        body,
+      }),
+      transformResponse: (response: ApiResponse<AuthSession>): AuthSession => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to create account"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: [
+        "User",
+        "LearningMap",
+        "Progress",
+        "QuizResults",
+        "Notes",
+      ],
+    }),
+
+    // Sign out by clearing the auth cookie
+    logout: builder.mutation<void, void>({
+      query: () => ({
+        url: "/auth/logout",
+        method: "POST",
+      }),
+      invalidatesTags: [
+        "User",
+        "LearningMap",
+        "Progress",
+        "QuizResults",
+        "Notes",
+      ],
+    }),
+
     // Generate a new learning map
-    generateLearningMap: builder.mutation<LearningMap, GenerateMapRequest>({
+    generateLearningMap: builder.mutation<
+      GeneratedMapResult,
+      GenerateMapRequest
+    >({
       query: (body) => ({
         url: "/map/generate",
         method: "POST",
         body,
       }),
-      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+      transformResponse: (
+        response: ApiResponse<LearningMap> & { cached?: boolean }
+      ): GeneratedMapResult => {
         if (!response.success || !response.data) {
           const error = normalizeError(
             response.error || response.message || "Failed to generate map"
@@ -141,11 +372,44 @@ export const learningMapApi = createApi({
           logError(error);
           throw error;
         }
-        return response.data;
+        return { map: response.data, cached: !!response.cached };
       },
       invalidatesTags: ["LearningMap"],
     }),
 
+    // List saved maps, newest first, one cursor-linked page at a time
+    listLearningMaps: builder.infiniteQuery<
+      LearningMapPage,
+      LearningMapListFilters,
+      string | null
+    >({
+      infiniteQueryOptions: {
+        initialPageParam: null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+      },
+      query: ({ queryArg, pageParam }) => ({
+        url: "/map",
+        params: {
+          ...queryArg,
+          limit: MAP_LIST_PAGE_SIZE,
+          ...(pageParam && { cursor: pageParam }),
+        },
+      }),
+      transformResponse: (
+        response: ApiResponse<LearningMapPage>
+      ): LearningMapPage => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || "Failed to load learning maps"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      providesTags: ["LearningMap"],
+    }),
+
     // Get a learning map by ID
     getLearningMapById: builder.query<LearningMap, string>({
       query: (id) => `/map/${id}`,
@@ -159,8 +423,622 @@ export const learningMapApi = createApi({
       },
       providesTags: (_result, _error, id) => [{ type: "LearningMap", id }],
     }),
+
+    // Download a saved map as a file; resolves with an object URL of the
+    // file, which the caller revokes once downloaded. Exports are mutations
+    // so they are never cached or refetched when the map changes.
+    exportLearningMap: builder.mutation<string, ExportMapRequest>({
+      query: ({ id, format, checkboxes, variant }) => ({
+        url: `/map/${id}/export`,
+        params: { format, checkboxes, variant },
+        // Errors still use the JSON envelope
+        responseHandler: async (response) =>
+          response.ok
+            ? URL.createObjectURL(await response.blob())
+            : response.json(),
+      }),
+    }),
+
+    // Export a saved map in a text format (e.g. Mermaid) and resolve with
+    // the text itself, for copying to the clipboard
+    exportLearningMapText: builder.mutation<string, ExportMapRequest>({
+      query: ({ id, format, variant }) => ({
+        url: `/map/${id}/export`,
+        params: { format, variant },
+        responseHandler: (response) =>
+          response.ok ? response.text() : response.json(),
+      }),
+    }),
+
+    // Import an exported file as a new map
+    importLearningMap: builder.mutation<LearningMap, ImportMapRequest>({
+      query: (body) => ({
+        url: "/map/import",
+        method: "POST",
+        body,
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to import map"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: ["LearningMap"],
+    }),
+
+    // Expand a subtopic into child subtopics
+    expandLearningMapNode: builder.mutation<LearningMap, ExpandNodeRequest>({
+      query: ({ id, path }) => ({
+        url: `/map/${id}/nodes/${path}/expand`,
+        method: "POST",
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to expand node"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Add resources suggested by the model to a subtopic
+    findNodeResources: builder.mutation<LearningMap, ExpandNodeRequest>({
+      query: ({ id, path }) => ({
+        url: `/map/${id}/nodes/${path}/find-resources`,
+        method: "POST",
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to find resources"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Replace a resource (usually a broken link) with one suggested by the model
+    replaceNodeResource: builder.mutation<LearningMap, ReplaceResourceRequest>({
+      query: ({ id, path, resourceIndex }) => ({
+        url: `/map/${id}/nodes/${path}/resources/${resourceIndex}/replace`,
+        method: "POST",
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to replace resource"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Check whether the resource links of a map still resolve
+    checkMapLinks: builder.mutation<LearningMap, string>({
+      query: (id) => ({
+        url: `/map/${id}/links/check`,
+        method: "POST",
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to check links"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: (_result, _error, id) => [{ type: "LearningMap", id }],
+    }),
+
+    // Regenerate a single branch, optionally guided by a hint
+    regenerateLearningMapBranch: builder.mutation<
+      LearningMap,
+      RegenerateBranchRequest
+    >({
+      query: ({ id, branchIndex, hint }) => ({
+        url: `/map/${id}/branches/${branchIndex}/regenerate`,
+        method: "POST",
+        body: { hint },
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to regenerate branch"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Edit a branch, subtopic or resource of a saved map
+    // The cached map is patched immediately and rolled back if the edit fails
+    editLearningMap: builder.mutation<LearningMap, EditMapRequest>({
+      query: getEditRequest,
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to edit map"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      async onQueryStarted({ id, edit }, { dispatch, queryFulfilled }) {
+        const patch = dispatch(
+          learningMapApi.util.updateQueryData(
+            "getLearningMapById",
+            id,
+            // Drafts are proxies, so the edit is applied to a plain snapshot
+            (draft) => applyMapEdit(current(draft), edit)
+          )
+        );
+        try {
+          await queryFulfilled;
+        } catch {
+          patch.undo();
+        }
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Get a read-only map through its share link
+    getSharedMap: builder.query<LearningMap, string>({
+      query: (slug) => `/share/${slug}`,
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || "Shared map not found"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      providesTags: ["LearningMap"],
+    }),
+
+    // Set the visibility of a map (owner only)
+    updateMapSharing: builder.mutation<LearningMap, UpdateSharingRequest>({
+      query: ({ id, visibility }) => ({
+        url: `/map/${id}/sharing`,
+        method: "PATCH",
+        body: { visibility },
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to update sharing"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      // Visibility changes which maps are listed, so lists are refreshed too
+      invalidatesTags: ["LearningMap"],
+    }),
+
+    // Replace the share link of a map, invalidating the previous one
+    rotateShareSlug: builder.mutation<LearningMap, string>({
+      query: (id) => ({
+        url: `/map/${id}/sharing/slug`,
+        method: "POST",
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to rotate share link"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: ["LearningMap"],
+    }),
+
+    // Revoke the share link of a map
+    revokeShareSlug: builder.mutation<LearningMap, string>({
+      query: (id) => ({
+        url: `/map/${id}/sharing/slug`,
+        method: "DELETE",
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to revoke share link"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: ["LearningMap"],
+    }),
+
+    // Get the signed-in user's progress on a map
+    getMapProgress: builder.query<MapProgress, string>({
+      query: (id) => `/map/${id}/progress`,
+      transformResponse: (response: ApiResponse<MapProgress>): MapProgress => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || "Failed to load progress"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      providesTags: (_result, _error, id) => [{ type: "Progress", id }],
+    }),
+
+    // Set the status of one or more nodes
+    // The cached progress is patched immediately and rolled back on failure
+    updateMapProgress: builder.mutation<MapProgress, UpdateProgressRequest>({
+      query: ({ id, updates }) => ({
+        url: `/map/${id}/progress`,
+        method: "PATCH",
+        body: { updates },
+      }),
+      transformResponse: (response: ApiResponse<MapProgress>): MapProgress => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to update progress"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      async onQueryStarted({ id, updates }, { dispatch, queryFulfilled }) {
+        const patch = dispatch(
+          learningMapApi.util.updateQueryData("getMapProgress", id, (draft) => {
+            updates.forEach(({ path, status }) => {
+              if (status === "not-started") {
+                delete draft.nodes[path];
+              } else {
+                draft.nodes[path] = status;
+              }
+            });
+          })
+        );
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(
+            learningMapApi.util.upsertQueryData("getMapProgress", id, data)
+          );
+        } catch {
+          patch.undo();
+        }
+      },
+    }),
+
+    // Get the signed-in user's notes on a map
+    getMapNotes: builder.query<MapNotes, string>({
+      query: (id) => `/map/${id}/notes`,
+      transformResponse: (response: ApiResponse<MapNotes>): MapNotes => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || "Failed to load notes"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      providesTags: (_result, _error, id) => [{ type: "Notes", id }],
+    }),
+
+    // Set the note on one node
+    updateNodeNote: builder.mutation<MapNotes, UpdateNoteRequest>({
+      query: ({ id, path, content }) => ({
+        url: `/map/${id}/notes/${path}`,
+        method: "PUT",
+        body: { content },
+      }),
+      transformResponse: (response: ApiResponse<MapNotes>): MapNotes => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to save note"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      async onQueryStarted({ id }, { dispatch, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(
+            learningMapApi.util.upsertQueryData("getMapNotes", id, data)
+          );
+        } catch {
+          // Error handled by the caller
+        }
+      },
+    }),
+
+    // List the revision history of a map (newest first)
+    getMapRevisions: builder.query<MapRevisionSummary[], string>({
+      query: (id) => `/map/${id}/revisions`,
+      transformResponse: (
+        response: ApiResponse<MapRevisionSummary[]>
+      ): MapRevisionSummary[] => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || "Failed to load map history"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      // Revisions change whenever the map does
+      providesTags: (_result, _error, id) => [{ type: "LearningMap", id }],
+    }),
+
+    // Compare two revisions of a map
+    getMapRevisionDiff: builder.query<MapDiff, RevisionDiffRequest>({
+      query: ({ id, from, to }) => ({
+        url: `/map/${id}/revisions/diff`,
+        params: { from, to },
+      }),
+      transformResponse: (response: ApiResponse<MapDiff>): MapDiff => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || "Failed to compare revisions"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+    }),
+
+    // Restore an earlier revision of a map
+    restoreMapRevision: builder.mutation<LearningMap, RestoreRevisionRequest>({
+      query: ({ id, revision }) => ({
+        url: `/map/${id}/revisions/${revision}/restore`,
+        method: "POST",
+      }),
+      transformResponse: (response: ApiResponse<LearningMap>): LearningMap => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to restore revision"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Get the stored flashcards of a map (null when none were generated)
+    getFlashcardDeck: builder.query<FlashcardDeck | null, string>({
+      query: (id) => `/map/${id}/flashcards`,
+      transformResponse: (
+        response: ApiResponse<FlashcardDeck | null>
+      ): FlashcardDeck | null => {
+        if (!response.success) {
+          const error = normalizeError(
+            response.error || "Failed to load flashcards"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data ?? null;
+      },
+      // Refetched when the map changes, which can make the deck outdated
+      providesTags: (_result, _error, id) => [
+        { type: "Flashcards", id },
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Generate flashcards for every subtopic, replacing the stored ones
+    generateFlashcards: builder.mutation<FlashcardDeck, string>({
+      query: (id) => ({
+        url: `/map/${id}/flashcards`,
+        method: "POST",
+      }),
+      transformResponse: (
+        response: ApiResponse<FlashcardDeck>
+      ): FlashcardDeck => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error ||
+              response.message ||
+              "Failed to generate flashcards"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      async onQueryStarted(id, { dispatch, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(
+            learningMapApi.util.upsertQueryData("getFlashcardDeck", id, data)
+          );
+        } catch {
+          // Error handled by the caller
+        }
+      },
+    }),
+
+    // Download the stored flashcards as an Anki deck; resolves with an
+    // object URL of the file, which the caller revokes once downloaded
+    exportFlashcards: builder.mutation<string, ExportFlashcardsRequest>({
+      query: ({ id, format }) => ({
+        url: `/map/${id}/flashcards/export`,
+        params: { format },
+        // Errors still use the JSON envelope
+        responseHandler: async (response) =>
+          response.ok
+            ? URL.createObjectURL(await response.blob())
+            : response.json(),
+      }),
+    }),
+
+    // Get the stored quiz of a branch (null when none was generated)
+    getBranchQuiz: builder.query<BranchQuiz | null, BranchQuizRequest>({
+      query: ({ id, branchIndex }) => `/map/${id}/branches/${branchIndex}/quiz`,
+      transformResponse: (
+        response: ApiResponse<BranchQuiz | null>
+      ): BranchQuiz | null => {
+        if (!response.success) {
+          const error = normalizeError(response.error || "Failed to load quiz");
+          logError(error);
+          throw error;
+        }
+        return response.data ?? null;
+      },
+      // Refetched when the map changes, which can move the branch or make
+      // the quiz outdated
+      providesTags: (_result, _error, { id }) => [
+        { type: "Quiz", id },
+        { type: "LearningMap", id },
+      ],
+    }),
+
+    // Generate a quiz on a branch, replacing the stored one
+    generateBranchQuiz: builder.mutation<BranchQuiz, BranchQuizRequest>({
+      query: ({ id, branchIndex }) => ({
+        url: `/map/${id}/branches/${branchIndex}/quiz`,
+        method: "POST",
+      }),
+      transformResponse: (response: ApiResponse<BranchQuiz>): BranchQuiz => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to generate quiz"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      async onQueryStarted(request, { dispatch, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(
+            learningMapApi.util.upsertQueryData("getBranchQuiz", request, data)
+          );
+        } catch {
+          // Error handled by the caller
+        }
+      },
+    }),
+
+    // Score the signed-in user's answers; this also updates their progress
+    submitQuizAttempt: builder.mutation<QuizAttempt, SubmitQuizAttemptRequest>({
+      query: ({ id, branchIndex, answers }) => ({
+        url: `/map/${id}/branches/${branchIndex}/quiz/attempts`,
+        method: "POST",
+        body: { answers },
+      }),
+      transformResponse: (response: ApiResponse<QuizAttempt>): QuizAttempt => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || response.message || "Failed to submit quiz"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: "Progress", id },
+        { type: "QuizResults", id },
+      ],
+    }),
+
+    // Get the signed-in user's latest quiz results per subtopic
+    getQuizPerformance: builder.query<QuizPerformance, string>({
+      query: (id) => `/map/${id}/quiz-results`,
+      transformResponse: (
+        response: ApiResponse<QuizPerformance>
+      ): QuizPerformance => {
+        if (!response.success || !response.data) {
+          const error = normalizeError(
+            response.error || "Failed to load quiz results"
+          );
+          logError(error);
+          throw error;
+        }
+        return response.data;
+      },
+      providesTags: (_result, _error, id) => [{ type: "QuizResults", id }],
+    }),
   }),
 });
 
-export const { useGenerateLearningMapMutation, useGetLearningMapByIdQuery } =
-  learningMapApi;
+export const {
+  useGetCurrentUserQuery,
+  useLoginMutation,
+  useRegisterMutation,
+  useLogoutMutation,
+  useGenerateLearningMapMutation,
+  useGetLearningMapByIdQuery,
+  useExportLearningMapMutation,
+  useExportLearningMapTextMutation,
+  useImportLearningMapMutation,
+  useListLearningMapsInfiniteQuery,
+  useExpandLearningMapNodeMutation,
+  useFindNodeResourcesMutation,
+  useReplaceNodeResourceMutation,
+  useCheckMapLinksMutation,
+  useRegenerateLearningMapBranchMutation,
+  useEditLearningMapMutation,
+  useGetMapRevisionsQuery,
+  useGetMapRevisionDiffQuery,
+  useRestoreMapRevisionMutation,
+  useGetSharedMapQuery,
+  useGetMapProgressQuery,
+  useUpdateMapProgressMutation,
+  useGetMapNotesQuery,
+  useUpdateNodeNoteMutation,
+  useUpdateMapSharingMutation,
+  useRotateShareSlugMutation,
+  useRevokeShareSlugMutation,
+  useGetFlashcardDeckQuery,
+  useGenerateFlashcardsMutation,
+  useExportFlashcardsMutation,
+  useGetBranchQuizQuery,
+  useGenerateBranchQuizMutation,
+  useSubmitQuizAttemptMutation,
+  useGetQuizPerformanceQuery,
+} = learningMapApi;
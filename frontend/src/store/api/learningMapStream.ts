@@ -0,0 +1,117 @@
+// Streaming client for the Server-Sent Events map generation endpoint
+// RTK Query does not support streamed responses, so this uses fetch directly
+import { Env } from "@/config/env.config";
+import {
+  type LearningLevel,
+  type LearningMap,
+  type LearningMapStreamEvent,
+} from "@/types";
+import logger from "../../utils/logger";
+
+interface GenerateMapRequest {
+  topic: string;
+  level: LearningLevel;
+  tags?: string[];
+  // Skip the server's generation cache
+  fresh?: boolean;
+}
+
+export interface StreamedMapResult {
+  id?: string;
+  map: LearningMap;
+  // Whether the server reused the generation of an identical recent request
+  cached?: boolean;
+}
+
+interface StreamErrorPayload {
+  message: string;
+  statusCode?: number;
+}
+
+// Parses a single "event: ...\ndata: ..." block
+function parseEventBlock(block: string): { event: string; data: unknown } {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  return {
+    event,
+    data: dataLines.length ? JSON.parse(dataLines.join("\n")) : null,
+  };
+}
+
+/**
+ * Generates a learning map via the streaming endpoint
+ * Calls onEvent for every branch/subtopic and resolves with the saved map
+ */
+export async function streamLearningMap(
+  body: GenerateMapRequest,
+  onEvent: (event: LearningMapStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<StreamedMapResult> {
+  const response = await fetch(`${Env.API_URL}/map/generate/stream`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      // Required by the API for cookie-authenticated requests (CSRF protection)
+      "X-Requested-With": "XMLHttpRequest",
+    },
+    body: JSON.stringify(body),
+    // Send the auth cookie so signed-in users own the generated map
+    credentials: "include",
+    signal,
+  });
+
+  // Validation errors are returned as regular JSON before the stream opens
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => undefined);
+    throw { status: response.status, data };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    pending += decoder.decode(value, { stream: true });
+    const blocks = pending.split("\n\n");
+    pending = blocks.pop() || "";
+
+    for (const block of blocks) {
+      if (!block.trim()) continue;
+      const { event, data } = parseEventBlock(block);
+
+      switch (event) {
+        case "branch":
+        case "subtopic":
+          onEvent(data as LearningMapStreamEvent);
+          break;
+        case "done":
+          logger.debug("Learning map stream completed");
+          return data as StreamedMapResult;
+        case "error": {
+          const payload = data as StreamErrorPayload;
+          throw {
+            status: payload.statusCode ?? 500,
+            data: { message: payload.message },
+          };
+        }
+        default:
+          logger.debug(`Ignoring unknown stream event: ${event}`);
+      }
+    }
+  }
+
+  throw new Error("Learning map stream ended unexpectedly");
+}
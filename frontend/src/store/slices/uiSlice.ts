@@ -12,6 +12,8 @@ interface FieldError {
 interface UiState {
   topic: string;
   level: LearningLevel;
+  // Comma-separated tags as typed by the user
+  tags: string;
   error: string | null;
   validationErrors: FieldError[];
 }
@@ -19,6 +21,7 @@ interface UiState {
 const initialState: UiState = {
   topic: "",
   level: "Beginner",
+  tags: "",
   error: null,
   validationErrors: [],
 };
@@ -41,6 +44,12 @@ const uiSlice = createSlice({
         (err) => err.field !== "level"
       );
     },
+    setTags: (state, action: PayloadAction<string>) => {
+      state.tags = action.payload;
+      state.validationErrors = state.validationErrors.filter(
+        (err) => err.field !== "tags"
+      );
+    },
     setError: (state, action: PayloadAction<string | null>) => {
       state.error = action.payload;
     },
@@ -61,6 +70,7 @@ const uiSlice = createSlice({
     resetForm: (state) => {
       state.topic = "";
       state.level = "Beginner";
+      state.tags = "";
       state.error = null;
       state.validationErrors = [];
     },
@@ -70,6 +80,7 @@ const uiSlice = createSlice({
 export const {
   setTopic,
   setLevel,
+  setTags,
   setError,
   clearError,
   setValidationErrors,
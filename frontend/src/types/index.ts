@@ -4,10 +4,22 @@
 
 export type LearningLevel = "Beginner" | "Intermediate" | "Advanced";
 
+// Result of the latest check of whether a resource link still resolves
+export interface LinkCheck {
+  status: "ok" | "broken";
+  // Status code of the final response; absent when no response was received
+  httpStatus?: number;
+  // Why a broken link failed, e.g. "HTTP 404" or "Timed out after 10000ms"
+  reason?: string;
+  checkedAt: string;
+}
+
 export interface LearningResource {
   type: "article" | "video" | "book";
   title: string;
   url: string;
+  // Absent until the link checker has visited the resource
+  linkCheck?: LinkCheck;
 }
 
 export interface SubTopic {
@@ -23,9 +35,318 @@ export interface MainBranch {
   subtopics: SubTopic[];
 }
 
+// Who can view a map owned by a user
+export type MapVisibility = "private" | "unlisted" | "public";
+
+// Link between two subtopics by node path: "from" should be learned before "to"
+export interface Prerequisite {
+  from: string;
+  to: string;
+}
+
 export interface LearningMap {
+  _id?: string;
   topic: string;
   level: LearningLevel;
   branches: MainBranch[];
+  // Subtopics to learn before others, possibly across branches
+  prerequisites?: Prerequisite[];
+  tags?: string[];
+  // Owning user; null for maps generated without signing in
+  ownerId?: string | null;
+  visibility?: MapVisibility;
+  // Slug of the read-only share link (/m/:slug), if any
+  shareSlug?: string;
+  // Number of the latest revision recorded for this map
+  revision?: number;
   createdAt?: string;
+  updatedAt?: string;
+  // Last time the resource links were checked
+  linksCheckedAt?: string;
+}
+
+// File formats maps can be exported to and imported from
+// (mm: FreeMind, xmind: XMind content.json)
+export type MapFileFormat = "json" | "md" | "opml" | "mm" | "xmind";
+
+// Formats maps can be downloaded as (the PDF study guide and the Mermaid and
+// Graphviz DOT diagrams cannot be imported)
+export type MapExportFormat = MapFileFormat | "pdf" | "mermaid" | "dot";
+
+// Diagram types of the Mermaid export
+export type MermaidVariant = "mindmap" | "flowchart";
+
+export interface ExportMapRequest {
+  id: string;
+  format: MapExportFormat;
+  // PDF only: add progress checkboxes, ticked from the user's progress
+  checkboxes?: boolean;
+  // Mermaid only: diagram type (mindmap by default)
+  variant?: MermaidVariant;
+}
+
+export interface ImportMapRequest {
+  format: MapFileFormat;
+  content: string;
+}
+
+// Lightweight map entry returned by the map listing endpoint
+export interface LearningMapSummary {
+  _id: string;
+  topic: string;
+  level: LearningLevel;
+  tags: string[];
+  ownerId: string | null;
+  visibility: MapVisibility;
+  branchTitles: string[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface LearningMapPage {
+  items: LearningMapSummary[];
+  nextCursor: string | null;
+}
+
+// Manual edits to a saved map; node paths are dot-separated indices ("2.0")
+export type MapEdit =
+  | {
+      type: "update-node";
+      path: string;
+      changes: { title?: string; description?: string; position?: number };
+    }
+  | {
+      type: "add-node";
+      // Omitted when adding a branch
+      parentPath?: string;
+      node: {
+        title: string;
+        description: string;
+        resources?: LearningResource[];
+      };
+      index?: number;
+    }
+  | { type: "delete-node"; path: string }
+  | { type: "add-resource"; path: string; resource: LearningResource }
+  | {
+      type: "update-resource";
+      path: string;
+      resourceIndex: number;
+      changes: Partial<LearningResource>;
+    }
+  | { type: "delete-resource"; path: string; resourceIndex: number };
+
+// Search and filter options for the map listing endpoint
+export interface LearningMapListFilters {
+  q?: string;
+  level?: LearningLevel;
+  tag?: string;
+  // ISO dates bounding the creation date (inclusive)
+  from?: string;
+  to?: string;
+  // List the signed-in user's maps instead of anonymous maps
+  mine?: boolean;
+}
+
+export type MapRevisionAction =
+  | "created"
+  | "imported"
+  | "node-expanded"
+  | "branch-regenerated"
+  | "resources-found"
+  | "resource-replaced"
+  | "edited"
+  | "restored";
+
+// Revision metadata as returned by the revision list endpoint
+export interface MapRevisionSummary {
+  _id: string;
+  mapId: string;
+  revision: number;
+  action: MapRevisionAction;
+  summary: string;
+  source: "model" | "user";
+  details?: Record<string, unknown>;
+  // Signed-in user who made the change; absent for anonymous maps
+  userId?: string;
+  createdAt: string;
+}
+
+export interface MapRevision extends MapRevisionSummary {
+  snapshot: Pick<LearningMap, "topic" | "level" | "branches">;
+}
+
+export interface MapDiffChange {
+  kind: "branch" | "subtopic" | "resource";
+  change: "added" | "removed" | "modified";
+  path: string;
+  title: string;
+  fields?: string[];
+}
+
+export interface MapDiff {
+  from: number;
+  to: number;
+  changes: MapDiffChange[];
+}
+
+// Events emitted by the streaming generation endpoint
+export type LearningMapStreamEvent =
+  | {
+      type: "branch";
+      branchIndex: number;
+      branch: Omit<MainBranch, "subtopics">;
+    }
+  | {
+      type: "subtopic";
+      branchIndex: number;
+      subtopicIndex: number;
+      subtopic: SubTopic;
+    };
+
+// Registered account (credentials are never returned by the API)
+export interface User {
+  _id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+}
+
+export interface AuthCredentials {
+  email: string;
+  password: string;
+}
+
+export interface RegisterRequest extends AuthCredentials {
+  name?: string;
+}
+
+// Response of sign-in and registration; the token is also set as an httpOnly cookie
+export interface AuthSession {
+  user: User;
+  token: string;
+  expiresAt: string;
+}
+
+// Learning progress of the signed-in user on one node
+export type ProgressStatus = "not-started" | "in-progress" | "done" | "skipped";
+
+export interface NodeProgressUpdate {
+  path: string;
+  status: ProgressStatus;
+}
+
+// Progress on a map keyed by node path; missing nodes are "not-started"
+export interface MapProgress {
+  mapId: string;
+  nodes: Record<string, ProgressStatus>;
+}
+
+// Personal markdown note of the signed-in user on one node
+export interface NodeNote {
+  path: string;
+  content: string;
+  updatedAt: string;
+}
+
+// Notes on a map keyed by node path, for nodes that have a note
+export interface MapNotes {
+  mapId: string;
+  notes: Record<string, NodeNote>;
+}
+
+// Question/answer card generated for the subtopic at a node path
+export interface Flashcard {
+  path: string;
+  // Branch title when the card was generated (used as Anki tag)
+  branch: string;
+  question: string;
+  answer: string;
+}
+
+// Flashcards stored against a map; exports reuse them without calling the model
+export interface FlashcardDeck {
+  mapId: string;
+  // Map revision the cards were generated from
+  revision: number;
+  // Whether the map changed since; outdated decks cannot be exported
+  outdated: boolean;
+  cards: Flashcard[];
+  generatedBy: string;
+  createdAt: string;
+}
+
+// Anki text import (CSV, TSV) or package (.apkg)
+export type FlashcardExportFormat = "csv" | "tsv" | "apkg";
+
+export interface ExportFlashcardsRequest {
+  id: string;
+  format: FlashcardExportFormat;
+}
+
+interface QuizQuestionBase {
+  // Node path of the subtopic the question is about
+  path: string;
+  question: string;
+  explanation: string;
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: "multiple-choice";
+  options: string[];
+  correctIndex: number;
+}
+
+export interface ShortAnswerQuestion extends QuizQuestionBase {
+  type: "short-answer";
+  // Model answer the learner compares their own answer against
+  answer: string;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | ShortAnswerQuestion;
+
+// Quiz on one branch, stored against the map
+export interface BranchQuiz {
+  mapId: string;
+  branchIndex: number;
+  branchTitle: string;
+  // Map revision the questions were generated from
+  revision: number;
+  // Whether the map changed since; answers to outdated quizzes are not saved
+  outdated: boolean;
+  questions: QuizQuestion[];
+  generatedBy: string;
+  createdAt: string;
+}
+
+// Answer to one question: the selected option, or the learner's own verdict
+// on a short answer
+export interface QuizAnswer {
+  selectedIndex?: number | null;
+  correct?: boolean;
+}
+
+export interface QuizAttempt {
+  mapId: string;
+  branchIndex: number;
+  score: number;
+  total: number;
+  results: { path: string; correct: boolean }[];
+  createdAt: string;
+}
+
+export interface BranchQuizRequest {
+  id: string;
+  branchIndex: number;
+}
+
+export interface SubmitQuizAttemptRequest extends BranchQuizRequest {
+  answers: QuizAnswer[];
+}
+
+// Latest quiz results per subtopic, and the subtopics that need review
+export interface QuizPerformance {
+  mapId: string;
+  subtopics: Record<string, { correct: number; total: number }>;
+  weakPaths: string[];
 }
@@ -0,0 +1,24 @@
+/**
+ * Helpers for showing the results of resource link checks
+ */
+import { type LearningResource } from "../types";
+
+/**
+ * Whether the link checker found the resource's link broken
+ */
+export function isBrokenLink(resource: LearningResource): boolean {
+  return resource.linkCheck?.status === "broken";
+}
+
+/**
+ * Describes a broken link for tooltips, e.g. "Broken link (HTTP 404), checked 3/2/2026"
+ */
+export function describeBrokenLink(resource: LearningResource): string {
+  const { linkCheck } = resource;
+  if (!linkCheck) return "";
+
+  const reason = linkCheck.reason ? ` (${linkCheck.reason})` : "";
+  return `Broken link${reason}, checked ${new Date(
+    linkCheck.checkedAt
+  ).toLocaleDateString()}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Client-side application of map edits
+ * Mirrors the backend edit endpoints so changes can be shown optimistically
+ */
+import {
+  type LearningMap,
+  type MainBranch,
+  type MapEdit,
+  type SubTopic,
+} from "../types";
+
+/**
+ * Returns the list holding the node at a path and the node's index in it
+ */
+function getSiblings(
+  learningMap: LearningMap,
+  path: string
+): { siblings: (MainBranch | SubTopic)[]; index: number } {
+  const indices = path.split(".").map(Number);
+  const index = indices[indices.length - 1];
+  let siblings: (MainBranch | SubTopic)[] = learningMap.branches;
+
+  for (const parentIndex of indices.slice(0, -1)) {
+    const parent = siblings[parentIndex];
+    parent.subtopics = parent.subtopics || [];
+    siblings = parent.subtopics;
+  }
+
+  return { siblings, index };
+}
+
+/**
+ * Returns the node at a path
+ */
+function getNode(learningMap: LearningMap, path: string) {
+  const { siblings, index } = getSiblings(learningMap, path);
+  return siblings[index];
+}
+
+/**
+ * Applies an edit to a copy of the map
+ * Invalid paths are ignored; the server response is authoritative
+ */
+export function applyMapEdit(
+  learningMap: LearningMap,
+  edit: MapEdit
+): LearningMap {
+  const updated = structuredClone(learningMap);
+
+  try {
+    switch (edit.type) {
+      case "update-node": {
+        const { siblings, index } = getSiblings(updated, edit.path);
+        const { position, ...changes } = edit.changes;
+        const node = Object.assign(siblings[index], changes);
+        if (position !== undefined) {
+          siblings.splice(index, 1);
+          siblings.splice(position, 0, node);
+        }
+        break;
+      }
+      case "add-node": {
+        const { title, description, resources = [] } = edit.node;
+        if (edit.parentPath) {
+          const { siblings } = getSiblings(updated, `${edit.parentPath}.0`);
+          siblings.splice(edit.index ?? siblings.length, 0, {
+            title,
+            description,
+            resources,
+            subtopics: [],
+          });
+        } else {
+          updated.branches.splice(edit.index ?? updated.branches.length, 0, {
+            title,
+            description,
+            subtopics: [],
+          });
+        }
+        break;
+      }
+      case "delete-node": {
+        const { siblings, index } = getSiblings(updated, edit.path);
+        siblings.splice(index, 1);
+        break;
+      }
+      case "add-resource":
+        (getNode(updated, edit.path) as SubTopic).resources.push(edit.resource);
+        break;
+      case "update-resource": {
+        const { resources } = getNode(updated, edit.path) as SubTopic;
+        Object.assign(resources[edit.resourceIndex], edit.changes);
+        break;
+      }
+      case "delete-resource":
+        (getNode(updated, edit.path) as SubTopic).resources.splice(
+          edit.resourceIndex,
+          1
+        );
+        break;
+    }
+  } catch {
+    return learningMap;
+  }
+
+  return updated;
+}
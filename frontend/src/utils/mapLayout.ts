@@ -0,0 +1,211 @@
+/**
+ * Layouts for the learning map graph
+ * Nodes vary in size (descriptions, resources and controls), so every layout
+ * works from measured node sizes and keeps nodes from overlapping
+ */
+import dagre from "@dagrejs/dagre";
+
+export type MapLayout = "timeline" | "tree" | "left-right" | "radial";
+
+export const MAP_LAYOUTS: { value: MapLayout; label: string }[] = [
+  { value: "tree", label: "Tree" },
+  { value: "left-right", label: "Left to right" },
+  { value: "radial", label: "Radial" },
+  { value: "timeline", label: "Timeline" },
+];
+
+// Node of the map hierarchy, listed parents first in document order
+export interface LayoutNode {
+  id: string;
+  parentId?: string;
+  // 0 for the topic, 1 for branches, 2 and deeper for subtopics
+  depth: number;
+}
+
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+// Top-left corner of a node
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// Size assumed for nodes that have not been measured yet
+export const DEFAULT_NODE_SIZE: NodeSize = { width: 260, height: 140 };
+
+// Space kept between neighbouring nodes
+const NODE_GAP = 40;
+// Space between the levels of the tree layouts
+const RANK_GAP = 80;
+
+// Timeline: one column, with expanded subtopics indented per level
+const TIMELINE_X = 400;
+const TIMELINE_INDENT = 360;
+
+/**
+ * Stacks nodes in document order in a single column; subtopics nested below
+ * the first subtopic level are indented to the right
+ */
+function layoutTimeline(
+  nodes: LayoutNode[],
+  getSize: (id: string) => NodeSize
+): Record<string, NodePosition> {
+  const positions: Record<string, NodePosition> = {};
+  let y = 50;
+
+  nodes.forEach(({ id, depth }) => {
+    positions[id] = {
+      x: TIMELINE_X + Math.max(0, depth - 2) * TIMELINE_INDENT,
+      y,
+    };
+    y += getSize(id).height + NODE_GAP;
+  });
+
+  return positions;
+}
+
+/**
+ * Lays the hierarchy out as a layered tree, top-down or left-to-right
+ */
+function layoutLayeredTree(
+  nodes: LayoutNode[],
+  getSize: (id: string) => NodeSize,
+  direction: "TB" | "LR"
+): Record<string, NodePosition> {
+  const graph = new dagre.graphlib.Graph();
+  graph.setGraph({ rankdir: direction, nodesep: NODE_GAP, ranksep: RANK_GAP });
+  graph.setDefaultEdgeLabel(() => ({}));
+
+  nodes.forEach(({ id }) => graph.setNode(id, { ...getSize(id) }));
+  nodes.forEach(({ id, parentId }) => {
+    if (parentId) graph.setEdge(parentId, id);
+  });
+
+  dagre.layout(graph);
+
+  // dagre positions node centres
+  return Object.fromEntries(
+    nodes.map(({ id }) => {
+      const { x, y, width, height } = graph.node(id);
+      return [id, { x: x - width / 2, y: y - height / 2 }];
+    })
+  );
+}
+
+/**
+ * Places the topic in the centre and each level on a ring around it
+ * Every leaf gets an equal angle and parents sit in the middle of their
+ * leaves; ring radii grow until neighbouring nodes can no longer overlap
+ */
+function layoutRadial(
+  nodes: LayoutNode[],
+  getSize: (id: string) => NodeSize
+): Record<string, NodePosition> {
+  const children = new Map<string, string[]>();
+  nodes.forEach(({ id, parentId }) => {
+    if (parentId)
+      children.set(parentId, [...(children.get(parentId) ?? []), id]);
+  });
+
+  // Angle range per node, in units of leaf slots
+  const leafCount = nodes.filter(({ id }) => !children.has(id)).length;
+  const slots = new Map<string, { start: number; end: number }>();
+  let nextSlot = 0;
+  const assignSlots = (id: string) => {
+    const start = nextSlot;
+    const nodeChildren = children.get(id) ?? [];
+    if (nodeChildren.length === 0) {
+      nextSlot += 1;
+    } else {
+      nodeChildren.forEach(assignSlots);
+    }
+    slots.set(id, { start, end: nextSlot });
+  };
+  nodes
+    .filter(({ parentId }) => !parentId)
+    .forEach(({ id }) => assignSlots(id));
+
+  const slotAngle = (2 * Math.PI) / Math.max(leafCount, 1);
+  const angles = new Map(
+    [...slots].map(([id, { start, end }]) => [
+      id,
+      ((start + end) / 2) * slotAngle - Math.PI / 2,
+    ])
+  );
+
+  // Each ring must clear the ring inside it, and be large enough for the
+  // chord between its two closest neighbours to fit its largest node
+  const maxDepth = Math.max(...nodes.map(({ depth }) => depth));
+  const extents: number[] = [];
+  const radii: number[] = [];
+  for (let depth = 0; depth <= maxDepth; depth++) {
+    const ring = nodes.filter((node) => node.depth === depth);
+    extents[depth] = Math.max(
+      0,
+      ...ring.map(({ id }) => {
+        const { width, height } = getSize(id);
+        return Math.hypot(width, height);
+      })
+    );
+    if (depth === 0) {
+      radii[depth] = 0;
+      continue;
+    }
+
+    const sorted = ring
+      .map(({ id }) => angles.get(id) ?? 0)
+      .sort((a, b) => a - b);
+    const closest = Math.min(
+      2 * Math.PI,
+      ...sorted.slice(1).map((angle, index) => angle - sorted[index]),
+      sorted[0] + 2 * Math.PI - sorted[sorted.length - 1]
+    );
+    const clearOfInnerRing =
+      radii[depth - 1] + (extents[depth - 1] + extents[depth]) / 2 + NODE_GAP;
+    const clearOfNeighbours =
+      sorted.length > 1
+        ? (extents[depth] + NODE_GAP) / (2 * Math.sin(closest / 2))
+        : 0;
+    radii[depth] = Math.max(clearOfInnerRing, clearOfNeighbours);
+  }
+
+  return Object.fromEntries(
+    nodes.map(({ id, depth }) => {
+      const angle = angles.get(id) ?? 0;
+      const { width, height } = getSize(id);
+      return [
+        id,
+        {
+          x: radii[depth] * Math.cos(angle) - width / 2,
+          y: radii[depth] * Math.sin(angle) - height / 2,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Computes node positions for a layout
+ * Nodes without a measured size use DEFAULT_NODE_SIZE
+ */
+export function layoutMapNodes(
+  nodes: LayoutNode[],
+  layout: MapLayout,
+  sizes: Record<string, NodeSize>
+): Record<string, NodePosition> {
+  const getSize = (id: string) => sizes[id] ?? DEFAULT_NODE_SIZE;
+
+  switch (layout) {
+    case "timeline":
+      return layoutTimeline(nodes, getSize);
+    case "tree":
+      return layoutLayeredTree(nodes, getSize, "TB");
+    case "left-right":
+      return layoutLayeredTree(nodes, getSize, "LR");
+    case "radial":
+      return layoutRadial(nodes, getSize);
+  }
+}
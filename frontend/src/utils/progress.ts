@@ -0,0 +1,79 @@
+/**
+ * Completion statistics for learning progress on a map
+ */
+import { type LearningMap, type ProgressStatus, type SubTopic } from "../types";
+
+export interface ProgressSummary {
+  done: number;
+  // Subtopics that count towards completion (skipped ones are excluded)
+  total: number;
+  percent: number;
+}
+
+export interface MapProgressSummary {
+  overall: ProgressSummary;
+  // Indexed like learningMap.branches
+  branches: ProgressSummary[];
+}
+
+/**
+ * Counts done and countable subtopics below a node, at any depth
+ */
+function countSubtopics(
+  subtopics: SubTopic[],
+  parentPath: string,
+  statuses: Record<string, ProgressStatus>
+): { done: number; total: number } {
+  return subtopics.reduce(
+    (counts, subtopic, index) => {
+      const path = `${parentPath}.${index}`;
+      const status = statuses[path];
+      const children = countSubtopics(subtopic.subtopics || [], path, statuses);
+
+      return {
+        done: counts.done + (status === "done" ? 1 : 0) + children.done,
+        total: counts.total + (status === "skipped" ? 0 : 1) + children.total,
+      };
+    },
+    { done: 0, total: 0 }
+  );
+}
+
+function toSummary({
+  done,
+  total,
+}: {
+  done: number;
+  total: number;
+}): ProgressSummary {
+  return {
+    done,
+    total,
+    percent: total > 0 ? Math.round((done / total) * 100) : 0,
+  };
+}
+
+/**
+ * Summarizes completion per branch and for the whole map
+ * Every subtopic counts once; skipped subtopics do not count
+ */
+export function summarizeMapProgress(
+  learningMap: LearningMap,
+  statuses: Record<string, ProgressStatus>
+): MapProgressSummary {
+  const branchCounts = learningMap.branches.map((branch, index) =>
+    countSubtopics(branch.subtopics, `${index}`, statuses)
+  );
+  const overall = branchCounts.reduce(
+    (sum, counts) => ({
+      done: sum.done + counts.done,
+      total: sum.total + counts.total,
+    }),
+    { done: 0, total: 0 }
+  );
+
+  return {
+    overall: toSummary(overall),
+    branches: branchCounts.map(toSummary),
+  };
+}
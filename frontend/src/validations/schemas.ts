@@ -29,12 +29,30 @@ export const topicSchema = z
     message: "Topic must be at least 3 characters long",
   });
 
+/**
+ * Comma-separated tags input, normalized to a lowercase list
+ */
+export const tagsSchema = z
+  .string()
+  .transform((val: string) =>
+    val
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter((tag) => tag.length > 0)
+  )
+  .pipe(
+    z
+      .array(z.string().max(40, "Each tag must be less than 40 characters"))
+      .max(10, "Use at most 10 tags")
+  );
+
 /**
  * Generate learning map request schema
  */
 export const generateMapRequestSchema = z.object({
   topic: topicSchema,
   level: learningLevelSchema,
+  tags: tagsSchema,
 });
 
 /**
@@ -42,6 +60,36 @@ export const generateMapRequestSchema = z.object({
  */
 export type GenerateMapRequestInput = z.infer<typeof generateMapRequestSchema>;
 
+/**
+ * Sign-in form schema
+ */
+export const loginSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .min(1, "Email is required")
+    .pipe(z.email("Enter a valid email address")),
+  password: z.string().min(1, "Password is required"),
+});
+
+/**
+ * Registration form schema (password rules match the backend)
+ */
+export const registerSchema = loginSchema.extend({
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be less than 128 characters"),
+  name: z
+    .string()
+    .trim()
+    .max(80, "Name must be less than 80 characters")
+    .transform((val: string) => val || undefined),
+});
+
+export type LoginInput = z.infer<typeof loginSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
+
 /**
  * Form validation schema (for client-side validation)
  */